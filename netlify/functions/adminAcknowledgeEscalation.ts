@@ -0,0 +1,42 @@
+import type { Handler, HandlerEvent } from '@netlify/functions';
+import { ALL_STAFF_ROLES, authorize, defaultAuthenticator, deniedResponse, type Authenticator } from './lib/auth';
+import { defaultStore, type DataStore } from './lib/data';
+import { withCors } from './lib/http';
+
+const headers = {
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Content-Type': 'application/json'
+};
+
+// Clears an emergency flag once a member of staff has followed it up; records who did
+export const createHandler = (
+    store: DataStore = defaultStore,
+    authenticator: Authenticator = defaultAuthenticator
+): Handler => async (event: HandlerEvent) => {
+    if (event.httpMethod === 'OPTIONS') {
+        return { statusCode: 200, headers, body: JSON.stringify({ message: 'CORS success' }) };
+    }
+
+    try {
+        const access = await authorize(event, authenticator, ALL_STAFF_ROLES);
+        if (access.status !== 'granted') return deniedResponse(access, headers);
+
+        const { escalationId } = JSON.parse(event.body || '{}');
+        if (!escalationId) {
+            return { statusCode: 400, headers, body: JSON.stringify({ success: false, message: "The escalation id is required." }) };
+        }
+
+        const acknowledged = await store.triage.acknowledge(Number(escalationId), access.staff.id);
+        if (!acknowledged) {
+            return { statusCode: 404, headers, body: JSON.stringify({ success: false, message: `No open escalation ${escalationId} found.` }) };
+        }
+
+        return { statusCode: 200, headers, body: JSON.stringify({ success: true, message: 'Escalation acknowledged.' }) };
+    } catch (error: any) {
+        console.error("Admin Acknowledge Error:", error.message);
+        return { statusCode: 500, headers, body: JSON.stringify({ success: false, message: error.message }) };
+    }
+};
+
+export const handler = withCors(createHandler());
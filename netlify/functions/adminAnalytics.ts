@@ -0,0 +1,83 @@
+import type { Handler, HandlerEvent } from '@netlify/functions';
+import { buildReport, MAX_REPORT_DAYS, reportSheets } from './lib/analytics';
+import { ALL_STAFF_ROLES, authorize, defaultAuthenticator, deniedResponse, type Authenticator } from './lib/auth';
+import { defaultStore, type DataStore } from './lib/data';
+import { addDays, daysBetween, hospitalNow, isCalendarDate } from './lib/dateTime';
+import { withCors } from './lib/http';
+import { toCsv, toXlsx } from './lib/spreadsheet';
+
+const headers = {
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+  'Access-Control-Allow-Methods': 'GET, OPTIONS',
+  'Content-Type': 'application/json'
+};
+
+// Without a range the report covers the 30 days up to the hospital's today
+const DEFAULT_REPORT_DAYS = 30;
+
+const XLSX_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+const isDate = (value: string) => /^\d{4}-\d{2}-\d{2}$/.test(value) && isCalendarDate(value);
+
+const badRequest = (message: string) =>
+    ({ statusCode: 400, headers, body: JSON.stringify({ success: false, message }) });
+
+const attachment = (name: string) => `attachment; filename="${name}"`;
+
+/**
+ * The scheduling report for visits from ?from= to ?to= (YYYY-MM-DD, inclusive):
+ * JSON for the dashboard's charts, or ?format=csv (one row per doctor per day)
+ * or ?format=xlsx (every breakdown, one sheet each). Doctors get their own figures only.
+ */
+export const createHandler = (
+    store: DataStore = defaultStore,
+    authenticator: Authenticator = defaultAuthenticator
+): Handler => async (event: HandlerEvent) => {
+    if (event.httpMethod === 'OPTIONS') {
+        return { statusCode: 200, headers, body: JSON.stringify({ message: 'CORS success' }) };
+    }
+
+    try {
+        const access = await authorize(event, authenticator, ALL_STAFF_ROLES);
+        if (access.status !== 'granted') return deniedResponse(access, headers);
+
+        const query = event.queryStringParameters || {};
+        const to = query.to || hospitalNow().date;
+        const from = query.from || addDays(to, 1 - DEFAULT_REPORT_DAYS);
+        const format = query.format || 'json';
+
+        if (!isDate(from) || !isDate(to)) return badRequest("from and to must be dates in YYYY-MM-DD form.");
+        if (from > to) return badRequest("from must not be after to.");
+        if (daysBetween(from, to) >= MAX_REPORT_DAYS) return badRequest(`A report covers at most ${MAX_REPORT_DAYS} days.`);
+        if (!['json', 'csv', 'xlsx'].includes(format)) return badRequest("format must be json, csv or xlsx.");
+
+        const doctorId = access.staff.role === 'doctor' ? access.staff.doctorId ?? -1 : undefined;
+        const report = await buildReport(store, { from, to, doctorId });
+        const fileName = `scheduling-${from}-to-${to}`;
+
+        if (format === 'csv') {
+            const detail = reportSheets(report).find(sheet => sheet.name === 'Detail')?.rows || [];
+            return {
+                statusCode: 200,
+                headers: { ...headers, 'Content-Type': 'text/csv; charset=utf-8', 'Content-Disposition': attachment(`${fileName}.csv`) },
+                body: toCsv(detail)
+            };
+        }
+
+        if (format === 'xlsx') {
+            return {
+                statusCode: 200,
+                headers: { ...headers, 'Content-Type': XLSX_TYPE, 'Content-Disposition': attachment(`${fileName}.xlsx`) },
+                body: toXlsx(reportSheets(report)).toString('base64'),
+                isBase64Encoded: true
+            };
+        }
+
+        return { statusCode: 200, headers, body: JSON.stringify({ success: true, report }) };
+    } catch (error: any) {
+        console.error("Admin Analytics Error:", error.message);
+        return { statusCode: 500, headers, body: JSON.stringify({ success: false, message: error.message }) };
+    }
+};
+
+export const handler = withCors(createHandler());
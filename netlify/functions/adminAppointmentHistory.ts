@@ -0,0 +1,58 @@
+import type { Handler, HandlerEvent } from '@netlify/functions';
+import { ALL_STAFF_ROLES, authorize, canSeeDoctor, defaultAuthenticator, deniedResponse, type Authenticator } from './lib/auth';
+import { defaultStore, type AppointmentSnapshot, type DataStore } from './lib/data';
+import { withCors } from './lib/http';
+
+const headers = {
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+  'Access-Control-Allow-Methods': 'GET, OPTIONS',
+  'Content-Type': 'application/json'
+};
+
+const toView = (snapshot: AppointmentSnapshot | null) => snapshot && {
+    patientName: snapshot.patient_name,
+    phone: snapshot.phone,
+    date: snapshot.appointment_date,
+    time: snapshot.appointment_time,
+    status: snapshot.status
+};
+
+// Audit trail of one appointment (?appointmentId=), oldest change first
+export const createHandler = (
+    store: DataStore = defaultStore,
+    authenticator: Authenticator = defaultAuthenticator
+): Handler => async (event: HandlerEvent) => {
+    if (event.httpMethod === 'OPTIONS') {
+        return { statusCode: 200, headers, body: JSON.stringify({ message: 'CORS success' }) };
+    }
+
+    try {
+        const access = await authorize(event, authenticator, ALL_STAFF_ROLES);
+        if (access.status !== 'granted') return deniedResponse(access, headers);
+
+        const appointmentId = Number(event.queryStringParameters?.appointmentId);
+        const appointment = appointmentId ? await store.appointments.findById(appointmentId) : null;
+
+        if (!appointment || !canSeeDoctor(access.staff, appointment.doctor_id)) {
+            return { statusCode: 404, headers, body: JSON.stringify({ success: false, message: "Appointment not found." }) };
+        }
+
+        const events = (await store.audit.listFor(appointment.id)).map(e => ({
+            action: e.action,
+            actorType: e.actor_type,
+            actorId: e.actor_id,
+            actorName: e.actor_name,
+            channel: e.channel,
+            before: toView(e.before),
+            after: toView(e.after),
+            createdAt: e.created_at
+        }));
+
+        return { statusCode: 200, headers, body: JSON.stringify({ success: true, appointmentId: appointment.id, events }) };
+    } catch (error: any) {
+        console.error("Admin History Error:", error.message);
+        return { statusCode: 500, headers, body: JSON.stringify({ success: false, message: error.message }) };
+    }
+};
+
+export const handler = withCors(createHandler());
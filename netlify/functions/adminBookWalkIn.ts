@@ -0,0 +1,77 @@
+import type { Handler, HandlerEvent } from '@netlify/functions';
+import { recordChange, staffActor } from './lib/audit';
+import { FRONT_DESK_ROLES, authorize, defaultAuthenticator, deniedResponse, type Authenticator } from './lib/auth';
+import { defaultStore, SlotTakenError, type DataStore } from './lib/data';
+import { hospitalNow, isCalendarDate } from './lib/dateTime';
+import { withCors } from './lib/http';
+import { normalizePhone } from './lib/phone';
+import { checkSlotOffered, invalidArgumentsResponse } from './lib/validation';
+
+const headers = {
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Content-Type': 'application/json'
+};
+
+// A patient who walked up to the desk: booked straight in as checked in, for today unless a date is given.
+// The slot must be one the doctor offers that day, though it may already have started.
+export const createHandler = (
+    store: DataStore = defaultStore,
+    authenticator: Authenticator = defaultAuthenticator
+): Handler => async (event: HandlerEvent) => {
+    if (event.httpMethod === 'OPTIONS') {
+        return { statusCode: 200, headers, body: JSON.stringify({ message: 'CORS success' }) };
+    }
+
+    try {
+        const access = await authorize(event, authenticator, FRONT_DESK_ROLES);
+        if (access.status !== 'granted') return deniedResponse(access, headers);
+
+        const today = hospitalNow().date;
+        const { doctorId, patientName, phone, time, date = today } = JSON.parse(event.body || '{}');
+        const normalizedPhone = normalizePhone(phone);
+        if (!patientName || !normalizedPhone) {
+            return { statusCode: 400, headers, body: JSON.stringify({ success: false, message: "Patient name and a valid 10-digit mobile number are required." }) };
+        }
+        if (!doctorId || !/^\d{2}:\d{2}$/.test(time || '')) {
+            return { statusCode: 400, headers, body: JSON.stringify({ success: false, message: "A doctor and a time (HH:MM) are required." }) };
+        }
+
+        if (typeof date !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(date) || !isCalendarDate(date)) {
+            return invalidArgumentsResponse({ code: 'INVALID_DATE', field: 'date', message: 'date must be a calendar date in YYYY-MM-DD form.' }, headers);
+        }
+        if (date < today) {
+            return invalidArgumentsResponse({ code: 'DATE_IN_PAST', field: 'date', message: `date ${date} is in the past; today is ${today}.` }, headers);
+        }
+
+        const doctor = await store.doctors.findById(Number(doctorId));
+        if (!doctor) {
+            return { statusCode: 404, headers, body: JSON.stringify({ success: false, code: 'DOCTOR_NOT_FOUND', message: `Doctor ${doctorId} not found.` }) };
+        }
+        const notOffered = await checkSlotOffered(store, doctor, { date, time }, { date: 'date', time: 'time' }, { includeStarted: true });
+        if (notOffered) return invalidArgumentsResponse(notOffered, headers);
+
+        const patient = await store.patients.findOrCreate(normalizedPhone, patientName);
+        const appointment = await store.appointments.create({
+            patient_id: patient.id,
+            patient_name: patient.name,
+            doctor_id: doctor.id,
+            appointment_date: date,
+            appointment_time: time,
+            phone: normalizedPhone,
+            status: 'checked_in',
+            session_id: null
+        });
+        await recordChange(store, staffActor(access.staff), null, appointment);
+
+        return { statusCode: 200, headers, body: JSON.stringify({ success: true, appointmentId: appointment.id, message: 'Walk-in booked and checked in.' }) };
+    } catch (error: any) {
+        if (error instanceof SlotTakenError) {
+            return { statusCode: 409, headers, body: JSON.stringify({ success: false, message: error.message }) };
+        }
+        console.error("Walk-in Booking Error:", error.message);
+        return { statusCode: 500, headers, body: JSON.stringify({ success: false, message: error.message }) };
+    }
+};
+
+export const handler = withCors(createHandler());
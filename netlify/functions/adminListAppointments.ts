@@ -0,0 +1,54 @@
+import type { Handler, HandlerEvent } from '@netlify/functions';
+import { ALL_STAFF_ROLES, authorize, defaultAuthenticator, deniedResponse, type Authenticator } from './lib/auth';
+import { defaultStore, type DataStore } from './lib/data';
+import { withCors } from './lib/http';
+import { hospitalNow } from './lib/dateTime';
+
+const headers = {
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+  'Access-Control-Allow-Methods': 'GET, OPTIONS',
+  'Content-Type': 'application/json'
+};
+
+// The dashboard's day view: every booking on ?date= (default today); doctors get their own schedule only
+export const createHandler = (
+    store: DataStore = defaultStore,
+    authenticator: Authenticator = defaultAuthenticator
+): Handler => async (event: HandlerEvent) => {
+    if (event.httpMethod === 'OPTIONS') {
+        return { statusCode: 200, headers, body: JSON.stringify({ message: 'CORS success' }) };
+    }
+
+    try {
+        const access = await authorize(event, authenticator, ALL_STAFF_ROLES);
+        if (access.status !== 'granted') return deniedResponse(access, headers);
+
+        // The dashboard opens on the hospital's today, whatever the browser's clock says
+        const today = hospitalNow().date;
+        const date = event.queryStringParameters?.date || today;
+        if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+            return { statusCode: 400, headers, body: JSON.stringify({ success: false, message: "The date must be YYYY-MM-DD." }) };
+        }
+
+        const doctorId = access.staff.role === 'doctor' ? access.staff.doctorId ?? -1 : undefined;
+        const appointments = (await store.appointments.listForDay(date, doctorId)).map(a => ({
+            id: a.id,
+            doctorId: a.doctor_id,
+            doctorName: a.doctor_name,
+            specialty: a.specialty,
+            patientName: a.patient_name,
+            phone: a.phone,
+            date: a.appointment_date,
+            time: a.appointment_time,
+            status: a.status,
+            sessionId: a.session_id
+        }));
+
+        return { statusCode: 200, headers, body: JSON.stringify({ success: true, date, today, appointments }) };
+    } catch (error: any) {
+        console.error("Admin Appointments Error:", error.message);
+        return { statusCode: 500, headers, body: JSON.stringify({ success: false, message: error.message }) };
+    }
+};
+
+export const handler = withCors(createHandler());
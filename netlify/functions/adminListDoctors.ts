@@ -0,0 +1,41 @@
+import type { Handler, HandlerEvent } from '@netlify/functions';
+import { ALL_STAFF_ROLES, authorize, defaultAuthenticator, deniedResponse, type Authenticator } from './lib/auth';
+import { doctorCalendarUrl } from './lib/calendar';
+import { defaultStore, type DataStore } from './lib/data';
+import { withCors } from './lib/http';
+
+const headers = {
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+  'Access-Control-Allow-Methods': 'GET, OPTIONS',
+  'Content-Type': 'application/json'
+};
+
+// The doctor and specialty catalogue: for the dashboard's filters and walk-in form, and for admins to edit.
+// Inactive doctors are included, flagged, since their past bookings still show.
+// Admins get every doctor's calendar feed link, a doctor only their own.
+export const createHandler = (
+    store: DataStore = defaultStore,
+    authenticator: Authenticator = defaultAuthenticator
+): Handler => async (event: HandlerEvent) => {
+    if (event.httpMethod === 'OPTIONS') {
+        return { statusCode: 200, headers, body: JSON.stringify({ message: 'CORS success' }) };
+    }
+
+    try {
+        const access = await authorize(event, authenticator, ALL_STAFF_ROLES);
+        if (access.status !== 'granted') return deniedResponse(access, headers);
+
+        const [doctors, specialties] = await Promise.all([store.doctors.search({ includeInactive: true }), store.specialties.list()]);
+        doctors.sort((a, b) => a.name.localeCompare(b.name));
+
+        const { staff } = access;
+        const seesFeed = (doctorId: number) => staff.role === 'admin' || (staff.role === 'doctor' && staff.doctorId === doctorId);
+        const listed = doctors.map(doctor => seesFeed(doctor.id) ? { ...doctor, calendarUrl: doctorCalendarUrl(doctor.id) } : doctor);
+
+        return { statusCode: 200, headers, body: JSON.stringify({ success: true, doctors: listed, specialties }) };
+    } catch (error: any) {
+        return { statusCode: 500, headers, body: JSON.stringify({ success: false, message: error.message }) };
+    }
+};
+
+export const handler = withCors(createHandler());
@@ -0,0 +1,40 @@
+import type { Handler, HandlerEvent } from '@netlify/functions';
+import { ALL_STAFF_ROLES, authorize, defaultAuthenticator, deniedResponse, type Authenticator } from './lib/auth';
+import { defaultStore, type DataStore } from './lib/data';
+import { withCors } from './lib/http';
+
+const headers = {
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+  'Access-Control-Allow-Methods': 'GET, OPTIONS',
+  'Content-Type': 'application/json'
+};
+
+// Conversations where the patient described emergency red flags and no one has followed up yet
+export const createHandler = (
+    store: DataStore = defaultStore,
+    authenticator: Authenticator = defaultAuthenticator
+): Handler => async (event: HandlerEvent) => {
+    if (event.httpMethod === 'OPTIONS') {
+        return { statusCode: 200, headers, body: JSON.stringify({ message: 'CORS success' }) };
+    }
+
+    try {
+        const access = await authorize(event, authenticator, ALL_STAFF_ROLES);
+        if (access.status !== 'granted') return deniedResponse(access, headers);
+
+        const escalations = (await store.triage.listOpenEscalations()).map(e => ({
+            id: e.id,
+            sessionId: e.session_id,
+            symptoms: e.symptoms,
+            redFlags: e.red_flags,
+            createdAt: e.created_at
+        }));
+
+        return { statusCode: 200, headers, body: JSON.stringify({ success: true, escalations }) };
+    } catch (error: any) {
+        console.error("Admin Escalations Error:", error.message);
+        return { statusCode: 500, headers, body: JSON.stringify({ success: false, message: error.message }) };
+    }
+};
+
+export const handler = withCors(createHandler());
@@ -0,0 +1,47 @@
+import type { Handler, HandlerEvent } from '@netlify/functions';
+import { ALL_STAFF_ROLES, authorize, defaultAuthenticator, deniedResponse, type Authenticator } from './lib/auth';
+import { defaultStore, type DataStore } from './lib/data';
+import { withCors } from './lib/http';
+
+const headers = {
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+  'Access-Control-Allow-Methods': 'GET, OPTIONS',
+  'Content-Type': 'application/json'
+};
+
+// Patients still waiting or holding an offer, first in line first; doctors see their own queue only
+export const createHandler = (
+    store: DataStore = defaultStore,
+    authenticator: Authenticator = defaultAuthenticator
+): Handler => async (event: HandlerEvent) => {
+    if (event.httpMethod === 'OPTIONS') {
+        return { statusCode: 200, headers, body: JSON.stringify({ message: 'CORS success' }) };
+    }
+
+    try {
+        const access = await authorize(event, authenticator, ALL_STAFF_ROLES);
+        if (access.status !== 'granted') return deniedResponse(access, headers);
+
+        const doctorId = access.staff.role === 'doctor' ? access.staff.doctorId ?? -1 : undefined;
+        const [entries, doctors] = await Promise.all([store.waitlist.listOpen(doctorId), store.doctors.search({ includeInactive: true })]);
+
+        const waitlist = entries.map(w => ({
+            id: w.id,
+            doctorName: doctors.find(d => d.id === w.doctor_id)?.name || '',
+            patientName: w.patient_name,
+            phone: w.phone,
+            fromDate: w.from_date,
+            toDate: w.to_date,
+            timeOfDay: w.time_of_day,
+            status: w.status,
+            offerExpiresAt: w.offer_expires_at
+        }));
+
+        return { statusCode: 200, headers, body: JSON.stringify({ success: true, waitlist }) };
+    } catch (error: any) {
+        console.error("Admin Waitlist Error:", error.message);
+        return { statusCode: 500, headers, body: JSON.stringify({ success: false, message: error.message }) };
+    }
+};
+
+export const handler = withCors(createHandler());
@@ -0,0 +1,63 @@
+import type { Handler, HandlerEvent } from '@netlify/functions';
+import { recordChange, staffActor } from './lib/audit';
+import { FRONT_DESK_ROLES, authorize, defaultAuthenticator, deniedResponse, type Authenticator } from './lib/auth';
+import { defaultStore, SlotTakenError, type DataStore } from './lib/data';
+import { withCors } from './lib/http';
+import { createNotifier, type Notifier } from './lib/notifications';
+import { createWaitlist, type Waitlist } from './lib/waitlist';
+
+const headers = {
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Content-Type': 'application/json'
+};
+
+// Front-desk reschedule, e.g. when a patient rings the hospital instead of the assistant
+export const createHandler = (
+    store: DataStore = defaultStore,
+    authenticator: Authenticator = defaultAuthenticator,
+    notifier: Notifier = createNotifier(store),
+    waitlist: Waitlist = createWaitlist(store, notifier)
+): Handler => async (event: HandlerEvent) => {
+    if (event.httpMethod === 'OPTIONS') {
+        return { statusCode: 200, headers, body: JSON.stringify({ message: 'CORS success' }) };
+    }
+
+    try {
+        const access = await authorize(event, authenticator, FRONT_DESK_ROLES);
+        if (access.status !== 'granted') return deniedResponse(access, headers);
+
+        const { appointmentId, newDate, newTime } = JSON.parse(event.body || '{}');
+        if (!appointmentId || !newDate || !newTime) {
+            return { statusCode: 400, headers, body: JSON.stringify({ success: false, message: "Missing required details for rescheduling." }) };
+        }
+
+        const appointment = await store.appointments.findById(Number(appointmentId));
+        if (!appointment || appointment.status !== 'confirmed') {
+            return { statusCode: 404, headers, body: JSON.stringify({ success: false, message: `No confirmed appointment ${appointmentId} found.` }) };
+        }
+
+        const updated = await store.appointments.rescheduleById(appointment.id, { date: newDate, time: newTime });
+        if (!updated) {
+            return { statusCode: 409, headers, body: JSON.stringify({ success: false, message: 'This appointment was changed by someone else. Please check again.' }) };
+        }
+
+        await recordChange(store, staffActor(access.staff), appointment, updated);
+        await notifier.notify('reschedule', updated.id);
+        await waitlist.offerFreedSlot({ doctorId: appointment.doctor_id, date: appointment.appointment_date, time: appointment.appointment_time });
+
+        return {
+            statusCode: 200,
+            headers,
+            body: JSON.stringify({ success: true, message: `The appointment has been successfully rescheduled to ${newDate} at ${newTime}.` })
+        };
+    } catch (error: any) {
+        if (error instanceof SlotTakenError) {
+            return { statusCode: 409, headers, body: JSON.stringify({ success: false, message: 'The new slot is already taken. Please pick another.' }) };
+        }
+        console.error("Admin Reschedule Error:", error.message);
+        return { statusCode: 500, headers, body: JSON.stringify({ success: false, message: error.message }) };
+    }
+};
+
+export const handler = withCors(createHandler());
@@ -0,0 +1,115 @@
+import type { Handler, HandlerEvent } from '@netlify/functions';
+import { ADMIN_ROLES, authorize, defaultAuthenticator, deniedResponse, type Authenticator } from './lib/auth';
+import { defaultStore, type DataStore, type NewDoctor } from './lib/data';
+import { withCors } from './lib/http';
+
+const headers = {
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Content-Type': 'application/json'
+};
+
+const TIME = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+const badRequest = (message: string) =>
+    ({ statusCode: 400, headers, body: JSON.stringify({ success: false, message }) });
+
+const isTextList = (value: unknown): value is string[] =>
+    Array.isArray(value) && value.every(item => typeof item === 'string');
+
+const cleanList = (items: string[]) => [...new Set(items.map(item => item.trim()).filter(Boolean))];
+
+// Only the fields present in the body change; absent ones keep their value
+const readChanges = (body: Record<string, any>): { changes: Partial<NewDoctor> } | { error: string } => {
+    const changes: Partial<NewDoctor> = {};
+    const has = (field: string) => body[field] !== undefined;
+
+    if (has('name')) {
+        if (typeof body.name !== 'string' || !body.name.trim()) return { error: "name must not be blank." };
+        changes.name = body.name.trim();
+    }
+    if (has('specialtyId')) {
+        if (!Number.isInteger(body.specialtyId)) return { error: "specialtyId must be a specialty's id." };
+        changes.specialty_id = body.specialtyId;
+    }
+    if (has('qualifications')) {
+        if (body.qualifications !== null && typeof body.qualifications !== 'string') return { error: "qualifications must be text." };
+        changes.qualifications = body.qualifications?.trim() || null;
+    }
+    if (has('languages')) {
+        if (!isTextList(body.languages)) return { error: "languages must be a list of language names." };
+        changes.languages = cleanList(body.languages);
+    }
+    if (has('consultationFee')) {
+        const fee = body.consultationFee;
+        if (fee !== null && !(Number.isInteger(fee) && fee >= 0)) return { error: "consultationFee must be a whole number of rupees, or null." };
+        changes.consultation_fee = fee;
+    }
+    if (has('availableSlots')) {
+        if (!isTextList(body.availableSlots) || !body.availableSlots.every(slot => TIME.test(slot.trim()))) {
+            return { error: "availableSlots must be a list of 24-hour HH:MM times." };
+        }
+        changes.available_slots = cleanList(body.availableSlots).sort();
+    }
+    if (has('active')) {
+        if (typeof body.active !== 'boolean') return { error: "active must be true or false." };
+        changes.active = body.active;
+    }
+
+    return { changes };
+};
+
+/**
+ * Adds a doctor, or with doctorId edits one. Doctors are never deleted: setting
+ * active to false hides them from patients while their bookings stay on record.
+ */
+export const createHandler = (
+    store: DataStore = defaultStore,
+    authenticator: Authenticator = defaultAuthenticator
+): Handler => async (event: HandlerEvent) => {
+    if (event.httpMethod === 'OPTIONS') {
+        return { statusCode: 200, headers, body: JSON.stringify({ message: 'CORS success' }) };
+    }
+
+    try {
+        const access = await authorize(event, authenticator, ADMIN_ROLES);
+        if (access.status !== 'granted') return deniedResponse(access, headers);
+
+        const body = JSON.parse(event.body || '{}');
+        const read = readChanges(body);
+        if ('error' in read) return badRequest(read.error);
+        const { changes } = read;
+
+        if (changes.specialty_id !== undefined && !(await store.specialties.findById(changes.specialty_id))) {
+            return badRequest(`There is no specialty ${changes.specialty_id}.`);
+        }
+
+        if (body.doctorId === undefined) {
+            const { name, specialty_id } = changes;
+            if (!name || specialty_id === undefined) return badRequest("A new doctor needs a name and a specialtyId.");
+
+            const doctor = await store.doctors.create({
+                name,
+                specialty_id,
+                qualifications: changes.qualifications ?? null,
+                languages: changes.languages ?? [],
+                consultation_fee: changes.consultation_fee ?? null,
+                available_slots: changes.available_slots ?? [],
+                active: changes.active ?? true
+            });
+            return { statusCode: 200, headers, body: JSON.stringify({ success: true, doctor, message: 'Doctor added.' }) };
+        }
+
+        const doctor = await store.doctors.update(Number(body.doctorId), changes);
+        if (!doctor) {
+            return { statusCode: 404, headers, body: JSON.stringify({ success: false, message: `Doctor ${body.doctorId} not found.` }) };
+        }
+
+        return { statusCode: 200, headers, body: JSON.stringify({ success: true, doctor, message: 'Doctor updated.' }) };
+    } catch (error: any) {
+        console.error("Save Doctor Error:", error.message);
+        return { statusCode: 500, headers, body: JSON.stringify({ success: false, message: error.message }) };
+    }
+};
+
+export const handler = withCors(createHandler());
@@ -0,0 +1,84 @@
+import type { Handler, HandlerEvent } from '@netlify/functions';
+import { ADMIN_ROLES, authorize, defaultAuthenticator, deniedResponse, type Authenticator } from './lib/auth';
+import { defaultStore, DuplicateSpecialtyError, type DataStore, type NewSpecialty } from './lib/data';
+import { withCors } from './lib/http';
+
+const headers = {
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Content-Type': 'application/json'
+};
+
+const badRequest = (message: string) =>
+    ({ statusCode: 400, headers, body: JSON.stringify({ success: false, message }) });
+
+// Only the fields present in the body change; absent ones keep their value
+const readChanges = (body: Record<string, any>): { changes: Partial<NewSpecialty> } | { error: string } => {
+    const changes: Partial<NewSpecialty> = {};
+
+    if (body.nameEn !== undefined) {
+        if (typeof body.nameEn !== 'string' || !body.nameEn.trim()) return { error: "nameEn must not be blank." };
+        changes.name_en = body.nameEn.trim();
+    }
+    if (body.nameTe !== undefined) {
+        if (body.nameTe !== null && typeof body.nameTe !== 'string') return { error: "nameTe must be text." };
+        changes.name_te = body.nameTe?.trim() || null;
+    }
+    if (body.synonyms !== undefined) {
+        if (!Array.isArray(body.synonyms) || !body.synonyms.every((word: unknown) => typeof word === 'string')) {
+            return { error: "synonyms must be a list of words." };
+        }
+        changes.synonyms = [...new Set((body.synonyms as string[]).map(word => word.trim()).filter(Boolean))];
+    }
+
+    return { changes };
+};
+
+/**
+ * Adds a specialty, or with specialtyId edits one. Renaming it renames it on
+ * its doctors; the synonyms are the everyday words the assistant matches too.
+ */
+export const createHandler = (
+    store: DataStore = defaultStore,
+    authenticator: Authenticator = defaultAuthenticator
+): Handler => async (event: HandlerEvent) => {
+    if (event.httpMethod === 'OPTIONS') {
+        return { statusCode: 200, headers, body: JSON.stringify({ message: 'CORS success' }) };
+    }
+
+    try {
+        const access = await authorize(event, authenticator, ADMIN_ROLES);
+        if (access.status !== 'granted') return deniedResponse(access, headers);
+
+        const body = JSON.parse(event.body || '{}');
+        const read = readChanges(body);
+        if ('error' in read) return badRequest(read.error);
+        const { changes } = read;
+
+        if (body.specialtyId === undefined) {
+            if (!changes.name_en) return badRequest("A new specialty needs an English name (nameEn).");
+
+            const specialty = await store.specialties.create({
+                name_en: changes.name_en,
+                name_te: changes.name_te ?? null,
+                synonyms: changes.synonyms ?? []
+            });
+            return { statusCode: 200, headers, body: JSON.stringify({ success: true, specialty, message: 'Specialty added.' }) };
+        }
+
+        const specialty = await store.specialties.update(Number(body.specialtyId), changes);
+        if (!specialty) {
+            return { statusCode: 404, headers, body: JSON.stringify({ success: false, message: `Specialty ${body.specialtyId} not found.` }) };
+        }
+
+        return { statusCode: 200, headers, body: JSON.stringify({ success: true, specialty, message: 'Specialty updated.' }) };
+    } catch (error: any) {
+        if (error instanceof DuplicateSpecialtyError) {
+            return { statusCode: 409, headers, body: JSON.stringify({ success: false, message: error.message }) };
+        }
+        console.error("Save Specialty Error:", error.message);
+        return { statusCode: 500, headers, body: JSON.stringify({ success: false, message: error.message }) };
+    }
+};
+
+export const handler = withCors(createHandler());
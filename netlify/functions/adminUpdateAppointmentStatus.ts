@@ -0,0 +1,73 @@
+import type { Handler, HandlerEvent } from '@netlify/functions';
+import { recordChange, staffActor } from './lib/audit';
+import { ALL_STAFF_ROLES, authorize, canSeeDoctor, defaultAuthenticator, deniedResponse, type Authenticator } from './lib/auth';
+import { defaultStore, type AppointmentStatus, type DataStore } from './lib/data';
+import { withCors } from './lib/http';
+import { createWaitlist, type Waitlist } from './lib/waitlist';
+
+const headers = {
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Content-Type': 'application/json'
+};
+
+// The status each front-desk action moves a booking from
+const ALLOWED_FROM: Partial<Record<AppointmentStatus, AppointmentStatus>> = {
+    checked_in: 'confirmed',
+    completed: 'checked_in',
+    no_show: 'confirmed',
+};
+
+// Check-in, completion and no-show, as the patient moves through the front desk; doctors may update their own patients
+export const createHandler = (
+    store: DataStore = defaultStore,
+    authenticator: Authenticator = defaultAuthenticator,
+    waitlist: Waitlist = createWaitlist(store)
+): Handler => async (event: HandlerEvent) => {
+    if (event.httpMethod === 'OPTIONS') {
+        return { statusCode: 200, headers, body: JSON.stringify({ message: 'CORS success' }) };
+    }
+
+    try {
+        const access = await authorize(event, authenticator, ALL_STAFF_ROLES);
+        if (access.status !== 'granted') return deniedResponse(access, headers);
+
+        const { appointmentId, status } = JSON.parse(event.body || '{}');
+        const from = ALLOWED_FROM[status as AppointmentStatus];
+        if (!appointmentId || !from) {
+            return {
+                statusCode: 400,
+                headers,
+                body: JSON.stringify({ success: false, message: `The appointment id and a status of ${Object.keys(ALLOWED_FROM).join(', ')} are required.` })
+            };
+        }
+
+        const appointment = await store.appointments.findById(Number(appointmentId));
+        if (!appointment || !canSeeDoctor(access.staff, appointment.doctor_id)) {
+            return { statusCode: 404, headers, body: JSON.stringify({ success: false, message: `Appointment ${appointmentId} not found.` }) };
+        }
+
+        const updated = await store.appointments.transition(appointment.id, from, status);
+        if (!updated) {
+            return {
+                statusCode: 409,
+                headers,
+                body: JSON.stringify({ success: false, message: `Only a ${from} appointment can be marked ${status}; this one is ${appointment.status}.` })
+            };
+        }
+
+        await recordChange(store, staffActor(access.staff), appointment, updated);
+
+        // A no-show leaves the slot free for the next patient waiting for it
+        if (status === 'no_show') {
+            await waitlist.offerFreedSlot({ doctorId: appointment.doctor_id, date: appointment.appointment_date, time: appointment.appointment_time });
+        }
+
+        return { statusCode: 200, headers, body: JSON.stringify({ success: true, status: updated.status, message: `Appointment marked ${status}.` }) };
+    } catch (error: any) {
+        console.error("Admin Status Error:", error.message);
+        return { statusCode: 500, headers, body: JSON.stringify({ success: false, message: error.message }) };
+    }
+};
+
+export const handler = withCors(createHandler());
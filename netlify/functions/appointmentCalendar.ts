@@ -0,0 +1,46 @@
+import type { Handler, HandlerEvent } from '@netlify/functions';
+import { isSignedCalendar, patientEvent, toICalendar, visitMinutes } from './lib/calendar';
+import { defaultStore, type DataStore } from './lib/data';
+
+/**
+ * The patient's .ics for ?appointment=, opened from the signed link the booking
+ * tools return. After a reschedule or cancellation the same link gives the
+ * updated or cancelled event, with a higher SEQUENCE so calendar apps apply it.
+ */
+export const createHandler = (store: DataStore = defaultStore): Handler => async (event: HandlerEvent) => {
+    const { appointment: id, token } = event.queryStringParameters || {};
+    const appointmentId = Number(id);
+    if (!Number.isInteger(appointmentId) || !isSignedCalendar(`appointment:${appointmentId}`, token)) {
+        return { statusCode: 403, body: '' };
+    }
+
+    try {
+        const [appointment, summary, history] = await Promise.all([
+            store.appointments.findById(appointmentId),
+            store.appointments.findSummaryById(appointmentId),
+            store.audit.listFor(appointmentId),
+        ]);
+        // A hold nobody confirmed was never the patient's appointment
+        if (!appointment || !summary || appointment.status === 'held' || appointment.status === 'expired') {
+            return { statusCode: 404, body: '' };
+        }
+
+        const sessions = await store.schedules.weeklyFor(appointment.doctor_id);
+        const minutes = visitMinutes(sessions, summary.appointment_date, summary.appointment_time);
+
+        return {
+            statusCode: 200,
+            headers: {
+                'Content-Type': 'text/calendar; charset=utf-8',
+                'Content-Disposition': `attachment; filename="appointment-${appointmentId}.ics"`,
+                'Cache-Control': 'no-cache'
+            },
+            body: toICalendar([patientEvent(summary, history, appointment.status === 'cancelled', minutes)])
+        };
+    } catch (error: any) {
+        console.error("Appointment Calendar Error:", error.message);
+        return { statusCode: 500, body: '' };
+    }
+};
+
+export const handler = createHandler();
@@ -1,15 +1,53 @@
-import { supabase } from './lib/supabaseClient';
 import type { Handler, HandlerEvent } from '@netlify/functions';
+import { actorFromEvent, recordChange } from './lib/audit';
+import { appointmentCalendarUrl } from './lib/calendar';
+import { defaultStore, SlotTakenError, type Appointment, type DataStore } from './lib/data';
+import { resolveDoctor, unresolvedDoctorResponse } from './lib/doctorResolver';
+import { internalOnly } from './lib/http';
+import { createNotifier, type Notifier } from './lib/notifications';
+import { sessionIdFrom } from './lib/sessions';
+import { checkSlotOffered, invalidArgumentsResponse, validateArgs, type ValidationError } from './lib/validation';
 
 // 1. The Permission Slip (CORS Headers)
 const headers = {
-  'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'Content-Type, Authorization',
   'Access-Control-Allow-Methods': 'POST, OPTIONS',
   'Content-Type': 'application/json'
 };
 
-export const handler: Handler = async (event: HandlerEvent) => {
+const expiredHoldResponse = () => ({ 
+    statusCode: 410, 
+    headers, 
+    body: JSON.stringify({ success: false, message: 'The hold has expired. Please check the slots again.' }) 
+});
+
+const isLiveHold = (hold: Appointment | null): hold is Appointment =>
+    hold?.status === 'held' && !!hold.hold_expires_at && new Date(hold.hold_expires_at) > new Date();
+
+// The assistant may repeat the slot alongside the holdId; it must be the slot that was held
+const heldSlotMismatch = async (
+    store: DataStore,
+    hold: Appointment,
+    slot: { doctorName?: string; date?: string; time?: string }
+): Promise<ValidationError | null> => {
+    if (slot.doctorName) {
+        const resolution = await resolveDoctor(store, slot.doctorName);
+        const candidates = resolution.status === 'found' ? [resolution.doctor]
+            : resolution.status === 'ambiguous' ? resolution.candidates : [];
+        if (!candidates.some(doctor => doctor.id === hold.doctor_id)) {
+            return { code: 'SLOT_NOT_OFFERED', field: 'doctorName', message: `Hold ${hold.id} is not with ${slot.doctorName}.` };
+        }
+    }
+    if (slot.date && slot.date !== hold.appointment_date) {
+        return { code: 'SLOT_NOT_OFFERED', field: 'date', message: `Hold ${hold.id} is on ${hold.appointment_date}, not ${slot.date}.` };
+    }
+    if (slot.time && slot.time !== hold.appointment_time) {
+        return { code: 'SLOT_NOT_OFFERED', field: 'time', message: `Hold ${hold.id} is at ${hold.appointment_time}, not ${slot.time}.` };
+    }
+    return null;
+};
+
+export const createHandler = (store: DataStore = defaultStore, notifier: Notifier = createNotifier(store)): Handler => async (event: HandlerEvent) => {
     // 2. Handle the "Security Pre-Check" (OPTIONS)
     if (event.httpMethod === 'OPTIONS') {
         return { 
@@ -20,62 +58,94 @@ export const handler: Handler = async (event: HandlerEvent) => {
     }
 
     try {
-        const { doctorName, patientName, date, time, phone } = JSON.parse(event.body || '{}');
+        // 3. Every booking belongs to a patient record keyed by the normalised phone number
+        const validation = validateArgs('bookAppointment', JSON.parse(event.body || '{}'));
+        if (validation.status === 'invalid') {
+            return invalidArgumentsResponse(validation.error, headers);
+        }
+        const { doctorName, patientName, date, time, phone: normalizedPhone, holdId } = validation.args;
+
+        // 4. Confirm a slot previously reserved with holdSlot
+        if (holdId) {
+            const hold = await store.appointments.findById(holdId);
+            if (!isLiveHold(hold)) {
+                return expiredHoldResponse();
+            }
 
-        // 3. Find the Doctor ID
-        const { data: doctorData, error: doctorError } = await supabase
-            .from('doctors')
-            .select('id')
-            .ilike('name', `%${doctorName}%`)
-            .single();
+            const mismatch = await heldSlotMismatch(store, hold, { doctorName, date, time });
+            if (mismatch) {
+                return invalidArgumentsResponse(mismatch, headers);
+            }
+
+            const patient = await store.patients.findOrCreate(normalizedPhone, patientName);
+            const confirmed = await store.appointments.confirmHold(holdId, {
+                patient_id: patient.id,
+                patient_name: patient.name,
+                phone: normalizedPhone,
+                session_id: sessionIdFrom(event)
+            });
+            if (!confirmed) {
+                return expiredHoldResponse();
+            }
+
+            await recordChange(store, await actorFromEvent(store, event), hold, confirmed);
+            await notifier.notify('confirmation', confirmed.id);
 
-        if (doctorError || !doctorData) {
             return { 
-                statusCode: 404, 
+                statusCode: 200, 
                 headers, 
-                body: JSON.stringify({ success: false, message: `Doctor ${doctorName} not found.` }) 
+                body: JSON.stringify({ success: true, appointmentId: confirmed.id, calendarUrl: appointmentCalendarUrl(confirmed.id), message: 'Appointment booked successfully!' }) 
             };
         }
 
-        // 4. Check if the slot is already taken (Double-booking prevention)
-        const { data: existing } = await supabase
-            .from('appointments')
-            .select('id')
-            .eq('doctor_id', doctorData.id)
-            .eq('appointment_date', date)
-            .eq('appointment_time', time)
-            .eq('status', 'confirmed')
-            .maybeSingle();
-
-        if (existing) {
-            return { 
-                statusCode: 409, 
-                headers, 
-                body: JSON.stringify({ success: false, message: 'This slot was just booked. Please pick another.' }) 
-            };
+        // validateArgs requires all three when there is no hold
+        if (!doctorName || !date || !time) {
+            throw new Error('Booking without a hold needs doctorName, date and time.');
         }
 
-        // 5. Insert the appointment
-        const { error: insertError } = await supabase
-            .from('appointments')
-            .insert({
-                patient_name: patientName,
-                doctor_id: doctorData.id,
-                appointment_date: date,
-                appointment_time: time,
-                phone: phone,
-                status: 'confirmed'
-            });
+        // 5. Find the Doctor ID
+        const resolution = await resolveDoctor(store, doctorName);
+
+        if (resolution.status !== 'found') {
+            return unresolvedDoctorResponse(doctorName, resolution, headers);
+        }
+        const doctorData = resolution.doctor;
+
+        const notOffered = await checkSlotOffered(store, doctorData, { date, time });
+        if (notOffered) {
+            return invalidArgumentsResponse(notOffered, headers);
+        }
+
+        // 6. Insert the appointment; the one-active-row-per-slot index rejects double bookings atomically
+        const patient = await store.patients.findOrCreate(normalizedPhone, patientName);
+        const appointment = await store.appointments.create({
+            patient_id: patient.id,
+            patient_name: patient.name,
+            doctor_id: doctorData.id,
+            appointment_date: date,
+            appointment_time: time,
+            phone: normalizedPhone,
+            status: 'confirmed',
+            session_id: sessionIdFrom(event)
+        });
 
-        if (insertError) throw insertError;
+        await recordChange(store, await actorFromEvent(store, event), null, appointment);
+        await notifier.notify('confirmation', appointment.id);
 
         return { 
             statusCode: 200, 
             headers, 
-            body: JSON.stringify({ success: true, message: 'Appointment booked successfully!' }) 
+            body: JSON.stringify({ success: true, appointmentId: appointment.id, calendarUrl: appointmentCalendarUrl(appointment.id), message: 'Appointment booked successfully!' }) 
         };
 
     } catch (error: any) {
+        if (error instanceof SlotTakenError) {
+            return { 
+                statusCode: 409, 
+                headers, 
+                body: JSON.stringify({ success: false, message: error.message }) 
+            };
+        }
         console.error("Booking Tool Error:", error);
         return { 
             statusCode: 500, 
@@ -83,4 +153,7 @@ export const handler: Handler = async (event: HandlerEvent) => {
             body: JSON.stringify({ success: false, message: error.message }) 
         };
     }
-};
\ No newline at end of file
+};
+
+// Called in-process by the assistant; over HTTP only with the internal key
+export const handler = internalOnly(createHandler());
\ No newline at end of file
@@ -1,15 +1,25 @@
-import { supabase } from './lib/supabaseClient';
 import type { Handler, HandlerEvent } from '@netlify/functions';
+import { actorFromEvent, recordChange } from './lib/audit';
+import { appointmentCalendarUrl } from './lib/calendar';
+import { defaultStore, type DataStore } from './lib/data';
+import { internalOnly } from './lib/http';
+import { createNotifier, type Notifier } from './lib/notifications';
+import { normalizePhone } from './lib/phone';
+import { invalidArgumentsResponse, validateArgs } from './lib/validation';
+import { createWaitlist, type Waitlist } from './lib/waitlist';
 
 // 1. The Permission Slip (CORS Headers)
 const headers = {
-  'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'Content-Type, Authorization',
   'Access-Control-Allow-Methods': 'POST, OPTIONS',
   'Content-Type': 'application/json'
 };
 
-export const handler: Handler = async (event: HandlerEvent) => {
+export const createHandler = (
+    store: DataStore = defaultStore,
+    notifier: Notifier = createNotifier(store),
+    waitlist: Waitlist = createWaitlist(store, notifier)
+): Handler => async (event: HandlerEvent) => {
     // 2. Handle the "Security Pre-Check" (OPTIONS)
     if (event.httpMethod === 'OPTIONS') {
         return { 
@@ -21,59 +31,49 @@ export const handler: Handler = async (event: HandlerEvent) => {
 
     try {
         // 3. Parse and Validate Request
-        const { doctorName, patientName, date } = JSON.parse(event.body || '{}');
-        
-        if (!doctorName || !patientName || !date) {
-            return { 
-                statusCode: 400, 
-                headers, 
-                body: JSON.stringify({ success: false, error: "Missing details required for cancellation." }) 
-            };
+        // appointmentId comes from getPatientAppointments; the phone proves the caller owns it
+        const validation = validateArgs('cancelAppointment', JSON.parse(event.body || '{}'));
+        if (validation.status === 'invalid') {
+            return invalidArgumentsResponse(validation.error, headers);
         }
+        const { appointmentId, phone: normalizedPhone } = validation.args;
 
-        // 4. Find Doctor ID
-        const { data: doctorData, error: doctorError } = await supabase
-            .from('doctors')
-            .select('id')
-            .ilike('name', `%${doctorName}%`)
-            .single();
+        // 4. Find the caller's appointment
+        const appointment = await store.appointments.findById(appointmentId);
 
-        if (doctorError || !doctorData) {
-            return { 
-                statusCode: 404, 
-                headers, 
-                body: JSON.stringify({ success: false, message: `Could not find a doctor named ${doctorName}.` }) 
+        if (!appointment || normalizePhone(appointment.phone) !== normalizedPhone || appointment.status !== 'confirmed') {
+            return {
+                statusCode: 404,
+                headers,
+                body: JSON.stringify({ 
+                    success: false, 
+                    message: `No confirmed appointment ${appointmentId} found for this phone number.` 
+                })
             };
         }
 
         // 5. Update Appointment Status (Soft-cancel)
-        const { data: updatedData, error } = await supabase
-            .from('appointments')
-            .update({ status: 'cancelled' })
-            .eq('doctor_id', doctorData.id)
-            .ilike('patient_name', `%${patientName}%`)
-            .eq('appointment_date', date)
-            .eq('status', 'confirmed') // Only cancel confirmed appointments
-            .select();
-
-        if (error) throw error;
+        const cancelled = await store.appointments.cancelById(appointment.id);
 
-        // 6. Check if an actual row was updated
-        if (!updatedData || updatedData.length === 0) {
+        // 6. Check if the row was still confirmed when we updated it
+        if (!cancelled) {
             return {
-                statusCode: 404,
+                statusCode: 409,
                 headers,
-                body: JSON.stringify({ 
-                    success: false, 
-                    message: `No confirmed appointment found for ${patientName} on ${date} with ${doctorName}.` 
-                })
+                body: JSON.stringify({ success: false, message: 'This appointment was changed by someone else. Please check again.' })
             };
         }
 
+        await recordChange(store, await actorFromEvent(store, event), appointment, cancelled);
+        await notifier.notify('cancellation', cancelled.id);
+
+        // The old slot is free now; the first patient waiting for it gets an offer
+        await waitlist.offerFreedSlot({ doctorId: appointment.doctor_id, date: appointment.appointment_date, time: appointment.appointment_time });
+
         return { 
             statusCode: 200, 
             headers, 
-            body: JSON.stringify({ success: true, message: 'Appointment successfully cancelled.' }) 
+            body: JSON.stringify({ success: true, calendarUrl: appointmentCalendarUrl(cancelled.id), message: 'Appointment successfully cancelled.' }) 
         };
 
     } catch (error: any) {
@@ -84,4 +84,7 @@ export const handler: Handler = async (event: HandlerEvent) => {
             body: JSON.stringify({ success: false, message: error.message }) 
         };
     }
-};
\ No newline at end of file
+};
+
+// Called in-process by the assistant; over HTTP only with the internal key
+export const handler = internalOnly(createHandler());
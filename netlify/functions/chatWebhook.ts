@@ -0,0 +1,45 @@
+import type { Handler, HandlerEvent } from '@netlify/functions';
+import { answerChat, chatProviderFromEnv, type ChatProvider, type OutgoingChat } from './lib/chat';
+import { defaultStore, type DataStore } from './lib/data';
+
+const headers = {
+  'Content-Type': 'application/json'
+};
+
+/**
+ * Inbound messages from the chat provider (CHAT_PROVIDER). Replies are sent
+ * through the provider and also returned, for generic webhooks that read them
+ * from the response. `provider` defaults to CHAT_PROVIDER, resolved on first use.
+ */
+export const createHandler = (store: DataStore = defaultStore, provider?: ChatProvider): Handler => {
+    let resolved = provider;
+
+    return async (event: HandlerEvent) => {
+        try {
+            resolved ??= chatProviderFromEnv();
+        } catch (error: any) {
+            console.error("Chat Provider Error:", error.message);
+            return { statusCode: 500, headers, body: JSON.stringify({ success: false, message: error.message }) };
+        }
+
+        if (event.httpMethod === 'GET' && resolved.verifySubscription) {
+            return resolved.verifySubscription(event);
+        }
+        if (event.httpMethod !== 'POST') {
+            return { statusCode: 405, headers, body: JSON.stringify({ success: false, message: "Method Not Allowed" }) };
+        }
+        if (!resolved.isAuthentic(event)) {
+            return { statusCode: 403, headers, body: JSON.stringify({ success: false, message: "Unrecognised sender." }) };
+        }
+
+        const replies: OutgoingChat[] = [];
+        for (const inbound of resolved.parseInbound(event)) {
+            const reply = await answerChat(store, resolved, inbound);
+            if (reply) replies.push(reply);
+        }
+
+        return { statusCode: 200, headers, body: JSON.stringify({ success: true, replies }) };
+    };
+};
+
+export const handler = createHandler();
@@ -0,0 +1,49 @@
+import type { Handler, HandlerEvent } from '@netlify/functions';
+import { doctorEvent, isSignedCalendar, toICalendar, visitMinutes } from './lib/calendar';
+import { defaultStore, type DataStore } from './lib/data';
+import { addDays, hospitalNow } from './lib/dateTime';
+
+// The feed covers recent weeks for reference and the months ahead that are open for booking
+const FEED_DAYS_BEHIND = 30;
+const FEED_DAYS_AHEAD = 180;
+
+/**
+ * A doctor's iCal subscription feed for ?doctor=, behind the ?token= their link
+ * was signed with. Calendar apps poll it, so changes show up on the next refresh;
+ * cancelled visits stay in it, marked cancelled.
+ */
+export const createHandler = (store: DataStore = defaultStore): Handler => async (event: HandlerEvent) => {
+    const { doctor: id, token } = event.queryStringParameters || {};
+    const doctorId = Number(id);
+    if (!Number.isInteger(doctorId) || !isSignedCalendar(`doctor:${doctorId}`, token)) {
+        return { statusCode: 403, body: '' };
+    }
+
+    try {
+        const doctor = await store.doctors.findById(doctorId);
+        if (!doctor) return { statusCode: 404, body: '' };
+
+        const today = hospitalNow().date;
+        const [appointments, sessions] = await Promise.all([
+            store.appointments.listBetween(addDays(today, -FEED_DAYS_BEHIND), addDays(today, FEED_DAYS_AHEAD), doctorId),
+            store.schedules.weeklyFor(doctorId),
+        ]);
+        const history = await store.audit.listForAppointments(appointments.map(a => a.id));
+        const events = appointments.map(a => doctorEvent(
+            a,
+            history.filter(change => change.appointment_id === a.id),
+            visitMinutes(sessions, a.appointment_date, a.appointment_time)
+        ));
+
+        return {
+            statusCode: 200,
+            headers: { 'Content-Type': 'text/calendar; charset=utf-8', 'Cache-Control': 'no-cache' },
+            body: toICalendar(events, { name: `${doctor.name} - Prudence Hospitals` })
+        };
+    } catch (error: any) {
+        console.error("Doctor Calendar Error:", error.message);
+        return { statusCode: 500, body: '' };
+    }
+};
+
+export const handler = createHandler();
@@ -1,25 +1,91 @@
-import { GoogleGenerativeAI } from '@google/generative-ai';
-import type { Handler, HandlerEvent } from '@netlify/functions';
+import { stream, type HandlerEvent, type StreamingHandler } from '@netlify/functions';
+import { PassThrough } from 'node:stream';
+import { runAssistant } from './lib/assistant';
+import { calendarUrlsIn } from './lib/calendar';
+import { defaultStore, type ConversationTurn, type DataStore } from './lib/data';
+import { withCors } from './lib/http';
+import type { Language } from './lib/i18n';
+import { resumeSession, settleLanguage } from './lib/sessions';
+import { createSentenceSplitter, synthesizeSpeech, voiceFor } from './lib/speech';
 
 // 1. The Permission Slip (CORS Headers)
 const headers = {
-  'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'Content-Type, Authorization',
   'Access-Control-Allow-Methods': 'POST, OPTIONS',
   'Content-Type': 'application/json'
 };
 
-const getFormattedDate = (date: Date): string => {
-    return date.toISOString().split('T')[0]; // Returns YYYY-MM-DD
-}
+const streamHeaders = {
+  ...headers,
+  'Content-Type': 'text/event-stream',
+  'Cache-Control': 'no-cache'
+};
+
+// Clients opt into Server-Sent Events; everyone else gets the one-shot JSON reply
+const wantsStream = (event: HandlerEvent) => (event.headers.accept || '').includes('text/event-stream');
+
+/**
+ * Streams one reply as Server-Sent Events:
+ *   session -> { sessionId, language }            first, so the client can store it and switch language
+ *   text    -> { text }                           each piece of the reply as it is generated
+ *   audio   -> { index, text, audioContent, mimeType }   speech for each finished sentence, in order
+ *   done    -> { reply, sessionId, calendarUrls }   after the exchange is saved; calendarUrls are .ics links from bookings made
+ *   error   -> { error }
+ */
+const streamReply = (store: DataStore, sessionId: string, language: Language, turns: ConversationTurn[], message: string): PassThrough => {
+    const body = new PassThrough();
+    const send = (event: string, data: object) => body.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+
+    // Sentences are synthesised in parallel, but their audio is sent in order
+    let audioQueue = Promise.resolve();
+    let sentenceCount = 0;
+    const splitter = createSentenceSplitter(sentence => {
+        const index = sentenceCount++;
+        const audio = synthesizeSpeech(sentence, voiceFor(language)).catch(error => {
+            console.error("Speech Error:", error);
+            return undefined;
+        });
+        audioQueue = audioQueue.then(async () => {
+            const speech = await audio;
+            if (speech) send('audio', { index, text: sentence, audioContent: speech.audioContent, mimeType: speech.mimeType });
+        });
+    });
+
+    (async () => {
+        send('session', { sessionId, language });
+        try {
+            const { reply, turns: newTurns } = await runAssistant({
+                turns,
+                message,
+                sessionId,
+                language,
+                onText: text => {
+                    send('text', { text });
+                    splitter.push(text);
+                }
+            });
+            splitter.flush();
+            await store.sessions.appendTurns(sessionId, newTurns);
+            await audioQueue;
+            send('done', { reply, sessionId, calendarUrls: calendarUrlsIn(newTurns) });
+        } catch (error: any) {
+            console.error("Brain Error:", error);
+            send('error', { error: "Failed to process request: " + error.message });
+        } finally {
+            body.end();
+        }
+    })();
+
+    return body;
+};
 
-export const handler: Handler = async (event: HandlerEvent) => {
+export const createHandler = (store: DataStore = defaultStore): StreamingHandler => async (event: HandlerEvent) => {
     // 2. Handle the "Security Pre-Check" (OPTIONS)
     if (event.httpMethod === 'OPTIONS') {
-        return { 
-            statusCode: 200, 
-            headers, 
-            body: JSON.stringify({ message: 'CORS preflight match successful' }) 
+        return {
+            statusCode: 200,
+            headers,
+            body: JSON.stringify({ message: 'CORS preflight match successful' })
         };
     }
 
@@ -35,127 +101,41 @@ export const handler: Handler = async (event: HandlerEvent) => {
     } catch (e) {
         return { statusCode: 400, headers, body: JSON.stringify({ error: "Invalid request body: JSON parse failed." }) };
     }
-    
-    const { history } = body;
-    if (!history || !Array.isArray(history)) {
-        return { statusCode: 400, headers, body: JSON.stringify({ error: "Invalid history: Must be an array." }) };
+
+    // `language` is only sent when the patient picked one; otherwise the session's, or their message's, is used
+    const { sessionId, message, language: chosen } = body;
+    if (typeof message !== 'string' || !message.trim()) {
+        return { statusCode: 400, headers, body: JSON.stringify({ error: "Invalid message: Must be a non-empty string." }) };
     }
-    
-    const todayStr = getFormattedDate(new Date());
-    const tomorrow = new Date();
-    tomorrow.setDate(tomorrow.getDate() + 1);
-    const tomorrowStr = getFormattedDate(tomorrow);
-
-    const systemPrompt = `
-    You are Sahay, a friendly AI medical assistant for Prudence Hospitals.
-    **You MUST conduct the entire conversation in Telugu.**
-
-    **Rules:**
-    - Today is ${todayStr}. Tomorrow is ${tomorrowStr}.
-    - Silently convert natural dates (like "రేపు") to 'YYYY-MM-DD' before calling tools.
-    - Workflow: Understand need -> Find Doctor -> Check Slots -> Collect Details -> Book/Cancel/Reschedule.
-    `;
 
     try {
-        const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY);
-        const model = genAI.getGenerativeModel({ 
-            model: "gemini-1.5-flash",
-            tools: [{
-                functionDeclarations: [
-                    { 
-                        name: "getAvailableSlots", 
-                        description: "Check available times for a doctor.", 
-                        parameters: { type: "OBJECT", properties: { doctorName: { type: "STRING" }, date: { type: "STRING" }, timeOfDay: { type: "STRING" } }, required: ["doctorName", "date"] } 
-                    },
-                    { 
-                        name: "getAllSpecialties", 
-                        description: "List hospital departments.", 
-                        parameters: { type: "OBJECT", properties: {} } 
-                    },
-                    { 
-                        name: "getDoctorDetails", 
-                        description: "Find doctors by name or specialty.", 
-                        parameters: { type: "OBJECT", properties: { doctorName: { type: "STRING" }, specialty: { type: "STRING" } } } 
-                    },
-                    { 
-                        name: "bookAppointment", 
-                        description: "Create a new booking.", 
-                        parameters: { type: "OBJECT", properties: { doctorName: { type: "STRING" }, patientName: { type: "STRING" }, phone: { type: "STRING" }, date: { type: "STRING" }, time: { type: "STRING" } }, required: ["doctorName", "patientName", "phone", "date", "time"] } 
-                    },
-                    { 
-                        name: "cancelAppointment", 
-                        description: "Cancel an existing booking.", 
-                        parameters: { type: "OBJECT", properties: { doctorName: { type: "STRING" }, patientName: { type: "STRING" }, date: { type: "STRING" } }, required: ["doctorName", "patientName", "date"] } 
-                    },
-                    { 
-                        name: "rescheduleAppointment", 
-                        description: "Change an appointment date/time.", 
-                        parameters: { type: "OBJECT", properties: { patientName: { type: "STRING" }, doctorName: { type: "STRING" }, oldDate: { type: "STRING" }, newDate: { type: "STRING" }, newTime: { type: "STRING" } }, required: ["patientName", "doctorName", "oldDate", "newDate", "newTime"] } 
-                    },
-                ],
-            }],
-        }); 
-        
-        const chat = model.startChat({
-            history: [
-                { role: "user", parts: [{ text: systemPrompt }] },
-                { role: "model", parts: [{ text: "అర్థమైంది. నేను సహాయం చేయడానికి సిద్ధంగా ఉన్నాను." }] },
-                ...history
-            ]
-        });
-
-        const latestUserMessage = history.length > 0 ? history[history.length - 1].parts[0].text : "నమస్కారం";
-        const result = await chat.sendMessage(latestUserMessage);
-        const response = result.response;
-        const functionCalls = response.functionCalls();
-
-        // 3. Handle Tool Calling (The Bridge)
-        if (functionCalls && functionCalls.length > 0) {
-            const call = functionCalls[0];
-            
-            // --- DYNAMIC BRIDGE LOGIC ---
-            // In GitHub Codespaces, the host will be a .github.dev URL.
-            // On localhost, it will be localhost:8888.
-            const host = event.headers.host || 'localhost:8888';
-            const protocol = (host.includes('localhost') || host.includes('127.0.0.1')) ? 'http' : 'https';
-            const toolUrl = `${protocol}://${host}/.netlify/functions/${call.name}`;
-            
-            console.log(`Brain calling tool: ${call.name} at ${toolUrl}`);
-
-            const toolResponse = await fetch(toolUrl, {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify(call.args),
-            });
+        // 3. Continue the stored conversation, or start one for a new or unknown session id
+        const session = await resumeSession(store, sessionId, 'web');
+        const language = await settleLanguage(store, session, message, chosen);
+        const turns = await store.sessions.listTurns(session.id);
 
-            if (!toolResponse.ok) {
-                const errorText = await toolResponse.text();
-                throw new Error(`Tool ${call.name} failed: ${errorText}`);
-            }
-
-            const toolResult = await toolResponse.json();
-            const result2 = await chat.sendMessage([{ functionResponse: { name: call.name, response: toolResult } }]);
-            
-            return { 
-                statusCode: 200, 
-                headers, 
-                body: JSON.stringify({ reply: result2.response.text() }) 
-            };
+        if (wantsStream(event)) {
+            return { statusCode: 200, headers: streamHeaders, body: streamReply(store, session.id, language, turns, message.trim()) };
         }
 
-        // 4. Final Text Response
-        return { 
-            statusCode: 200, 
-            headers, 
-            body: JSON.stringify({ reply: response.text() }) 
+        // 4. Run the agent loop and persist the exchange, tool calls included
+        const { reply, turns: newTurns } = await runAssistant({ turns, message: message.trim(), sessionId: session.id, language });
+        await store.sessions.appendTurns(session.id, newTurns);
+
+        return {
+            statusCode: 200,
+            headers,
+            body: JSON.stringify({ reply, sessionId: session.id, language, calendarUrls: calendarUrlsIn(newTurns) })
         };
 
     } catch (error: any) {
         console.error("Brain Error:", error);
-        return { 
-            statusCode: 500, 
-            headers, 
-            body: JSON.stringify({ error: "Failed to process request: " + error.message }) 
+        return {
+            statusCode: 500,
+            headers,
+            body: JSON.stringify({ error: "Failed to process request: " + error.message })
         };
     }
-};
\ No newline at end of file
+};
+
+export const handler = stream(withCors(createHandler()));
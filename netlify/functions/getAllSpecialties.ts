@@ -1,27 +1,25 @@
-import { supabase } from './lib/supabaseClient';
 import type { Handler, HandlerEvent } from '@netlify/functions';
+import { defaultStore, type DataStore } from './lib/data';
+import { internalOnly } from './lib/http';
 
 const headers = {
-  'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'Content-Type, Authorization',
   'Access-Control-Allow-Methods': 'POST, OPTIONS',
   'Content-Type': 'application/json'
 };
 
-export const handler: Handler = async (event: HandlerEvent) => {
+export const createHandler = (store: DataStore = defaultStore): Handler => async (event: HandlerEvent) => {
     if (event.httpMethod === 'OPTIONS') {
         return { statusCode: 200, headers, body: JSON.stringify({ message: 'CORS success' }) };
     }
 
     try {
-        const { data, error } = await supabase
-            .from('doctors')
-            .select('specialty');
+        const [specialtyRows, doctors] = await Promise.all([store.specialties.list(), store.doctors.search({})]);
 
-        if (error) throw error;
-
-        // Get unique specialties
-        const specialties = [...new Set(data.map(item => item.specialty))];
+        // Only departments with a doctor patients can book
+        const specialties = specialtyRows
+            .filter(specialty => doctors.some(doctor => doctor.specialty_id === specialty.id))
+            .map(({ name_en, name_te }) => ({ name: name_en, name_te }));
 
         return { 
             statusCode: 200, 
@@ -35,4 +33,7 @@ export const handler: Handler = async (event: HandlerEvent) => {
             body: JSON.stringify({ success: false, message: error.message }) 
         };
     }
-};
\ No newline at end of file
+};
+
+// Called in-process by the assistant; over HTTP only with the internal key
+export const handler = internalOnly(createHandler());
\ No newline at end of file
@@ -1,44 +1,55 @@
-import { supabase } from './lib/supabaseClient';
 import type { Handler, HandlerEvent } from '@netlify/functions';
+import { offeredSlots } from './lib/availability';
+import { defaultStore, type DataStore } from './lib/data';
+import { resolveDoctor, unresolvedDoctorResponse } from './lib/doctorResolver';
+import { internalOnly } from './lib/http';
+import { dropPastSlots, filterByTimeOfDay } from './lib/scheduling';
+import { invalidArgumentsResponse, validateArgs } from './lib/validation';
 
 const headers = {
-  'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'Content-Type, Authorization',
   'Access-Control-Allow-Methods': 'POST, OPTIONS',
   'Content-Type': 'application/json'
 };
 
-export const handler: Handler = async (event: HandlerEvent) => {
+const closed = (reason: string) => ({
+    statusCode: 200,
+    headers,
+    body: JSON.stringify({ success: true, availableSlots: [], reason })
+});
+
+export const createHandler = (store: DataStore = defaultStore): Handler => async (event: HandlerEvent) => {
     if (event.httpMethod === 'OPTIONS') {
         return { statusCode: 200, headers, body: JSON.stringify({ message: 'CORS success' }) };
     }
 
     try {
-        const { doctorName, date } = JSON.parse(event.body || '{}');
+        const validation = validateArgs('getAvailableSlots', JSON.parse(event.body || '{}'));
+        if (validation.status === 'invalid') {
+            return invalidArgumentsResponse(validation.error, headers);
+        }
+        const { doctorName, date, timeOfDay } = validation.args;
 
         // 1. Find Doctor
-        const { data: doctorData } = await supabase
-            .from('doctors')
-            .select('id, available_slots')
-            .ilike('name', `%${doctorName}%`)
-            .single();
-
-        if (!doctorData) {
-            return { statusCode: 404, headers, body: JSON.stringify({ success: false, message: "Doctor not found." }) };
+        const resolution = await resolveDoctor(store, doctorName);
+
+        if (resolution.status !== 'found') {
+            return unresolvedDoctorResponse(doctorName, resolution, headers);
         }
+        const doctorData = resolution.doctor;
 
-        // 2. Find Booked Slots
-        const { data: booked } = await supabase
-            .from('appointments')
-            .select('appointment_time')
-            .eq('doctor_id', doctorData.id)
-            .eq('appointment_date', date)
-            .eq('status', 'confirmed');
+        // 2. The day's slots: closed for holidays and leave, otherwise the weekly schedule or static list
+        const day = await offeredSlots(store, doctorData, date);
+        if (day.status === 'closed') {
+            return closed(day.reason);
+        }
 
-        const bookedTimes = booked?.map(b => b.appointment_time) || [];
-        
-        // 3. Filter available slots
-        const available = doctorData.available_slots.filter((slot: string) => !bookedTimes.includes(slot));
+        // 3. Only slots still ahead, in the part of the day the patient asked for
+        const upcoming = filterByTimeOfDay(dropPastSlots(day.slots, date), timeOfDay || null);
+
+        // 4. Remove Booked or Held Slots
+        const bookedTimes = await store.appointments.listTakenTimes(doctorData.id, date);
+        const available = upcoming.filter(slot => !bookedTimes.includes(slot));
 
         return { 
             statusCode: 200, 
@@ -48,4 +59,7 @@ export const handler: Handler = async (event: HandlerEvent) => {
     } catch (error: any) {
         return { statusCode: 500, headers, body: JSON.stringify({ success: false, message: error.message }) };
     }
-};
\ No newline at end of file
+};
+
+// Called in-process by the assistant; over HTTP only with the internal key
+export const handler = internalOnly(createHandler());
\ No newline at end of file
@@ -0,0 +1,64 @@
+import type { Handler, HandlerEvent } from '@netlify/functions';
+import { ALL_STAFF_ROLES, authorize, canSeeDoctor, defaultAuthenticator, deniedResponse, type Authenticator } from './lib/auth';
+import { defaultStore, type DataStore } from './lib/data';
+import { withCors } from './lib/http';
+import { isSessionId } from './lib/sessions';
+
+const headers = {
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+  'Access-Control-Allow-Methods': 'GET, OPTIONS',
+  'Content-Type': 'application/json'
+};
+
+// Transcript of one assistant session: restores the chat after a refresh and backs the admin transcript view
+export const createHandler = (store: DataStore = defaultStore, authenticator: Authenticator = defaultAuthenticator): Handler => async (event: HandlerEvent) => {
+    if (event.httpMethod === 'OPTIONS') {
+        return { statusCode: 200, headers, body: JSON.stringify({ message: 'CORS success' }) };
+    }
+
+    try {
+        const sessionId = event.queryStringParameters?.sessionId;
+        const session = isSessionId(sessionId) ? await store.sessions.findById(sessionId) : null;
+
+        if (!session) {
+            return { statusCode: 404, headers, body: JSON.stringify({ success: false, message: "Conversation not found." }) };
+        }
+
+        // The patient's browser restores its own web chat by the session id it keeps; tool calls and
+        // every other channel's transcripts are for staff, and a doctor only sees their own patients'
+        const ownChat = session.channel === 'web' && !event.headers.authorization;
+        if (!ownChat) {
+            const access = await authorize(event, authenticator, ALL_STAFF_ROLES);
+            if (access.status !== 'granted') {
+                return deniedResponse(access, headers);
+            }
+
+            if (access.staff.role === 'doctor') {
+                const booked = await store.appointments.listBySession(session.id);
+                if (!booked.some(a => canSeeDoctor(access.staff, a.doctor_id))) {
+                    return { statusCode: 404, headers, body: JSON.stringify({ success: false, message: "Conversation not found." }) };
+                }
+            }
+        }
+
+        const turns = (await store.sessions.listTurns(session.id)).filter(t => !ownChat || t.role !== 'tool').map(t => ({
+            seq: t.seq,
+            role: t.role,
+            text: t.text,
+            toolName: t.tool_name,
+            toolArgs: t.tool_args,
+            toolResult: t.tool_result,
+            createdAt: t.created_at
+        }));
+
+        return {
+            statusCode: 200,
+            headers,
+            body: JSON.stringify({ success: true, sessionId: session.id, channel: session.channel, language: session.language, startedAt: session.created_at, turns })
+        };
+    } catch (error: any) {
+        return { statusCode: 500, headers, body: JSON.stringify({ success: false, message: error.message }) };
+    }
+};
+
+export const handler = withCors(createHandler());
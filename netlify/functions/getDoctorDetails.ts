@@ -1,28 +1,43 @@
-import { supabase } from './lib/supabaseClient';
 import type { Handler, HandlerEvent } from '@netlify/functions';
+import { defaultStore, type DataStore } from './lib/data';
+import { rankDoctors } from './lib/doctorResolver';
+import { internalOnly } from './lib/http';
+import { matchSpecialties } from './lib/specialties';
+import { invalidArgumentsResponse, validateArgs } from './lib/validation';
 
 const headers = {
-  'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'Content-Type, Authorization',
   'Access-Control-Allow-Methods': 'POST, OPTIONS',
   'Content-Type': 'application/json'
 };
 
-export const handler: Handler = async (event: HandlerEvent) => {
+export const createHandler = (store: DataStore = defaultStore): Handler => async (event: HandlerEvent) => {
     if (event.httpMethod === 'OPTIONS') {
         return { statusCode: 200, headers, body: JSON.stringify({ message: 'CORS success' }) };
     }
 
     try {
-        const { doctorName, specialty } = JSON.parse(event.body || '{}');
+        const validation = validateArgs('getDoctorDetails', JSON.parse(event.body || '{}'));
+        if (validation.status === 'invalid') {
+            return invalidArgumentsResponse(validation.error, headers);
+        }
+        const { doctorName, specialty } = validation.args;
 
-        let query = supabase.from('doctors').select('name, specialty, available_slots');
+        // Names go through the fuzzy/transliterating matcher; specialties through their names and synonyms
+        const [active, specialties] = await Promise.all([store.doctors.search({}), store.specialties.list()]);
+        const wanted = specialty === undefined ? null : matchSpecialties(specialties, specialty).map(s => s.id);
+        const bySpecialty = wanted ? active.filter(doctor => wanted.includes(doctor.specialty_id)) : active;
+        const doctors = doctorName ? rankDoctors(bySpecialty, doctorName) : bySpecialty;
 
-        if (doctorName) query = query.ilike('name', `%${doctorName}%`);
-        if (specialty) query = query.ilike('specialty', `%${specialty}%`);
-
-        const { data, error } = await query;
-        if (error) throw error;
+        const data = doctors.map(doctor => ({
+            name: doctor.name,
+            specialty: doctor.specialty,
+            specialty_te: specialties.find(s => s.id === doctor.specialty_id)?.name_te ?? null,
+            qualifications: doctor.qualifications,
+            languages: doctor.languages,
+            consultation_fee: doctor.consultation_fee,
+            available_slots: doctor.available_slots
+        }));
 
         return { 
             statusCode: 200, 
@@ -32,4 +47,7 @@ export const handler: Handler = async (event: HandlerEvent) => {
     } catch (error: any) {
         return { statusCode: 500, headers, body: JSON.stringify({ success: false, message: error.message }) };
     }
-};
\ No newline at end of file
+};
+
+// Called in-process by the assistant; over HTTP only with the internal key
+export const handler = internalOnly(createHandler());
\ No newline at end of file
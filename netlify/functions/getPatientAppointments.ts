@@ -0,0 +1,47 @@
+import type { Handler, HandlerEvent } from '@netlify/functions';
+import { defaultStore, type DataStore } from './lib/data';
+import { internalOnly } from './lib/http';
+import { hospitalNow } from './lib/dateTime';
+import { invalidArgumentsResponse, validateArgs } from './lib/validation';
+
+const headers = {
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Content-Type': 'application/json'
+};
+
+export const createHandler = (store: DataStore = defaultStore): Handler => async (event: HandlerEvent) => {
+    if (event.httpMethod === 'OPTIONS') {
+        return { statusCode: 200, headers, body: JSON.stringify({ message: 'CORS success' }) };
+    }
+
+    try {
+        const validation = validateArgs('getPatientAppointments', JSON.parse(event.body || '{}'));
+        if (validation.status === 'invalid') {
+            return invalidArgumentsResponse(validation.error, headers);
+        }
+        const { phone: normalizedPhone } = validation.args;
+
+        // Includes every family member registered under this phone number
+        const upcoming = await store.appointments.listUpcomingByPhone(normalizedPhone, hospitalNow().date);
+        const appointments = upcoming.map(a => ({
+            appointmentId: a.id,
+            patientName: a.patient_name,
+            doctorName: a.doctor_name,
+            specialty: a.specialty,
+            date: a.appointment_date,
+            time: a.appointment_time
+        }));
+
+        return { 
+            statusCode: 200, 
+            headers, 
+            body: JSON.stringify({ success: true, appointments }) 
+        };
+    } catch (error: any) {
+        return { statusCode: 500, headers, body: JSON.stringify({ success: false, message: error.message }) };
+    }
+};
+
+// Called in-process by the assistant; over HTTP only with the internal key
+export const handler = internalOnly(createHandler());
@@ -1,18 +0,0 @@
-import type { Handler } from '@netlify/functions';
-
-const headers = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'Content-Type',
-  'Content-Type': 'application/json'
-};
-
-export const handler: Handler = async () => {
-  return {
-    statusCode: 200,
-    headers,
-    body: JSON.stringify({
-      url: process.env.SUPABASE_URL,
-      anonKey: process.env.SUPABASE_ANON_KEY // Note: Dashboards use the ANON key
-    })
-  };
-};
\ No newline at end of file
@@ -0,0 +1,61 @@
+import type { Handler, HandlerEvent } from '@netlify/functions';
+import { actorFromEvent, recordChange } from './lib/audit';
+import { defaultStore, SlotTakenError, type DataStore } from './lib/data';
+import { resolveDoctor, unresolvedDoctorResponse } from './lib/doctorResolver';
+import { internalOnly } from './lib/http';
+import { checkSlotOffered, invalidArgumentsResponse, validateArgs } from './lib/validation';
+
+const headers = {
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Content-Type': 'application/json'
+};
+
+// How long a slot stays reserved while the assistant collects the patient's details
+const DEFAULT_HOLD_MINUTES = Number(process.env.SLOT_HOLD_MINUTES) || 5;
+const MAX_HOLD_MINUTES = 15;
+
+export const createHandler = (store: DataStore = defaultStore): Handler => async (event: HandlerEvent) => {
+    if (event.httpMethod === 'OPTIONS') {
+        return { statusCode: 200, headers, body: JSON.stringify({ message: 'CORS success' }) };
+    }
+
+    try {
+        const validation = validateArgs('holdSlot', JSON.parse(event.body || '{}'));
+        if (validation.status === 'invalid') {
+            return invalidArgumentsResponse(validation.error, headers);
+        }
+        const { doctorName, date, time, minutes } = validation.args;
+
+        const resolution = await resolveDoctor(store, doctorName);
+
+        if (resolution.status !== 'found') {
+            return unresolvedDoctorResponse(doctorName, resolution, headers);
+        }
+        const doctorData = resolution.doctor;
+
+        const notOffered = await checkSlotOffered(store, doctorData, { date, time });
+        if (notOffered) {
+            return invalidArgumentsResponse(notOffered, headers);
+        }
+
+        const holdMinutes = Math.min(Math.max(minutes || DEFAULT_HOLD_MINUTES, 1), MAX_HOLD_MINUTES);
+        const expiresAt = new Date(Date.now() + holdMinutes * 60_000);
+        const hold = await store.appointments.hold({ doctorId: doctorData.id, date, time }, expiresAt);
+        await recordChange(store, await actorFromEvent(store, event), null, hold);
+
+        return { 
+            statusCode: 200, 
+            headers, 
+            body: JSON.stringify({ success: true, holdId: hold.id, expiresAt: hold.hold_expires_at }) 
+        };
+    } catch (error: any) {
+        if (error instanceof SlotTakenError) {
+            return { statusCode: 409, headers, body: JSON.stringify({ success: false, message: error.message }) };
+        }
+        return { statusCode: 500, headers, body: JSON.stringify({ success: false, message: error.message }) };
+    }
+};
+
+// Called in-process by the assistant; over HTTP only with the internal key
+export const handler = internalOnly(createHandler());
@@ -0,0 +1,64 @@
+import type { Handler, HandlerEvent } from '@netlify/functions';
+import { defaultStore, type DataStore } from './lib/data';
+import { resolveDoctor, unresolvedDoctorResponse } from './lib/doctorResolver';
+import { internalOnly } from './lib/http';
+import { sessionIdFrom } from './lib/sessions';
+import { invalidArgumentsResponse, validateArgs } from './lib/validation';
+
+const headers = {
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Content-Type': 'application/json'
+};
+
+export const createHandler = (store: DataStore = defaultStore): Handler => async (event: HandlerEvent) => {
+    if (event.httpMethod === 'OPTIONS') {
+        return { statusCode: 200, headers, body: JSON.stringify({ message: 'CORS success' }) };
+    }
+
+    try {
+        const validation = validateArgs('joinWaitlist', JSON.parse(event.body || '{}'));
+        if (validation.status === 'invalid') {
+            return invalidArgumentsResponse(validation.error, headers);
+        }
+        const { doctorName, fromDate, toDate, timeOfDay, patientName, phone: normalizedPhone } = validation.args;
+
+        // A single day unless the patient gave a range
+        const lastDate = toDate || fromDate;
+
+        const resolution = await resolveDoctor(store, doctorName);
+
+        if (resolution.status !== 'found') {
+            return unresolvedDoctorResponse(doctorName, resolution, headers);
+        }
+        const doctorData = resolution.doctor;
+
+        const patient = await store.patients.findOrCreate(normalizedPhone, patientName);
+        const entry = await store.waitlist.add({
+            doctor_id: doctorData.id,
+            patient_id: patient.id,
+            patient_name: patient.name,
+            phone: normalizedPhone,
+            from_date: fromDate,
+            to_date: lastDate,
+            time_of_day: timeOfDay || null,
+            session_id: sessionIdFrom(event)
+        });
+
+        return { 
+            statusCode: 200, 
+            headers, 
+            body: JSON.stringify({ 
+                success: true, 
+                waitlistId: entry.id, 
+                message: `Added to the waitlist for ${doctorData.name} from ${fromDate} to ${lastDate}. The patient will get a message as soon as a slot opens.` 
+            }) 
+        };
+    } catch (error: any) {
+        console.error("Waitlist Tool Error:", error);
+        return { statusCode: 500, headers, body: JSON.stringify({ success: false, message: error.message }) };
+    }
+};
+
+// Called in-process by the assistant; over HTTP only with the internal key
+export const handler = internalOnly(createHandler());
@@ -0,0 +1,199 @@
+// netlify/functions/lib/analytics.ts
+// The scheduling report: utilisation (booked against offered slots), cancellation and no-show rates,
+// lead time and who made the bookings, for the hospital, each doctor, each specialty and each day.
+import { dayOffer } from './availability';
+import type { ActorType, DataStore, Doctor, DoctorLeave, HospitalHoliday, WeeklySchedule } from './data/types';
+import { addDays, daysBetween } from './dateTime';
+import type { Sheet } from './spreadsheet';
+
+// A year of days per report keeps the schedule work for one request bounded
+export const MAX_REPORT_DAYS = 366;
+
+/** Raw counts for one slice of the report; the rates in Metrics follow from them. */
+export interface Counts {
+    offeredSlots: number;
+    /** Every booking, cancelled ones included. */
+    bookings: number;
+    cancelled: number;
+    noShows: number;
+    /** Checked in or completed. */
+    attended: number;
+    /** 'unknown' counts bookings made before the audit trail existed. */
+    bookedBy: Record<ActorType | 'unknown', number>;
+    /** Booking-to-visit days, summed over bookings whose booker is known. */
+    leadDaysTotal: number;
+}
+
+export interface Metrics extends Counts {
+    /** Slots taken by bookings that were not cancelled, over slots offered. Walk-ins outside the schedule can push it past 1. */
+    utilisation: number | null;
+    /** Cancelled over all bookings. */
+    cancellationRate: number | null;
+    /** No-shows over visits that are settled either way (attended or no-show). */
+    noShowRate: number | null;
+    averageLeadDays: number | null;
+    /** Bookings made by the assistant, over those whose booker is known. */
+    assistantShare: number | null;
+    /** Bookings made by staff at the dashboard, likewise. */
+    staffShare: number | null;
+}
+
+export interface DoctorMetrics extends Metrics {
+    doctorId: number;
+    doctorName: string;
+    specialty: string;
+}
+
+export interface SchedulingReport {
+    from: string;
+    to: string;
+    summary: Metrics;
+    doctors: DoctorMetrics[];
+    specialties: (Metrics & { specialty: string })[];
+    /** Every day of the range, for trend charts. */
+    daily: (Metrics & { date: string })[];
+    /** One row per doctor per day that had slots or bookings: the finest grain, as exported. */
+    detail: (DoctorMetrics & { date: string })[];
+}
+
+const emptyCounts = (): Counts => ({
+    offeredSlots: 0,
+    bookings: 0,
+    cancelled: 0,
+    noShows: 0,
+    attended: 0,
+    bookedBy: { assistant: 0, staff: 0, system: 0, unknown: 0 },
+    leadDaysTotal: 0,
+});
+
+const addCounts = (total: Counts, more: Counts): Counts => ({
+    offeredSlots: total.offeredSlots + more.offeredSlots,
+    bookings: total.bookings + more.bookings,
+    cancelled: total.cancelled + more.cancelled,
+    noShows: total.noShows + more.noShows,
+    attended: total.attended + more.attended,
+    bookedBy: {
+        assistant: total.bookedBy.assistant + more.bookedBy.assistant,
+        staff: total.bookedBy.staff + more.bookedBy.staff,
+        system: total.bookedBy.system + more.bookedBy.system,
+        unknown: total.bookedBy.unknown + more.bookedBy.unknown,
+    },
+    leadDaysTotal: total.leadDaysTotal + more.leadDaysTotal,
+});
+
+// Rates to three places; null rather than a misleading 0 when there is nothing to divide by
+const ratio = (part: number, whole: number, places = 3): number | null =>
+    whole > 0 ? Math.round((part / whole) * 10 ** places) / 10 ** places : null;
+
+export const toMetrics = (counts: Counts): Metrics => {
+    const known = counts.bookings - counts.bookedBy.unknown;
+    return {
+        ...counts,
+        utilisation: ratio(counts.bookings - counts.cancelled, counts.offeredSlots),
+        cancellationRate: ratio(counts.cancelled, counts.bookings),
+        noShowRate: ratio(counts.noShows, counts.noShows + counts.attended),
+        averageLeadDays: ratio(counts.leadDaysTotal, known, 1),
+        assistantShare: ratio(counts.bookedBy.assistant, known),
+        staffShare: ratio(counts.bookedBy.staff, known),
+    };
+};
+
+/** Every YYYY-MM-DD date from `from` to `to` inclusive. */
+export const datesBetween = (from: string, to: string): string[] =>
+    Array.from({ length: daysBetween(from, to) + 1 }, (_, index) => addDays(from, index));
+
+// When a doctor was deactivated is not recorded, so an inactive doctor offers nothing on any
+// day of the report; their bookings still count
+const offeredOn = (doctor: Doctor, date: string, sessions: WeeklySchedule[], leave: DoctorLeave[], holidays: HospitalHoliday[]): number => {
+    if (!doctor.active) return 0;
+    const offer = dayOffer(doctor, date, {
+        holiday: holidays.find(h => h.holiday_date === date) || null,
+        leave: leave.find(l => l.doctor_id === doctor.id && l.start_date <= date && l.end_date >= date) || null,
+        sessions,
+    });
+    return offer.status === 'open' ? offer.slots.length : 0;
+};
+
+const sumBy = <K>(rows: { key: K; counts: Counts }[]): Map<K, Counts> => {
+    const totals = new Map<K, Counts>();
+    for (const { key, counts } of rows) totals.set(key, addCounts(totals.get(key) || emptyCounts(), counts));
+    return totals;
+};
+
+/**
+ * The report for visits from `from` to `to` inclusive; with `doctorId`, that
+ * doctor's alone. Bookings are counted in the database; offered slots come
+ * from the same schedules, leave and holidays the booking tools use.
+ */
+export const buildReport = async (store: DataStore, { from, to, doctorId }: { from: string; to: string; doctorId?: number }): Promise<SchedulingReport> => {
+    const doctors = (await store.doctors.search({ includeInactive: true })).filter(d => doctorId === undefined || d.id === doctorId);
+    const [tallies, leave, holidays, schedules] = await Promise.all([
+        store.appointments.tallyBetween(from, to),
+        store.schedules.leaveBetween(from, to),
+        store.schedules.holidaysBetween(from, to),
+        Promise.all(doctors.map(d => store.schedules.weeklyFor(d.id))),
+    ]);
+    const dates = datesBetween(from, to);
+
+    const cells = new Map<string, Counts>();
+    const cell = (date: string, id: number) => `${date}|${id}`;
+    doctors.forEach((doctor, index) => {
+        for (const date of dates) {
+            cells.set(cell(date, doctor.id), { ...emptyCounts(), offeredSlots: offeredOn(doctor, date, schedules[index], leave, holidays) });
+        }
+    });
+
+    for (const tally of tallies) {
+        const counts = cells.get(cell(tally.appointment_date, tally.doctor_id));
+        if (!counts) continue;
+
+        counts.bookings += tally.appointments;
+        if (tally.status === 'cancelled') counts.cancelled += tally.appointments;
+        if (tally.status === 'no_show') counts.noShows += tally.appointments;
+        if (tally.status === 'checked_in' || tally.status === 'completed') counts.attended += tally.appointments;
+        counts.bookedBy[tally.booked_by || 'unknown'] += tally.appointments;
+        counts.leadDaysTotal += tally.lead_days;
+    }
+
+    const detail = dates.flatMap(date => doctors.map(doctor => ({ date, doctor, counts: cells.get(cell(date, doctor.id)) as Counts })));
+    const doctorView = (doctor: Doctor) => ({ doctorId: doctor.id, doctorName: doctor.name, specialty: doctor.specialty });
+
+    const byDoctor = sumBy(detail.map(row => ({ key: row.doctor, counts: row.counts })));
+    const bySpecialty = sumBy(detail.map(row => ({ key: row.doctor.specialty, counts: row.counts })));
+    const byDate = sumBy(detail.map(row => ({ key: row.date, counts: row.counts })));
+
+    return {
+        from,
+        to,
+        summary: toMetrics(detail.reduce((total, row) => addCounts(total, row.counts), emptyCounts())),
+        doctors: doctors.map(doctor => ({ ...doctorView(doctor), ...toMetrics(byDoctor.get(doctor) || emptyCounts()) })),
+        specialties: [...bySpecialty.entries()]
+            .sort(([a], [b]) => a.localeCompare(b))
+            .map(([specialty, counts]) => ({ specialty, ...toMetrics(counts) })),
+        daily: dates.map(date => ({ date, ...toMetrics(byDate.get(date) || emptyCounts()) })),
+        detail: detail
+            .filter(row => row.counts.offeredSlots > 0 || row.counts.bookings > 0)
+            .map(row => ({ date: row.date, ...doctorView(row.doctor), ...toMetrics(row.counts) })),
+    };
+};
+
+const METRIC_HEADERS = [
+    'Offered slots', 'Bookings', 'Cancelled', 'No-shows', 'Attended',
+    'Booked by assistant', 'Booked by staff', 'Booked by system', 'Booker unknown',
+    'Utilisation', 'Cancellation rate', 'No-show rate', 'Average lead days', 'Assistant share', 'Staff share',
+];
+
+const metricCells = (m: Metrics) => [
+    m.offeredSlots, m.bookings, m.cancelled, m.noShows, m.attended,
+    m.bookedBy.assistant, m.bookedBy.staff, m.bookedBy.system, m.bookedBy.unknown,
+    m.utilisation, m.cancellationRate, m.noShowRate, m.averageLeadDays, m.assistantShare, m.staffShare,
+];
+
+/** The report as spreadsheet tables: a summary, then each breakdown; the last, Detail, is the CSV export. */
+export const reportSheets = (report: SchedulingReport): Sheet[] => [
+    { name: 'Summary', rows: [['From', 'To', ...METRIC_HEADERS], [report.from, report.to, ...metricCells(report.summary)]] },
+    { name: 'Doctors', rows: [['Doctor', 'Specialty', ...METRIC_HEADERS], ...report.doctors.map(d => [d.doctorName, d.specialty, ...metricCells(d)])] },
+    { name: 'Specialties', rows: [['Specialty', ...METRIC_HEADERS], ...report.specialties.map(s => [s.specialty, ...metricCells(s)])] },
+    { name: 'Daily', rows: [['Date', ...METRIC_HEADERS], ...report.daily.map(d => [d.date, ...metricCells(d)])] },
+    { name: 'Detail', rows: [['Date', 'Doctor', 'Specialty', ...METRIC_HEADERS], ...report.detail.map(d => [d.date, d.doctorName, d.specialty, ...metricCells(d)])] },
+];
@@ -0,0 +1,150 @@
+// netlify/functions/lib/assistant.ts
+// Sahay's conversation loop: prompt, stored history and the model -> tools -> model hops.
+import type { Content, Part } from '@google/generative-ai';
+import type { ConversationTurn, NewTurn } from './data/types';
+import { hospitalNow, weekdayName } from './dateTime';
+import { DEFAULT_LANGUAGE, LANGUAGES, messagesFor, type Language } from './i18n';
+import { createGeminiModel, type ModelProvider } from './model';
+import { summariseTurns, trimTurns } from './sessions';
+import { functionDeclarations, runTool, type ToolRunner } from './toolRegistry';
+
+// Upper bound on model -> tools -> model hops for a single patient message
+const MAX_TOOL_STEPS = Number(process.env.AI_MAX_TOOL_STEPS) || 5;
+// Doctor names, dates, times and symptoms are matched in these; other languages reach the tools in English
+const TOOL_LANGUAGES: Language[] = ['te', 'en'];
+
+const isEmergency = (result: object): result is { emergency: true; emergencyNumber: string } =>
+    (result as { emergency?: unknown }).emergency === true;
+
+export interface AssistantReply {
+    reply: string;
+    /** The patient's message, every tool call and the reply, ready to append to the session. */
+    turns: NewTurn[];
+}
+
+const buildSystemPrompt = (earlier: string, language: Language, phone?: string): string => {
+    // The hospital's date, which differs from UTC's between midnight and 05:30 IST
+    const today = hospitalNow().date;
+
+    return `
+    You are Sahay, a friendly AI medical assistant for Prudence Hospitals.
+    **You MUST conduct the entire conversation in ${LANGUAGES[language].name}.**
+
+    **Rules:**
+    - Today is ${weekdayName(today)}, ${today}.
+    - Never work out dates yourself: pass whatever the patient said about the day ("రేపు", "వచ్చే సోమవారం", "15th") to resolveDate and use the date it returns.
+    - If the patient describes symptoms instead of naming a department, call triageSymptoms with their own words and offer the departments it suggests.
+    - Workflow: Understand need -> Find Doctor -> Check Slots -> Hold the chosen slot -> Collect Details -> Book (with the holdId)/Cancel/Reschedule.
+    - If a tool returns 'candidates', read them out and ask the patient which doctor they meant.
+    - If a tool returns a 'code' with a 'field' (INVALID_PHONE, INVALID_DATE, DATE_IN_PAST, INVALID_TIME, SLOT_NOT_OFFERED, MISSING_FIELD...), do not retry with a guess: ask the patient one short question to get that detail again, offering the times in 'message' when there are some.
+    - To cancel or reschedule, ask for the phone number, call getPatientAppointments, confirm which booking they mean, then use its appointmentId.
+    - If no slot suits the patient, offer to put them on the waitlist (joinWaitlist) for the dates and time of day they want.
+    - If the patient received a waitlist offer message, ask whether they want the slot and call respondToWaitlistOffer.
+    - A 'calendarUrl' in a tool result is shown to the patient as an add-to-calendar button; never read it out.
+    ${TOOL_LANGUAGES.includes(language) ? '' : `- The tools understand only English and Telugu: translate the patient's words into English before passing them to a tool (symptoms, days, times, names).`}
+    ${phone ? `- The patient is writing from ${phone}. Use it as their phone number unless they give another; do not ask for it.` : ''}
+    ${earlier ? `\n    **Tool calls earlier in this conversation (older messages are not shown):**\n${earlier}\n` : ''}`;
+};
+
+/**
+ * Replays stored turns in Gemini's format. Consecutive tool turns form one
+ * model step: the calls it made, then the results it was given.
+ */
+export const toHistory = (turns: ConversationTurn[]): Content[] => {
+    const history: Content[] = [];
+
+    for (let i = 0; i < turns.length; i++) {
+        if (turns[i].role !== 'tool') {
+            history.push({ role: turns[i].role, parts: [{ text: turns[i].text || '' }] });
+            continue;
+        }
+
+        const step: ConversationTurn[] = [];
+        while (i < turns.length && turns[i].role === 'tool') step.push(turns[i++]);
+        i--;
+
+        history.push({
+            role: 'model',
+            parts: step.map(turn => ({ functionCall: { name: turn.tool_name || '', args: turn.tool_args || {} } }))
+        });
+        history.push({
+            role: 'function',
+            parts: step.map(turn => ({ functionResponse: { name: turn.tool_name || '', response: turn.tool_result || {} } }))
+        });
+    }
+
+    return history;
+};
+
+/**
+ * Answers one patient message given the session's earlier turns. With
+ * `onText`, every model response is streamed and its text passed on as it
+ * arrives, including the text after tool calls. `phone` is the patient's own
+ * number on channels that know it. `language` is the session's, and sets the
+ * language of the reply and of the stock replies given without the model.
+ * `model` and `tools` default to Gemini and the production store; the
+ * scenario harness replaces both.
+ */
+export const runAssistant = async ({ turns, message, sessionId, phone, language = DEFAULT_LANGUAGE, onText, model = createGeminiModel(), tools = runTool }: {
+    turns: ConversationTurn[];
+    message: string;
+    sessionId: string;
+    phone?: string;
+    language?: Language;
+    onText?: (text: string) => void;
+    model?: ModelProvider;
+    tools?: ToolRunner;
+}): Promise<AssistantReply> => {
+    const { kept, dropped } = trimTurns(turns);
+    const newTurns: NewTurn[] = [{ role: 'user', text: message }];
+    const messages = messagesFor(language);
+
+    const chat = model.startChat({
+        functionDeclarations,
+        history: [
+            { role: "user", parts: [{ text: buildSystemPrompt(summariseTurns(dropped), language, phone) }] },
+            { role: "model", parts: [{ text: messages.ready }] },
+            ...toHistory(kept)
+        ]
+    });
+
+    let response = await chat.send(message, onText);
+    let functionCalls = response.functionCalls;
+
+    // Every call in a step is executed and all results go back together,
+    // so the model can chain e.g. find doctor -> check slots -> book.
+    let steps = 0;
+    while (functionCalls.length > 0) {
+        if (steps >= MAX_TOOL_STEPS) {
+            console.warn(`Brain stopped after ${steps} tool steps.`);
+            onText?.(messages.stepLimit);
+            newTurns.push({ role: 'model', text: messages.stepLimit });
+            return { reply: messages.stepLimit, turns: newTurns };
+        }
+        steps++;
+
+        const functionResponses: Part[] = [];
+        for (const call of functionCalls) {
+            console.log(`Brain calling tool: ${call.name}`);
+            const toolResult = await tools(call.name, call.args, { sessionId, phone });
+            newTurns.push({ role: 'tool', tool_name: call.name, tool_args: call.args, tool_result: toolResult });
+            functionResponses.push({ functionResponse: { name: call.name, response: toolResult } });
+        }
+
+        // A red flag ends the conversation here, whatever the model would have done next
+        const emergency = functionResponses.map(part => part.functionResponse?.response || {}).find(isEmergency);
+        if (emergency) {
+            const reply = messages.emergency(emergency.emergencyNumber);
+            onText?.(reply);
+            newTurns.push({ role: 'model', text: reply });
+            return { reply, turns: newTurns };
+        }
+
+        response = await chat.send(functionResponses, onText);
+        functionCalls = response.functionCalls;
+    }
+
+    const reply = response.text;
+    newTurns.push({ role: 'model', text: reply });
+    return { reply, turns: newTurns };
+};
@@ -0,0 +1,69 @@
+// netlify/functions/lib/audit.ts
+// Records who changed an appointment, through which channel, and what it looked like before and after.
+import type { HandlerEvent } from '@netlify/functions';
+import type { StaffUser } from './auth';
+import type { ActorType, Appointment, AppointmentSnapshot, AuditAction, DataStore } from './data/types';
+import { sessionIdFrom } from './sessions';
+
+export interface Actor {
+    type: ActorType;
+    id: string | null;
+    name: string | null;
+    channel: string;
+}
+
+export const staffActor = (staff: StaffUser): Actor =>
+    ({ type: 'staff', id: staff.id, name: staff.name, channel: 'dashboard' });
+
+export const systemActor = (channel: string): Actor =>
+    ({ type: 'system', id: null, name: null, channel });
+
+/**
+ * The assistant session behind a tool call, on whatever channel that session
+ * came in on. Tool calls without a session came straight over HTTP.
+ */
+export const actorFromEvent = async (store: DataStore, event: HandlerEvent): Promise<Actor> => {
+    const sessionId = sessionIdFrom(event);
+    const session = sessionId ? await store.sessions.findById(sessionId) : null;
+    return session
+        ? { type: 'assistant', id: session.id, name: null, channel: session.channel }
+        : systemActor('api');
+};
+
+const snapshot = (appointment: Appointment): AppointmentSnapshot => ({
+    doctor_id: appointment.doctor_id,
+    patient_name: appointment.patient_name,
+    phone: appointment.phone,
+    appointment_date: appointment.appointment_date,
+    appointment_time: appointment.appointment_time.slice(0, 5),
+    status: appointment.status,
+});
+
+const actionFor = (before: AppointmentSnapshot | null, after: AppointmentSnapshot): AuditAction => {
+    if (!before) return 'created';
+    if (before.appointment_date !== after.appointment_date || before.appointment_time !== after.appointment_time) return 'rescheduled';
+    return 'status_changed';
+};
+
+/**
+ * Appends one event for a change already made; `before` is null for a new row.
+ * Never throws: the change stands even if its audit entry cannot be written.
+ */
+export const recordChange = async (store: DataStore, actor: Actor, before: Appointment | null, after: Appointment): Promise<void> => {
+    try {
+        const prior = before && snapshot(before);
+        const next = snapshot(after);
+        await store.audit.record({
+            appointment_id: after.id,
+            action: actionFor(prior, next),
+            actor_type: actor.type,
+            actor_id: actor.id,
+            actor_name: actor.name,
+            channel: actor.channel,
+            before: prior,
+            after: next,
+        });
+    } catch (error: any) {
+        console.error(`Audit Error (appointment ${after.id}):`, error.message);
+    }
+};
@@ -0,0 +1,110 @@
+// netlify/functions/lib/auth.ts
+// Staff sign-in for the dashboard endpoints. Staff log in through staffLogin, which checks
+// their password with Supabase Auth, and send the access token as "Authorization: Bearer <token>".
+import type { HandlerEvent } from '@netlify/functions';
+import { createClient, type Session, type SupabaseClient } from '@supabase/supabase-js';
+import { defaultStore } from './data';
+import type { StaffRepository, StaffRole } from './data/types';
+import { supabase } from './supabaseClient';
+
+export interface StaffUser {
+    id: string;
+    email: string;
+    name: string;
+    role: StaffRole;
+    /** Set for doctors: the only schedule they may see. */
+    doctorId: number | null;
+}
+
+/** Resolves an access token to the signed-in staff member; null when it is missing, invalid, expired or not staff. */
+export type Authenticator = (token: string) => Promise<StaffUser | null>;
+
+export interface StaffTokens {
+    userId: string;
+    accessToken: string;
+    refreshToken: string;
+    /** Unix seconds. */
+    expiresAt: number;
+}
+
+/** Password sign-in and token refresh; null when the credentials or refresh token are rejected. */
+export interface StaffSessions {
+    signIn(email: string, password: string): Promise<StaffTokens | null>;
+    refresh(refreshToken: string): Promise<StaffTokens | null>;
+}
+
+export type Access =
+    | { status: 'granted'; staff: StaffUser }
+    | { status: 'unauthenticated' }
+    | { status: 'forbidden' };
+
+export type DeniedAccess = Exclude<Access, { status: 'granted' }>;
+
+export const ADMIN_ROLES: StaffRole[] = ['admin'];
+export const FRONT_DESK_ROLES: StaffRole[] = ['admin', 'receptionist'];
+export const ALL_STAFF_ROLES: StaffRole[] = ['admin', 'receptionist', 'doctor'];
+
+export const createSupabaseAuthenticator = (client: SupabaseClient, staff: StaffRepository): Authenticator => async (token) => {
+    const { data, error } = await client.auth.getUser(token);
+    if (error || !data.user) return null;
+
+    // A valid Supabase user is only staff once they have a row in the staff table
+    const member = await staff.findByUserId(data.user.id);
+    if (!member) return null;
+    return { id: member.user_id, email: member.email, name: member.name, role: member.role, doctorId: member.doctor_id };
+};
+
+const toTokens = (session: Session | null): StaffTokens | null => session && {
+    userId: session.user.id,
+    accessToken: session.access_token,
+    refreshToken: session.refresh_token,
+    expiresAt: session.expires_at || 0,
+};
+
+// A fresh anon client per sign-in, so a user's session never lands on the shared service-role client
+export const createSupabaseSessions = (url: string, anonKey: string): StaffSessions => {
+    const authClient = () => createClient(url, anonKey, { auth: { persistSession: false, autoRefreshToken: false } });
+
+    return {
+        async signIn(email, password) {
+            const { data, error } = await authClient().auth.signInWithPassword({ email, password });
+            return error ? null : toTokens(data.session);
+        },
+
+        async refresh(refreshToken) {
+            const { data, error } = await authClient().auth.refreshSession({ refresh_token: refreshToken });
+            return error ? null : toTokens(data.session);
+        },
+    };
+};
+
+export const defaultAuthenticator = createSupabaseAuthenticator(supabase, defaultStore.staff);
+export const defaultSessions = createSupabaseSessions(process.env.SUPABASE_URL || '', process.env.SUPABASE_ANON_KEY || '');
+
+export const bearerToken = (event: HandlerEvent): string | null => {
+    const match = /^Bearer\s+(\S+)$/i.exec(event.headers.authorization || '');
+    return match ? match[1] : null;
+};
+
+/** The staff member behind the request, or null when it carries no valid token. */
+export const authenticate = async (event: HandlerEvent, authenticator: Authenticator): Promise<StaffUser | null> => {
+    const token = bearerToken(event);
+    return token ? authenticator(token) : null;
+};
+
+/** Whether the request comes from signed-in staff holding one of `roles`. */
+export const authorize = async (event: HandlerEvent, authenticator: Authenticator, roles: StaffRole[]): Promise<Access> => {
+    const staff = await authenticate(event, authenticator);
+    if (!staff) return { status: 'unauthenticated' };
+    if (!roles.includes(staff.role)) return { status: 'forbidden' };
+    return { status: 'granted', staff };
+};
+
+/** A doctor may only touch their own patients' bookings; other roles see every doctor. */
+export const canSeeDoctor = (staff: StaffUser, doctorId: number): boolean =>
+    staff.role !== 'doctor' || staff.doctorId === doctorId;
+
+/** The 401/403 response for a request `authorize` turned away. */
+export const deniedResponse = (access: DeniedAccess, headers: Record<string, string>) => access.status === 'unauthenticated'
+    ? { statusCode: 401, headers, body: JSON.stringify({ success: false, message: "Staff sign-in required." }) }
+    : { statusCode: 403, headers, body: JSON.stringify({ success: false, message: "Your role does not allow this action." }) };
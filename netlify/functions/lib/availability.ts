@@ -0,0 +1,46 @@
+// netlify/functions/lib/availability.ts
+// The slots a doctor offers on one date, before bookings are taken out: closed days first,
+// then the weekly schedule, or the doctor's static list when they have none.
+import type { DataStore, Doctor, DoctorLeave, HospitalHoliday, WeeklySchedule } from './data/types';
+import { generateSlots } from './scheduling';
+
+export type DayOffer =
+    | { status: 'open'; slots: string[] }
+    | { status: 'closed'; reason: string };
+
+/** What decides a doctor's day, however it was fetched. */
+export interface DayCalendar {
+    holiday: HospitalHoliday | null;
+    leave: DoctorLeave | null;
+    sessions: WeeklySchedule[];
+}
+
+export const dayOffer = (doctor: Doctor, date: string, { holiday, leave, sessions }: DayCalendar): DayOffer => {
+    if (holiday) {
+        return { status: 'closed', reason: `The hospital is closed on ${date} (${holiday.name}).` };
+    }
+
+    if (leave) {
+        return { status: 'closed', reason: `${doctor.name} is on leave on ${date}.` };
+    }
+
+    const slots = sessions.length > 0 ? generateSlots(sessions, date) : doctor.available_slots;
+
+    return slots.length > 0
+        ? { status: 'open', slots }
+        : { status: 'closed', reason: `${doctor.name} does not consult on ${date}.` };
+};
+
+/** What the doctor offers patients on `date`; nothing once they are inactive. */
+export const offeredSlots = async (store: DataStore, doctor: Doctor, date: string): Promise<DayOffer> => {
+    if (!doctor.active) {
+        return { status: 'closed', reason: `${doctor.name} is no longer taking appointments.` };
+    }
+
+    const [holiday, leave, sessions] = await Promise.all([
+        store.schedules.holidayOn(date),
+        store.schedules.leaveOn(doctor.id, date),
+        store.schedules.weeklyFor(doctor.id),
+    ]);
+    return dayOffer(doctor, date, { holiday, leave, sessions });
+};
@@ -0,0 +1,191 @@
+// netlify/functions/lib/calendar.ts
+// Appointments as iCalendar (RFC 5545): a one-event file a patient adds to their own calendar,
+// and a subscription feed of a doctor's visits. Links to both are signed with CALENDAR_SECRET.
+import { createHmac } from 'node:crypto';
+import type { AppointmentEvent, AppointmentListing, AppointmentStatus, AppointmentSummary, NewTurn, WeeklySchedule } from './data/types';
+import { HOSPITAL_TIMEZONE, hospitalUtcOffset, weekdayOf } from './dateTime';
+import { sameKey } from './http';
+import { toMinutes } from './scheduling';
+
+const HOSPITAL_NAME = 'Prudence Hospitals';
+const HOSPITAL_ADDRESS = process.env.HOSPITAL_ADDRESS || HOSPITAL_NAME;
+const PRODID = '-//Prudence Hospitals//Sahay//EN';
+const UID_DOMAIN = 'sahay.prudence-hospitals';
+
+export const APPOINTMENT_CALENDAR_PATH = '/.netlify/functions/appointmentCalendar';
+export const DOCTOR_CALENDAR_PATH = '/.netlify/functions/doctorCalendar';
+
+// Appointments store a start time only; a doctor without a schedule is booked in slots this long
+export const DEFAULT_VISIT_MINUTES = 15;
+
+export interface CalendarEvent {
+    uid: string;
+    /** Raised on every change, so calendar apps replace their copy. */
+    sequence: number;
+    status: 'CONFIRMED' | 'CANCELLED';
+    /** Hospital wall-clock date and HH:MM time. */
+    date: string;
+    time: string;
+    minutes: number;
+    summary: string;
+    description: string;
+}
+
+// --- Content lines ---
+
+/** TEXT values escape backslash, semicolon, comma and line breaks. */
+export const escapeText = (text: string): string =>
+    text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+/** Splits a content line into lines of at most 75 octets, never inside a UTF-8 character. */
+export const foldLine = (line: string): string => {
+    const lines: string[] = [];
+    let current = '';
+    let octets = 0;
+    for (const char of line) {
+        const size = Buffer.byteLength(char);
+        // Continuation lines start with a space, which counts towards their 75
+        const limit = lines.length === 0 ? 75 : 74;
+        if (octets + size > limit) {
+            lines.push(current);
+            current = '';
+            octets = 0;
+        }
+        current += char;
+        octets += size;
+    }
+    lines.push(current);
+    return lines.join('\r\n ');
+};
+
+const compact = (iso: string) => iso.replace(/[-:]/g, '');
+
+/** 20300115T100000 for a wall-clock date and time, `minutes` later. */
+const localStamp = (date: string, time: string, minutes = 0): string =>
+    compact(new Date(Date.parse(`${date}T${time}:00Z`) + minutes * 60_000).toISOString().slice(0, 19));
+
+const utcStamp = (at: Date) => `${compact(at.toISOString().slice(0, 19))}Z`;
+
+const formatOffset = (minutes: number) => {
+    const abs = Math.abs(minutes);
+    return `${minutes < 0 ? '-' : '+'}${String(Math.floor(abs / 60)).padStart(2, '0')}${String(abs % 60).padStart(2, '0')}`;
+};
+
+// One fixed-offset rule: right for India, which keeps no daylight saving time
+const timezoneLines = (now: Date): string[] => {
+    const offset = formatOffset(hospitalUtcOffset(now));
+    return [
+        'BEGIN:VTIMEZONE',
+        `TZID:${HOSPITAL_TIMEZONE}`,
+        'BEGIN:STANDARD',
+        'DTSTART:19700101T000000',
+        `TZOFFSETFROM:${offset}`,
+        `TZOFFSETTO:${offset}`,
+        'END:STANDARD',
+        'END:VTIMEZONE',
+    ];
+};
+
+const eventLines = (event: CalendarEvent, now: Date): string[] => [
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `DTSTAMP:${utcStamp(now)}`,
+    `DTSTART;TZID=${HOSPITAL_TIMEZONE}:${localStamp(event.date, event.time)}`,
+    `DTEND;TZID=${HOSPITAL_TIMEZONE}:${localStamp(event.date, event.time, event.minutes)}`,
+    `SEQUENCE:${event.sequence}`,
+    `STATUS:${event.status}`,
+    `SUMMARY:${escapeText(event.summary)}`,
+    `DESCRIPTION:${escapeText(event.description)}`,
+    `LOCATION:${escapeText(HOSPITAL_ADDRESS)}`,
+    'END:VEVENT',
+];
+
+/** A VCALENDAR of `events` in the hospital's timezone, CRLF-terminated and folded. */
+export const toICalendar = (events: CalendarEvent[], { name, now = new Date() }: { name?: string; now?: Date } = {}): string =>
+    [
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        `PRODID:${PRODID}`,
+        'CALSCALE:GREGORIAN',
+        'METHOD:PUBLISH',
+        ...(name ? [`X-WR-CALNAME:${escapeText(name)}`] : []),
+        `X-WR-TIMEZONE:${HOSPITAL_TIMEZONE}`,
+        ...timezoneLines(now),
+        ...events.flatMap(event => eventLines(event, now)),
+        'END:VCALENDAR',
+    ].map(foldLine).join('\r\n') + '\r\n';
+
+// --- Appointments as events ---
+
+const appointmentUid = (id: number) => `appointment-${id}@${UID_DOMAIN}`;
+
+/** The slot length of the weekly session the visit falls in. */
+export const visitMinutes = (sessions: WeeklySchedule[], date: string, time: string): number => {
+    const start = toMinutes(time);
+    const session = sessions.find(s =>
+        s.weekday === weekdayOf(date) && toMinutes(s.start_time) <= start && start < toMinutes(s.end_time));
+    return session?.slot_minutes || DEFAULT_VISIT_MINUTES;
+};
+
+// Changes that alter the patient's event; holds being confirmed or visits checked in do not
+const revisesEvent = (change: AppointmentEvent) => change.action === 'rescheduled' || change.after.status === 'cancelled';
+
+/**
+ * The patient's copy. Its sequence counts the reschedules and cancellations in the
+ * audit trail, so importing the file again after one of them updates the event.
+ */
+export const patientEvent = (appointment: AppointmentSummary, history: AppointmentEvent[], cancelled: boolean, minutes: number): CalendarEvent => ({
+    uid: appointmentUid(appointment.id),
+    sequence: history.filter(revisesEvent).length,
+    status: cancelled ? 'CANCELLED' : 'CONFIRMED',
+    date: appointment.appointment_date,
+    time: appointment.appointment_time,
+    minutes,
+    summary: `${appointment.doctor_name} (${appointment.specialty}) - ${HOSPITAL_NAME}`,
+    description: `Appointment no: ${appointment.id} for ${appointment.patient_name || 'the patient'}. Please arrive 15 minutes early.`,
+});
+
+// Visits that are not going ahead; the doctor's feed shows a no-show as cancelled too
+const CALLED_OFF: AppointmentStatus[] = ['cancelled', 'no_show'];
+
+/**
+ * The doctor's feed entry, versioned like the patient's copy. A cancelled visit or a
+ * no-show stays in the feed as cancelled, so subscribed calendars drop it rather than
+ * keep a stale copy. No phone numbers: feeds end up in third-party calendar services.
+ */
+export const doctorEvent = (appointment: AppointmentListing, history: AppointmentEvent[], minutes: number): CalendarEvent => ({
+    uid: appointmentUid(appointment.id),
+    sequence: history.filter(change => revisesEvent(change) || change.after.status === 'no_show').length,
+    status: CALLED_OFF.includes(appointment.status) ? 'CANCELLED' : 'CONFIRMED',
+    date: appointment.appointment_date,
+    time: appointment.appointment_time,
+    minutes,
+    summary: appointment.patient_name || 'Patient',
+    description: `Appointment no: ${appointment.id}.`,
+});
+
+// --- Signed links ---
+
+const signature = (subject: string) =>
+    createHmac('sha256', process.env.CALENDAR_SECRET || '').update(subject).digest('base64url');
+
+// Without CALENDAR_SECRET no link is handed out and none is accepted
+const linksEnabled = () => !!process.env.CALENDAR_SECRET;
+
+export const isSignedCalendar = (subject: string, token: string | undefined) =>
+    linksEnabled() && !!token && sameKey(token, signature(subject));
+
+/** The patient's .ics for one appointment; undefined, so left out of responses, when calendar links are off. */
+export const appointmentCalendarUrl = (appointmentId: number): string | undefined => linksEnabled()
+    ? `${APPOINTMENT_CALENDAR_PATH}?${new URLSearchParams({ appointment: String(appointmentId), token: signature(`appointment:${appointmentId}`) })}`
+    : undefined;
+
+/** A doctor's subscription feed; undefined when calendar links are off. Rotating CALENDAR_SECRET revokes every link. */
+export const doctorCalendarUrl = (doctorId: number): string | undefined => linksEnabled()
+    ? `${DOCTOR_CALENDAR_PATH}?${new URLSearchParams({ doctor: String(doctorId), token: signature(`doctor:${doctorId}`) })}`
+    : undefined;
+
+/** Calendar links the tools returned during an exchange, once each. */
+export const calendarUrlsIn = (turns: NewTurn[]): string[] => [...new Set(turns
+    .map(turn => (turn.tool_result as { calendarUrl?: unknown } | null | undefined)?.calendarUrl)
+    .filter((url): url is string => typeof url === 'string'))];
@@ -0,0 +1,61 @@
+// netlify/functions/lib/chat/index.ts
+// Messaging channels: each inbound message runs through the same assistant as the web chat,
+// in a conversation keyed by the sender's phone, and the reply goes back through the provider.
+import { runAssistant } from '../assistant';
+import type { DataStore, NewTurn } from '../data/types';
+import { DEFAULT_LANGUAGE, messagesFor, type Language } from '../i18n';
+import { normalizePhone } from '../phone';
+import { resumeContactSession, settleLanguage } from '../sessions';
+import type { ChatProvider, InboundChat, OutgoingChat, QuickReply } from './providers';
+
+export type { ChatProvider, InboundChat, OutgoingChat, QuickReply, WhatsAppCloudConfig } from './providers';
+export { CHAT_TOKEN_HEADER, chatProviderFromEnv, createStubChatProvider, createWhatsAppCloudProvider } from './providers';
+
+/**
+ * The slots found by this reply's last slot search, as quick replies; none once
+ * the reply has gone on to hold or book one.
+ */
+export const slotChoices = (turns: NewTurn[]): QuickReply[] => {
+    const last = [...turns].reverse().find(turn =>
+        turn.tool_name === 'getAvailableSlots' || turn.tool_name === 'holdSlot' || turn.tool_name === 'bookAppointment');
+    if (last?.tool_name !== 'getAvailableSlots') return [];
+
+    const slots = (last.tool_result as { availableSlots?: unknown } | null | undefined)?.availableSlots;
+    return Array.isArray(slots)
+        ? slots.filter((slot): slot is string => typeof slot === 'string').map(time => ({ id: time, title: time }))
+        : [];
+};
+
+/**
+ * Answers one inbound message and sends the reply. The sender's number is passed
+ * to the assistant so bookings use it without asking, and the reply is in the
+ * language of the sender's first message. Returns what was sent, or
+ * null for senders that are not Indian mobile numbers. Never throws: a failed
+ * reply is logged rather than retried, so the patient is not answered twice.
+ */
+export const answerChat = async (store: DataStore, provider: ChatProvider, inbound: InboundChat): Promise<OutgoingChat | null> => {
+    const phone = normalizePhone(inbound.from);
+    const message = inbound.text.trim();
+    if (!phone || !message) return null;
+
+    let reply: OutgoingChat;
+    let language: Language = DEFAULT_LANGUAGE;
+    try {
+        const session = await resumeContactSession(store, provider.channel, phone);
+        language = await settleLanguage(store, session, message);
+        const turns = await store.sessions.listTurns(session.id);
+        const { reply: text, turns: newTurns } = await runAssistant({ turns, message, sessionId: session.id, phone, language });
+        await store.sessions.appendTurns(session.id, newTurns);
+        reply = { to: phone, text, quickReplies: slotChoices(newTurns), language };
+    } catch (error: any) {
+        console.error("Chat Error:", error);
+        reply = { to: phone, text: messagesFor(language).chatError, quickReplies: [], language };
+    }
+
+    try {
+        await provider.send(reply);
+    } catch (error: any) {
+        console.error(`Chat Send Error (to ${phone}):`, error.message);
+    }
+    return reply;
+};
@@ -0,0 +1,208 @@
+// netlify/functions/lib/chat/providers.ts
+// Messaging channels patients can chat with Sahay on. Pick one with CHAT_PROVIDER.
+import type { HandlerEvent, HandlerResponse } from '@netlify/functions';
+import { createHmac } from 'node:crypto';
+import { appendFile } from 'node:fs/promises';
+import { sameKey } from '../http';
+import { DEFAULT_LANGUAGE, messagesFor, type Language } from '../i18n';
+
+export interface InboundChat {
+    /** The sender's number as the provider gives it. */
+    from: string;
+    text: string;
+}
+
+/** A tappable answer; tapping it sends `title` back as the patient's message. */
+export interface QuickReply {
+    id: string;
+    title: string;
+}
+
+export interface OutgoingChat {
+    /** E.164 phone number */
+    to: string;
+    text: string;
+    quickReplies: QuickReply[];
+    /** For the provider's own labels, such as a list's button; Telugu when unset. */
+    language?: Language;
+}
+
+export interface ChatProvider {
+    /** Stored as the session's channel, e.g. 'whatsapp'. */
+    channel: string;
+    /** Whether a webhook request really comes from the provider. */
+    isAuthentic(event: HandlerEvent): boolean;
+    /** The patient messages in a webhook request; none for delivery receipts and other events. */
+    parseInbound(event: HandlerEvent): InboundChat[];
+    /** Answers the provider's subscription handshake (a GET), for providers that have one. */
+    verifySubscription?(event: HandlerEvent): HandlerResponse;
+    /** Resolves with the provider's message id; rejects when the message was not accepted. */
+    send(message: OutgoingChat): Promise<{ providerMessageId: string | null }>;
+}
+
+/** Header carrying CHAT_WEBHOOK_TOKEN on requests to the stub provider's webhook. */
+export const CHAT_TOKEN_HEADER = 'x-chat-token';
+
+const rawBody = (event: HandlerEvent) =>
+    event.isBase64Encoded ? Buffer.from(event.body || '', 'base64').toString() : event.body || '';
+
+const parseJson = (text: string): any => {
+    try {
+        return JSON.parse(text);
+    } catch {
+        return null;
+    }
+};
+
+/**
+ * Local development and generic chat webhooks: JSON { from, text } in, with the
+ * token in x-chat-token. Replies are logged, kept in `sent` and, given a path,
+ * appended to that file as JSON lines.
+ */
+export const createStubChatProvider = ({ token, logFile }: { token?: string; logFile?: string } = {}): ChatProvider & { sent: OutgoingChat[] } => {
+    const sent: OutgoingChat[] = [];
+
+    return {
+        channel: 'chat',
+        sent,
+
+        isAuthentic(event) {
+            const given = event.headers[CHAT_TOKEN_HEADER];
+            return !!token && !!given && sameKey(given, token);
+        },
+
+        parseInbound(event) {
+            const body = parseJson(rawBody(event));
+            return typeof body?.from === 'string' && typeof body?.text === 'string' ? [{ from: body.from, text: body.text }] : [];
+        },
+
+        async send(message) {
+            sent.push(message);
+            const choices = message.quickReplies.map(reply => reply.title).join(' | ');
+            console.log(`[chat] to ${message.to}: ${message.text}${choices ? ` [${choices}]` : ''}`);
+            if (logFile) {
+                await appendFile(logFile, JSON.stringify({ ...message, sentAt: new Date().toISOString() }) + '\n');
+            }
+            return { providerMessageId: null };
+        },
+    };
+};
+
+export interface WhatsAppCloudConfig {
+    accessToken: string;
+    phoneNumberId: string;
+    /** The Meta app secret, which signs every webhook request. */
+    appSecret: string;
+    /** Chosen when subscribing the webhook; Meta echoes it back in the handshake. */
+    verifyToken: string;
+}
+
+const GRAPH_API = 'https://graph.facebook.com/v20.0';
+
+// WhatsApp's limits for interactive messages: up to 3 buttons, or a list of up to 10 rows
+const MAX_BUTTONS = 3;
+const MAX_LIST_ROWS = 10;
+const MAX_BUTTON_TITLE = 20;
+const MAX_ROW_TITLE = 24;
+const MAX_INTERACTIVE_BODY = 1024;
+
+const whatsAppContent = ({ text, quickReplies, language = DEFAULT_LANGUAGE }: OutgoingChat) => {
+    const replies = quickReplies.slice(0, MAX_LIST_ROWS);
+    if (replies.length === 0) return { type: 'text', text: { body: text } };
+
+    const body = { text: text.slice(0, MAX_INTERACTIVE_BODY) };
+    if (replies.length <= MAX_BUTTONS) {
+        return {
+            type: 'interactive',
+            interactive: {
+                type: 'button',
+                body,
+                action: { buttons: replies.map(reply => ({ type: 'reply', reply: { id: reply.id, title: reply.title.slice(0, MAX_BUTTON_TITLE) } })) }
+            }
+        };
+    }
+    return {
+        type: 'interactive',
+        interactive: {
+            type: 'list',
+            body,
+            action: { button: messagesFor(language).chooseButton, sections: [{ rows: replies.map(reply => ({ id: reply.id, title: reply.title.slice(0, MAX_ROW_TITLE) })) }] }
+        }
+    };
+};
+
+// Typed text, a tapped button or a picked list row; anything else (images, locations) is skipped
+const whatsAppText = (message: any): string | null => {
+    if (message?.type === 'text') return message.text?.body ?? null;
+    if (message?.type === 'interactive') return message.interactive?.button_reply?.title ?? message.interactive?.list_reply?.title ?? null;
+    if (message?.type === 'button') return message.button?.text ?? null;
+    return null;
+};
+
+/** WhatsApp through Meta's Cloud API. */
+export const createWhatsAppCloudProvider = (config: WhatsAppCloudConfig): ChatProvider => ({
+    channel: 'whatsapp',
+
+    isAuthentic(event) {
+        const given = event.headers['x-hub-signature-256'];
+        const expected = `sha256=${createHmac('sha256', config.appSecret).update(rawBody(event)).digest('hex')}`;
+        return !!given && sameKey(given, expected);
+    },
+
+    parseInbound(event) {
+        const body = parseJson(rawBody(event));
+        const messages = (body?.entry || []).flatMap((entry: any) =>
+            (entry?.changes || []).flatMap((change: any) => change?.value?.messages || []));
+
+        return messages.flatMap((message: any) => {
+            const text = whatsAppText(message);
+            return typeof message?.from === 'string' && text ? [{ from: message.from, text }] : [];
+        });
+    },
+
+    verifySubscription(event) {
+        const query = event.queryStringParameters || {};
+        const token = query['hub.verify_token'];
+        return query['hub.mode'] === 'subscribe' && token && sameKey(token, config.verifyToken)
+            ? { statusCode: 200, headers: { 'Content-Type': 'text/plain' }, body: query['hub.challenge'] || '' }
+            : { statusCode: 403, body: '' };
+    },
+
+    async send(message) {
+        const response = await fetch(`${GRAPH_API}/${config.phoneNumberId}/messages`, {
+            method: 'POST',
+            headers: {
+                'Authorization': `Bearer ${config.accessToken}`,
+                'Content-Type': 'application/json'
+            },
+            body: JSON.stringify({ messaging_product: 'whatsapp', to: message.to.replace(/^\+/, ''), ...whatsAppContent(message) })
+        });
+
+        const result = await response.json();
+        if (!response.ok) {
+            throw new Error(`WhatsApp send failed (${response.status}): ${result.error?.message || 'unknown error'}`);
+        }
+        return { providerMessageId: result.messages?.[0]?.id || null };
+    },
+});
+
+export const chatProviderFromEnv = (env: NodeJS.ProcessEnv = process.env): ChatProvider => {
+    switch (env.CHAT_PROVIDER || 'stub') {
+        case 'whatsapp': {
+            const { WHATSAPP_ACCESS_TOKEN, WHATSAPP_PHONE_NUMBER_ID, WHATSAPP_APP_SECRET, WHATSAPP_VERIFY_TOKEN } = env;
+            if (!WHATSAPP_ACCESS_TOKEN || !WHATSAPP_PHONE_NUMBER_ID || !WHATSAPP_APP_SECRET || !WHATSAPP_VERIFY_TOKEN) {
+                throw new Error('WhatsApp Cloud API credentials are required for the WhatsApp chat channel.');
+            }
+            return createWhatsAppCloudProvider({
+                accessToken: WHATSAPP_ACCESS_TOKEN,
+                phoneNumberId: WHATSAPP_PHONE_NUMBER_ID,
+                appSecret: WHATSAPP_APP_SECRET,
+                verifyToken: WHATSAPP_VERIFY_TOKEN,
+            });
+        }
+        case 'stub':
+            return createStubChatProvider({ token: env.CHAT_WEBHOOK_TOKEN, logFile: env.CHAT_LOG_FILE });
+        default:
+            throw new Error(`Unknown CHAT_PROVIDER: ${env.CHAT_PROVIDER}`);
+    }
+};
@@ -0,0 +1,17 @@
+// netlify/functions/lib/data/errors.ts
+
+/** Raised when a booking, hold or reschedule targets a slot another active row already occupies. */
+export class SlotTakenError extends Error {
+    constructor(message = 'This slot was just booked. Please pick another.') {
+        super(message);
+        this.name = 'SlotTakenError';
+    }
+}
+
+/** Raised when a specialty would share its English name (ignoring case and spaces) with another. */
+export class DuplicateSpecialtyError extends Error {
+    constructor(name: string) {
+        super(`A specialty named "${name}" already exists.`);
+        this.name = 'DuplicateSpecialtyError';
+    }
+}
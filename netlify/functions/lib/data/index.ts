@@ -0,0 +1,10 @@
+// netlify/functions/lib/data/index.ts
+import { supabase } from '../supabaseClient';
+import { createSupabaseStore } from './supabaseStore';
+
+export type * from './types';
+export { ACTIVE_STATUSES } from './types';
+export { DuplicateSpecialtyError, SlotTakenError } from './errors';
+
+// Production store; handlers accept any DataStore so tests can inject the in-memory one
+export const defaultStore = createSupabaseStore(supabase);
@@ -0,0 +1,578 @@
+// netlify/functions/lib/data/memoryStore.ts
+// In-process stand-in for Supabase, used by tests and local tooling.
+import { randomUUID } from 'node:crypto';
+import { daysBetween, hospitalNow } from '../dateTime';
+import { DuplicateSpecialtyError, SlotTakenError } from './errors';
+import {
+    ACTIVE_STATUSES,
+    type Appointment,
+    type AppointmentEvent,
+    type AppointmentListing,
+    type AppointmentNotification,
+    type AppointmentSummary,
+    type AppointmentTally,
+    type ConversationSession,
+    type ConversationTurn,
+    type DataStore,
+    type Doctor,
+    type EmergencyEscalation,
+    type DoctorLeave,
+    type HospitalHoliday,
+    type Patient,
+    type SlotRef,
+    type Specialty,
+    type StaffMember,
+    type TriageRule,
+    type VoiceCall,
+    type WaitlistEntry,
+    type WeeklySchedule,
+} from './types';
+
+export interface MemoryTables {
+    specialties: Specialty[];
+    doctors: Doctor[];
+    patients: Patient[];
+    appointments: Appointment[];
+    doctor_schedules: WeeklySchedule[];
+    doctor_leave: DoctorLeave[];
+    hospital_holidays: HospitalHoliday[];
+    conversation_sessions: ConversationSession[];
+    conversation_turns: ConversationTurn[];
+    appointment_notifications: AppointmentNotification[];
+    waitlist_entries: WaitlistEntry[];
+    staff: StaffMember[];
+    appointment_events: AppointmentEvent[];
+    triage_rules: TriageRule[];
+    emergency_escalations: EmergencyEscalation[];
+    voice_calls: VoiceCall[];
+}
+
+export interface MemoryStore extends DataStore {
+    /** Live rows, exposed so tests can seed and assert on them directly. */
+    tables: MemoryTables;
+}
+
+// Mirrors Postgres ILIKE '%needle%'
+const contains = (haystack: string, needle: string) =>
+    haystack.toLowerCase().includes(needle.toLowerCase());
+
+// Mirrors the unique index on lower(btrim(name_en))
+const sameName = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+const isActive = (appointment: Appointment, now: Date) =>
+    ACTIVE_STATUSES.includes(appointment.status) &&
+    (appointment.status !== 'held' || (!!appointment.hold_expires_at && new Date(appointment.hold_expires_at) > now));
+
+export const createMemoryStore = (seed: Partial<MemoryTables> = {}): MemoryStore => {
+    const tables: MemoryTables = {
+        specialties: (seed.specialties || []).map(specialty => ({ ...specialty })),
+        doctors: (seed.doctors || []).map(doctor => ({ ...doctor })),
+        patients: (seed.patients || []).map(patient => ({ ...patient })),
+        appointments: (seed.appointments || []).map(appointment => ({ ...appointment })),
+        doctor_schedules: [...(seed.doctor_schedules || [])],
+        doctor_leave: [...(seed.doctor_leave || [])],
+        hospital_holidays: [...(seed.hospital_holidays || [])],
+        conversation_sessions: (seed.conversation_sessions || []).map(session => ({ ...session })),
+        conversation_turns: (seed.conversation_turns || []).map(turn => ({ ...turn })),
+        appointment_notifications: (seed.appointment_notifications || []).map(notification => ({ ...notification })),
+        waitlist_entries: (seed.waitlist_entries || []).map(entry => ({ ...entry })),
+        staff: (seed.staff || []).map(member => ({ ...member })),
+        appointment_events: (seed.appointment_events || []).map(event => ({ ...event })),
+        triage_rules: (seed.triage_rules || []).map(rule => ({ ...rule })),
+        emergency_escalations: (seed.emergency_escalations || []).map(escalation => ({ ...escalation })),
+        voice_calls: (seed.voice_calls || []).map(call => ({ ...call })),
+    };
+    let nextSpecialtyId = Math.max(0, ...tables.specialties.map(s => s.id)) + 1;
+    let nextDoctorId = Math.max(0, ...tables.doctors.map(d => d.id)) + 1;
+    let nextAppointmentId = Math.max(0, ...tables.appointments.map(a => a.id)) + 1;
+    let nextPatientId = Math.max(0, ...tables.patients.map(p => p.id)) + 1;
+    let nextTurnId = Math.max(0, ...tables.conversation_turns.map(t => t.id)) + 1;
+    let nextNotificationId = Math.max(0, ...tables.appointment_notifications.map(n => n.id)) + 1;
+    let nextWaitlistId = Math.max(0, ...tables.waitlist_entries.map(w => w.id)) + 1;
+    let nextEventId = Math.max(0, ...tables.appointment_events.map(e => e.id)) + 1;
+    let nextEscalationId = Math.max(0, ...tables.emergency_escalations.map(e => e.id)) + 1;
+
+    const summarise = (a: Appointment): AppointmentSummary => {
+        const doctor = tables.doctors.find(d => d.id === a.doctor_id);
+        return {
+            id: a.id,
+            patient_name: a.patient_name,
+            phone: a.phone,
+            doctor_name: doctor?.name || '',
+            specialty: doctor?.specialty || '',
+            appointment_date: a.appointment_date,
+            appointment_time: a.appointment_time.slice(0, 5),
+        };
+    };
+
+    const listings = (fromDate: string, toDate: string, doctorId?: number): AppointmentListing[] =>
+        tables.appointments
+            .filter(a =>
+                a.appointment_date >= fromDate && a.appointment_date <= toDate &&
+                a.status !== 'held' && a.status !== 'expired' &&
+                (doctorId === undefined || a.doctor_id === doctorId))
+            .sort((a, b) => a.appointment_date.localeCompare(b.appointment_date) || a.appointment_time.localeCompare(b.appointment_time))
+            .map(a => ({ ...summarise(a), doctor_id: a.doctor_id, status: a.status, session_id: a.session_id }));
+
+    // Same rule as the partial unique index: one active row per doctor/date/time
+    const occupant = ({ doctorId, date, time }: SlotRef, exceptId?: number) => {
+        const now = new Date();
+        tables.appointments
+            .filter(a => a.status === 'held' && !isActive(a, now))
+            .forEach(a => { a.status = 'expired'; });
+        return tables.appointments.find(a =>
+            a.id !== exceptId &&
+            a.doctor_id === doctorId &&
+            a.appointment_date === date &&
+            a.appointment_time === time &&
+            ACTIVE_STATUSES.includes(a.status));
+    };
+
+    // The foreign key and the trigger that copies the specialty's name onto the doctor
+    const specialtyName = (id: number) => {
+        const specialty = tables.specialties.find(s => s.id === id);
+        if (!specialty) throw new Error(`No specialty ${id}.`);
+        return specialty.name_en;
+    };
+
+    const assertNameFree = (name: string, exceptId?: number) => {
+        if (tables.specialties.some(s => s.id !== exceptId && sameName(s.name_en, name))) throw new DuplicateSpecialtyError(name.trim());
+    };
+
+    const insert = (row: Omit<Appointment, 'id'>) => {
+        if (occupant({ doctorId: row.doctor_id, date: row.appointment_date, time: row.appointment_time })) {
+            throw new SlotTakenError();
+        }
+        const inserted = { ...row, id: nextAppointmentId++ };
+        tables.appointments.push(inserted);
+        return { ...inserted };
+    };
+
+    return {
+        tables,
+
+        doctors: {
+            async search({ name, specialty, includeInactive }) {
+                return tables.doctors
+                    .filter(doctor =>
+                        (includeInactive || doctor.active) &&
+                        (!name || contains(doctor.name, name)) &&
+                        (!specialty || contains(doctor.specialty, specialty)))
+                    .map(doctor => ({ ...doctor }));
+            },
+
+            async findById(id) {
+                const doctor = tables.doctors.find(d => d.id === id);
+                return doctor ? { ...doctor } : null;
+            },
+
+            async create(doctor) {
+                const row = { ...doctor, id: nextDoctorId++, specialty: specialtyName(doctor.specialty_id) };
+                tables.doctors.push(row);
+                return { ...row };
+            },
+
+            async update(id, changes) {
+                const doctor = tables.doctors.find(d => d.id === id);
+                if (!doctor) return null;
+                const specialty = specialtyName(changes.specialty_id ?? doctor.specialty_id);
+                Object.assign(doctor, changes, { specialty });
+                return { ...doctor };
+            },
+        },
+
+        specialties: {
+            async list() {
+                return tables.specialties
+                    .map(specialty => ({ ...specialty, synonyms: [...specialty.synonyms] }))
+                    .sort((a, b) => a.name_en.localeCompare(b.name_en));
+            },
+
+            async findById(id) {
+                const specialty = tables.specialties.find(s => s.id === id);
+                return specialty ? { ...specialty, synonyms: [...specialty.synonyms] } : null;
+            },
+
+            async create(specialty) {
+                assertNameFree(specialty.name_en);
+                const row = { ...specialty, id: nextSpecialtyId++ };
+                tables.specialties.push(row);
+                return { ...row, synonyms: [...row.synonyms] };
+            },
+
+            async update(id, changes) {
+                const specialty = tables.specialties.find(s => s.id === id);
+                if (!specialty) return null;
+                if (changes.name_en !== undefined) assertNameFree(changes.name_en, id);
+                Object.assign(specialty, changes);
+                tables.doctors.filter(d => d.specialty_id === id).forEach(d => { d.specialty = specialty.name_en; });
+                return { ...specialty, synonyms: [...specialty.synonyms] };
+            },
+        },
+
+        patients: {
+            async findOrCreate(phone, name) {
+                const existing = tables.patients.find(p => p.phone === phone && p.name.toLowerCase() === name.trim().toLowerCase());
+                if (existing) return { ...existing };
+
+                const patient = { id: nextPatientId++, phone, name: name.trim() };
+                tables.patients.push(patient);
+                return { ...patient };
+            },
+        },
+
+        appointments: {
+            async findById(id) {
+                const row = tables.appointments.find(a => a.id === id);
+                return row ? { ...row } : null;
+            },
+
+            async listBySession(sessionId) {
+                return tables.appointments.filter(a => a.session_id === sessionId).map(a => ({ ...a }));
+            },
+
+            async listUpcomingByPhone(phone, fromDate) {
+                const patientIds = tables.patients.filter(p => p.phone === phone).map(p => p.id);
+                return tables.appointments
+                    .filter(a =>
+                        a.patient_id !== null && patientIds.includes(a.patient_id) &&
+                        a.status === 'confirmed' &&
+                        a.appointment_date >= fromDate)
+                    .sort((a, b) => `${a.appointment_date} ${a.appointment_time}`.localeCompare(`${b.appointment_date} ${b.appointment_time}`))
+                    .map(summarise);
+            },
+
+            async findSummaryById(id) {
+                const row = tables.appointments.find(a => a.id === id);
+                return row ? summarise(row) : null;
+            },
+
+            async listConfirmedOn(date) {
+                return tables.appointments
+                    .filter(a => a.appointment_date === date && a.status === 'confirmed')
+                    .sort((a, b) => a.appointment_time.localeCompare(b.appointment_time))
+                    .map(summarise);
+            },
+
+            async listForDay(date, doctorId) {
+                return listings(date, date, doctorId);
+            },
+
+            async listBetween(fromDate, toDate, doctorId) {
+                return listings(fromDate, toDate, doctorId);
+            },
+
+            async listTakenTimes(doctorId, date) {
+                const now = new Date();
+                return tables.appointments
+                    .filter(a => a.doctor_id === doctorId && a.appointment_date === date && isActive(a, now))
+                    .map(a => a.appointment_time.slice(0, 5));
+            },
+
+            async create(appointment) {
+                return insert({ ...appointment, hold_expires_at: null });
+            },
+
+            async hold(slot, expiresAt) {
+                return insert({
+                    doctor_id: slot.doctorId,
+                    patient_id: null,
+                    patient_name: null,
+                    phone: null,
+                    appointment_date: slot.date,
+                    appointment_time: slot.time,
+                    status: 'held',
+                    hold_expires_at: expiresAt.toISOString(),
+                    session_id: null,
+                });
+            },
+
+            async releaseHold(holdId) {
+                const row = tables.appointments.find(a => a.id === holdId && a.status === 'held');
+                if (!row) return null;
+                row.status = 'expired';
+                return { ...row };
+            },
+
+            async confirmHold(holdId, patient) {
+                const row = tables.appointments.find(a => a.id === holdId && a.status === 'held' && isActive(a, new Date()));
+                if (!row) return null;
+                Object.assign(row, patient, { status: 'confirmed', hold_expires_at: null });
+                return { ...row };
+            },
+
+            async cancelById(id) {
+                const row = tables.appointments.find(a => a.id === id && a.status === 'confirmed');
+                if (!row) return null;
+                row.status = 'cancelled';
+                return { ...row };
+            },
+
+            async rescheduleById(id, to) {
+                const row = tables.appointments.find(a => a.id === id && a.status === 'confirmed');
+                if (!row) return null;
+                if (occupant({ doctorId: row.doctor_id, date: to.date, time: to.time }, row.id)) {
+                    throw new SlotTakenError();
+                }
+                row.appointment_date = to.date;
+                row.appointment_time = to.time;
+                return { ...row };
+            },
+
+            async transition(id, from, to) {
+                const row = tables.appointments.find(a => a.id === id && a.status === from);
+                if (!row) return null;
+                row.status = to;
+                return { ...row };
+            },
+
+            async tallyBetween(fromDate, toDate) {
+                const tallies = new Map<string, AppointmentTally>();
+                for (const a of tables.appointments) {
+                    if (a.appointment_date < fromDate || a.appointment_date > toDate || a.status === 'held' || a.status === 'expired') continue;
+
+                    // The first event that put it in a booked status says who made it, and when: the
+                    // confirmation of a hold, or the creation of a walk-in already checked in
+                    const booking = tables.appointment_events
+                        .filter(e => e.appointment_id === a.id && e.after.status !== 'held' && e.after.status !== 'expired')
+                        .sort((x, y) => x.created_at.localeCompare(y.created_at))[0];
+                    const bookedBy = booking?.actor_type ?? null;
+
+                    const key = [a.appointment_date, a.doctor_id, a.status, bookedBy].join('|');
+                    const tally = tallies.get(key) || { appointment_date: a.appointment_date, doctor_id: a.doctor_id, status: a.status, booked_by: bookedBy, appointments: 0, lead_days: 0 };
+                    tally.appointments++;
+                    if (booking) tally.lead_days += daysBetween(hospitalNow(new Date(booking.created_at)).date, a.appointment_date);
+                    tallies.set(key, tally);
+                }
+                return [...tallies.values()];
+            },
+        },
+
+        schedules: {
+            async weeklyFor(doctorId) {
+                return tables.doctor_schedules.filter(s => s.doctor_id === doctorId);
+            },
+
+            async leaveOn(doctorId, date) {
+                return tables.doctor_leave.find(l => l.doctor_id === doctorId && l.start_date <= date && l.end_date >= date) || null;
+            },
+
+            async holidayOn(date) {
+                return tables.hospital_holidays.find(h => h.holiday_date === date) || null;
+            },
+
+            async leaveBetween(fromDate, toDate) {
+                return tables.doctor_leave.filter(l => l.start_date <= toDate && l.end_date >= fromDate);
+            },
+
+            async holidaysBetween(fromDate, toDate) {
+                return tables.hospital_holidays.filter(h => h.holiday_date >= fromDate && h.holiday_date <= toDate);
+            },
+        },
+
+        sessions: {
+            async create(channel, contact) {
+                const now = new Date().toISOString();
+                const session = { id: randomUUID(), channel, contact: contact || null, language: null, created_at: now, updated_at: now };
+                tables.conversation_sessions.push(session);
+                return { ...session };
+            },
+
+            async findById(id) {
+                const session = tables.conversation_sessions.find(s => s.id === id);
+                return session ? { ...session } : null;
+            },
+
+            async findLatestByContact(channel, contact) {
+                const [latest] = tables.conversation_sessions
+                    .filter(s => s.channel === channel && s.contact === contact)
+                    .sort((a, b) => b.updated_at.localeCompare(a.updated_at));
+                return latest ? { ...latest } : null;
+            },
+
+            async setLanguage(id, language) {
+                const session = tables.conversation_sessions.find(s => s.id === id);
+                if (session) session.language = language;
+            },
+
+            async listTurns(sessionId) {
+                return tables.conversation_turns
+                    .filter(t => t.session_id === sessionId)
+                    .sort((a, b) => a.seq - b.seq)
+                    .map(turn => ({ ...turn }));
+            },
+
+            async appendTurns(sessionId, turns) {
+                const now = new Date().toISOString();
+                const start = Math.max(0, ...tables.conversation_turns.filter(t => t.session_id === sessionId).map(t => t.seq)) + 1;
+                turns.forEach((turn, index) => {
+                    tables.conversation_turns.push({
+                        text: null,
+                        tool_name: null,
+                        tool_args: null,
+                        tool_result: null,
+                        ...turn,
+                        id: nextTurnId++,
+                        session_id: sessionId,
+                        seq: start + index,
+                        created_at: now,
+                    });
+                });
+                const session = tables.conversation_sessions.find(s => s.id === sessionId);
+                if (session) session.updated_at = now;
+            },
+        },
+
+        notifications: {
+            async record(notification) {
+                tables.appointment_notifications.push({ ...notification, id: nextNotificationId++, created_at: new Date().toISOString() });
+            },
+
+            async hasSent(appointmentId, kind, slot) {
+                return tables.appointment_notifications.some(n =>
+                    n.appointment_id === appointmentId &&
+                    n.kind === kind &&
+                    n.status === 'sent' &&
+                    n.appointment_date === slot.date &&
+                    n.appointment_time === slot.time);
+            },
+        },
+
+        waitlist: {
+            async add(entry) {
+                const row: WaitlistEntry = {
+                    ...entry,
+                    id: nextWaitlistId++,
+                    status: 'waiting',
+                    offer_appointment_id: null,
+                    offer_expires_at: null,
+                    created_at: new Date().toISOString(),
+                };
+                tables.waitlist_entries.push(row);
+                return { ...row };
+            },
+
+            async findById(id) {
+                const row = tables.waitlist_entries.find(w => w.id === id);
+                return row ? { ...row } : null;
+            },
+
+            async listWaiting(doctorId, date) {
+                return tables.waitlist_entries
+                    .filter(w => w.doctor_id === doctorId && w.status === 'waiting' && w.from_date <= date && w.to_date >= date)
+                    .sort((a, b) => a.created_at.localeCompare(b.created_at) || a.id - b.id)
+                    .map(w => ({ ...w }));
+            },
+
+            async listOffersByPhone(phone) {
+                return tables.waitlist_entries
+                    .filter(w => w.phone === phone && w.status === 'offered')
+                    .map(w => ({ ...w }));
+            },
+
+            async listOpen(doctorId) {
+                return tables.waitlist_entries
+                    .filter(w => (w.status === 'waiting' || w.status === 'offered') && (doctorId === undefined || w.doctor_id === doctorId))
+                    .sort((a, b) => a.created_at.localeCompare(b.created_at) || a.id - b.id)
+                    .map(w => ({ ...w }));
+            },
+
+            async listExpiredOffers(now) {
+                return tables.waitlist_entries
+                    .filter(w => w.status === 'offered' && !!w.offer_expires_at && new Date(w.offer_expires_at) <= now)
+                    .map(w => ({ ...w }));
+            },
+
+            async transition(id, from, update) {
+                const row = tables.waitlist_entries.find(w => w.id === id && w.status === from);
+                if (!row) return null;
+                Object.assign(row, update);
+                return { ...row };
+            },
+        },
+
+        staff: {
+            async findByUserId(userId) {
+                const member = tables.staff.find(m => m.user_id === userId);
+                return member ? { ...member } : null;
+            },
+        },
+
+        audit: {
+            async record(event) {
+                tables.appointment_events.push({ ...event, id: nextEventId++, created_at: new Date().toISOString() });
+            },
+
+            async listFor(appointmentId) {
+                return tables.appointment_events
+                    .filter(e => e.appointment_id === appointmentId)
+                    .map(e => ({ ...e }));
+            },
+
+            async listForAppointments(appointmentIds) {
+                return tables.appointment_events
+                    .filter(e => appointmentIds.includes(e.appointment_id))
+                    .map(e => ({ ...e }));
+            },
+        },
+
+        triage: {
+            async listRules() {
+                return tables.triage_rules.map(rule => ({ ...rule, keywords: [...rule.keywords] }));
+            },
+
+            async recordEscalation(escalation) {
+                const row: EmergencyEscalation = {
+                    ...escalation,
+                    id: nextEscalationId++,
+                    status: 'open',
+                    acknowledged_by: null,
+                    acknowledged_at: null,
+                    created_at: new Date().toISOString(),
+                };
+                tables.emergency_escalations.push(row);
+                return { ...row };
+            },
+
+            async listOpenEscalations() {
+                return tables.emergency_escalations
+                    .filter(e => e.status === 'open')
+                    .sort((a, b) => b.created_at.localeCompare(a.created_at) || b.id - a.id)
+                    .map(e => ({ ...e }));
+            },
+
+            async acknowledge(id, staffId) {
+                const row = tables.emergency_escalations.find(e => e.id === id && e.status === 'open');
+                if (!row) return null;
+                Object.assign(row, { status: 'acknowledged', acknowledged_by: staffId, acknowledged_at: new Date().toISOString() });
+                return { ...row };
+            },
+        },
+
+        calls: {
+            async findById(callId) {
+                const call = tables.voice_calls.find(c => c.call_id === callId);
+                return call ? { ...call } : null;
+            },
+
+            async start(call) {
+                const row: VoiceCall = {
+                    ...call,
+                    silent_turns: 0,
+                    awaiting_confirmation: false,
+                    started_at: new Date().toISOString(),
+                    ended_at: null,
+                };
+                tables.voice_calls.push(row);
+                return { ...row };
+            },
+
+            async update(callId, update) {
+                const call = tables.voice_calls.find(c => c.call_id === callId);
+                if (!call) return null;
+                Object.assign(call, update);
+                return { ...call };
+            },
+        },
+    };
+};
@@ -0,0 +1,801 @@
+// netlify/functions/lib/data/supabaseStore.ts
+import type { PostgrestError, SupabaseClient } from '@supabase/supabase-js';
+import { HOSPITAL_TIMEZONE } from '../dateTime';
+import { DuplicateSpecialtyError, SlotTakenError } from './errors';
+import {
+    ACTIVE_STATUSES,
+    type Appointment,
+    type AppointmentEvent,
+    type AppointmentListing,
+    type AppointmentSummary,
+    type AppointmentTally,
+    type ConversationSession,
+    type ConversationTurn,
+    type DataStore,
+    type Doctor,
+    type EmergencyEscalation,
+    type DoctorLeave,
+    type HospitalHoliday,
+    type Patient,
+    type SlotRef,
+    type Specialty,
+    type StaffMember,
+    type TriageRule,
+    type VoiceCall,
+    type WaitlistEntry,
+    type WeeklySchedule,
+} from './types';
+
+// Postgres unique_violation: the one-active-row-per-slot index, or a specialty's name
+const UNIQUE_VIOLATION = '23505';
+
+// Appointment ids per audit query
+const AUDIT_BATCH_SIZE = 100;
+
+const raise = (error: PostgrestError): never => {
+    if (error.code === UNIQUE_VIOLATION) throw new SlotTakenError();
+    throw error;
+};
+
+const releaseExpiredHolds = async (client: SupabaseClient, { doctorId, date, time }: SlotRef) => {
+    const { error } = await client
+        .from('appointments')
+        .update({ status: 'expired' })
+        .eq('doctor_id', doctorId)
+        .eq('appointment_date', date)
+        .eq('appointment_time', time)
+        .eq('status', 'held')
+        .lte('hold_expires_at', new Date().toISOString());
+
+    if (error) throw error;
+};
+
+const fetchAppointment = async (client: SupabaseClient, id: number) => {
+    const { data, error } = await client
+        .from('appointments')
+        .select('*')
+        .eq('id', id)
+        .maybeSingle();
+
+    if (error) throw error;
+    return data as Appointment | null;
+};
+
+// ILIKE without wildcards: a '%' or '_' in a patient's name must match only itself
+const likeLiteral = (text: string) => text.replace(/[\\%_]/g, char => `\\${char}`);
+
+const raiseForSpecialty = (error: PostgrestError, name: string): never => {
+    if (error.code === UNIQUE_VIOLATION) throw new DuplicateSpecialtyError(name.trim());
+    throw error;
+};
+
+const SUMMARY_COLUMNS = 'id, patient_name, phone, appointment_date, appointment_time, doctors ( name, specialty )';
+
+const toSummary = (row: any): AppointmentSummary => ({
+    id: row.id,
+    patient_name: row.patient_name,
+    phone: row.phone,
+    doctor_name: row.doctors.name,
+    specialty: row.doctors.specialty,
+    appointment_date: row.appointment_date,
+    appointment_time: row.appointment_time.slice(0, 5),
+});
+
+const listings = async (client: SupabaseClient, fromDate: string, toDate: string, doctorId?: number): Promise<AppointmentListing[]> => {
+    let query = client
+        .from('appointments')
+        .select(`${SUMMARY_COLUMNS}, doctor_id, status, session_id`)
+        .gte('appointment_date', fromDate)
+        .lte('appointment_date', toDate)
+        .neq('status', 'held')
+        .neq('status', 'expired');
+
+    if (doctorId !== undefined) query = query.eq('doctor_id', doctorId);
+
+    const { data, error } = await query
+        .order('appointment_date', { ascending: true })
+        .order('appointment_time', { ascending: true });
+    if (error) throw error;
+    return (data || []).map((row: any): AppointmentListing => ({
+        ...toSummary(row),
+        doctor_id: row.doctor_id,
+        status: row.status,
+        session_id: row.session_id,
+    }));
+};
+
+export const createSupabaseStore = (client: SupabaseClient): DataStore => ({
+    doctors: {
+        async search({ name, specialty, includeInactive }) {
+            let query = client.from('doctors').select('*');
+
+            if (!includeInactive) query = query.eq('active', true);
+            if (name) query = query.ilike('name', `%${name}%`);
+            if (specialty) query = query.ilike('specialty', `%${specialty}%`);
+
+            const { data, error } = await query;
+            if (error) throw error;
+            return data as Doctor[];
+        },
+
+        async findById(id) {
+            const { data, error } = await client
+                .from('doctors')
+                .select('*')
+                .eq('id', id)
+                .maybeSingle();
+
+            if (error) throw error;
+            return data as Doctor | null;
+        },
+
+        // The database fills in doctors.specialty from specialty_id
+        async create(doctor) {
+            const { data, error } = await client
+                .from('doctors')
+                .insert(doctor)
+                .select('*')
+                .single();
+
+            if (error) throw error;
+            return data as Doctor;
+        },
+
+        async update(id, changes) {
+            const { data, error } = await client
+                .from('doctors')
+                .update(changes)
+                .eq('id', id)
+                .select('*')
+                .maybeSingle();
+
+            if (error) throw error;
+            return data as Doctor | null;
+        },
+    },
+
+    specialties: {
+        async list() {
+            const { data, error } = await client
+                .from('specialties')
+                .select('*')
+                .order('name_en');
+
+            if (error) throw error;
+            return data as Specialty[];
+        },
+
+        async findById(id) {
+            const { data, error } = await client
+                .from('specialties')
+                .select('*')
+                .eq('id', id)
+                .maybeSingle();
+
+            if (error) throw error;
+            return data as Specialty | null;
+        },
+
+        async create(specialty) {
+            const { data, error } = await client
+                .from('specialties')
+                .insert(specialty)
+                .select('*')
+                .single();
+
+            if (error) raiseForSpecialty(error, specialty.name_en);
+            return data as Specialty;
+        },
+
+        // A trigger renames the specialty on its doctors
+        async update(id, changes) {
+            const { data, error } = await client
+                .from('specialties')
+                .update(changes)
+                .eq('id', id)
+                .select('*')
+                .maybeSingle();
+
+            if (error) raiseForSpecialty(error, changes.name_en || '');
+            return data as Specialty | null;
+        },
+    },
+
+    patients: {
+        async findOrCreate(phone, name) {
+            const { data: existing, error } = await client
+                .from('patients')
+                .select('*')
+                .eq('phone', phone)
+                .ilike('name', likeLiteral(name.trim()))
+                .limit(1)
+                .maybeSingle();
+
+            if (error) throw error;
+            if (existing) return existing as Patient;
+
+            // Upsert so two first-time bookings for the same person cannot create duplicates
+            const { data, error: insertError } = await client
+                .from('patients')
+                .upsert({ phone, name: name.trim() }, { onConflict: 'phone,name', ignoreDuplicates: false })
+                .select()
+                .single();
+
+            if (insertError) throw insertError;
+            return data as Patient;
+        },
+    },
+
+    appointments: {
+        async findById(id) {
+            return fetchAppointment(client, id);
+        },
+
+        async listBySession(sessionId) {
+            const { data, error } = await client
+                .from('appointments')
+                .select('*')
+                .eq('session_id', sessionId);
+
+            if (error) throw error;
+            return (data || []) as Appointment[];
+        },
+
+        async listUpcomingByPhone(phone, fromDate) {
+            const { data, error } = await client
+                .from('appointments')
+                .select(`${SUMMARY_COLUMNS}, patients!inner ( phone )`)
+                .eq('patients.phone', phone)
+                .eq('status', 'confirmed')
+                .gte('appointment_date', fromDate)
+                .order('appointment_date', { ascending: true })
+                .order('appointment_time', { ascending: true });
+
+            if (error) throw error;
+            return (data || []).map(toSummary);
+        },
+
+        async findSummaryById(id) {
+            const { data, error } = await client
+                .from('appointments')
+                .select(SUMMARY_COLUMNS)
+                .eq('id', id)
+                .maybeSingle();
+
+            if (error) throw error;
+            return data ? toSummary(data) : null;
+        },
+
+        async listConfirmedOn(date) {
+            const { data, error } = await client
+                .from('appointments')
+                .select(SUMMARY_COLUMNS)
+                .eq('appointment_date', date)
+                .eq('status', 'confirmed')
+                .order('appointment_time', { ascending: true });
+
+            if (error) throw error;
+            return (data || []).map(toSummary);
+        },
+
+        async listForDay(date, doctorId) {
+            return listings(client, date, date, doctorId);
+        },
+
+        async listBetween(fromDate, toDate, doctorId) {
+            return listings(client, fromDate, toDate, doctorId);
+        },
+
+        async listTakenTimes(doctorId, date) {
+            const { data, error } = await client
+                .from('appointments')
+                .select('appointment_time, status, hold_expires_at')
+                .eq('doctor_id', doctorId)
+                .eq('appointment_date', date)
+                .in('status', ACTIVE_STATUSES);
+
+            if (error) throw error;
+            const now = new Date();
+            return (data || [])
+                .filter(row => row.status !== 'held' || new Date(row.hold_expires_at) > now)
+                .map(row => row.appointment_time.slice(0, 5));
+        },
+
+        async create(appointment) {
+            await releaseExpiredHolds(client, { doctorId: appointment.doctor_id, date: appointment.appointment_date, time: appointment.appointment_time });
+
+            const { data, error } = await client
+                .from('appointments')
+                .insert(appointment)
+                .select()
+                .single();
+
+            if (error) raise(error);
+            return data as Appointment;
+        },
+
+        async hold(slot, expiresAt) {
+            await releaseExpiredHolds(client, slot);
+
+            const { data, error } = await client
+                .from('appointments')
+                .insert({
+                    doctor_id: slot.doctorId,
+                    appointment_date: slot.date,
+                    appointment_time: slot.time,
+                    status: 'held',
+                    hold_expires_at: expiresAt.toISOString()
+                })
+                .select()
+                .single();
+
+            if (error) raise(error);
+            return data as Appointment;
+        },
+
+        async releaseHold(holdId) {
+            const { data, error } = await client
+                .from('appointments')
+                .update({ status: 'expired' })
+                .eq('id', holdId)
+                .eq('status', 'held')
+                .select()
+                .maybeSingle();
+
+            if (error) throw error;
+            return data as Appointment | null;
+        },
+
+        async confirmHold(holdId, patient) {
+            // The status/expiry guard makes this a compare-and-set: a hold can only be confirmed once
+            const { data, error } = await client
+                .from('appointments')
+                .update({ ...patient, status: 'confirmed', hold_expires_at: null })
+                .eq('id', holdId)
+                .eq('status', 'held')
+                .gt('hold_expires_at', new Date().toISOString())
+                .select()
+                .maybeSingle();
+
+            if (error) throw error;
+            return data as Appointment | null;
+        },
+
+        async cancelById(id) {
+            const { data, error } = await client
+                .from('appointments')
+                .update({ status: 'cancelled' })
+                .eq('id', id)
+                .eq('status', 'confirmed')
+                .select()
+                .maybeSingle();
+
+            if (error) throw error;
+            return data as Appointment | null;
+        },
+
+        async rescheduleById(id, to) {
+            const current = await fetchAppointment(client, id);
+            if (!current || current.status !== 'confirmed') return null;
+            await releaseExpiredHolds(client, { doctorId: current.doctor_id, date: to.date, time: to.time });
+
+            const { data, error } = await client
+                .from('appointments')
+                .update({ appointment_date: to.date, appointment_time: to.time })
+                .eq('id', id)
+                .eq('status', 'confirmed')
+                .select()
+                .maybeSingle();
+
+            if (error) raise(error);
+            return data as Appointment | null;
+        },
+
+        async transition(id, from, to) {
+            const { data, error } = await client
+                .from('appointments')
+                .update({ status: to })
+                .eq('id', id)
+                .eq('status', from)
+                .select()
+                .maybeSingle();
+
+            if (error) throw error;
+            return data as Appointment | null;
+        },
+
+        async tallyBetween(fromDate, toDate) {
+            // Grouped in Postgres by appointment_tallies(), so a long range comes back as counts rather than every booking
+            const { data, error } = await client.rpc('appointment_tallies', { from_date: fromDate, to_date: toDate, time_zone: HOSPITAL_TIMEZONE });
+
+            if (error) throw error;
+            return ((data || []) as AppointmentTally[]).map(t => ({ ...t, appointments: Number(t.appointments), lead_days: Number(t.lead_days) }));
+        },
+    },
+
+    schedules: {
+        async weeklyFor(doctorId) {
+            const { data, error } = await client
+                .from('doctor_schedules')
+                .select('*')
+                .eq('doctor_id', doctorId);
+
+            if (error) throw error;
+            return (data || []) as WeeklySchedule[];
+        },
+
+        async leaveOn(doctorId, date) {
+            const { data, error } = await client
+                .from('doctor_leave')
+                .select('*')
+                .eq('doctor_id', doctorId)
+                .lte('start_date', date)
+                .gte('end_date', date)
+                .limit(1)
+                .maybeSingle();
+
+            if (error) throw error;
+            return data as DoctorLeave | null;
+        },
+
+        async holidayOn(date) {
+            const { data, error } = await client
+                .from('hospital_holidays')
+                .select('*')
+                .eq('holiday_date', date)
+                .maybeSingle();
+
+            if (error) throw error;
+            return data as HospitalHoliday | null;
+        },
+
+        async leaveBetween(fromDate, toDate) {
+            const { data, error } = await client
+                .from('doctor_leave')
+                .select('*')
+                .lte('start_date', toDate)
+                .gte('end_date', fromDate);
+
+            if (error) throw error;
+            return (data || []) as DoctorLeave[];
+        },
+
+        async holidaysBetween(fromDate, toDate) {
+            const { data, error } = await client
+                .from('hospital_holidays')
+                .select('*')
+                .gte('holiday_date', fromDate)
+                .lte('holiday_date', toDate);
+
+            if (error) throw error;
+            return (data || []) as HospitalHoliday[];
+        },
+    },
+
+    sessions: {
+        async create(channel, contact) {
+            const { data, error } = await client
+                .from('conversation_sessions')
+                .insert({ channel, contact: contact || null })
+                .select()
+                .single();
+
+            if (error) throw error;
+            return data as ConversationSession;
+        },
+
+        async findById(id) {
+            const { data, error } = await client
+                .from('conversation_sessions')
+                .select('*')
+                .eq('id', id)
+                .maybeSingle();
+
+            if (error) throw error;
+            return data as ConversationSession | null;
+        },
+
+        async findLatestByContact(channel, contact) {
+            const { data, error } = await client
+                .from('conversation_sessions')
+                .select('*')
+                .eq('channel', channel)
+                .eq('contact', contact)
+                .order('updated_at', { ascending: false })
+                .limit(1)
+                .maybeSingle();
+
+            if (error) throw error;
+            return data as ConversationSession | null;
+        },
+
+        async setLanguage(id, language) {
+            const { error } = await client
+                .from('conversation_sessions')
+                .update({ language })
+                .eq('id', id);
+
+            if (error) throw error;
+        },
+
+        async listTurns(sessionId) {
+            const { data, error } = await client
+                .from('conversation_turns')
+                .select('*')
+                .eq('session_id', sessionId)
+                .order('seq', { ascending: true });
+
+            if (error) throw error;
+            return (data || []) as ConversationTurn[];
+        },
+
+        async appendTurns(sessionId, turns) {
+            if (turns.length === 0) return;
+
+            const { data: last, error } = await client
+                .from('conversation_turns')
+                .select('seq')
+                .eq('session_id', sessionId)
+                .order('seq', { ascending: false })
+                .limit(1)
+                .maybeSingle();
+
+            if (error) throw error;
+            const start = (last?.seq || 0) + 1;
+
+            const { error: insertError } = await client
+                .from('conversation_turns')
+                .insert(turns.map((turn, index) => ({ ...turn, session_id: sessionId, seq: start + index })));
+
+            if (insertError) throw insertError;
+
+            const { error: touchError } = await client
+                .from('conversation_sessions')
+                .update({ updated_at: new Date().toISOString() })
+                .eq('id', sessionId);
+
+            if (touchError) throw touchError;
+        },
+    },
+
+    notifications: {
+        async record(notification) {
+            const { error } = await client.from('appointment_notifications').insert(notification);
+            if (error) throw error;
+        },
+
+        async hasSent(appointmentId, kind, slot) {
+            const { count, error } = await client
+                .from('appointment_notifications')
+                .select('id', { count: 'exact', head: true })
+                .eq('appointment_id', appointmentId)
+                .eq('kind', kind)
+                .eq('status', 'sent')
+                .eq('appointment_date', slot.date)
+                .eq('appointment_time', slot.time);
+
+            if (error) throw error;
+            return (count || 0) > 0;
+        },
+    },
+
+    waitlist: {
+        async add(entry) {
+            const { data, error } = await client
+                .from('waitlist_entries')
+                .insert({ ...entry, status: 'waiting' })
+                .select()
+                .single();
+
+            if (error) throw error;
+            return data as WaitlistEntry;
+        },
+
+        async findById(id) {
+            const { data, error } = await client
+                .from('waitlist_entries')
+                .select('*')
+                .eq('id', id)
+                .maybeSingle();
+
+            if (error) throw error;
+            return data as WaitlistEntry | null;
+        },
+
+        async listWaiting(doctorId, date) {
+            const { data, error } = await client
+                .from('waitlist_entries')
+                .select('*')
+                .eq('doctor_id', doctorId)
+                .eq('status', 'waiting')
+                .lte('from_date', date)
+                .gte('to_date', date)
+                .order('created_at', { ascending: true })
+                .order('id', { ascending: true });
+
+            if (error) throw error;
+            return (data || []) as WaitlistEntry[];
+        },
+
+        async listOffersByPhone(phone) {
+            const { data, error } = await client
+                .from('waitlist_entries')
+                .select('*')
+                .eq('phone', phone)
+                .eq('status', 'offered')
+                .order('offer_expires_at', { ascending: true });
+
+            if (error) throw error;
+            return (data || []) as WaitlistEntry[];
+        },
+
+        async listOpen(doctorId) {
+            let query = client
+                .from('waitlist_entries')
+                .select('*')
+                .in('status', ['waiting', 'offered']);
+
+            if (doctorId !== undefined) query = query.eq('doctor_id', doctorId);
+
+            const { data, error } = await query
+                .order('created_at', { ascending: true })
+                .order('id', { ascending: true });
+
+            if (error) throw error;
+            return (data || []) as WaitlistEntry[];
+        },
+
+        async listExpiredOffers(now) {
+            const { data, error } = await client
+                .from('waitlist_entries')
+                .select('*')
+                .eq('status', 'offered')
+                .lte('offer_expires_at', now.toISOString());
+
+            if (error) throw error;
+            return (data || []) as WaitlistEntry[];
+        },
+
+        async transition(id, from, update) {
+            const { data, error } = await client
+                .from('waitlist_entries')
+                .update(update)
+                .eq('id', id)
+                .eq('status', from)
+                .select()
+                .maybeSingle();
+
+            if (error) throw error;
+            return data as WaitlistEntry | null;
+        },
+    },
+
+    staff: {
+        async findByUserId(userId) {
+            const { data, error } = await client
+                .from('staff')
+                .select('*')
+                .eq('user_id', userId)
+                .maybeSingle();
+
+            if (error) throw error;
+            return data as StaffMember | null;
+        },
+    },
+
+    audit: {
+        async record(event) {
+            const { error } = await client.from('appointment_events').insert(event);
+            if (error) throw error;
+        },
+
+        async listFor(appointmentId) {
+            const { data, error } = await client
+                .from('appointment_events')
+                .select('*')
+                .eq('appointment_id', appointmentId)
+                .order('created_at', { ascending: true })
+                .order('id', { ascending: true });
+
+            if (error) throw error;
+            return (data || []) as AppointmentEvent[];
+        },
+
+        async listForAppointments(appointmentIds) {
+            // In batches, so each id list fits in a request URL
+            const events: AppointmentEvent[] = [];
+            for (let start = 0; start < appointmentIds.length; start += AUDIT_BATCH_SIZE) {
+                const { data, error } = await client
+                    .from('appointment_events')
+                    .select('*')
+                    .in('appointment_id', appointmentIds.slice(start, start + AUDIT_BATCH_SIZE))
+                    .order('created_at', { ascending: true })
+                    .order('id', { ascending: true });
+
+                if (error) throw error;
+                events.push(...(data || []) as AppointmentEvent[]);
+            }
+            return events;
+        },
+    },
+
+    triage: {
+        async listRules() {
+            const { data, error } = await client.from('triage_rules').select('*').order('id');
+            if (error) throw error;
+            return (data || []) as TriageRule[];
+        },
+
+        async recordEscalation(escalation) {
+            const { data, error } = await client
+                .from('emergency_escalations')
+                .insert(escalation)
+                .select()
+                .single();
+
+            if (error) throw error;
+            return data as EmergencyEscalation;
+        },
+
+        async listOpenEscalations() {
+            const { data, error } = await client
+                .from('emergency_escalations')
+                .select('*')
+                .eq('status', 'open')
+                .order('created_at', { ascending: false })
+                .order('id', { ascending: false });
+
+            if (error) throw error;
+            return (data || []) as EmergencyEscalation[];
+        },
+
+        async acknowledge(id, staffId) {
+            const { data, error } = await client
+                .from('emergency_escalations')
+                .update({ status: 'acknowledged', acknowledged_by: staffId, acknowledged_at: new Date().toISOString() })
+                .eq('id', id)
+                .eq('status', 'open')
+                .select()
+                .maybeSingle();
+
+            if (error) throw error;
+            return data as EmergencyEscalation | null;
+        },
+    },
+
+    calls: {
+        async findById(callId) {
+            const { data, error } = await client
+                .from('voice_calls')
+                .select('*')
+                .eq('call_id', callId)
+                .maybeSingle();
+
+            if (error) throw error;
+            return data as VoiceCall | null;
+        },
+
+        async start(call) {
+            const { data, error } = await client
+                .from('voice_calls')
+                .insert(call)
+                .select()
+                .single();
+
+            if (error) throw error;
+            return data as VoiceCall;
+        },
+
+        async update(callId, update) {
+            const { data, error } = await client
+                .from('voice_calls')
+                .update(update)
+                .eq('call_id', callId)
+                .select()
+                .maybeSingle();
+
+            if (error) throw error;
+            return data as VoiceCall | null;
+        },
+    },
+});
@@ -0,0 +1,469 @@
+// netlify/functions/lib/data/types.ts
+// Row shapes and repository contracts shared by every tool handler.
+
+/** A hospital department, with the other words patients use for it ("heart", "గుండె"). */
+export interface Specialty {
+    id: number;
+    name_en: string;
+    name_te: string | null;
+    synonyms: string[];
+}
+
+export type NewSpecialty = Omit<Specialty, 'id'>;
+
+export interface Doctor {
+    id: number;
+    name: string;
+    specialty_id: number;
+    /** The linked specialty's English name, kept in step by the database. */
+    specialty: string;
+    /** Fallback slots for a doctor with no weekly schedule. */
+    available_slots: string[];
+    qualifications: string | null;
+    /** Languages the doctor consults in, e.g. ['Telugu', 'English']. */
+    languages: string[];
+    /** Rupees. */
+    consultation_fee: number | null;
+    /** Inactive doctors keep their history but are hidden from patients and take no new bookings. */
+    active: boolean;
+}
+
+export type NewDoctor = Omit<Doctor, 'id' | 'specialty'>;
+
+export interface TimeRange {
+    start: string;
+    end: string;
+}
+
+/** One working session on a weekday (0 = Sunday). A doctor may have several per day. */
+export interface WeeklySchedule {
+    doctor_id: number;
+    weekday: number;
+    start_time: string;
+    end_time: string;
+    slot_minutes: number;
+    breaks: TimeRange[];
+}
+
+export interface DoctorLeave {
+    doctor_id: number;
+    start_date: string;
+    end_date: string;
+    reason: string | null;
+}
+
+export interface HospitalHoliday {
+    holiday_date: string;
+    name: string;
+}
+
+/**
+ * held -> confirmed -> checked_in -> completed, with confirmed -> cancelled or
+ * no_show on the way. A hold nobody confirmed in time becomes expired.
+ */
+export type AppointmentStatus = 'held' | 'confirmed' | 'checked_in' | 'completed' | 'no_show' | 'cancelled' | 'expired';
+
+/**
+ * Statuses that occupy a slot; the database allows one such row per doctor/date/time.
+ * A no-show frees its slot so the front desk can give it to a walk-in.
+ */
+export const ACTIVE_STATUSES: AppointmentStatus[] = ['held', 'confirmed', 'checked_in', 'completed'];
+
+/** A person who books; several family members may share one phone number. */
+export interface Patient {
+    id: number;
+    /** E.164, e.g. +919876543210 */
+    phone: string;
+    name: string;
+}
+
+export interface Appointment {
+    id: number;
+    doctor_id: number;
+    patient_id: number | null;
+    patient_name: string | null;
+    phone: string | null;
+    appointment_date: string;
+    appointment_time: string;
+    status: AppointmentStatus;
+    /** Only set while status is 'held'. */
+    hold_expires_at: string | null;
+    /** The assistant conversation that made the booking, if any. */
+    session_id: string | null;
+}
+
+export type NewAppointment = Omit<Appointment, 'id' | 'hold_expires_at'>;
+
+export interface DoctorFilter {
+    name?: string;
+    specialty?: string;
+    /** Inactive doctors are left out unless asked for. */
+    includeInactive?: boolean;
+}
+
+export interface SlotRef {
+    doctorId: number;
+    date: string;
+    time: string;
+}
+
+/** A booking as read back to the caller, joined with its doctor. */
+export interface AppointmentSummary {
+    id: number;
+    patient_name: string | null;
+    phone: string | null;
+    doctor_name: string;
+    specialty: string;
+    appointment_date: string;
+    appointment_time: string;
+}
+
+/** A day's booking as the dashboard lists it. */
+export interface AppointmentListing extends AppointmentSummary {
+    doctor_id: number;
+    status: AppointmentStatus;
+    session_id: string | null;
+}
+
+/**
+ * Bookings grouped by visit date, doctor, status and who made them; the raw
+ * material of the scheduling report. Holds and expired holds are not bookings.
+ */
+export interface AppointmentTally {
+    appointment_date: string;
+    doctor_id: number;
+    status: AppointmentStatus;
+    /** Whoever booked it (confirmed it, or booked a walk-in), from its audit trail; null for rows older than the trail. */
+    booked_by: ActorType | null;
+    appointments: number;
+    /** Days from booking to visit, summed over the rows that have a booked_by. */
+    lead_days: number;
+}
+
+/** One assistant conversation, e.g. a browser tab or a phone call. */
+export interface ConversationSession {
+    id: string;
+    channel: string;
+    /** The sender's E.164 phone on messaging channels, where it keys the conversation; null elsewhere. */
+    contact: string | null;
+    /** ISO 639-1 code of the language Sahay answers in (te, hi, ur, en); null until the patient picks one or writes. */
+    language: string | null;
+    created_at: string;
+    updated_at: string;
+}
+
+/**
+ * 'user' and 'model' turns carry text; a 'tool' turn records one tool call
+ * the model made while answering, with its arguments and result.
+ */
+export type TurnRole = 'user' | 'model' | 'tool';
+
+export interface ConversationTurn {
+    id: number;
+    session_id: string;
+    /** Position within the session, starting at 1. */
+    seq: number;
+    role: TurnRole;
+    text: string | null;
+    tool_name: string | null;
+    tool_args: object | null;
+    tool_result: object | null;
+    created_at: string;
+}
+
+export type NewTurn = Pick<ConversationTurn, 'role'> & Partial<Pick<ConversationTurn, 'text' | 'tool_name' | 'tool_args' | 'tool_result'>>;
+
+export type NotificationKind =
+    | 'confirmation'
+    | 'cancellation'
+    | 'reschedule'
+    | 'reminder_day_before'
+    | 'reminder_same_day'
+    | 'waitlist_offer';
+
+/** One message sent (or attempted) to a patient about an appointment. */
+export interface AppointmentNotification {
+    id: number;
+    appointment_id: number;
+    kind: NotificationKind;
+    channel: string;
+    recipient: string;
+    body: string;
+    status: 'sent' | 'failed';
+    provider_message_id: string | null;
+    error: string | null;
+    /** The slot the message was about, so a rescheduled booking is reminded again. */
+    appointment_date: string;
+    appointment_time: string;
+    created_at: string;
+}
+
+export type NewNotification = Omit<AppointmentNotification, 'id' | 'created_at'>;
+
+/**
+ * waiting -> offered -> booked, or -> declined / expired when the patient
+ * turns the offer down or lets it lapse. Either way they leave the queue.
+ */
+export type WaitlistStatus = 'waiting' | 'offered' | 'booked' | 'declined' | 'expired';
+
+export interface WaitlistEntry {
+    id: number;
+    doctor_id: number;
+    patient_id: number;
+    patient_name: string;
+    phone: string;
+    /** Inclusive range of acceptable dates. */
+    from_date: string;
+    to_date: string;
+    time_of_day: 'morning' | 'afternoon' | 'evening' | null;
+    status: WaitlistStatus;
+    /** The hold reserving the offered slot; set once an offer is made. */
+    offer_appointment_id: number | null;
+    offer_expires_at: string | null;
+    session_id: string | null;
+    created_at: string;
+}
+
+export type NewWaitlistEntry = Pick<WaitlistEntry,
+    'doctor_id' | 'patient_id' | 'patient_name' | 'phone' | 'from_date' | 'to_date' | 'time_of_day' | 'session_id'>;
+
+export type WaitlistUpdate = Partial<Pick<WaitlistEntry, 'status' | 'offer_appointment_id' | 'offer_expires_at'>>;
+
+/** What an audit event says happened to an appointment. */
+export type AuditAction = 'created' | 'rescheduled' | 'status_changed';
+
+/** assistant: a patient talking to Sahay. staff: a dashboard user. system: scheduled jobs and the waitlist. */
+export type ActorType = 'assistant' | 'staff' | 'system';
+
+/** The fields an audit event records before and after a change. */
+export type AppointmentSnapshot = Pick<Appointment,
+    'doctor_id' | 'patient_name' | 'phone' | 'appointment_date' | 'appointment_time' | 'status'>;
+
+/** One append-only entry in an appointment's history. */
+export interface AppointmentEvent {
+    id: number;
+    appointment_id: number;
+    action: AuditAction;
+    actor_type: ActorType;
+    /** Session id for the assistant, user id for staff; null for the system. */
+    actor_id: string | null;
+    actor_name: string | null;
+    /** Where the change came from, e.g. 'web', 'dashboard', 'waitlist'. */
+    channel: string;
+    /** Null for 'created'. */
+    before: AppointmentSnapshot | null;
+    after: AppointmentSnapshot;
+    created_at: string;
+}
+
+export type NewAppointmentEvent = Omit<AppointmentEvent, 'id' | 'created_at'>;
+
+/** One line of the hospital's symptom mapping; staff edit these rows to change how patients are triaged. */
+export interface TriageRule {
+    id: number;
+    /** What the rule recognises, e.g. 'chest pain'; shown to staff on escalations. */
+    label: string;
+    /** Lower-case English or Telugu words and phrases, any one of which triggers the rule. */
+    keywords: string[];
+    /** The department to suggest; null for red flags. */
+    specialty: string | null;
+    /** Red flags mean a possible emergency: no booking, the patient is sent to emergency care. */
+    is_red_flag: boolean;
+}
+
+export type EscalationStatus = 'open' | 'acknowledged';
+
+/** A conversation in which the patient described emergency red flags, kept for staff to follow up. */
+export interface EmergencyEscalation {
+    id: number;
+    session_id: string | null;
+    /** The patient's own description, as passed to the triage tool. */
+    symptoms: string;
+    /** Labels of the red-flag rules it matched. */
+    red_flags: string[];
+    status: EscalationStatus;
+    acknowledged_by: string | null;
+    acknowledged_at: string | null;
+    created_at: string;
+}
+
+export type NewEscalation = Pick<EmergencyEscalation, 'session_id' | 'symptoms' | 'red_flags'>;
+
+/** A phone call to the voice line, tied to the conversation session its turns are stored in. */
+export interface VoiceCall {
+    /** The telephony provider's call id (Twilio's CallSid). */
+    call_id: string;
+    session_id: string;
+    /** The caller's number as the provider reported it; null when withheld. */
+    caller: string | null;
+    /** Consecutive prompts the caller answered with silence. */
+    silent_turns: number;
+    /** The assistant holds a slot and is waiting for the caller to confirm it; keys 1 and 2 answer. */
+    awaiting_confirmation: boolean;
+    started_at: string;
+    ended_at: string | null;
+}
+
+export type NewVoiceCall = Pick<VoiceCall, 'call_id' | 'session_id' | 'caller'>;
+
+export type VoiceCallUpdate = Partial<Pick<VoiceCall, 'silent_turns' | 'awaiting_confirmation' | 'ended_at'>>;
+
+/**
+ * admin: everything. receptionist: the front desk, every doctor's schedule.
+ * doctor: their own schedule only.
+ */
+export type StaffRole = 'admin' | 'receptionist' | 'doctor';
+
+/** A Supabase Auth user allowed into the dashboard. */
+export interface StaffMember {
+    user_id: string;
+    email: string;
+    name: string;
+    role: StaffRole;
+    /** Set for the 'doctor' role: the doctor whose schedule they see. */
+    doctor_id: number | null;
+}
+
+export interface DoctorRepository {
+    /** Case-insensitive "contains" search; no filter returns every doctor. */
+    search(filter: DoctorFilter): Promise<Doctor[]>;
+    findById(id: number): Promise<Doctor | null>;
+    create(doctor: NewDoctor): Promise<Doctor>;
+    /** null when there is no such doctor. */
+    update(id: number, changes: Partial<NewDoctor>): Promise<Doctor | null>;
+}
+
+/** create and update throw DuplicateSpecialtyError when another specialty already has the English name. */
+export interface SpecialtyRepository {
+    /** Every specialty, by English name. */
+    list(): Promise<Specialty[]>;
+    findById(id: number): Promise<Specialty | null>;
+    create(specialty: NewSpecialty): Promise<Specialty>;
+    /** Renaming one renames it on its doctors too; null when there is no such specialty. */
+    update(id: number, changes: Partial<NewSpecialty>): Promise<Specialty | null>;
+}
+
+export interface PatientRepository {
+    /** The patient with this phone and (case-insensitive) name, created if new. */
+    findOrCreate(phone: string, name: string): Promise<Patient>;
+}
+
+/**
+ * Every method that puts a row into a slot throws SlotTakenError when another
+ * active row already holds it. Expired holds are released first.
+ */
+export interface AppointmentRepository {
+    findById(id: number): Promise<Appointment | null>;
+    /** Every booking made in the assistant session, whatever its status. */
+    listBySession(sessionId: string): Promise<Appointment[]>;
+    /** Confirmed bookings on or after `fromDate` for every patient sharing `phone`, soonest first. */
+    listUpcomingByPhone(phone: string, fromDate: string): Promise<AppointmentSummary[]>;
+    findSummaryById(id: number): Promise<AppointmentSummary | null>;
+    /** Confirmed bookings on `date`, earliest first. */
+    listConfirmedOn(date: string): Promise<AppointmentSummary[]>;
+    /** Every booking on `date` whatever its status, holds aside, earliest first; optionally one doctor's only. */
+    listForDay(date: string, doctorId?: number): Promise<AppointmentListing[]>;
+    /** The same listing from `fromDate` to `toDate` inclusive, by date and time. */
+    listBetween(fromDate: string, toDate: string, doctorId?: number): Promise<AppointmentListing[]>;
+    /** Times (HH:MM) occupied by confirmed bookings or unexpired holds. */
+    listTakenTimes(doctorId: number, date: string): Promise<string[]>;
+    create(appointment: NewAppointment): Promise<Appointment>;
+    hold(slot: SlotRef, expiresAt: Date): Promise<Appointment>;
+    /** Lets an unconfirmed hold go early, freeing its slot; the released row, or null when it was no longer held. */
+    releaseHold(holdId: number): Promise<Appointment | null>;
+    /** Turns an unexpired hold into a confirmed booking; null when the hold is gone. */
+    confirmHold(holdId: number, patient: Pick<Appointment, 'patient_id' | 'patient_name' | 'phone' | 'session_id'>): Promise<Appointment | null>;
+    /** Soft-cancels a confirmed booking; null when it is not confirmed. */
+    cancelById(id: number): Promise<Appointment | null>;
+    /** Moves a confirmed booking; null when it is not confirmed. */
+    rescheduleById(id: number, to: { date: string; time: string }): Promise<Appointment | null>;
+    /** Compare-and-set: moves the booking to `to` only while it is still in status `from`; null otherwise. */
+    transition(id: number, from: AppointmentStatus, to: AppointmentStatus): Promise<Appointment | null>;
+    /** Bookings for visits from `fromDate` to `toDate` inclusive, counted per date, doctor, status and booker. */
+    tallyBetween(fromDate: string, toDate: string): Promise<AppointmentTally[]>;
+}
+
+export interface ScheduleRepository {
+    weeklyFor(doctorId: number): Promise<WeeklySchedule[]>;
+    leaveOn(doctorId: number, date: string): Promise<DoctorLeave | null>;
+    holidayOn(date: string): Promise<HospitalHoliday | null>;
+    /** Leave overlapping `fromDate`..`toDate`, every doctor's. */
+    leaveBetween(fromDate: string, toDate: string): Promise<DoctorLeave[]>;
+    holidaysBetween(fromDate: string, toDate: string): Promise<HospitalHoliday[]>;
+}
+
+export interface SessionRepository {
+    create(channel: string, contact?: string): Promise<ConversationSession>;
+    findById(id: string): Promise<ConversationSession | null>;
+    /** The contact's most recently active session on `channel`. */
+    findLatestByContact(channel: string, contact: string): Promise<ConversationSession | null>;
+    setLanguage(id: string, language: string): Promise<void>;
+    /** Every turn of the session, oldest first. */
+    listTurns(sessionId: string): Promise<ConversationTurn[]>;
+    /** Appends turns in order after the existing ones and touches the session. */
+    appendTurns(sessionId: string, turns: NewTurn[]): Promise<void>;
+}
+
+export interface NotificationRepository {
+    record(notification: NewNotification): Promise<void>;
+    /** Whether a `kind` message about this appointment at this slot has already gone out. */
+    hasSent(appointmentId: number, kind: NotificationKind, slot: { date: string; time: string }): Promise<boolean>;
+}
+
+export interface WaitlistRepository {
+    add(entry: NewWaitlistEntry): Promise<WaitlistEntry>;
+    findById(id: number): Promise<WaitlistEntry | null>;
+    /** Entries still waiting for this doctor whose date range covers `date`, first come first served. */
+    listWaiting(doctorId: number, date: string): Promise<WaitlistEntry[]>;
+    /** Open offers made to anyone sharing `phone`. */
+    listOffersByPhone(phone: string): Promise<WaitlistEntry[]>;
+    /** Entries still waiting or holding an offer, first come first served; optionally one doctor's only. */
+    listOpen(doctorId?: number): Promise<WaitlistEntry[]>;
+    /** Offers whose time ran out before `now` without an answer. */
+    listExpiredOffers(now: Date): Promise<WaitlistEntry[]>;
+    /** Compare-and-set: applies `update` only while the entry is still in status `from`; null otherwise. */
+    transition(id: number, from: WaitlistStatus, update: WaitlistUpdate): Promise<WaitlistEntry | null>;
+}
+
+/** Append-only: events are never updated or deleted. */
+export interface AuditRepository {
+    record(event: NewAppointmentEvent): Promise<void>;
+    /** The appointment's history, oldest first. */
+    listFor(appointmentId: number): Promise<AppointmentEvent[]>;
+    /** The histories of several appointments together, each oldest first. */
+    listForAppointments(appointmentIds: number[]): Promise<AppointmentEvent[]>;
+}
+
+export interface StaffRepository {
+    findByUserId(userId: string): Promise<StaffMember | null>;
+}
+
+export interface TriageRepository {
+    listRules(): Promise<TriageRule[]>;
+    recordEscalation(escalation: NewEscalation): Promise<EmergencyEscalation>;
+    /** Escalations no one has acknowledged yet, newest first. */
+    listOpenEscalations(): Promise<EmergencyEscalation[]>;
+    /** Compare-and-set: marks an open escalation as seen by `staffId`; null if it was not open. */
+    acknowledge(id: number, staffId: string): Promise<EmergencyEscalation | null>;
+}
+
+export interface CallRepository {
+    findById(callId: string): Promise<VoiceCall | null>;
+    start(call: NewVoiceCall): Promise<VoiceCall>;
+    update(callId: string, update: VoiceCallUpdate): Promise<VoiceCall | null>;
+}
+
+export interface DataStore {
+    doctors: DoctorRepository;
+    specialties: SpecialtyRepository;
+    patients: PatientRepository;
+    appointments: AppointmentRepository;
+    schedules: ScheduleRepository;
+    sessions: SessionRepository;
+    notifications: NotificationRepository;
+    waitlist: WaitlistRepository;
+    staff: StaffRepository;
+    audit: AuditRepository;
+    triage: TriageRepository;
+    calls: CallRepository;
+}
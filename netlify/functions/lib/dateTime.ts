@@ -0,0 +1,171 @@
+// netlify/functions/lib/dateTime.ts
+// Dates as the hospital sees them: "today" is the date on the hospital's wall clock, never UTC's,
+// and the patient's own words for a day ("రేపు", "next Monday", "15th") become YYYY-MM-DD here.
+import { toAsciiDigits } from './phone';
+
+export const HOSPITAL_TIMEZONE = process.env.HOSPITAL_TIMEZONE || 'Asia/Kolkata';
+
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+/** The current date and HH:MM time at the hospital. */
+export const hospitalNow = (now: Date = new Date()): { date: string; time: string } => {
+    const parts = new Intl.DateTimeFormat('en-CA', {
+        timeZone: HOSPITAL_TIMEZONE,
+        year: 'numeric',
+        month: '2-digit',
+        day: '2-digit',
+        hour: '2-digit',
+        minute: '2-digit',
+        hourCycle: 'h23',
+    }).formatToParts(now);
+    const part = (type: string) => parts.find(p => p.type === type)?.value || '';
+
+    return {
+        date: `${part('year')}-${part('month')}-${part('day')}`,
+        time: `${part('hour')}:${part('minute')}`,
+    };
+};
+
+/** Minutes the hospital's clock is ahead of UTC at `at`: 330 for India. */
+export const hospitalUtcOffset = (at: Date = new Date()): number => {
+    const wholeMinute = Math.floor(at.getTime() / 60_000) * 60_000;
+    const { date, time } = hospitalNow(new Date(wholeMinute));
+    return Math.round((Date.parse(`${date}T${time}:00Z`) - wholeMinute) / 60_000);
+};
+
+/** Day of week (0 = Sunday) for a YYYY-MM-DD date, independent of the server's timezone. */
+export const weekdayOf = (date: string): number => new Date(`${date}T00:00:00Z`).getUTCDay();
+
+export const weekdayName = (date: string): string => WEEKDAY_NAMES[weekdayOf(date)];
+
+/** The YYYY-MM-DD date `days` after `date` (negative goes back). */
+export const addDays = (date: string, days: number): string => {
+    const result = new Date(`${date}T00:00:00Z`);
+    result.setUTCDate(result.getUTCDate() + days);
+    return result.toISOString().slice(0, 10);
+};
+
+/** Whole days from `from` to `to`, both YYYY-MM-DD; negative when `to` is earlier. */
+export const daysBetween = (from: string, to: string): number =>
+    Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86_400_000);
+
+/** Whether a YYYY-MM-DD string names a real day (2030-02-30 does not). */
+export const isCalendarDate = (value: string): boolean => {
+    const parsed = new Date(`${value}T00:00:00Z`);
+    return !isNaN(parsed.getTime()) && parsed.toISOString().slice(0, 10) === value;
+};
+
+const isoDate = (year: number, month: number, day: number): string | null => {
+    const date = `${String(year).padStart(4, '0')}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+    return isCalendarDate(date) ? date : null;
+};
+
+// Telugu words carry case endings ("సోమవారం", "సోమవారానికి"), so they are matched by stem
+const WEEKDAYS: [RegExp, number][] = [
+    [/\b(sunday|sun)\b|ఆదివార/, 0],
+    [/\b(monday|mon)\b|సోమవార/, 1],
+    [/\b(tuesday|tues|tue)\b|మంగళవార/, 2],
+    [/\b(wednesday|wed)\b|బుధవార/, 3],
+    [/\b(thursday|thurs|thu)\b|గురువార/, 4],
+    [/\b(friday|fri)\b|శుక్రవార/, 5],
+    [/\b(saturday|sat)\b|శనివార/, 6],
+];
+
+// Checked in order: "day after tomorrow" before "tomorrow"
+const RELATIVE_DAYS: [RegExp, number][] = [
+    [/day after tomorrow|ఎల్లుండి/, 2],
+    [/\btomorrow\b|రేపు/, 1],
+    [/\btoday\b|ఈ ?రోజు|నేడు/, 0],
+    [/\byesterday\b|నిన్న/, -1],
+    [/\b(in|after) a week\b|\ba week from (now|today)\b|వారం (తర్వాత|రోజుల్లో)/, 7],
+];
+
+const MONTHS: Record<string, number> = {
+    january: 1, jan: 1, 'జనవరి': 1,
+    february: 2, feb: 2, 'ఫిబ్రవరి': 2,
+    march: 3, mar: 3, 'మార్చి': 3,
+    april: 4, apr: 4, 'ఏప్రిల్': 4,
+    may: 5, 'మే': 5,
+    june: 6, jun: 6, 'జూన్': 6,
+    july: 7, jul: 7, 'జూలై': 7, 'జులై': 7,
+    august: 8, aug: 8, 'ఆగస్టు': 8, 'ఆగస్ట్': 8,
+    september: 9, sep: 9, sept: 9, 'సెప్టెంబర్': 9, 'సెప్టెంబరు': 9,
+    october: 10, oct: 10, 'అక్టోబర్': 10, 'అక్టోబరు': 10,
+    november: 11, nov: 11, 'నవంబర్': 11, 'నవంబరు': 11,
+    december: 12, dec: 12, 'డిసెంబర్': 12, 'డిసెంబరు': 12,
+};
+
+// Longest first, so "march" wins over "mar"
+const MONTH_PATTERN = Object.keys(MONTHS).sort((a, b) => b.length - a.length).join('|');
+const ORDINAL = '(?:st|nd|rd|th|వ)?';
+
+const DAY_MONTH = new RegExp(`(\\d{1,2})${ORDINAL}\\s*(?:of\\s+)?(${MONTH_PATTERN})(?:\\s*,?\\s*(\\d{4}))?`);
+const MONTH_DAY = new RegExp(`(${MONTH_PATTERN})\\s*(\\d{1,2})${ORDINAL}(?:\\s*,?\\s*(\\d{4}))?`);
+const ISO = /(\d{4})-(\d{1,2})-(\d{1,2})/;
+// Written the Indian way round: day first
+const NUMERIC = /(\d{1,2})[/.-](\d{1,2})(?:[/.-](\d{4}|\d{2}))?/;
+const DAY_ONLY = /(?:^|\s)(?:the\s+)?(\d{1,2})(?:st|nd|rd|th|\s*వ?\s*తేదీ)(?:$|\s)/;
+const IN_DAYS = /\b(?:in|after)\s+(\d{1,3})\s+days?\b|\b(\d{1,3})\s+days?\s+(?:from now|later)\b|(\d{1,3})\s*రోజు(?:ల్లో|ల తర్వాత)/;
+
+// A day and month without a year means their next occurrence
+const nextOccurrence = (month: number, day: number, today: string): string | null => {
+    const year = Number(today.slice(0, 4));
+    const thisYear = isoDate(year, month, day);
+    return thisYear && thisYear >= today ? thisYear : isoDate(year + 1, month, day);
+};
+
+const withYear = (year: string | undefined, month: number, day: number, today: string): string | null => {
+    if (!year) return nextOccurrence(month, day, today);
+    return isoDate(year.length === 2 ? 2000 + Number(year) : Number(year), month, day);
+};
+
+const nextDayOfMonth = (day: number, today: string): string | null => {
+    const [year, month] = today.split('-').map(Number);
+    for (let ahead = 0; ahead < 12; ahead++) {
+        const date = isoDate(year + Math.floor((month - 1 + ahead) / 12), ((month - 1 + ahead) % 12) + 1, day);
+        if (date && date >= today) return date;
+    }
+    return null;
+};
+
+type Resolver = (text: string, today: string) => string | null;
+
+const fromPattern = (pattern: RegExp, toDate: (match: RegExpExecArray, today: string) => string | null): Resolver =>
+    (text, today) => {
+        const match = pattern.exec(text);
+        return match && toDate(match, today);
+    };
+
+const fromTable = (table: [RegExp, number][], toDate: (value: number, today: string) => string): Resolver =>
+    (text, today) => {
+        const entry = table.find(([pattern]) => pattern.test(text));
+        return entry ? toDate(entry[1], today) : null;
+    };
+
+// Most specific first; a pattern that matches but names no real day (a time like "10.30") falls through
+const RESOLVERS: Resolver[] = [
+    fromPattern(ISO, m => isoDate(Number(m[1]), Number(m[2]), Number(m[3]))),
+    fromPattern(DAY_MONTH, (m, today) => withYear(m[3], MONTHS[m[2]], Number(m[1]), today)),
+    fromPattern(MONTH_DAY, (m, today) => withYear(m[3], MONTHS[m[1]], Number(m[2]), today)),
+    fromPattern(NUMERIC, (m, today) => withYear(m[3], Number(m[2]), Number(m[1]), today)),
+    fromPattern(IN_DAYS, (m, today) => addDays(today, Number(m[1] || m[2] || m[3]))),
+    fromTable(RELATIVE_DAYS, (days, today) => addDays(today, days)),
+    fromTable(WEEKDAYS, (weekday, today) => addDays(today, ((weekday - weekdayOf(today) + 6) % 7) + 1)),
+    fromPattern(DAY_ONLY, (m, today) => nextDayOfMonth(Number(m[1]), today)),
+];
+
+/**
+ * The YYYY-MM-DD date a Telugu or English phrase refers to, counted from the
+ * hospital's `today`; null when the phrase names no day we can pin down.
+ * A weekday on its own, or with "next"/"వచ్చే", is its first occurrence after today.
+ */
+export const resolveDate = (phrase: string, today: string = hospitalNow().date): string | null => {
+    const text = toAsciiDigits(phrase).toLowerCase().replace(/\s+/g, ' ').trim();
+    if (!text) return null;
+
+    for (const resolve of RESOLVERS) {
+        const date = resolve(text, today);
+        if (date) return date;
+    }
+    return null;
+};
@@ -0,0 +1,182 @@
+// netlify/functions/lib/doctorResolver.ts
+// Finds the doctor a patient means from however they said the name:
+// "Dr. Ravi", "ravi kumar", "రవి కుమార్" or "డాక్టర్ రెడ్డి".
+import type { DataStore, Doctor } from './data/types';
+
+export type DoctorResolution =
+    | { status: 'found'; doctor: Doctor }
+    | { status: 'ambiguous'; candidates: Doctor[] }
+    | { status: 'not_found' };
+
+export type UnresolvedDoctor = Exclude<DoctorResolution, { status: 'found' }>;
+
+// A doctor must score at least this to count as a match at all
+const MATCH_THRESHOLD = 0.75;
+// Matches scoring within this margin of the best one are treated as equally likely
+const AMBIGUITY_MARGIN = 0.1;
+
+// --- Telugu -> Latin transliteration ---
+
+const VIRAMA = '్';
+const ANUSVARA = 'ం';
+const VISARGA = 'ః';
+
+const VOWELS: Record<string, string> = {
+    'అ': 'a', 'ఆ': 'aa', 'ఇ': 'i', 'ఈ': 'ee', 'ఉ': 'u', 'ఊ': 'oo', 'ఋ': 'ru',
+    'ఎ': 'e', 'ఏ': 'e', 'ఐ': 'ai', 'ఒ': 'o', 'ఓ': 'o', 'ఔ': 'au',
+};
+
+const VOWEL_SIGNS: Record<string, string> = {
+    'ా': 'aa', 'ి': 'i', 'ీ': 'ee', 'ు': 'u', 'ూ': 'oo', 'ృ': 'ru',
+    'ె': 'e', 'ే': 'e', 'ై': 'ai', 'ొ': 'o', 'ో': 'o', 'ౌ': 'au',
+};
+
+const CONSONANTS: Record<string, string> = {
+    'క': 'k', 'ఖ': 'kh', 'గ': 'g', 'ఘ': 'gh', 'ఙ': 'n',
+    'చ': 'ch', 'ఛ': 'chh', 'జ': 'j', 'ఝ': 'jh', 'ఞ': 'n',
+    'ట': 't', 'ఠ': 'th', 'డ': 'd', 'ఢ': 'dh', 'ణ': 'n',
+    'త': 't', 'థ': 'th', 'ద': 'd', 'ధ': 'dh', 'న': 'n',
+    'ప': 'p', 'ఫ': 'ph', 'బ': 'b', 'భ': 'bh', 'మ': 'm',
+    'య': 'y', 'ర': 'r', 'ల': 'l', 'వ': 'v', 'శ': 'sh', 'ష': 'sh', 'స': 's', 'హ': 'h',
+    'ళ': 'l', 'ఱ': 'r',
+};
+
+/** Romanises Telugu script; any other characters pass through unchanged. */
+export const transliterateTelugu = (text: string): string => {
+    const chars = [...text];
+    let out = '';
+
+    for (let i = 0; i < chars.length; i++) {
+        const char = chars[i];
+        const next = chars[i + 1];
+
+        if (CONSONANTS[char] !== undefined) {
+            out += CONSONANTS[char];
+            if (next === VIRAMA) {
+                i++;
+            } else if (next !== undefined && VOWEL_SIGNS[next] !== undefined) {
+                out += VOWEL_SIGNS[next];
+                i++;
+            } else {
+                out += 'a'; // inherent vowel
+            }
+        } else if (VOWELS[char] !== undefined) {
+            out += VOWELS[char];
+        } else if (char === ANUSVARA) {
+            out += ['ప', 'ఫ', 'బ', 'భ', 'మ'].includes(next) ? 'm' : 'n';
+        } else if (char === VISARGA) {
+            out += 'h';
+        } else {
+            out += char;
+        }
+    }
+
+    return out;
+};
+
+// --- Normalisation and fuzzy scoring ---
+
+// Collapses spellings that sound alike, so "Srinivas", "Sreenivaas" and "శ్రీనివాస్" meet
+const phoneticKey = (token: string): string =>
+    token
+        .replace(/aa/g, 'a').replace(/ee|ii/g, 'i').replace(/oo|uu/g, 'u')
+        .replace(/([kgcjtdpb])h/g, '$1').replace(/sh/g, 's')
+        .replace(/w/g, 'v').replace(/z/g, 'j').replace(/q/g, 'k').replace(/x/g, 'ks')
+        .replace(/y$/, 'i')
+        .replace(/(.)\1+/g, '$1');
+
+// Honorifics in English and Telugu ("డాక్టర్", "డా."), after phoneticKey
+const TITLE_KEYS = new Set(['dr', 'doctor', 'daktar', 'da']);
+
+/** Lower-case phonetic tokens of a name with titles removed. */
+export const nameTokens = (name: string): string[] =>
+    transliterateTelugu(name.toLowerCase())
+        .split(/[^a-z]+/)
+        .filter(Boolean)
+        .map(phoneticKey)
+        .filter(token => !TITLE_KEYS.has(token));
+
+const levenshtein = (a: string, b: string): number => {
+    let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= b.length; j++) {
+            current[j] = Math.min(
+                previous[j] + 1,
+                current[j - 1] + 1,
+                previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+            );
+        }
+        previous = current;
+    }
+    return previous[b.length];
+};
+
+const tokenSimilarity = (query: string, candidate: string): number => {
+    if (query === candidate) return 1;
+    if (query.length >= 3 && candidate.startsWith(query)) return 0.9;
+    return 1 - levenshtein(query, candidate) / Math.max(query.length, candidate.length);
+};
+
+/** 0..1: how well every spoken token is covered by some token of the doctor's name. */
+export const scoreName = (query: string, doctorName: string): number => {
+    const queryTokens = nameTokens(query);
+    const doctorTokens = nameTokens(doctorName);
+    if (queryTokens.length === 0 || doctorTokens.length === 0) return 0;
+
+    const total = queryTokens.reduce(
+        (sum, token) => sum + Math.max(...doctorTokens.map(candidate => tokenSimilarity(token, candidate))),
+        0
+    );
+    return total / queryTokens.length;
+};
+
+const scoreMatches = (doctors: Doctor[], query: string) =>
+    doctors
+        .map(doctor => ({ doctor, score: scoreName(query, doctor.name) }))
+        .filter(({ score }) => score >= MATCH_THRESHOLD)
+        .sort((a, b) => b.score - a.score);
+
+/** Doctors matching `query`, best first. */
+export const rankDoctors = (doctors: Doctor[], query: string): Doctor[] =>
+    scoreMatches(doctors, query).map(({ doctor }) => doctor);
+
+export const matchDoctor = (doctors: Doctor[], query: string): DoctorResolution => {
+    const scored = scoreMatches(doctors, query);
+
+    if (scored.length === 0) return { status: 'not_found' };
+
+    const best = scored[0].score;
+    const contenders = scored.filter(({ score }) => best - score < AMBIGUITY_MARGIN);
+    if (contenders.length === 1) return { status: 'found', doctor: contenders[0].doctor };
+
+    return { status: 'ambiguous', candidates: contenders.map(({ doctor }) => doctor) };
+};
+
+export const resolveDoctor = async (store: DataStore, query: string): Promise<DoctorResolution> =>
+    matchDoctor(await store.doctors.search({}), query);
+
+/**
+ * Tool response for a name that did not resolve to one doctor. An ambiguous
+ * name is a 409 listing the candidates, so the assistant can ask which one was meant.
+ */
+export const unresolvedDoctorResponse = (query: string, resolution: UnresolvedDoctor, headers: Record<string, string>) => {
+    if (resolution.status === 'ambiguous') {
+        return {
+            statusCode: 409,
+            headers,
+            body: JSON.stringify({
+                success: false,
+                code: 'AMBIGUOUS_DOCTOR',
+                message: `Several doctors match "${query}". Ask the patient which one they mean.`,
+                candidates: resolution.candidates.map(({ name, specialty }) => ({ name, specialty }))
+            })
+        };
+    }
+
+    return {
+        statusCode: 404,
+        headers,
+        body: JSON.stringify({ success: false, code: 'DOCTOR_NOT_FOUND', message: `Doctor ${query} not found.` })
+    };
+};
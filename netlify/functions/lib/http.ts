@@ -0,0 +1,58 @@
+// netlify/functions/lib/http.ts
+// Who may call a function over HTTP: browser origins for the pages, a shared key for the tools.
+import type { Handler, HandlerContext, HandlerEvent, HandlerResponse, StreamingHandler } from '@netlify/functions';
+import { timingSafeEqual } from 'node:crypto';
+
+// Header carrying TOOL_API_KEY when a tool endpoint is called over HTTP rather than in-process
+export const INTERNAL_KEY_HEADER = 'x-internal-key';
+
+/** Origins from ALLOWED_ORIGINS (comma-separated) plus the site's own URL, which Netlify sets. */
+export const allowedOrigins = (): string[] =>
+    [...(process.env.ALLOWED_ORIGINS || '').split(','), process.env.URL || '']
+        .map(origin => origin.trim().replace(/\/$/, ''))
+        .filter(Boolean);
+
+/** Constant-time comparison of a presented secret with the configured one. */
+export const sameKey = (given: string, expected: string) =>
+    given.length === expected.length && timingSafeEqual(Buffer.from(given), Buffer.from(expected));
+
+type AnyHandler = Handler | StreamingHandler;
+type Invoke = (event: HandlerEvent, context: HandlerContext) => Promise<HandlerResponse | void>;
+
+/**
+ * Answers cross-origin requests only from allowed origins: they get their origin echoed back,
+ * every other origin gets no Access-Control-Allow-Origin and a refused preflight.
+ * Same-origin pages are unaffected.
+ */
+export const withCors = <H extends AnyHandler>(handler: H): H => {
+    const wrapped: Invoke = async (event, context) => {
+        const origin = event.headers.origin;
+        const allowed = !!origin && allowedOrigins().includes(origin);
+
+        if (event.httpMethod === 'OPTIONS' && !allowed) {
+            return { statusCode: 403, headers: { Vary: 'Origin' }, body: '' };
+        }
+
+        const response = await (handler as Invoke)(event, context);
+        if (!response) return response;
+        return {
+            ...response,
+            headers: { ...response.headers, ...(allowed ? { 'Access-Control-Allow-Origin': origin } : {}), Vary: 'Origin' }
+        };
+    };
+    return wrapped as unknown as H;
+};
+
+/**
+ * Tool endpoints run in-process for the assistant. Over HTTP they answer only callers
+ * presenting TOOL_API_KEY; with no key configured they are not reachable at all.
+ */
+export const internalOnly = (handler: Handler): Handler => async (event, context) => {
+    const expected = process.env.TOOL_API_KEY;
+    const given = event.headers[INTERNAL_KEY_HEADER];
+
+    if (!expected || !given || !sameKey(given, expected)) {
+        return { statusCode: 403, body: JSON.stringify({ success: false, message: "This endpoint is not public." }) };
+    }
+    return (handler as Invoke)(event, context) as Promise<HandlerResponse>;
+};
@@ -0,0 +1,103 @@
+// netlify/functions/lib/i18n/catalogues.ts
+// Every stock reply Sahay gives without the model, in each language it speaks.
+import type { Language } from './index';
+
+export interface Catalogue {
+    /** The model's acknowledgement of its instructions, replayed at the top of every conversation. */
+    ready: string;
+    /** Sent when the model kept calling tools without answering. */
+    stepLimit: string;
+    /** Sent instead of the model's reply once a red flag has been raised. */
+    emergency: (number: string) => string;
+    /** A messaging reply that could not be produced. */
+    chatError: string;
+    /** The button that opens a WhatsApp list of choices. */
+    chooseButton: string;
+    call: {
+        greeting: string;
+        nothingHeard: string;
+        frontDeskKey: string;
+        confirmKeys: string;
+        transferring: string;
+        goodbye: string;
+        error: string;
+        /** What keys 1 and 2 say on the caller's behalf while a held slot awaits confirmation. */
+        confirmYes: string;
+        confirmNo: string;
+    };
+}
+
+export const CATALOGUES: Record<Language, Catalogue> = {
+    te: {
+        ready: "అర్థమైంది. నేను సహాయం చేయడానికి సిద్ధంగా ఉన్నాను.",
+        stepLimit: "క్షమించండి, ఈ అభ్యర్థనను పూర్తి చేయలేకపోయాను. దయచేసి మళ్ళీ ప్రయత్నించండి.",
+        emergency: number => `ఇది అత్యవసర పరిస్థితి కావచ్చు. దయచేసి వెంటనే ${number} కు కాల్ చేయండి లేదా దగ్గరలోని అత్యవసర విభాగానికి వెళ్ళండి. ఇప్పుడు అపాయింట్‌మెంట్ బుక్ చేయడం సరికాదు.`,
+        chatError: "క్షమించండి, సాంకేతిక సమస్య వచ్చింది. దయచేసి కొద్దిసేపటి తర్వాత మళ్ళీ ప్రయత్నించండి.",
+        chooseButton: "ఎంచుకోండి",
+        call: {
+            greeting: "నమస్కారం, ప్రూడెన్స్ హాస్పిటల్స్ కు స్వాగతం. నేను సహాయ్. మీకు ఏ విధంగా సహాయం చేయగలను?",
+            nothingHeard: "క్షమించండి, మీ మాట వినిపించలేదు. దయచేసి మళ్ళీ చెప్పండి.",
+            frontDeskKey: "రిసెప్షన్ తో మాట్లాడటానికి 0 నొక్కండి.",
+            confirmKeys: "బుకింగ్ నిర్ధారించడానికి 1, వద్దనుకుంటే 2 నొక్కండి.",
+            transferring: "మిమ్మల్ని రిసెప్షన్ కు కలుపుతున్నాను.",
+            goodbye: "దయచేసి తర్వాత మళ్ళీ కాల్ చేయండి. ధన్యవాదాలు.",
+            error: "క్షమించండి, సాంకేతిక సమస్య వచ్చింది.",
+            confirmYes: "అవును, బుక్ చేయండి.",
+            confirmNo: "వద్దు, ఈ సమయం వద్దు.",
+        },
+    },
+    hi: {
+        ready: "समझ गया। मैं मदद के लिए तैयार हूँ।",
+        stepLimit: "क्षमा करें, मैं यह अनुरोध पूरा नहीं कर सका। कृपया फिर से कोशिश करें।",
+        emergency: number => `यह आपातकालीन स्थिति हो सकती है। कृपया तुरंत ${number} पर कॉल करें या नज़दीकी आपातकालीन विभाग में जाएँ। अभी अपॉइंटमेंट बुक करना ठीक नहीं है।`,
+        chatError: "क्षमा करें, एक तकनीकी समस्या आ गई है। कृपया थोड़ी देर बाद फिर से कोशिश करें।",
+        chooseButton: "चुनें",
+        call: {
+            greeting: "नमस्ते, प्रूडेंस हॉस्पिटल्स में आपका स्वागत है। मैं सहाय हूँ। मैं आपकी क्या मदद कर सकता हूँ?",
+            nothingHeard: "क्षमा करें, आपकी आवाज़ सुनाई नहीं दी। कृपया फिर से बोलें।",
+            frontDeskKey: "रिसेप्शन से बात करने के लिए 0 दबाएँ।",
+            confirmKeys: "बुकिंग पक्की करने के लिए 1 दबाएँ, नहीं चाहिए तो 2 दबाएँ।",
+            transferring: "मैं आपको रिसेप्शन से जोड़ रहा हूँ।",
+            goodbye: "कृपया बाद में फिर से कॉल करें। धन्यवाद।",
+            error: "क्षमा करें, एक तकनीकी समस्या आ गई है।",
+            confirmYes: "हाँ, बुक कर दीजिए।",
+            confirmNo: "नहीं, यह समय नहीं चाहिए।",
+        },
+    },
+    ur: {
+        ready: "سمجھ گیا۔ میں مدد کے لیے تیار ہوں۔",
+        stepLimit: "معاف کیجیے، میں یہ درخواست پوری نہیں کر سکا۔ براہ کرم دوبارہ کوشش کریں۔",
+        emergency: number => `یہ ہنگامی صورتحال ہو سکتی ہے۔ براہ کرم فوراً ${number} پر کال کریں یا قریبی ایمرجنسی شعبے میں جائیں۔ ابھی اپائنٹمنٹ بک کرنا مناسب نہیں ہے۔`,
+        chatError: "معاف کیجیے، ایک تکنیکی مسئلہ پیش آ گیا ہے۔ براہ کرم تھوڑی دیر بعد دوبارہ کوشش کریں۔",
+        chooseButton: "منتخب کریں",
+        call: {
+            greeting: "السلام علیکم، پروڈینس ہاسپٹلز میں خوش آمدید۔ میں سہائے ہوں۔ میں آپ کی کیا مدد کر سکتا ہوں؟",
+            nothingHeard: "معاف کیجیے، آپ کی آواز سنائی نہیں دی۔ براہ کرم دوبارہ بولیں۔",
+            frontDeskKey: "ریسپشن سے بات کرنے کے لیے 0 دبائیں۔",
+            confirmKeys: "بکنگ کی تصدیق کے لیے 1 دبائیں، نہیں چاہیے تو 2 دبائیں۔",
+            transferring: "میں آپ کو ریسپشن سے ملا رہا ہوں۔",
+            goodbye: "براہ کرم بعد میں دوبارہ کال کریں۔ شکریہ۔",
+            error: "معاف کیجیے، ایک تکنیکی مسئلہ پیش آ گیا ہے۔",
+            confirmYes: "جی ہاں، بک کر دیجیے۔",
+            confirmNo: "نہیں، یہ وقت نہیں چاہیے۔",
+        },
+    },
+    en: {
+        ready: "Understood. I am ready to help.",
+        stepLimit: "Sorry, I could not complete that request. Please try again.",
+        emergency: number => `This could be an emergency. Please call ${number} right away or go to the nearest emergency department. Booking an appointment now is not the right step.`,
+        chatError: "Sorry, something went wrong on our side. Please try again in a little while.",
+        chooseButton: "Choose",
+        call: {
+            greeting: "Hello, welcome to Prudence Hospitals. I am Sahay. How can I help you?",
+            nothingHeard: "Sorry, I could not hear you. Please say that again.",
+            frontDeskKey: "Press 0 to speak to reception.",
+            confirmKeys: "Press 1 to confirm the booking, or 2 if you do not want it.",
+            transferring: "Connecting you to reception.",
+            goodbye: "Please call again later. Thank you.",
+            error: "Sorry, something went wrong on our side.",
+            confirmYes: "Yes, please book it.",
+            confirmNo: "No, not this time.",
+        },
+    },
+};
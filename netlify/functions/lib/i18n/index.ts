@@ -0,0 +1,61 @@
+// netlify/functions/lib/i18n/index.ts
+// The languages Sahay speaks. A conversation's language is the one the patient picked, or the
+// script their first message was written in; it drives the prompt, stock replies and the voice.
+import { CATALOGUES, type Catalogue } from './catalogues';
+
+export type { Catalogue } from './catalogues';
+
+export type Language = 'te' | 'hi' | 'ur' | 'en';
+
+export interface LanguageInfo {
+    /** English name, as the model is told to speak it. */
+    name: string;
+    /** The language's own name, for pickers. */
+    nativeName: string;
+    /** BCP-47 locale for speech recognition and synthesis. */
+    locale: string;
+}
+
+export const LANGUAGES: Record<Language, LanguageInfo> = {
+    te: { name: 'Telugu', nativeName: 'తెలుగు', locale: 'te-IN' },
+    hi: { name: 'Hindi', nativeName: 'हिन्दी', locale: 'hi-IN' },
+    ur: { name: 'Urdu', nativeName: 'اردو', locale: 'ur-IN' },
+    en: { name: 'English', nativeName: 'English', locale: 'en-IN' },
+};
+
+// Sahay started as a Telugu assistant; conversations that give no other hint stay in Telugu
+export const DEFAULT_LANGUAGE: Language = 'te';
+
+export const isLanguage = (value: unknown): value is Language =>
+    typeof value === 'string' && Object.prototype.hasOwnProperty.call(LANGUAGES, value);
+
+/** The language of a BCP-47 locale such as 'hi-IN', or null for one Sahay does not speak. */
+export const languageOfLocale = (locale: string): Language | null => {
+    const code = locale.split(/[-_]/)[0].toLowerCase();
+    return isLanguage(code) ? code : null;
+};
+
+// Letters of each script; Hindi is written in Devanagari and Urdu in the Arabic script
+const SCRIPTS: [Language, RegExp][] = [
+    ['te', /[\u0C00-\u0C7F]/g],
+    ['hi', /[\u0900-\u097F]/g],
+    ['ur', /[\u0600-\u06FF\u0750-\u077F\uFB50-\uFDFF\uFE70-\uFEFF]/g],
+    ['en', /[A-Za-z]/g],
+];
+
+/**
+ * The language `text` is written in, by whichever script has the most letters;
+ * null when it has none (digits, emoji). Romanised Telugu or Hindi reads as English.
+ */
+export const detectLanguage = (text: string): Language | null => {
+    let best: Language | null = null;
+    let bestCount = 0;
+    for (const [language, letters] of SCRIPTS) {
+        const count = text.match(letters)?.length || 0;
+        if (count > bestCount) [best, bestCount] = [language, count];
+    }
+    return best;
+};
+
+/** The stock replies in `language`. */
+export const messagesFor = (language: Language): Catalogue => CATALOGUES[language];
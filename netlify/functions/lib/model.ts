@@ -0,0 +1,53 @@
+// netlify/functions/lib/model.ts
+// The language model behind Sahay. The assistant talks to this interface rather than to Gemini
+// directly, so a scripted model can stand in for it when conversations are replayed offline.
+import { GoogleGenerativeAI, type Content, type FunctionCall, type FunctionDeclaration, type Part } from '@google/generative-ai';
+
+/** One model response: either tool calls to run or the text of a reply. */
+export interface ModelResponse {
+    text: string;
+    functionCalls: FunctionCall[];
+}
+
+export interface ModelChat {
+    /**
+     * Sends the patient's message, or the results of a step's tool calls.
+     * With `onText` the response is streamed and its text passed on as it arrives.
+     */
+    send(request: string | Part[], onText?: (text: string) => void): Promise<ModelResponse>;
+}
+
+export interface ModelProvider {
+    startChat(options: { history: Content[]; functionDeclarations: FunctionDeclaration[] }): ModelChat;
+}
+
+export const GEMINI_MODEL = process.env.GEMINI_MODEL || 'gemini-1.5-flash';
+
+export const createGeminiModel = (apiKey = process.env.GEMINI_API_KEY || '', modelName = GEMINI_MODEL): ModelProvider => ({
+    startChat({ history, functionDeclarations }) {
+        const model = new GoogleGenerativeAI(apiKey).getGenerativeModel({
+            model: modelName,
+            tools: [{ functionDeclarations }],
+        });
+        const chat = model.startChat({ history });
+
+        return {
+            async send(request, onText) {
+                if (!onText) {
+                    const { response } = await chat.sendMessage(request);
+                    const functionCalls = response.functionCalls() || [];
+                    return { text: functionCalls.length > 0 ? '' : response.text(), functionCalls };
+                }
+
+                const result = await chat.sendMessageStream(request);
+                for await (const chunk of result.stream) {
+                    const text = chunk.text();
+                    if (text) onText(text);
+                }
+                const response = await result.response;
+                const functionCalls = response.functionCalls() || [];
+                return { text: functionCalls.length > 0 ? '' : response.text(), functionCalls };
+            },
+        };
+    },
+});
@@ -0,0 +1,76 @@
+// netlify/functions/lib/notifications/index.ts
+// Sends appointment messages and records each delivery against the appointment.
+import type { AppointmentSummary, DataStore, NotificationKind } from '../data/types';
+import { providerFromEnv, type NotificationProvider } from './providers';
+import { parseLanguage, renderNotification, type NotificationLanguage } from './templates';
+
+export type { NotificationProvider, OutgoingMessage } from './providers';
+export { createConsoleProvider, createSmsProvider, createWhatsAppProvider, providerFromEnv } from './providers';
+export type { NotificationLanguage } from './templates';
+export { renderNotification } from './templates';
+
+export type DeliveryStatus = 'sent' | 'failed' | 'skipped';
+
+export interface Notifier {
+    /**
+     * Sends the `kind` message for an appointment. Never throws: a message
+     * that cannot be delivered must not undo the booking change behind it.
+     */
+    notify(kind: NotificationKind, appointmentId: number): Promise<void>;
+    /**
+     * Sends one message and records the outcome; 'skipped' when there is no
+     * phone to send to. `until` is the reply-by time quoted in waitlist offers.
+     */
+    send(kind: NotificationKind, appointment: AppointmentSummary, until?: string): Promise<DeliveryStatus>;
+}
+
+/** `provider` defaults to NOTIFICATION_PROVIDER, resolved on first use. */
+export const createNotifier = (
+    store: DataStore,
+    provider?: NotificationProvider,
+    language: NotificationLanguage = parseLanguage(process.env.NOTIFICATION_LANGUAGE)
+): Notifier => {
+    let resolved = provider;
+
+    const send = async (kind: NotificationKind, appointment: AppointmentSummary, until?: string): Promise<DeliveryStatus> => {
+        if (!appointment.phone) return 'skipped';
+
+        const body = renderNotification(kind, appointment, language, until);
+        const delivery = {
+            appointment_id: appointment.id,
+            kind,
+            recipient: appointment.phone,
+            body,
+            appointment_date: appointment.appointment_date,
+            appointment_time: appointment.appointment_time,
+        };
+
+        try {
+            // A misconfigured provider fails this message like any other send error, not the whole run
+            resolved ??= providerFromEnv();
+            const { providerMessageId } = await resolved.send({ to: appointment.phone, body });
+            await store.notifications.record({ ...delivery, channel: resolved.channel, status: 'sent', provider_message_id: providerMessageId, error: null });
+            return 'sent';
+        } catch (error: any) {
+            console.error(`Notification Error (${kind} for appointment ${appointment.id}):`, error.message);
+            const channel = resolved?.channel ?? (process.env.NOTIFICATION_PROVIDER || 'console');
+            await store.notifications.record({ ...delivery, channel, status: 'failed', provider_message_id: null, error: error.message });
+            return 'failed';
+        }
+    };
+
+    return {
+        send,
+
+        async notify(kind, appointmentId) {
+            try {
+                const appointment = await store.appointments.findSummaryById(appointmentId);
+                if (appointment) await send(kind, appointment);
+            } catch (error: any) {
+                console.error(`Notification Error (${kind} for appointment ${appointmentId}):`, error.message);
+            }
+        },
+    };
+};
+
+export { sendDueReminders, type ReminderRun } from './reminders';
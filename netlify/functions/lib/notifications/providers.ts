@@ -0,0 +1,81 @@
+// netlify/functions/lib/notifications/providers.ts
+// Delivery channels for patient messages. Pick one with NOTIFICATION_PROVIDER.
+import { appendFile } from 'node:fs/promises';
+
+export interface OutgoingMessage {
+    /** E.164 phone number */
+    to: string;
+    body: string;
+}
+
+export interface NotificationProvider {
+    /** Stored with each delivery, e.g. 'sms' or 'whatsapp'. */
+    channel: string;
+    /** Resolves with the provider's message id; rejects when the message was not accepted. */
+    send(message: OutgoingMessage): Promise<{ providerMessageId: string | null }>;
+}
+
+export interface TwilioConfig {
+    accountSid: string;
+    authToken: string;
+    from: string;
+}
+
+/** Development provider: logs each message and, given a path, appends it to that file as a JSON line. */
+export const createConsoleProvider = (logFile?: string): NotificationProvider => ({
+    channel: 'console',
+    async send(message) {
+        console.log(`[notification] to ${message.to}: ${message.body}`);
+        if (logFile) {
+            await appendFile(logFile, JSON.stringify({ ...message, sentAt: new Date().toISOString() }) + '\n');
+        }
+        return { providerMessageId: null };
+    },
+});
+
+// SMS and WhatsApp both go through Twilio's Messages API; WhatsApp numbers carry a "whatsapp:" prefix
+const createTwilioProvider = (channel: string, config: TwilioConfig, address: (phone: string) => string): NotificationProvider => ({
+    channel,
+    async send(message) {
+        const response = await fetch(`https://api.twilio.com/2010-04-01/Accounts/${config.accountSid}/Messages.json`, {
+            method: 'POST',
+            headers: {
+                'Authorization': `Basic ${Buffer.from(`${config.accountSid}:${config.authToken}`).toString('base64')}`,
+                'Content-Type': 'application/x-www-form-urlencoded'
+            },
+            body: new URLSearchParams({ To: address(message.to), From: address(config.from), Body: message.body })
+        });
+
+        const result = await response.json();
+        if (!response.ok) {
+            throw new Error(`Twilio ${channel} failed (${response.status}): ${result.message || 'unknown error'}`);
+        }
+        return { providerMessageId: result.sid || null };
+    },
+});
+
+export const createSmsProvider = (config: TwilioConfig) =>
+    createTwilioProvider('sms', config, phone => phone);
+
+export const createWhatsAppProvider = (config: TwilioConfig) =>
+    createTwilioProvider('whatsapp', config, phone => `whatsapp:${phone}`);
+
+export const providerFromEnv = (env: NodeJS.ProcessEnv = process.env): NotificationProvider => {
+    const twilio = (from: string | undefined): TwilioConfig => {
+        if (!env.TWILIO_ACCOUNT_SID || !env.TWILIO_AUTH_TOKEN || !from) {
+            throw new Error('Twilio credentials and sender number are required for SMS/WhatsApp notifications.');
+        }
+        return { accountSid: env.TWILIO_ACCOUNT_SID, authToken: env.TWILIO_AUTH_TOKEN, from };
+    };
+
+    switch (env.NOTIFICATION_PROVIDER || 'console') {
+        case 'sms':
+            return createSmsProvider(twilio(env.TWILIO_SMS_FROM));
+        case 'whatsapp':
+            return createWhatsAppProvider(twilio(env.TWILIO_WHATSAPP_FROM));
+        case 'console':
+            return createConsoleProvider(env.NOTIFICATION_LOG_FILE);
+        default:
+            throw new Error(`Unknown NOTIFICATION_PROVIDER: ${env.NOTIFICATION_PROVIDER}`);
+    }
+};
@@ -0,0 +1,37 @@
+// netlify/functions/lib/notifications/reminders.ts
+import type { AppointmentSummary, DataStore, NotificationKind } from '../data/types';
+import { addDays, hospitalNow } from '../dateTime';
+import { toMinutes } from '../scheduling';
+import type { DeliveryStatus, Notifier } from './index';
+
+// Hospital-time HH:MM after which each reminder goes out
+const DAY_BEFORE_AT = process.env.REMINDER_DAY_BEFORE_AT || '18:00';
+const SAME_DAY_AT = process.env.REMINDER_SAME_DAY_AT || '07:00';
+
+export type ReminderRun = Record<DeliveryStatus, number>;
+
+/**
+ * Sends every reminder that is due and has not gone out yet: the day-before
+ * one from the evening before, the same-day one from the morning. Safe to run
+ * as often as the schedule likes; failed deliveries are retried on the next run.
+ */
+export const sendDueReminders = async (store: DataStore, notifier: Notifier, now = hospitalNow()): Promise<ReminderRun> => {
+    const run: ReminderRun = { sent: 0, failed: 0, skipped: 0 };
+
+    const remind = async (kind: NotificationKind, date: string, isDue: (appointment: AppointmentSummary) => boolean) => {
+        for (const appointment of (await store.appointments.listConfirmedOn(date)).filter(isDue)) {
+            const slot = { date: appointment.appointment_date, time: appointment.appointment_time };
+            if (await store.notifications.hasSent(appointment.id, kind, slot)) continue;
+            run[await notifier.send(kind, appointment)]++;
+        }
+    };
+
+    if (toMinutes(now.time) >= toMinutes(DAY_BEFORE_AT)) {
+        await remind('reminder_day_before', addDays(now.date, 1), () => true);
+    }
+    if (toMinutes(now.time) >= toMinutes(SAME_DAY_AT)) {
+        await remind('reminder_same_day', now.date, a => toMinutes(a.appointment_time) > toMinutes(now.time));
+    }
+
+    return run;
+};
@@ -0,0 +1,52 @@
+// netlify/functions/lib/notifications/templates.ts
+// Patient-facing message text, in Telugu and English.
+import type { AppointmentSummary, NotificationKind } from '../data/types';
+
+export type NotificationLanguage = 'te' | 'en';
+
+const HOSPITAL_NAME = 'Prudence Hospitals';
+
+interface TemplateFields {
+    id: number;
+    name: string;
+    doctor: string;
+    date: string;
+    time: string;
+    /** HH:MM by which the patient must answer a waitlist offer. */
+    until: string;
+}
+
+const TEMPLATES: Record<NotificationLanguage, Record<NotificationKind, (f: TemplateFields) => string>> = {
+    te: {
+        confirmation: f => `${f.name} గారు, ${HOSPITAL_NAME} లో ${f.doctor} గారితో మీ అపాయింట్‌మెంట్ ${f.date} న ${f.time} కి ఖరారైంది. అపాయింట్‌మెంట్ నంబర్: ${f.id}.`,
+        cancellation: f => `${f.name} గారు, ${f.doctor} గారితో ${f.date} న ${f.time} కి ఉన్న మీ అపాయింట్‌మెంట్ రద్దు చేయబడింది. - ${HOSPITAL_NAME}`,
+        reschedule: f => `${f.name} గారు, ${f.doctor} గారితో మీ అపాయింట్‌మెంట్ ${f.date} న ${f.time} కి మార్చబడింది. అపాయింట్‌మెంట్ నంబర్: ${f.id}. - ${HOSPITAL_NAME}`,
+        reminder_day_before: f => `గుర్తు: రేపు (${f.date}) ${f.time} కి ${f.doctor} గారితో ${f.name} గారి అపాయింట్‌మెంట్ ఉంది. దయచేసి 15 నిమిషాలు ముందుగా రండి. - ${HOSPITAL_NAME}`,
+        reminder_same_day: f => `గుర్తు: ఈ రోజు ${f.time} కి ${f.doctor} గారితో ${f.name} గారి అపాయింట్‌మెంట్ ఉంది. - ${HOSPITAL_NAME}`,
+        waitlist_offer: f => `${f.name} గారు, ${f.doctor} గారితో ${f.date} న ${f.time} కి స్లాట్ ఖాళీ అయింది. మీ కోసం ${f.until} వరకు ఉంచాము. బుక్ చేయడానికి సహాయ్‌తో మాట్లాడండి. - ${HOSPITAL_NAME}`,
+    },
+    en: {
+        confirmation: f => `Dear ${f.name}, your appointment with ${f.doctor} at ${HOSPITAL_NAME} is confirmed for ${f.date} at ${f.time}. Appointment no: ${f.id}.`,
+        cancellation: f => `Dear ${f.name}, your appointment with ${f.doctor} on ${f.date} at ${f.time} has been cancelled. - ${HOSPITAL_NAME}`,
+        reschedule: f => `Dear ${f.name}, your appointment with ${f.doctor} has been moved to ${f.date} at ${f.time}. Appointment no: ${f.id}. - ${HOSPITAL_NAME}`,
+        reminder_day_before: f => `Reminder: ${f.name} has an appointment with ${f.doctor} tomorrow (${f.date}) at ${f.time}. Please arrive 15 minutes early. - ${HOSPITAL_NAME}`,
+        reminder_same_day: f => `Reminder: ${f.name} has an appointment with ${f.doctor} today at ${f.time}. - ${HOSPITAL_NAME}`,
+        waitlist_offer: f => `Dear ${f.name}, a slot with ${f.doctor} opened on ${f.date} at ${f.time}. It is held for you until ${f.until}; talk to Sahay to book it. - ${HOSPITAL_NAME}`,
+    },
+};
+
+export const parseLanguage = (value?: string): NotificationLanguage =>
+    value === 'en' ? 'en' : 'te';
+
+/** DD-MM-YYYY, the way dates are written on Indian appointment slips. */
+const displayDate = (date: string) => date.split('-').reverse().join('-');
+
+export const renderNotification = (kind: NotificationKind, appointment: AppointmentSummary, language: NotificationLanguage, until = ''): string =>
+    TEMPLATES[language][kind]({
+        id: appointment.id,
+        name: appointment.patient_name || (language === 'te' ? 'రోగి' : 'Patient'),
+        doctor: appointment.doctor_name,
+        date: displayDate(appointment.appointment_date),
+        time: appointment.appointment_time,
+        until,
+    });
@@ -0,0 +1,16 @@
+// netlify/functions/lib/phone.ts
+
+// Telugu digits ౦-౯ (U+0C66..U+0C6F) as the model sometimes passes them through
+export const toAsciiDigits = (text: string) =>
+    text.replace(/[౦-౯]/g, digit => String(digit.charCodeAt(0) - 0x0C66));
+
+/** Normalises an Indian mobile number to E.164 (+91XXXXXXXXXX); null when it is not one. */
+export const normalizePhone = (raw: unknown): string | null => {
+    if (typeof raw !== 'string' && typeof raw !== 'number') return null;
+
+    let digits = toAsciiDigits(String(raw)).replace(/\D/g, '');
+    if (digits.length === 12 && digits.startsWith('91')) digits = digits.slice(2);
+    else if (digits.length === 11 && digits.startsWith('0')) digits = digits.slice(1);
+
+    return /^[6-9]\d{9}$/.test(digits) ? `+91${digits}` : null;
+};
@@ -0,0 +1,69 @@
+// netlify/functions/lib/scheduling.ts
+// Turns a doctor's weekly schedule into the concrete slots offered on one date.
+import type { TimeRange, WeeklySchedule } from './data/types';
+import { hospitalNow, weekdayOf } from './dateTime';
+
+export type TimeOfDay = 'morning' | 'afternoon' | 'evening';
+
+// Half-open [start, end) windows in minutes after midnight
+const TIME_OF_DAY_WINDOWS: Record<TimeOfDay, [number, number]> = {
+    morning: [0, 12 * 60],
+    afternoon: [12 * 60, 17 * 60],
+    evening: [17 * 60, 24 * 60],
+};
+
+// The model may pass the patient's own words through, so accept Telugu too
+const TIME_OF_DAY_ALIASES: Record<string, TimeOfDay> = {
+    morning: 'morning',
+    'ఉదయం': 'morning',
+    afternoon: 'afternoon',
+    'మధ్యాహ్నం': 'afternoon',
+    evening: 'evening',
+    'సాయంత్రం': 'evening',
+};
+
+export const toMinutes = (time: string): number => {
+    const [hours, minutes] = time.split(':').map(Number);
+    return hours * 60 + minutes;
+};
+
+export const fromMinutes = (total: number): string =>
+    `${String(Math.floor(total / 60)).padStart(2, '0')}:${String(total % 60).padStart(2, '0')}`;
+
+export const parseTimeOfDay = (value?: string | null): TimeOfDay | null =>
+    (value && TIME_OF_DAY_ALIASES[value.trim().toLowerCase()]) || null;
+
+const overlaps = (start: number, end: number, range: TimeRange) =>
+    start < toMinutes(range.end) && end > toMinutes(range.start);
+
+/** Every slot start (HH:MM) the schedule offers on `date`, in order. Breaks and session ends are respected. */
+export const generateSlots = (sessions: WeeklySchedule[], date: string): string[] => {
+    const weekday = weekdayOf(date);
+    const slots = new Set<number>();
+
+    for (const session of sessions.filter(s => s.weekday === weekday)) {
+        const length = session.slot_minutes;
+        const end = toMinutes(session.end_time);
+
+        for (let start = toMinutes(session.start_time); start + length <= end; start += length) {
+            if (!(session.breaks || []).some(range => overlaps(start, start + length, range))) {
+                slots.add(start);
+            }
+        }
+    }
+
+    return [...slots].sort((a, b) => a - b).map(fromMinutes);
+};
+
+export const filterByTimeOfDay = (slots: string[], timeOfDay: TimeOfDay | null): string[] => {
+    if (!timeOfDay) return slots;
+    const [from, to] = TIME_OF_DAY_WINDOWS[timeOfDay];
+    return slots.filter(slot => toMinutes(slot) >= from && toMinutes(slot) < to);
+};
+
+/** Drops slots that have already started when `date` is today at the hospital. */
+export const dropPastSlots = (slots: string[], date: string, now = hospitalNow()): string[] => {
+    if (date < now.date) return [];
+    if (date > now.date) return slots;
+    return slots.filter(slot => toMinutes(slot) > toMinutes(now.time));
+};
@@ -0,0 +1,64 @@
+// netlify/functions/lib/scriptedModel.ts
+// A deterministic stand-in for Gemini: replays a script of tool calls and replies, one step per
+// request, so whole conversations run offline against the real tools and an in-memory store.
+import type { FunctionDeclaration, Part } from '@google/generative-ai';
+import type { ModelChat, ModelProvider } from './model';
+
+/** What the model does in response to one request: call tools, or reply to the patient. */
+export type ScriptedStep =
+    | { calls: { name: string; args?: Record<string, unknown> }[] }
+    | { reply: string };
+
+export interface ScriptedModel extends ModelProvider {
+    /** Every request the assistant sent, in order: the patient's message or a step's tool results. */
+    requests: (string | Part[])[];
+    /** Steps not yet played. */
+    remaining(): number;
+}
+
+/**
+ * Scripted calls are checked against the declarations the assistant offers, so a
+ * renamed tool or parameter fails the script the way it would confuse the real model.
+ */
+const checkCall = (declarations: FunctionDeclaration[], name: string, args: Record<string, unknown>) => {
+    const declaration = declarations.find(d => d.name === name);
+    if (!declaration) throw new Error(`Scripted call to undeclared tool ${name}.`);
+
+    const properties = declaration.parameters?.properties || {};
+    const unknown = Object.keys(args).filter(key => !(key in properties));
+    if (unknown.length > 0) throw new Error(`Scripted call to ${name} passes undeclared parameters: ${unknown.join(', ')}.`);
+
+    const missing = (declaration.parameters?.required || []).filter(key => !(key in args));
+    if (missing.length > 0) throw new Error(`Scripted call to ${name} is missing required parameters: ${missing.join(', ')}.`);
+};
+
+export const createScriptedModel = (script: ScriptedStep[]): ScriptedModel => {
+    const steps = [...script];
+    const requests: (string | Part[])[] = [];
+
+    return {
+        requests,
+        remaining: () => steps.length,
+
+        startChat({ functionDeclarations }): ModelChat {
+            return {
+                async send(request, onText) {
+                    requests.push(request);
+                    const step = steps.shift();
+                    if (!step) throw new Error(`Scripted model has no step left for request ${requests.length}.`);
+
+                    if ('reply' in step) {
+                        onText?.(step.reply);
+                        return { text: step.reply, functionCalls: [] };
+                    }
+
+                    const functionCalls = step.calls.map(({ name, args = {} }) => {
+                        checkCall(functionDeclarations, name, args);
+                        return { name, args };
+                    });
+                    return { text: '', functionCalls };
+                },
+            };
+        },
+    };
+};
@@ -0,0 +1,73 @@
+// netlify/functions/lib/sessions.ts
+// Resuming stored conversations and keeping the history sent to the model bounded.
+import type { HandlerEvent } from '@netlify/functions';
+import type { ConversationSession, ConversationTurn, DataStore } from './data/types';
+import { DEFAULT_LANGUAGE, detectLanguage, isLanguage, type Language } from './i18n';
+
+/** Carries the session id from the assistant to the tools it calls in-process. */
+export const SESSION_HEADER = 'x-session-id';
+
+// Stored turns replayed to the model; older ones are only summarised
+const MAX_HISTORY_TURNS = Number(process.env.AI_MAX_HISTORY_TURNS) || 40;
+// A messaging conversation idle this long starts afresh; WhatsApp's own service window is 24 hours
+const CONTACT_IDLE_HOURS = Number(process.env.CHAT_SESSION_IDLE_HOURS) || 24;
+// Keeps a summary line short even when a tool returned a long list
+const MAX_SUMMARY_RESULT_CHARS = 200;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export const isSessionId = (value: unknown): value is string =>
+    typeof value === 'string' && UUID_PATTERN.test(value);
+
+export const sessionIdFrom = (event: HandlerEvent): string | null => {
+    const value = event.headers[SESSION_HEADER];
+    return isSessionId(value) ? value : null;
+};
+
+/** The session with this id, or a new one when the id is missing or unknown. */
+export const resumeSession = async (store: DataStore, sessionId: unknown, channel: string): Promise<ConversationSession> =>
+    (isSessionId(sessionId) && await store.sessions.findById(sessionId)) || store.sessions.create(channel);
+
+/** The contact's latest session on `channel` unless it has gone idle; otherwise a new one. */
+export const resumeContactSession = async (store: DataStore, channel: string, contact: string, now = new Date()): Promise<ConversationSession> => {
+    const latest = await store.sessions.findLatestByContact(channel, contact);
+    const idleHours = latest ? (now.getTime() - new Date(latest.updated_at).getTime()) / 3_600_000 : Infinity;
+    return latest && idleHours < CONTACT_IDLE_HOURS ? latest : store.sessions.create(channel, contact);
+};
+
+/**
+ * The language to answer in: the patient's `chosen` one, else the session's,
+ * else the one `message` is written in. A new choice or a first detection is
+ * saved on the session, so later messages keep it whatever script they use.
+ */
+export const settleLanguage = async (store: DataStore, session: ConversationSession, message: string, chosen?: unknown): Promise<Language> => {
+    const language = (isLanguage(chosen) && chosen) || (isLanguage(session.language) && session.language) || detectLanguage(message);
+    if (!language) return DEFAULT_LANGUAGE;
+
+    if (language !== session.language) await store.sessions.setLanguage(session.id, language);
+    return language;
+};
+
+/**
+ * Keeps at most `limit` of the newest turns. The cut moves forward to a user
+ * turn so the model never sees tool results without the question behind them.
+ */
+export const trimTurns = (turns: ConversationTurn[], limit = MAX_HISTORY_TURNS) => {
+    if (turns.length <= limit) return { kept: turns, dropped: [] as ConversationTurn[] };
+
+    let cut = turns.length - limit;
+    while (cut < turns.length && turns[cut].role !== 'user') cut++;
+
+    return { kept: turns.slice(cut), dropped: turns.slice(0, cut) };
+};
+
+/** One line per tool call in the trimmed turns, so holds and booking ids are not forgotten. */
+export const summariseTurns = (turns: ConversationTurn[]): string =>
+    turns
+        .filter(turn => turn.role === 'tool')
+        .map(turn => {
+            const result = JSON.stringify(turn.tool_result || {});
+            const shortResult = result.length > MAX_SUMMARY_RESULT_CHARS ? `${result.slice(0, MAX_SUMMARY_RESULT_CHARS)}...` : result;
+            return `- ${turn.tool_name}(${JSON.stringify(turn.tool_args || {})}) -> ${shortResult}`;
+        })
+        .join('\n');
@@ -0,0 +1,20 @@
+// netlify/functions/lib/specialties.ts
+// Finds the departments a patient means from however they named them:
+// "cardio", "Cardiology", "heart doctor" or "గుండె డాక్టర్".
+import type { Specialty } from './data/types';
+import { mentions } from './triage';
+
+const names = (specialty: Specialty): string[] =>
+    [specialty.name_en, specialty.name_te, ...specialty.synonyms]
+        .filter((name): name is string => !!name && name.trim() !== '')
+        .map(name => name.trim().toLowerCase());
+
+/**
+ * Specialties whose name contains `query` (as the old free-text search did),
+ * or whose name or synonym `query` mentions, in the order given.
+ */
+export const matchSpecialties = (specialties: Specialty[], query: string): Specialty[] => {
+    const text = query.trim().toLowerCase().replace(/\s+/g, ' ');
+    if (!text) return [];
+    return specialties.filter(specialty => names(specialty).some(name => name.includes(text) || mentions(text, name)));
+};
@@ -0,0 +1,128 @@
+// netlify/functions/lib/speech.ts
+// Text-to-speech, plus cutting a streamed reply into sentences that can be spoken one by one.
+import { createHash } from 'node:crypto';
+import { LANGUAGES, type Language } from './i18n';
+import { speechProvidersFromEnv, type SpeechAudio, type SpeechProvider, type VoiceOptions } from './speechProviders';
+
+export type { SpeechAudio, SpeechProvider, VoiceOptions } from './speechProviders';
+export { createCloudSpeechProvider, createGeminiSpeechProvider, speechProvidersFromEnv, wavFromPcm } from './speechProviders';
+
+// A terminator only ends a sentence once whitespace follows it ("10.30" stays whole); । is Hindi's full stop, ۔ and ؟ Urdu's
+const SENTENCE_END = /[.!?।۔؟\n]+\s/g;
+// Shorter pieces ("Dr.", "సరే.") wait for the next sentence instead of becoming their own audio clip
+const MIN_SENTENCE_CHARS = 20;
+
+export interface SpeechCache {
+    get(key: string): SpeechAudio | undefined;
+    set(key: string, audio: SpeechAudio): void;
+}
+
+/** Keeps the `maxEntries` most recently used clips for the life of the function instance. */
+export const createMemorySpeechCache = (maxEntries = Number(process.env.TTS_CACHE_SIZE) || 100): SpeechCache => {
+    const clips = new Map<string, SpeechAudio>();
+
+    return {
+        get(key) {
+            const audio = clips.get(key);
+            if (audio) {
+                clips.delete(key);
+                clips.set(key, audio);
+            }
+            return audio;
+        },
+
+        set(key, audio) {
+            clips.delete(key);
+            clips.set(key, audio);
+            if (clips.size > maxEntries) clips.delete(clips.keys().next().value as string);
+        },
+    };
+};
+
+export interface SpeechService {
+    /** Playable audio for `text`; rejects only when every provider failed. */
+    synthesize(text: string, options?: Partial<VoiceOptions>): Promise<SpeechAudio>;
+}
+
+const DEFAULT_VOICE: VoiceOptions = {
+    language: process.env.TTS_LANGUAGE || 'te-IN',
+    voice: process.env.TTS_VOICE || 'Kore',
+};
+
+/**
+ * Tries `providers` in order. Clips are cached by a hash of their text, language
+ * and voice, so greetings and stock apologies are synthesised once. Only the
+ * first provider's audio is cached: a fallback voice is not kept once the usual
+ * one is back.
+ */
+export const createSpeechService = (
+    providers: SpeechProvider[],
+    cache: SpeechCache = createMemorySpeechCache(),
+    defaults: VoiceOptions = DEFAULT_VOICE
+): SpeechService => ({
+    async synthesize(text, options = {}) {
+        const voice = { ...defaults, ...options };
+        const key = createHash('sha256').update(JSON.stringify([voice.language, voice.voice || '', text])).digest('hex');
+
+        const cached = cache.get(key);
+        if (cached) return cached;
+
+        const failures: string[] = [];
+        for (const [index, provider] of providers.entries()) {
+            try {
+                const audio = await provider.synthesize(text, voice);
+                if (index === 0) cache.set(key, audio);
+                return audio;
+            } catch (error: any) {
+                console.error(`Speech Error (${provider.name}):`, error.message);
+                failures.push(`${provider.name}: ${error.message}`);
+            }
+        }
+        throw new Error(`Speech synthesis failed. ${failures.join('; ')}`);
+    },
+});
+
+/** How a reply in `language` is spoken; TTS_VOICE_<CODE> (e.g. TTS_VOICE_HI) picks a voice for one language. */
+export const voiceFor = (language: Language): Partial<VoiceOptions> => {
+    const voice = process.env[`TTS_VOICE_${language.toUpperCase()}`];
+    return { language: LANGUAGES[language].locale, ...(voice ? { voice } : {}) };
+};
+
+let defaultService: SpeechService | undefined;
+
+/** Audio for `text` from the providers configured in the environment, created on first use. */
+export const synthesizeSpeech = (text: string, options?: Partial<VoiceOptions>): Promise<SpeechAudio> =>
+    (defaultService ??= createSpeechService(speechProvidersFromEnv())).synthesize(text, options);
+
+/**
+ * Buffers streamed text and calls `onSentence` for each complete sentence.
+ * `flush` hands over whatever is left once the stream ends.
+ */
+export const createSentenceSplitter = (onSentence: (sentence: string) => void) => {
+    let buffer = '';
+
+    const emit = (sentence: string) => {
+        if (sentence.trim()) onSentence(sentence.trim());
+    };
+
+    return {
+        push(text: string) {
+            buffer += text;
+
+            let start = 0;
+            for (const match of buffer.matchAll(SENTENCE_END)) {
+                const end = match.index + match[0].length;
+                if (end - start >= MIN_SENTENCE_CHARS) {
+                    emit(buffer.slice(start, end));
+                    start = end;
+                }
+            }
+            buffer = buffer.slice(start);
+        },
+
+        flush() {
+            emit(buffer);
+            buffer = '';
+        },
+    };
+};
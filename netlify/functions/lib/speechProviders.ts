@@ -0,0 +1,113 @@
+// netlify/functions/lib/speechProviders.ts
+// Text-to-speech engines. Each returns audio in a container that browsers and phone lines can play.
+
+export interface SpeechAudio {
+    /** Base64 audio */
+    audioContent: string;
+    mimeType: string;
+}
+
+export interface VoiceOptions {
+    /** BCP-47 language code, e.g. 'te-IN'. */
+    language: string;
+    /** A Gemini voice name, e.g. 'Kore'; the engine's default when absent. */
+    voice?: string;
+}
+
+export interface SpeechProvider {
+    /** Shown in logs when the provider fails. */
+    name: string;
+    /** Rejects when no audio came back. */
+    synthesize(text: string, options: VoiceOptions): Promise<SpeechAudio>;
+}
+
+// Gemini TTS returns raw 16-bit mono PCM, e.g. "audio/L16;codec=pcm;rate=24000"
+const DEFAULT_PCM_RATE = 24000;
+
+/** Wraps raw 16-bit mono PCM in a WAV header, for players that cannot take bare PCM. */
+export const wavFromPcm = (pcm: Buffer, sampleRate = DEFAULT_PCM_RATE): Buffer => {
+    const header = Buffer.alloc(44);
+    header.write('RIFF', 0);
+    header.writeUInt32LE(36 + pcm.length, 4);
+    header.write('WAVE', 8);
+    header.write('fmt ', 12);
+    header.writeUInt32LE(16, 16);
+    header.writeUInt16LE(1, 20);
+    header.writeUInt16LE(1, 22);
+    header.writeUInt32LE(sampleRate, 24);
+    header.writeUInt32LE(sampleRate * 2, 28);
+    header.writeUInt16LE(2, 32);
+    header.writeUInt16LE(16, 34);
+    header.write('data', 36);
+    header.writeUInt32LE(pcm.length, 40);
+    return Buffer.concat([header, pcm]);
+};
+
+/** Raw PCM becomes WAV; audio already in a container passes through. */
+const playable = (data: string, mimeType: string): SpeechAudio => {
+    if (!/^audio\/(L16|pcm)\b/i.test(mimeType)) return { audioContent: data, mimeType };
+
+    const rate = Number(/rate=(\d+)/.exec(mimeType)?.[1]) || DEFAULT_PCM_RATE;
+    return { audioContent: wavFromPcm(Buffer.from(data, 'base64'), rate).toString('base64'), mimeType: 'audio/wav' };
+};
+
+export const createGeminiSpeechProvider = (apiKey: string, model = 'gemini-2.5-flash-preview-tts'): SpeechProvider => ({
+    name: 'gemini',
+    async synthesize(text, { language, voice }) {
+        const response = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent?key=${apiKey}`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+                contents: [{ parts: [{ text }] }],
+                generationConfig: {
+                    responseModalities: ["AUDIO"],
+                    speechConfig: {
+                        languageCode: language,
+                        ...(voice ? { voiceConfig: { prebuiltVoiceConfig: { voiceName: voice } } } : {})
+                    }
+                }
+            })
+        });
+
+        const result = await response.json();
+        if (!response.ok) {
+            throw new Error(`Gemini TTS failed (${response.status}): ${result.error?.message || 'unknown error'}`);
+        }
+
+        const audio = result.candidates?.[0]?.content?.parts?.[0]?.inlineData;
+        if (!audio?.data) throw new Error('Gemini TTS returned no audio.');
+        return playable(audio.data, audio.mimeType || 'audio/L16');
+    },
+});
+
+/**
+ * Google Cloud Text-to-Speech, as a fallback: its own voices, chosen by `voice`
+ * here rather than per request (Gemini voice names mean nothing to it).
+ */
+export const createCloudSpeechProvider = (apiKey: string, voice?: string): SpeechProvider => ({
+    name: 'google-cloud',
+    async synthesize(text, { language }) {
+        const response = await fetch(`https://texttospeech.googleapis.com/v1/text:synthesize?key=${apiKey}`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+                input: { text },
+                voice: { languageCode: language, ...(voice ? { name: voice } : {}) },
+                audioConfig: { audioEncoding: 'MP3' }
+            })
+        });
+
+        const result = await response.json();
+        if (!response.ok) {
+            throw new Error(`Cloud TTS failed (${response.status}): ${result.error?.message || 'unknown error'}`);
+        }
+        if (!result.audioContent) throw new Error('Cloud TTS returned no audio.');
+        return { audioContent: result.audioContent, mimeType: 'audio/mpeg' };
+    },
+});
+
+/** Gemini first, then Google Cloud TTS when GOOGLE_TTS_API_KEY is set. */
+export const speechProvidersFromEnv = (env: NodeJS.ProcessEnv = process.env): SpeechProvider[] => [
+    createGeminiSpeechProvider(env.GEMINI_API_KEY || '', env.GEMINI_TTS_MODEL),
+    ...(env.GOOGLE_TTS_API_KEY ? [createCloudSpeechProvider(env.GOOGLE_TTS_API_KEY, env.GOOGLE_TTS_VOICE)] : []),
+];
@@ -0,0 +1,115 @@
+// netlify/functions/lib/telephony.ts
+// The phone line: reading the provider's webhook requests and writing the TwiML it executes
+// in reply (Twilio's format; Exotel and others accept the same verbs).
+import type { HandlerEvent } from '@netlify/functions';
+import { createHmac } from 'node:crypto';
+import type { NewTurn } from './data/types';
+import { sameKey } from './http';
+import { normalizePhone } from './phone';
+
+export const VOICE_PATH = '/.netlify/functions/voiceCall';
+export const AUDIO_PATH = '/.netlify/functions/voiceAudio';
+
+// Language the provider listens for, and speaks in when it voices text itself
+export const VOICE_LANGUAGE = process.env.VOICE_LANGUAGE || 'te-IN';
+
+// Statuses the provider reports once the call is over
+const ENDED_STATUSES = ['completed', 'busy', 'failed', 'no-answer', 'canceled'];
+
+/** One webhook request: a call coming in, the caller's answer to a prompt, or a status update. */
+export interface CallRequest {
+    callId: string;
+    caller: string | null;
+    /** What the provider's speech recognition heard; empty when nothing was said. */
+    speech: string;
+    /** Keys pressed on the phone's keypad; empty when none were. */
+    digits: string;
+    status: string;
+}
+
+/** The request's form fields, or null when it does not name a call. */
+export const parseCallRequest = (event: HandlerEvent): CallRequest | null => {
+    const raw = event.isBase64Encoded ? Buffer.from(event.body || '', 'base64').toString() : event.body || '';
+    const params = new URLSearchParams(raw);
+    const callId = params.get('CallSid');
+    if (!callId) return null;
+
+    return {
+        callId,
+        caller: params.get('From') || null,
+        speech: (params.get('SpeechResult') || '').trim(),
+        digits: (params.get('Digits') || '').replace(/[^0-9*]/g, ''),
+        status: params.get('CallStatus') || '',
+    };
+};
+
+export const hasEnded = (request: CallRequest) => ENDED_STATUSES.includes(request.status);
+
+/**
+ * The provider is configured with the webhook URL carrying ?token=VOICE_WEBHOOK_TOKEN.
+ * With no token configured the line is closed.
+ */
+export const isProviderRequest = (event: HandlerEvent) => {
+    const expected = process.env.VOICE_WEBHOOK_TOKEN;
+    const given = event.queryStringParameters?.token;
+    return !!expected && !!given && sameKey(given, expected);
+};
+
+// Audio URLs are signed so the audio endpoint only voices the assistant's own replies;
+// like the webhook, it voices nothing while no token is configured
+const signature = (text: string) =>
+    createHmac('sha256', process.env.VOICE_WEBHOOK_TOKEN || '').update(text).digest('base64url');
+
+export const isSignedText = (text: string, sig: string) =>
+    !!process.env.VOICE_WEBHOOK_TOKEN && sameKey(sig, signature(text));
+
+export const audioUrl = (text: string) => `${AUDIO_PATH}?${new URLSearchParams({ text, sig: signature(text) })}`;
+
+/** Where the provider sends the caller's next answer. */
+export const webhookUrl = () => `${VOICE_PATH}?${new URLSearchParams({ token: process.env.VOICE_WEBHOOK_TOKEN || '' })}`;
+
+const escapeXml = (text: string) =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+export const say = (text: string) => `<Say language="${VOICE_LANGUAGE}">${escapeXml(text)}</Say>`;
+
+export const play = (url: string) => `<Play>${escapeXml(url)}</Play>`;
+
+/** Our own TTS voice by default; VOICE_TTS=provider lets the provider's <Say> voice it instead. */
+export const speak = (text: string) => process.env.VOICE_TTS === 'provider' ? say(text) : play(audioUrl(text));
+
+/**
+ * Speaks `prompts` while listening for speech or keys. `numDigits` ends the answer
+ * after that many keys; otherwise keyed answers end with # or a pause.
+ */
+export const gather = (prompts: string[], numDigits?: number) =>
+    `<Gather input="speech dtmf" action="${escapeXml(webhookUrl())}" method="POST" language="${VOICE_LANGUAGE}" speechTimeout="auto" timeout="6"${numDigits ? ` numDigits="${numDigits}"` : ''}>${prompts.join('')}</Gather>`;
+
+// Reached only when the caller said nothing: the webhook is called again without an answer
+export const redirect = () => `<Redirect method="POST">${escapeXml(webhookUrl())}</Redirect>`;
+
+export const dial = (number: string) => `<Dial>${escapeXml(number)}</Dial>`;
+
+export const hangup = () => '<Hangup/>';
+
+export const twiml = (...verbs: string[]) => `<?xml version="1.0" encoding="UTF-8"?><Response>${verbs.join('')}</Response>`;
+
+const LETTER = /\p{L}/u;
+
+/**
+ * Whether the assistant is now asking the caller to confirm a booking: the latest
+ * slot action is a successful hold, and since it the caller has answered with a
+ * phone number and with words (their name). Until then keys are typed digits, such
+ * as the phone number itself; details given before the hold just mean the caller
+ * confirms by voice.
+ */
+export const awaitsConfirmation = (turns: NewTurn[]) => {
+    let index = turns.length - 1;
+    while (index >= 0 && turns[index].tool_name !== 'holdSlot' && turns[index].tool_name !== 'bookAppointment') index--;
+
+    const last = turns[index];
+    if (last?.tool_name !== 'holdSlot' || (last.tool_result as { success?: boolean } | null)?.success !== true) return false;
+
+    const answers = turns.slice(index + 1).filter(turn => turn.role === 'user').map(turn => turn.text || '');
+    return answers.some(text => normalizePhone(text) !== null) && answers.some(text => LETTER.test(text));
+};
@@ -0,0 +1,183 @@
+// netlify/functions/lib/toolRegistry.ts
+import { SchemaType, type FunctionDeclaration } from '@google/generative-ai';
+import type { Handler, HandlerContext, HandlerEvent } from '@netlify/functions';
+import { defaultStore, type DataStore } from './data';
+import { SESSION_HEADER } from './sessions';
+
+import { createHandler as createGetAvailableSlots } from '../getAvailableSlots';
+import { createHandler as createGetAllSpecialties } from '../getAllSpecialties';
+import { createHandler as createGetDoctorDetails } from '../getDoctorDetails';
+import { createHandler as createHoldSlot } from '../holdSlot';
+import { createHandler as createBookAppointment } from '../bookAppointment';
+import { createHandler as createGetPatientAppointments } from '../getPatientAppointments';
+import { createHandler as createCancelAppointment } from '../cancelAppointment';
+import { createHandler as createRescheduleAppointment } from '../rescheduleAppointment';
+import { createHandler as createJoinWaitlist } from '../joinWaitlist';
+import { createHandler as createRespondToWaitlistOffer } from '../respondToWaitlistOffer';
+import { createHandler as createResolveDate } from '../resolveDate';
+import { createHandler as createTriageSymptoms } from '../triageSymptoms';
+
+// 1. Argument shapes for every tool the model may call
+export interface ToolArgs {
+    getAvailableSlots: { doctorName: string; date: string; timeOfDay?: 'morning' | 'afternoon' | 'evening' };
+    getAllSpecialties: Record<string, never>;
+    getDoctorDetails: { doctorName?: string; specialty?: string };
+    holdSlot: { doctorName: string; date: string; time: string; minutes?: number };
+    bookAppointment: { patientName: string; phone: string; holdId?: number; doctorName?: string; date?: string; time?: string };
+    getPatientAppointments: { phone: string };
+    cancelAppointment: { appointmentId: number; phone: string };
+    rescheduleAppointment: { appointmentId: number; phone: string; newDate: string; newTime: string };
+    joinWaitlist: { doctorName: string; fromDate: string; toDate?: string; timeOfDay?: 'morning' | 'afternoon' | 'evening'; patientName: string; phone: string };
+    respondToWaitlistOffer: { phone: string; accept: boolean; waitlistId?: number };
+    resolveDate: { phrase: string };
+    triageSymptoms: { symptoms: string };
+}
+
+export type ToolName = keyof ToolArgs;
+
+/** Who is calling a tool; never chosen by the model. */
+export interface ToolContext {
+    sessionId?: string;
+    /** The patient's own E.164 number, on channels that know it; fills `phone` when the model leaves it out. */
+    phone?: string;
+}
+
+// 2. The declarations handed to Gemini
+export const functionDeclarations: FunctionDeclaration[] = [
+    {
+        name: "getAvailableSlots",
+        description: "Check available times for a doctor on a date. If none are returned, 'reason' explains why (holiday, leave, no consultation that day).",
+        parameters: { type: SchemaType.OBJECT, properties: { doctorName: { type: SchemaType.STRING }, date: { type: SchemaType.STRING }, timeOfDay: { type: SchemaType.STRING, format: "enum", enum: ["morning", "afternoon", "evening"] } }, required: ["doctorName", "date"] }
+    },
+    {
+        name: "getAllSpecialties",
+        description: "List hospital departments, each with its English and Telugu name.",
+        parameters: { type: SchemaType.OBJECT, properties: {} }
+    },
+    {
+        name: "getDoctorDetails",
+        description: "Find doctors by name or specialty. The specialty may be a department name or an everyday word for it in English or Telugu (heart, children, bones). Returns each doctor's qualifications, the languages they consult in and their consultation fee in rupees.",
+        parameters: { type: SchemaType.OBJECT, properties: { doctorName: { type: SchemaType.STRING }, specialty: { type: SchemaType.STRING } } }
+    },
+    {
+        name: "holdSlot",
+        description: "Reserve a slot for a few minutes while collecting the patient's name and phone. Returns a holdId.",
+        parameters: { type: SchemaType.OBJECT, properties: { doctorName: { type: SchemaType.STRING }, date: { type: SchemaType.STRING }, time: { type: SchemaType.STRING }, minutes: { type: SchemaType.INTEGER } }, required: ["doctorName", "date", "time"] }
+    },
+    {
+        name: "bookAppointment",
+        description: "Create a new booking. Pass the holdId from holdSlot to confirm a held slot; otherwise pass doctorName, date and time.",
+        parameters: { type: SchemaType.OBJECT, properties: { holdId: { type: SchemaType.INTEGER }, doctorName: { type: SchemaType.STRING }, patientName: { type: SchemaType.STRING }, phone: { type: SchemaType.STRING }, date: { type: SchemaType.STRING }, time: { type: SchemaType.STRING } }, required: ["patientName", "phone"] }
+    },
+    {
+        name: "getPatientAppointments",
+        description: "List upcoming bookings for a phone number, including family members who share it. Each has an appointmentId.",
+        parameters: { type: SchemaType.OBJECT, properties: { phone: { type: SchemaType.STRING } }, required: ["phone"] }
+    },
+    {
+        name: "cancelAppointment",
+        description: "Cancel an existing booking, identified by its appointmentId from getPatientAppointments.",
+        parameters: { type: SchemaType.OBJECT, properties: { appointmentId: { type: SchemaType.INTEGER }, phone: { type: SchemaType.STRING } }, required: ["appointmentId", "phone"] }
+    },
+    {
+        name: "rescheduleAppointment",
+        description: "Change the date/time of a booking, identified by its appointmentId from getPatientAppointments.",
+        parameters: { type: SchemaType.OBJECT, properties: { appointmentId: { type: SchemaType.INTEGER }, phone: { type: SchemaType.STRING }, newDate: { type: SchemaType.STRING }, newTime: { type: SchemaType.STRING } }, required: ["appointmentId", "phone", "newDate", "newTime"] }
+    },
+    {
+        name: "joinWaitlist",
+        description: "Put the patient on the waitlist for a doctor when no suitable slot is free. They get a message with a time-limited offer if a slot opens between fromDate and toDate.",
+        parameters: { type: SchemaType.OBJECT, properties: { doctorName: { type: SchemaType.STRING }, fromDate: { type: SchemaType.STRING }, toDate: { type: SchemaType.STRING }, timeOfDay: { type: SchemaType.STRING, format: "enum", enum: ["morning", "afternoon", "evening"] }, patientName: { type: SchemaType.STRING }, phone: { type: SchemaType.STRING } }, required: ["doctorName", "fromDate", "patientName", "phone"] }
+    },
+    {
+        name: "respondToWaitlistOffer",
+        description: "Accept (books it) or decline a slot offered from the waitlist, found by the patient's phone number. Pass waitlistId only if asked to choose between several offers.",
+        parameters: { type: SchemaType.OBJECT, properties: { phone: { type: SchemaType.STRING }, accept: { type: SchemaType.BOOLEAN }, waitlistId: { type: SchemaType.INTEGER } }, required: ["phone", "accept"] }
+    },
+    {
+        name: "resolveDate",
+        description: "Turn the patient's words for a day, in Telugu or English (e.g. 'రేపు', 'ఎల్లుండి', 'next Monday', '15th March'), into a YYYY-MM-DD date at the hospital.",
+        parameters: { type: SchemaType.OBJECT, properties: { phrase: { type: SchemaType.STRING } }, required: ["phrase"] }
+    },
+    {
+        name: "triageSymptoms",
+        description: "Suggest departments for the symptoms the patient describes, in their own words. If it returns emergency: true, stop booking and give the patient the emergencyNumber.",
+        parameters: { type: SchemaType.OBJECT, properties: { symptoms: { type: SchemaType.STRING } }, required: ["symptoms"] }
+    },
+];
+
+export const isToolName = (name: string): name is ToolName =>
+    functionDeclarations.some(declaration => declaration.name === name);
+
+const takesPhone = (name: ToolName) =>
+    !!functionDeclarations.find(declaration => declaration.name === name)?.parameters?.properties.phone;
+
+const withContactPhone = (name: ToolName, args: object, context: ToolContext): object =>
+    context.phone && takesPhone(name) && !(args as { phone?: unknown }).phone ? { ...args, phone: context.phone } : args;
+
+const toolEvent = (name: string, args: object, context: ToolContext): HandlerEvent => ({
+    rawUrl: `/.netlify/functions/${name}`,
+    rawQuery: '',
+    path: `/.netlify/functions/${name}`,
+    httpMethod: 'POST',
+    headers: {
+        'content-type': 'application/json',
+        ...(context.sessionId ? { [SESSION_HEADER]: context.sessionId } : {}),
+    },
+    multiValueHeaders: {},
+    queryStringParameters: null,
+    multiValueQueryStringParameters: null,
+    body: JSON.stringify(args),
+    isBase64Encoded: false,
+});
+
+/** Runs a tool in-process and returns its JSON body. */
+export type ToolRunner = (name: string, args?: object, context?: ToolContext) => Promise<object>;
+
+// 3. In-process dispatch (no HTTP round trip back to our own host, and no internal key needed)
+/**
+ * Tools backed by `store`. Failures are returned (not thrown) so the model can
+ * explain them to the patient.
+ */
+export const createToolRunner = (store: DataStore = defaultStore): ToolRunner => {
+    const toolHandlers: Record<ToolName, Handler> = {
+        getAvailableSlots: createGetAvailableSlots(store),
+        getAllSpecialties: createGetAllSpecialties(store),
+        getDoctorDetails: createGetDoctorDetails(store),
+        holdSlot: createHoldSlot(store),
+        bookAppointment: createBookAppointment(store),
+        getPatientAppointments: createGetPatientAppointments(store),
+        cancelAppointment: createCancelAppointment(store),
+        rescheduleAppointment: createRescheduleAppointment(store),
+        joinWaitlist: createJoinWaitlist(store),
+        respondToWaitlistOffer: createRespondToWaitlistOffer(store),
+        resolveDate: createResolveDate(),
+        triageSymptoms: createTriageSymptoms(store),
+    };
+
+    return async (name, args = {}, context = {}) => {
+        if (!isToolName(name)) {
+            return { success: false, message: `Unknown tool: ${name}` };
+        }
+
+        try {
+            const response = await toolHandlers[name](toolEvent(name, withContactPhone(name, args, context), context), {} as HandlerContext);
+            if (!response) {
+                return { success: false, message: `Tool ${name} returned no response.` };
+            }
+            return JSON.parse(response.body || '{}');
+        } catch (error: any) {
+            console.error(`Tool ${name} failed:`, error);
+            return { success: false, message: error.message };
+        }
+    };
+};
+
+const runDefaultTool = createToolRunner();
+
+/** Runs a tool against the production store. */
+export function runTool<N extends ToolName>(name: N, args: ToolArgs[N], context?: ToolContext): Promise<object>;
+export function runTool(name: string, args?: object, context?: ToolContext): Promise<object>;
+export function runTool(name: string, args?: object, context?: ToolContext): Promise<object> {
+    return runDefaultTool(name, args, context);
+}
@@ -0,0 +1,57 @@
+// netlify/functions/lib/triage.ts
+// Matches a patient's description of their symptoms against the hospital's triage rules:
+// red flags mean a possible emergency and are escalated to staff, anything else suggests departments.
+import type { DataStore, EmergencyEscalation, TriageRule } from './data/types';
+
+// The number patients are told to call; 108 is India's emergency ambulance
+export const EMERGENCY_NUMBER = process.env.EMERGENCY_NUMBER || '108';
+
+export type TriageResult =
+    | { status: 'emergency'; redFlags: string[] }
+    | { status: 'routed'; specialties: string[]; matched: string[] }
+    | { status: 'unmatched' };
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// English keywords match whole words ("cold", not "scolded"); Telugu has no \b, so it matches anywhere
+export const mentions = (text: string, keyword: string) => /^[\x00-\x7f]+$/.test(keyword)
+    ? new RegExp(`\\b${escapeRegExp(keyword)}\\b`).test(text)
+    : text.includes(keyword);
+
+/**
+ * Any red flag wins outright. Otherwise departments are ranked by how many of
+ * their rules the description matched, most first.
+ */
+export const triage = (rules: TriageRule[], symptoms: string): TriageResult => {
+    const text = symptoms.toLowerCase().replace(/[’`]/g, "'").replace(/\s+/g, ' ');
+    const matched = rules.filter(rule => rule.keywords.some(keyword => mentions(text, keyword.toLowerCase())));
+
+    const redFlags = matched.filter(rule => rule.is_red_flag);
+    if (redFlags.length > 0) return { status: 'emergency', redFlags: redFlags.map(rule => rule.label) };
+
+    if (matched.length === 0) return { status: 'unmatched' };
+
+    const votes = new Map<string, number>();
+    for (const rule of matched) {
+        if (rule.specialty) votes.set(rule.specialty, (votes.get(rule.specialty) || 0) + 1);
+    }
+    return {
+        status: 'routed',
+        specialties: [...votes.keys()].sort((a, b) => (votes.get(b) as number) - (votes.get(a) as number)),
+        matched: matched.map(rule => rule.label),
+    };
+};
+
+/**
+ * Logs a red-flag conversation for staff to follow up. Never throws: the patient
+ * must get the emergency advice even if the log cannot be written.
+ */
+export const escalate = async (store: DataStore, sessionId: string | null, symptoms: string, redFlags: string[]): Promise<EmergencyEscalation | null> => {
+    console.warn(`Emergency escalation (session ${sessionId || 'none'}): ${redFlags.join(', ')}`);
+    try {
+        return await store.triage.recordEscalation({ session_id: sessionId, symptoms, red_flags: redFlags });
+    } catch (error: any) {
+        console.error("Escalation Error:", error.message);
+        return null;
+    }
+};
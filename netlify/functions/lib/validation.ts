@@ -0,0 +1,227 @@
+// netlify/functions/lib/validation.ts
+// Checks and normalises the arguments of every assistant tool before it runs. A failure names
+// the argument at fault and carries a machine-readable code, so the assistant can ask the
+// patient for that one detail again instead of guessing.
+import { offeredSlots } from './availability';
+import type { DataStore, Doctor } from './data/types';
+import { hospitalNow, isCalendarDate } from './dateTime';
+import { normalizePhone } from './phone';
+import { dropPastSlots, fromMinutes, parseTimeOfDay, type TimeOfDay } from './scheduling';
+import type { ToolArgs, ToolName } from './toolRegistry';
+
+export type ValidationCode =
+    | 'MISSING_FIELD'
+    | 'INVALID_FIELD'
+    | 'INVALID_PHONE'
+    | 'INVALID_DATE'
+    | 'DATE_IN_PAST'
+    | 'INVALID_DATE_RANGE'
+    | 'INVALID_TIME'
+    | 'INVALID_TIME_OF_DAY'
+    | 'SLOT_NOT_OFFERED';
+
+export interface ValidationError {
+    code: ValidationCode;
+    /** The tool argument to ask the patient about again. */
+    field: string;
+    message: string;
+}
+
+export type Validation<T> =
+    | { status: 'valid'; args: T }
+    | { status: 'invalid'; error: ValidationError };
+
+// Thrown by the parsers below and turned into an 'invalid' result by validateArgs
+class InvalidArgument extends Error {
+    constructor(readonly error: ValidationError) {
+        super(error.message);
+        this.name = 'InvalidArgument';
+    }
+}
+
+const fail = (code: ValidationCode, field: string, message: string): never => {
+    throw new InvalidArgument({ code, field, message });
+};
+
+/** Reads one argument and returns it normalised, or throws InvalidArgument. */
+type Parser<T> = (value: unknown, field: string) => T;
+
+const isBlank = (value: unknown) =>
+    value === undefined || value === null || (typeof value === 'string' && value.trim() === '');
+
+const required = <T>(parse: Parser<T>): Parser<T> => (value, field) =>
+    isBlank(value) ? fail('MISSING_FIELD', field, `${field} is required.`) : parse(value, field);
+
+const optional = <T>(parse: Parser<T>): Parser<T | undefined> => (value, field) =>
+    isBlank(value) ? undefined : parse(value, field);
+
+const text: Parser<string> = (value, field) =>
+    typeof value === 'string' ? value.trim() : fail('INVALID_FIELD', field, `${field} must be text.`);
+
+const positiveInteger: Parser<number> = (value, field) => {
+    const number = typeof value === 'number' || typeof value === 'string' ? Number(value) : NaN;
+    return Number.isInteger(number) && number > 0 ? number : fail('INVALID_FIELD', field, `${field} must be a positive whole number.`);
+};
+
+const flag: Parser<boolean> = (value, field) =>
+    typeof value === 'boolean' ? value : fail('INVALID_FIELD', field, `${field} must be true or false.`);
+
+const phone: Parser<string> = (value, field) =>
+    normalizePhone(value) ?? fail('INVALID_PHONE', field, `${field} is not a valid Indian mobile number (10 digits starting with 6, 7, 8 or 9).`);
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+const date: Parser<string> = (value, field) => {
+    const candidate = typeof value === 'string' ? value.trim() : '';
+    return ISO_DATE.test(candidate) && isCalendarDate(candidate)
+        ? candidate
+        : fail('INVALID_DATE', field, `${field} must be a calendar date in YYYY-MM-DD form.`);
+};
+
+/** A date that is today or later at the hospital. */
+const upcomingDate: Parser<string> = (value, field) => {
+    const parsed = date(value, field);
+    const today = hospitalNow().date;
+    return parsed < today ? fail('DATE_IN_PAST', field, `${field} ${parsed} is in the past; today is ${today}.`) : parsed;
+};
+
+// 24-hour H:MM or HH:MM; seconds, as Postgres returns them, are dropped
+const TIME = /^(\d{1,2}):(\d{2})(?::\d{2})?$/;
+
+const time: Parser<string> = (value, field) => {
+    const match = typeof value === 'string' ? TIME.exec(value.trim()) : null;
+    const [hours, minutes] = match ? [Number(match[1]), Number(match[2])] : [NaN, NaN];
+    return hours <= 23 && minutes <= 59
+        ? fromMinutes(hours * 60 + minutes)
+        : fail('INVALID_TIME', field, `${field} must be a 24-hour time like 09:30.`);
+};
+
+const timeOfDay: Parser<TimeOfDay> = (value, field) =>
+    (typeof value === 'string' && parseTimeOfDay(value)) || fail('INVALID_TIME_OF_DAY', field, `${field} must be morning, afternoon or evening.`);
+
+type Fields<T> = { [K in keyof T]-?: Parser<T[K]> };
+
+interface ToolSchema<T> {
+    fields: Fields<T>;
+    /** Rules spanning several arguments; runs once every field has parsed. */
+    check?: (args: T) => void;
+}
+
+const toolSchemas: { [N in ToolName]: ToolSchema<ToolArgs[N]> } = {
+    getAvailableSlots: {
+        fields: { doctorName: required(text), date: required(upcomingDate), timeOfDay: optional(timeOfDay) },
+    },
+    getAllSpecialties: { fields: {} },
+    getDoctorDetails: {
+        fields: { doctorName: optional(text), specialty: optional(text) },
+    },
+    holdSlot: {
+        fields: { doctorName: required(text), date: required(upcomingDate), time: required(time), minutes: optional(positiveInteger) },
+    },
+    bookAppointment: {
+        fields: {
+            patientName: required(text),
+            phone: required(phone),
+            holdId: optional(positiveInteger),
+            doctorName: optional(text),
+            date: optional(upcomingDate),
+            time: optional(time),
+        },
+        // Without a hold the slot has to be named in full
+        check: args => {
+            if (args.holdId) return;
+            for (const field of ['doctorName', 'date', 'time'] as const) {
+                if (!args[field]) fail('MISSING_FIELD', field, `${field} is required when there is no holdId.`);
+            }
+        },
+    },
+    getPatientAppointments: {
+        fields: { phone: required(phone) },
+    },
+    cancelAppointment: {
+        fields: { appointmentId: required(positiveInteger), phone: required(phone) },
+    },
+    rescheduleAppointment: {
+        fields: { appointmentId: required(positiveInteger), phone: required(phone), newDate: required(upcomingDate), newTime: required(time) },
+    },
+    joinWaitlist: {
+        fields: {
+            doctorName: required(text),
+            fromDate: required(upcomingDate),
+            toDate: optional(upcomingDate),
+            timeOfDay: optional(timeOfDay),
+            patientName: required(text),
+            phone: required(phone),
+        },
+        check: args => {
+            if (args.toDate && args.toDate < args.fromDate) {
+                fail('INVALID_DATE_RANGE', 'toDate', `toDate ${args.toDate} is before fromDate ${args.fromDate}.`);
+            }
+        },
+    },
+    respondToWaitlistOffer: {
+        fields: { phone: required(phone), accept: required(flag), waitlistId: optional(positiveInteger) },
+    },
+    resolveDate: {
+        fields: { phrase: required(text) },
+    },
+    triageSymptoms: {
+        fields: { symptoms: required(text) },
+    },
+};
+
+/**
+ * Parses a tool's raw arguments against its schema. Valid arguments come back
+ * normalised (trimmed text, E.164 phones, HH:MM times); unknown keys are dropped.
+ */
+export const validateArgs = <N extends ToolName>(name: N, raw: unknown): Validation<ToolArgs[N]> => {
+    const schema = toolSchemas[name] as ToolSchema<ToolArgs[N]>;
+    const input = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+
+    try {
+        const args: Record<string, unknown> = {};
+        for (const [field, parse] of Object.entries(schema.fields) as [string, Parser<unknown>][]) {
+            const value = parse(input[field], field);
+            if (value !== undefined) args[field] = value;
+        }
+        schema.check?.(args as ToolArgs[N]);
+        return { status: 'valid', args: args as ToolArgs[N] };
+    } catch (error) {
+        if (error instanceof InvalidArgument) return { status: 'invalid', error: error.error };
+        throw error;
+    }
+};
+
+/**
+ * SLOT_NOT_OFFERED unless `time` is one of the doctor's slots on `date` and has
+ * not started yet; `includeStarted` also accepts today's slots already under way,
+ * for patients standing at the desk. Whether someone else already has it is the store's concern.
+ */
+export const checkSlotOffered = async (
+    store: DataStore,
+    doctor: Doctor,
+    slot: { date: string; time: string },
+    fields = { date: 'date', time: 'time' },
+    { includeStarted = false } = {}
+): Promise<ValidationError | null> => {
+    const day = await offeredSlots(store, doctor, slot.date);
+    if (day.status === 'closed') {
+        return { code: 'SLOT_NOT_OFFERED', field: fields.date, message: day.reason };
+    }
+
+    const upcoming = includeStarted ? day.slots : dropPastSlots(day.slots, slot.date);
+    if (upcoming.includes(slot.time)) return null;
+
+    return {
+        code: 'SLOT_NOT_OFFERED',
+        field: fields.time,
+        message: `${doctor.name} has no ${slot.time} slot on ${slot.date}. Times offered: ${upcoming.join(', ') || 'none left today'}.`
+    };
+};
+
+/** The 400 response for arguments that failed validation. */
+export const invalidArgumentsResponse = (error: ValidationError, headers: Record<string, string>) => ({
+    statusCode: 400,
+    headers,
+    body: JSON.stringify({ success: false, ...error })
+});
@@ -0,0 +1,134 @@
+// netlify/functions/lib/waitlist.ts
+// Offers freed slots to waitlisted patients, one patient at a time, first come first served.
+// An offer is a hold on the slot in the patient's name; it lapses with the hold.
+import { recordChange, systemActor, type Actor } from './audit';
+import { SlotTakenError } from './data/errors';
+import type { Appointment, DataStore, SlotRef, WaitlistEntry } from './data/types';
+import { hospitalNow } from './dateTime';
+import { createNotifier, type Notifier } from './notifications';
+import { dropPastSlots, filterByTimeOfDay } from './scheduling';
+
+// How long a waitlisted patient has to accept an offered slot
+const OFFER_MINUTES = Number(process.env.WAITLIST_OFFER_MINUTES) || 30;
+
+export type OfferResponse =
+    | { status: 'booked'; appointment: Appointment }
+    | { status: 'declined' }
+    | { status: 'expired' };
+
+export interface Waitlist {
+    /** Offers a slot that just became free to the first eligible patient in line. Never throws. */
+    offerFreedSlot(slot: SlotRef): Promise<WaitlistEntry | null>;
+    /** Books or declines an open offer on the patient's behalf. A declined or lapsed offer moves on to the next patient. */
+    respond(entry: WaitlistEntry, accept: boolean, actor?: Actor): Promise<OfferResponse>;
+    /** Closes offers nobody answered in time and passes their slots on; returns how many lapsed. */
+    expireOffers(now?: Date): Promise<number>;
+}
+
+const slotOf = (appointment: Appointment): SlotRef => ({
+    doctorId: appointment.doctor_id,
+    date: appointment.appointment_date,
+    time: appointment.appointment_time.slice(0, 5),
+});
+
+// Offers, hand-overs and lapses are the waitlist's own doing
+const WAITLIST_ACTOR = systemActor('waitlist');
+
+export const createWaitlist = (store: DataStore, notifier: Notifier = createNotifier(store)): Waitlist => {
+    const release = async (holdId: number, actor: Actor) => {
+        const hold = await store.appointments.findById(holdId);
+        const released = await store.appointments.releaseHold(holdId);
+        if (hold && released) await recordChange(store, actor, hold, released);
+    };
+
+    const offerFreedSlot = async (slot: SlotRef): Promise<WaitlistEntry | null> => {
+        try {
+            const time = slot.time.slice(0, 5);
+            // A slot that has already started is of no use to anyone
+            if (dropPastSlots([time], slot.date).length === 0) return null;
+
+            const waiting = await store.waitlist.listWaiting(slot.doctorId, slot.date);
+            for (const entry of waiting.filter(e => filterByTimeOfDay([time], e.time_of_day).length > 0)) {
+                const expiresAt = new Date(Date.now() + OFFER_MINUTES * 60_000);
+                const hold = await store.appointments.hold({ ...slot, time }, expiresAt);
+                await recordChange(store, WAITLIST_ACTOR, null, hold);
+
+                const offered = await store.waitlist.transition(entry.id, 'waiting', {
+                    status: 'offered',
+                    offer_appointment_id: hold.id,
+                    offer_expires_at: expiresAt.toISOString()
+                });
+                if (!offered) {
+                    // Someone else got to this entry first; try the next patient
+                    await release(hold.id, WAITLIST_ACTOR);
+                    continue;
+                }
+
+                const summary = await store.appointments.findSummaryById(hold.id);
+                if (summary) {
+                    await notifier.send('waitlist_offer', { ...summary, patient_name: entry.patient_name, phone: entry.phone }, hospitalNow(expiresAt).time);
+                }
+                return offered;
+            }
+            return null;
+        } catch (error: any) {
+            // SlotTakenError: the slot was booked directly before we could offer it
+            if (!(error instanceof SlotTakenError)) console.error("Waitlist Offer Error:", error.message);
+            return null;
+        }
+    };
+
+    // Ends an unanswered offer and gives the slot to the next patient
+    const lapse = async (entry: WaitlistEntry): Promise<boolean> => {
+        if (!await store.waitlist.transition(entry.id, 'offered', { status: 'expired' })) return false;
+
+        const hold = entry.offer_appointment_id ? await store.appointments.findById(entry.offer_appointment_id) : null;
+        if (!hold) return true;
+
+        // The lapsed hold still blocks the slot until it is released
+        await release(hold.id, WAITLIST_ACTOR);
+        await offerFreedSlot(slotOf(hold));
+        return true;
+    };
+
+    return {
+        offerFreedSlot,
+
+        async respond(entry, accept, actor = WAITLIST_ACTOR) {
+            const holdId = entry.offer_appointment_id as number;
+            const hold = await store.appointments.findById(holdId);
+
+            if (!accept) {
+                if (!await store.waitlist.transition(entry.id, 'offered', { status: 'declined' })) return { status: 'expired' };
+
+                await release(holdId, actor);
+                if (hold) await offerFreedSlot(slotOf(hold));
+                return { status: 'declined' };
+            }
+
+            const appointment = await store.appointments.confirmHold(holdId, {
+                patient_id: entry.patient_id,
+                patient_name: entry.patient_name,
+                phone: entry.phone,
+                session_id: entry.session_id
+            });
+            if (!appointment) {
+                await lapse(entry);
+                return { status: 'expired' };
+            }
+
+            await recordChange(store, actor, hold, appointment);
+            await store.waitlist.transition(entry.id, 'offered', { status: 'booked' });
+            await notifier.notify('confirmation', appointment.id);
+            return { status: 'booked', appointment };
+        },
+
+        async expireOffers(now = new Date()) {
+            let lapsed = 0;
+            for (const entry of await store.waitlist.listExpiredOffers(now)) {
+                if (await lapse(entry)) lapsed++;
+            }
+            return lapsed;
+        },
+    };
+};
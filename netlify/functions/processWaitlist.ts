@@ -0,0 +1,18 @@
+import { schedule, type Handler } from '@netlify/functions';
+import { defaultStore, type DataStore } from './lib/data';
+import { createWaitlist, type Waitlist } from './lib/waitlist';
+
+// Scheduled only: hands unanswered waitlist offers to the next patient in line
+export const createHandler = (store: DataStore = defaultStore, waitlist: Waitlist = createWaitlist(store)): Handler => async () => {
+    try {
+        const lapsed = await waitlist.expireOffers();
+        console.log(`Waitlist: ${lapsed} offer(s) lapsed.`);
+
+        return { statusCode: 200, body: JSON.stringify({ success: true, lapsed }) };
+    } catch (error: any) {
+        console.error("Waitlist Job Error:", error);
+        return { statusCode: 500, body: JSON.stringify({ success: false, message: error.message }) };
+    }
+};
+
+export const handler = schedule('*/5 * * * *', createHandler());
@@ -1,15 +1,25 @@
-import { supabase } from './lib/supabaseClient';
 import type { Handler, HandlerEvent } from '@netlify/functions';
+import { actorFromEvent, recordChange } from './lib/audit';
+import { appointmentCalendarUrl } from './lib/calendar';
+import { defaultStore, SlotTakenError, type DataStore } from './lib/data';
+import { internalOnly } from './lib/http';
+import { createNotifier, type Notifier } from './lib/notifications';
+import { normalizePhone } from './lib/phone';
+import { checkSlotOffered, invalidArgumentsResponse, validateArgs } from './lib/validation';
+import { createWaitlist, type Waitlist } from './lib/waitlist';
 
 // 1. The Permission Slip (CORS Headers)
 const headers = {
-  'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'Content-Type, Authorization',
   'Access-Control-Allow-Methods': 'POST, OPTIONS',
   'Content-Type': 'application/json'
 };
 
-export const handler: Handler = async (event: HandlerEvent) => {
+export const createHandler = (
+    store: DataStore = defaultStore,
+    notifier: Notifier = createNotifier(store),
+    waitlist: Waitlist = createWaitlist(store, notifier)
+): Handler => async (event: HandlerEvent) => {
     // 2. Handle the "Security Pre-Check" (OPTIONS)
     if (event.httpMethod === 'OPTIONS') {
         return { 
@@ -21,71 +31,79 @@ export const handler: Handler = async (event: HandlerEvent) => {
 
     try {
         // 3. Parse and Validate Request
-        const { patientName, doctorName, oldDate, newDate, newTime } = JSON.parse(event.body || '{}');
-        
-        if (!patientName || !doctorName || !oldDate || !newDate || !newTime) {
+        // appointmentId comes from getPatientAppointments; the phone proves the caller owns it
+        const validation = validateArgs('rescheduleAppointment', JSON.parse(event.body || '{}'));
+        if (validation.status === 'invalid') {
+            return invalidArgumentsResponse(validation.error, headers);
+        }
+        const { appointmentId, phone: normalizedPhone, newDate, newTime } = validation.args;
+
+        // 4. Find the caller's appointment
+        const appointment = await store.appointments.findById(appointmentId);
+
+        if (!appointment || normalizePhone(appointment.phone) !== normalizedPhone || appointment.status !== 'confirmed') {
             return { 
-                statusCode: 400, 
+                statusCode: 404, 
                 headers, 
-                body: JSON.stringify({ success: false, message: "Missing required details for rescheduling." }) 
+                body: JSON.stringify({ 
+                    success: false, 
+                    message: `No confirmed appointment ${appointmentId} found for this phone number.` 
+                }) 
             };
         }
 
-        // 4. Find Doctor ID
-        const { data: doctorData, error: doctorError } = await supabase
-            .from('doctors')
-            .select('id')
-            .ilike('name', `%${doctorName}%`)
-            .single();
-
-        if (doctorError || !doctorData) {
+        // 5. The new time has to be one the same doctor offers that day
+        const doctor = await store.doctors.findById(appointment.doctor_id);
+        if (!doctor) {
             return { 
                 statusCode: 404, 
                 headers, 
-                body: JSON.stringify({ success: false, message: `Could not find doctor named ${doctorName}.` }) 
+                body: JSON.stringify({ success: false, code: 'DOCTOR_NOT_FOUND', message: `The doctor for appointment ${appointmentId} is no longer listed.` }) 
             };
         }
+        const notOffered = await checkSlotOffered(store, doctor, { date: newDate, time: newTime }, { date: 'newDate', time: 'newTime' });
+        if (notOffered) {
+            return invalidArgumentsResponse(notOffered, headers);
+        }
 
-        // 5. Update the Appointment
-        // We ensure we only update 'confirmed' appointments to prevent rescheduling cancelled ones
-        const { data: updatedData, error: updateError } = await supabase
-            .from('appointments')
-            .update({ 
-                appointment_date: newDate, 
-                appointment_time: newTime 
-            })
-            .match({ 
-                patient_name: patientName, 
-                doctor_id: doctorData.id, 
-                appointment_date: oldDate, 
-                status: 'confirmed' 
-            })
-            .select();
-
-        if (updateError) throw updateError;
+        // 6. Update the Appointment
+        // We ensure we only update 'confirmed' appointments to prevent rescheduling cancelled ones.
+        // The new slot is guarded by the same uniqueness rule as new bookings.
+        const updated = await store.appointments.rescheduleById(appointment.id, { date: newDate, time: newTime });
 
-        // 6. Verify if the update happened
-        if (!updatedData || updatedData.length === 0) {
+        // 7. Verify the booking was still confirmed when we updated it
+        if (!updated) {
             return { 
-                statusCode: 404, 
+                statusCode: 409, 
                 headers, 
-                body: JSON.stringify({ 
-                    success: false, 
-                    message: `Could not find a confirmed appointment for ${patientName} with ${doctorName} on ${oldDate}.` 
-                }) 
+                body: JSON.stringify({ success: false, message: 'This appointment was changed by someone else. Please check again.' }) 
             };
         }
 
+        await recordChange(store, await actorFromEvent(store, event), appointment, updated);
+        await notifier.notify('reschedule', updated.id);
+
+        // The old slot is free now; the first patient waiting for it gets an offer
+        await waitlist.offerFreedSlot({ doctorId: appointment.doctor_id, date: appointment.appointment_date, time: appointment.appointment_time });
+
         return { 
             statusCode: 200, 
             headers, 
             body: JSON.stringify({ 
                 success: true, 
+                calendarUrl: appointmentCalendarUrl(updated.id),
                 message: `The appointment has been successfully rescheduled to ${newDate} at ${newTime}.` 
             }) 
         };
 
     } catch (error: any) {
+        if (error instanceof SlotTakenError) {
+            return { 
+                statusCode: 409, 
+                headers, 
+                body: JSON.stringify({ success: false, message: 'The new slot is already taken. Please pick another.' }) 
+            };
+        }
         console.error("Reschedule Tool Error:", error.message);
         return { 
             statusCode: 500, 
@@ -93,4 +111,7 @@ export const handler: Handler = async (event: HandlerEvent) => {
             body: JSON.stringify({ success: false, message: error.message }) 
         };
     }
-};
\ No newline at end of file
+};
+
+// Called in-process by the assistant; over HTTP only with the internal key
+export const handler = internalOnly(createHandler());
\ No newline at end of file
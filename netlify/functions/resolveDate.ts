@@ -0,0 +1,47 @@
+import type { Handler, HandlerEvent } from '@netlify/functions';
+import { hospitalNow, resolveDate, weekdayName } from './lib/dateTime';
+import { internalOnly } from './lib/http';
+import { invalidArgumentsResponse, validateArgs } from './lib/validation';
+
+const headers = {
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Content-Type': 'application/json'
+};
+
+export const createHandler = (): Handler => async (event: HandlerEvent) => {
+    if (event.httpMethod === 'OPTIONS') {
+        return { statusCode: 200, headers, body: JSON.stringify({ message: 'CORS success' }) };
+    }
+
+    try {
+        const validation = validateArgs('resolveDate', JSON.parse(event.body || '{}'));
+        if (validation.status === 'invalid') {
+            return invalidArgumentsResponse(validation.error, headers);
+        }
+        const { phrase } = validation.args;
+
+        // Counted from the hospital's today, not the server's
+        const today = hospitalNow().date;
+        const date = resolveDate(phrase, today);
+
+        if (!date) {
+            return {
+                statusCode: 422,
+                headers,
+                body: JSON.stringify({ success: false, code: 'DATE_NOT_UNDERSTOOD', field: 'phrase', message: `Could not work out a date from "${phrase}". Ask the patient for the day and month.` })
+            };
+        }
+
+        return {
+            statusCode: 200,
+            headers,
+            body: JSON.stringify({ success: true, date, weekday: weekdayName(date), today })
+        };
+    } catch (error: any) {
+        return { statusCode: 500, headers, body: JSON.stringify({ success: false, message: error.message }) };
+    }
+};
+
+// Called in-process by the assistant; over HTTP only with the internal key
+export const handler = internalOnly(createHandler());
@@ -0,0 +1,63 @@
+import type { Handler, HandlerEvent } from '@netlify/functions';
+import { actorFromEvent } from './lib/audit';
+import { defaultStore, type DataStore } from './lib/data';
+import { internalOnly } from './lib/http';
+import { invalidArgumentsResponse, validateArgs } from './lib/validation';
+import { createWaitlist, type Waitlist } from './lib/waitlist';
+
+const headers = {
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Content-Type': 'application/json'
+};
+
+export const createHandler = (store: DataStore = defaultStore, waitlist: Waitlist = createWaitlist(store)): Handler => async (event: HandlerEvent) => {
+    if (event.httpMethod === 'OPTIONS') {
+        return { statusCode: 200, headers, body: JSON.stringify({ message: 'CORS success' }) };
+    }
+
+    try {
+        const validation = validateArgs('respondToWaitlistOffer', JSON.parse(event.body || '{}'));
+        if (validation.status === 'invalid') {
+            return invalidArgumentsResponse(validation.error, headers);
+        }
+        const { phone: normalizedPhone, accept, waitlistId } = validation.args;
+
+        // 1. Find the open offer; the phone number proves it is theirs
+        let offers = await store.waitlist.listOffersByPhone(normalizedPhone);
+        if (waitlistId) offers = offers.filter(offer => offer.id === waitlistId);
+
+        if (offers.length === 0) {
+            return { statusCode: 404, headers, body: JSON.stringify({ success: false, message: "No open waitlist offer for this phone number." }) };
+        }
+
+        if (offers.length > 1) {
+            const described = await Promise.all(offers.map(async offer => {
+                const slot = await store.appointments.findSummaryById(offer.offer_appointment_id as number);
+                return { waitlistId: offer.id, patientName: offer.patient_name, doctorName: slot?.doctor_name, date: slot?.appointment_date, time: slot?.appointment_time };
+            }));
+            return {
+                statusCode: 409,
+                headers,
+                body: JSON.stringify({ success: false, code: 'AMBIGUOUS_OFFER', message: "Several offers are open. Ask the patient which one they mean.", offers: described })
+            };
+        }
+
+        // 2. Book it, or pass it on to the next patient in line
+        const result = await waitlist.respond(offers[0], accept, await actorFromEvent(store, event));
+
+        if (result.status === 'booked') {
+            return { statusCode: 200, headers, body: JSON.stringify({ success: true, appointmentId: result.appointment.id, message: 'Appointment booked from the waitlist!' }) };
+        }
+        if (result.status === 'declined') {
+            return { statusCode: 200, headers, body: JSON.stringify({ success: true, message: 'Offer declined. The slot goes to the next patient in line.' }) };
+        }
+        return { statusCode: 410, headers, body: JSON.stringify({ success: false, message: 'This offer has expired and passed to the next patient.' }) };
+    } catch (error: any) {
+        console.error("Waitlist Offer Tool Error:", error);
+        return { statusCode: 500, headers, body: JSON.stringify({ success: false, message: error.message }) };
+    }
+};
+
+// Called in-process by the assistant; over HTTP only with the internal key
+export const handler = internalOnly(createHandler());
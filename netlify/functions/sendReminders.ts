@@ -0,0 +1,19 @@
+import { schedule, type Handler } from '@netlify/functions';
+import { defaultStore, type DataStore } from './lib/data';
+import { createNotifier, sendDueReminders, type Notifier } from './lib/notifications';
+
+// Scheduled only: reminds patients the evening before and on the morning of their appointment
+export const createHandler = (store: DataStore = defaultStore, notifier: Notifier = createNotifier(store)): Handler => async () => {
+    try {
+        const run = await sendDueReminders(store, notifier);
+        console.log(`Reminders: ${run.sent} sent, ${run.failed} failed, ${run.skipped} skipped.`);
+
+        return { statusCode: 200, body: JSON.stringify({ success: true, ...run }) };
+    } catch (error: any) {
+        console.error("Reminder Job Error:", error);
+        return { statusCode: 500, body: JSON.stringify({ success: false, message: error.message }) };
+    }
+};
+
+// Hourly; sendDueReminders works out in hospital time what is due
+export const handler = schedule('0 * * * *', createHandler());
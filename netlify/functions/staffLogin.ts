@@ -0,0 +1,52 @@
+import type { Handler, HandlerEvent } from '@netlify/functions';
+import { defaultSessions, type StaffSessions } from './lib/auth';
+import { defaultStore, type DataStore } from './lib/data';
+import { withCors } from './lib/http';
+
+const headers = {
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Content-Type': 'application/json'
+};
+
+// Dashboard sign-in: email and password, or a refresh token to extend a session before it expires
+export const createHandler = (store: DataStore = defaultStore, sessions: StaffSessions = defaultSessions): Handler => async (event: HandlerEvent) => {
+    if (event.httpMethod === 'OPTIONS') {
+        return { statusCode: 200, headers, body: JSON.stringify({ message: 'CORS success' }) };
+    }
+
+    try {
+        const { email, password, refreshToken } = JSON.parse(event.body || '{}');
+
+        if (!refreshToken && (!email || !password)) {
+            return { statusCode: 400, headers, body: JSON.stringify({ success: false, message: "Email and password are required." }) };
+        }
+
+        const tokens = refreshToken ? await sessions.refresh(refreshToken) : await sessions.signIn(email, password);
+        if (!tokens) {
+            return { statusCode: 401, headers, body: JSON.stringify({ success: false, message: refreshToken ? "Session expired. Please sign in again." : "Invalid email or password." }) };
+        }
+
+        const member = await store.staff.findByUserId(tokens.userId);
+        if (!member) {
+            return { statusCode: 403, headers, body: JSON.stringify({ success: false, message: "This account does not have dashboard access." }) };
+        }
+
+        return {
+            statusCode: 200,
+            headers,
+            body: JSON.stringify({
+                success: true,
+                accessToken: tokens.accessToken,
+                refreshToken: tokens.refreshToken,
+                expiresAt: tokens.expiresAt,
+                staff: { name: member.name, email: member.email, role: member.role, doctorId: member.doctor_id }
+            })
+        };
+    } catch (error: any) {
+        console.error("Staff Login Error:", error.message);
+        return { statusCode: 500, headers, body: JSON.stringify({ success: false, message: error.message }) };
+    }
+};
+
+export const handler = withCors(createHandler());
@@ -1,44 +1,39 @@
 import type { Handler, HandlerEvent } from '@netlify/functions';
+import { withCors } from './lib/http';
+import { synthesizeSpeech } from './lib/speech';
 
 const headers = {
-  'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'Content-Type, Authorization',
   'Access-Control-Allow-Methods': 'POST, OPTIONS',
   'Content-Type': 'application/json'
 };
 
-export const handler: Handler = async (event: HandlerEvent) => {
+const speak: Handler = async (event: HandlerEvent) => {
     if (event.httpMethod === 'OPTIONS') {
         return { statusCode: 200, headers, body: JSON.stringify({ message: 'CORS success' }) };
     }
 
     try {
-        const { text } = JSON.parse(event.body || '{}');
-        const apiKey = process.env.GEMINI_API_KEY;
+        const { text, language, voice } = JSON.parse(event.body || '{}');
 
         if (!text) return { statusCode: 400, headers, body: JSON.stringify({ error: "No text provided" }) };
 
-        // Calling Gemini TTS (or your specific TTS provider)
-        const response = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/gemini-2.5-flash-preview-tts:generateContent?key=${apiKey}`, {
-            method: 'POST',
-            body: JSON.stringify({
-                contents: [{ parts: [{ text }] }],
-                generationConfig: {
-                    responseModalities: ["AUDIO"],
-                    speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: "Kore" } } }
-                }
-            })
-        });
-
-        const result = await response.json();
-        const audioData = result.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+        const options = {
+            ...(typeof language === 'string' && language ? { language } : {}),
+            ...(typeof voice === 'string' && voice ? { voice } : {}),
+        };
+
+        // Rejects only when every provider failed
+        const speech = await synthesizeSpeech(text, options);
 
         return {
             statusCode: 200,
             headers,
-            body: JSON.stringify({ audioContent: audioData })
+            body: JSON.stringify({ audioContent: speech.audioContent, mimeType: speech.mimeType })
         };
     } catch (error: any) {
         return { statusCode: 500, headers, body: JSON.stringify({ error: error.message }) };
     }
-};
\ No newline at end of file
+};
+
+export const handler = withCors(speak);
@@ -0,0 +1,64 @@
+import type { Handler, HandlerEvent } from '@netlify/functions';
+import { defaultStore, type DataStore } from './lib/data';
+import { internalOnly } from './lib/http';
+import { sessionIdFrom } from './lib/sessions';
+import { EMERGENCY_NUMBER, escalate, triage } from './lib/triage';
+import { invalidArgumentsResponse, validateArgs } from './lib/validation';
+
+const headers = {
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Content-Type': 'application/json'
+};
+
+export const createHandler = (store: DataStore = defaultStore): Handler => async (event: HandlerEvent) => {
+    if (event.httpMethod === 'OPTIONS') {
+        return { statusCode: 200, headers, body: JSON.stringify({ message: 'CORS success' }) };
+    }
+
+    try {
+        const validation = validateArgs('triageSymptoms', JSON.parse(event.body || '{}'));
+        if (validation.status === 'invalid') {
+            return invalidArgumentsResponse(validation.error, headers);
+        }
+        const { symptoms } = validation.args;
+
+        const result = triage(await store.triage.listRules(), symptoms);
+
+        // A possible emergency ends the booking conversation; staff see it on the dashboard
+        if (result.status === 'emergency') {
+            await escalate(store, sessionIdFrom(event), symptoms, result.redFlags);
+            return {
+                statusCode: 200,
+                headers,
+                body: JSON.stringify({
+                    success: true,
+                    emergency: true,
+                    emergencyNumber: EMERGENCY_NUMBER,
+                    redFlags: result.redFlags,
+                    message: `Possible emergency (${result.redFlags.join(', ')}). Do not book. Tell the patient to call ${EMERGENCY_NUMBER} or go to the nearest emergency department now.`
+                })
+            };
+        }
+
+        if (result.status === 'unmatched') {
+            return {
+                statusCode: 200,
+                headers,
+                body: JSON.stringify({ success: true, emergency: false, specialties: [], message: "No department matched. Ask the patient to describe the problem in more detail, or offer the list of departments." })
+            };
+        }
+
+        return {
+            statusCode: 200,
+            headers,
+            body: JSON.stringify({ success: true, emergency: false, specialties: result.specialties, matched: result.matched })
+        };
+    } catch (error: any) {
+        console.error("Triage Tool Error:", error.message);
+        return { statusCode: 500, headers, body: JSON.stringify({ success: false, message: error.message }) };
+    }
+};
+
+// Called in-process by the assistant; over HTTP only with the internal key
+export const handler = internalOnly(createHandler());
@@ -0,0 +1,30 @@
+import type { Handler, HandlerEvent } from '@netlify/functions';
+import { synthesizeSpeech } from './lib/speech';
+import { isSignedText, VOICE_LANGUAGE } from './lib/telephony';
+
+/**
+ * The audio behind each <Play> in the voice line's TwiML. The provider fetches it
+ * while the call is live; only texts the webhook signed are voiced.
+ */
+export const createHandler = (): Handler => async (event: HandlerEvent) => {
+    const { text, sig } = event.queryStringParameters || {};
+    if (!text || !sig || !isSignedText(text, sig)) {
+        return { statusCode: 403, body: '' };
+    }
+
+    try {
+        const speech = await synthesizeSpeech(text, { language: VOICE_LANGUAGE });
+
+        return {
+            statusCode: 200,
+            headers: { 'Content-Type': speech.mimeType, 'Cache-Control': 'public, max-age=86400' },
+            body: speech.audioContent,
+            isBase64Encoded: true
+        };
+    } catch (error: any) {
+        console.error("Voice Audio Error:", error);
+        return { statusCode: 500, body: '' };
+    }
+};
+
+export const handler = createHandler();
@@ -0,0 +1,126 @@
+import type { Handler, HandlerEvent } from '@netlify/functions';
+import { runAssistant } from './lib/assistant';
+import { defaultStore, type DataStore, type VoiceCall } from './lib/data';
+import { DEFAULT_LANGUAGE, languageOfLocale, messagesFor } from './lib/i18n';
+import {
+    awaitsConfirmation,
+    dial,
+    gather,
+    hangup,
+    hasEnded,
+    isProviderRequest,
+    parseCallRequest,
+    redirect,
+    speak,
+    twiml,
+    VOICE_LANGUAGE,
+} from './lib/telephony';
+
+const headers = {
+  'Content-Type': 'text/xml'
+};
+
+// After this many unanswered prompts in a row the call goes to the front desk, or ends
+const MAX_SILENT_TURNS = 2;
+
+// Speech is recognised in one locale per line, so every call is held in that locale's language
+const CALL_LANGUAGE = languageOfLocale(VOICE_LANGUAGE) || DEFAULT_LANGUAGE;
+const PROMPTS = messagesFor(CALL_LANGUAGE).call;
+
+// What keys 1 and 2 say on the caller's behalf while a held slot awaits confirmation
+const CONFIRMATION_KEYS: Record<string, string> = {
+    '1': PROMPTS.confirmYes,
+    '2': PROMPTS.confirmNo,
+};
+
+const frontDesk = () => process.env.FRONT_DESK_NUMBER;
+
+const respond = (...verbs: string[]) => ({ statusCode: 200, headers, body: twiml(...verbs) });
+
+// Speak, then listen; silence falls through to the redirect and comes back as an unanswered turn
+const ask = (prompts: string[], numDigits?: number) => {
+    const withKey = frontDesk() ? [...prompts, speak(PROMPTS.frontDeskKey)] : prompts;
+    return respond(gather(withKey, numDigits), redirect());
+};
+
+// The front desk when there is one to put the caller through to; otherwise a goodbye
+const handOff = (...first: string[]) => {
+    const number = frontDesk();
+    return number
+        ? respond(...first, speak(PROMPTS.transferring), dial(number))
+        : respond(...first, speak(PROMPTS.goodbye), hangup());
+};
+
+/** What the caller said, with keys standing in for words: 1/2 answer a confirmation, other digits (a phone number) pass as typed. */
+const messageFrom = (call: VoiceCall, speech: string, digits: string) => {
+    if (speech) return speech;
+    if (call.awaiting_confirmation && CONFIRMATION_KEYS[digits]) return CONFIRMATION_KEYS[digits];
+    return digits;
+};
+
+/**
+ * The voice line's webhook. The provider calls it when a call comes in and again
+ * with each answer (speech recognised on its side, or keys pressed); the call id
+ * ties every request to one conversation session, which runs through the same
+ * assistant and tools as the web chat.
+ */
+export const createHandler = (store: DataStore = defaultStore): Handler => async (event: HandlerEvent) => {
+    if (event.httpMethod !== 'POST') {
+        return { statusCode: 405, headers, body: twiml() };
+    }
+    if (!isProviderRequest(event)) {
+        return { statusCode: 403, headers, body: twiml() };
+    }
+
+    const request = parseCallRequest(event);
+    if (!request) {
+        return { statusCode: 400, headers, body: twiml() };
+    }
+
+    try {
+        if (hasEnded(request)) {
+            await store.calls.update(request.callId, { ended_at: new Date().toISOString() });
+            return respond();
+        }
+
+        const call = await store.calls.findById(request.callId);
+        if (!call) {
+            const session = await store.sessions.create('voice');
+            await store.sessions.setLanguage(session.id, CALL_LANGUAGE);
+            await store.calls.start({ call_id: request.callId, session_id: session.id, caller: request.caller });
+            return ask([speak(PROMPTS.greeting)]);
+        }
+
+        if (request.digits === '0' && frontDesk()) {
+            return handOff();
+        }
+
+        const message = messageFrom(call, request.speech, request.digits);
+        if (!message) {
+            const silentTurns = call.silent_turns + 1;
+            await store.calls.update(call.call_id, { silent_turns: silentTurns });
+            return silentTurns >= MAX_SILENT_TURNS ? handOff() : ask([speak(PROMPTS.nothingHeard)]);
+        }
+
+        const turns = await store.sessions.listTurns(call.session_id);
+        const { reply, turns: newTurns } = await runAssistant({ turns, message, sessionId: call.session_id, language: CALL_LANGUAGE });
+        await store.sessions.appendTurns(call.session_id, newTurns);
+
+        // The reply already tells the caller to hang up and call emergency services
+        if (newTurns.some(turn => (turn.tool_result as { emergency?: boolean } | undefined)?.emergency === true)) {
+            return respond(speak(reply), hangup());
+        }
+
+        const awaiting = awaitsConfirmation([...turns, ...newTurns]);
+        await store.calls.update(call.call_id, { silent_turns: 0, awaiting_confirmation: awaiting });
+
+        return awaiting
+            ? ask([speak(reply), speak(PROMPTS.confirmKeys)], 1)
+            : ask([speak(reply)]);
+    } catch (error: any) {
+        console.error("Voice Call Error:", error);
+        return handOff(speak(PROMPTS.error));
+    }
+};
+
+export const handler = createHandler();
@@ -0,0 +1,24 @@
+-- Race-free booking: at most one active (held or confirmed) row per doctor/date/time.
+-- Existing duplicate confirmed rows must be cancelled before this index can be built.
+
+alter table appointments
+    add column if not exists hold_expires_at timestamptz;
+
+-- Holds are created before the patient's details are collected
+alter table appointments
+    alter column patient_name drop not null;
+
+alter table appointments
+    drop constraint if exists appointments_status_check;
+
+alter table appointments
+    add constraint appointments_status_check
+    check (status in ('held', 'confirmed', 'cancelled', 'expired'));
+
+alter table appointments
+    add constraint appointments_hold_expiry_check
+    check (status <> 'held' or hold_expires_at is not null);
+
+create unique index if not exists appointments_active_slot_key
+    on appointments (doctor_id, appointment_date, appointment_time)
+    where status in ('held', 'confirmed');
@@ -0,0 +1,31 @@
+-- Weekly working hours, leave and hospital holidays used to generate each day's slots.
+-- doctors.available_slots stays as the fallback for doctors without a schedule.
+
+create table if not exists doctor_schedules (
+    id bigint generated by default as identity primary key,
+    doctor_id bigint not null references doctors (id) on delete cascade,
+    weekday smallint not null check (weekday between 0 and 6), -- 0 = Sunday
+    start_time time not null,
+    end_time time not null,
+    slot_minutes smallint not null default 15 check (slot_minutes > 0),
+    breaks jsonb not null default '[]'::jsonb, -- [{ "start": "13:00", "end": "14:00" }]
+    check (end_time > start_time)
+);
+
+create index if not exists doctor_schedules_doctor_idx on doctor_schedules (doctor_id, weekday);
+
+create table if not exists doctor_leave (
+    id bigint generated by default as identity primary key,
+    doctor_id bigint not null references doctors (id) on delete cascade,
+    start_date date not null,
+    end_date date not null,
+    reason text,
+    check (end_date >= start_date)
+);
+
+create index if not exists doctor_leave_doctor_idx on doctor_leave (doctor_id, start_date, end_date);
+
+create table if not exists hospital_holidays (
+    holiday_date date primary key,
+    name text not null
+);
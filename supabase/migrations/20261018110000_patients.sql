@@ -0,0 +1,31 @@
+-- Patients keyed by phone number. Family members share a phone, so a patient is (phone, name).
+
+create table if not exists patients (
+    id bigint generated by default as identity primary key,
+    phone text not null check (phone ~ '^\+91[6-9][0-9]{9}$'),
+    name text not null,
+    created_at timestamptz not null default now(),
+    unique (phone, name)
+);
+
+alter table appointments
+    add column if not exists patient_id bigint references patients (id);
+
+create index if not exists appointments_patient_idx on appointments (patient_id, appointment_date);
+
+-- Backfill: normalise legacy phone numbers to E.164 and link existing bookings to patients
+update appointments
+    set phone = '+91' || right(regexp_replace(phone, '\D', '', 'g'), 10)
+    where phone is not null
+      and right(regexp_replace(phone, '\D', '', 'g'), 10) ~ '^[6-9][0-9]{9}$';
+
+insert into patients (phone, name)
+    select distinct phone, trim(patient_name)
+    from appointments
+    where phone ~ '^\+91[6-9][0-9]{9}$' and patient_name is not null
+    on conflict (phone, name) do nothing;
+
+update appointments a
+    set patient_id = p.id
+    from patients p
+    where a.patient_id is null and p.phone = a.phone and p.name = trim(a.patient_name);
@@ -0,0 +1,27 @@
+-- Server-side assistant conversations, so a refresh does not lose the chat and staff can read what was said.
+
+create table if not exists conversation_sessions (
+    id uuid primary key default gen_random_uuid(),
+    channel text not null default 'web',
+    created_at timestamptz not null default now(),
+    updated_at timestamptz not null default now()
+);
+
+-- 'tool' turns record one tool call each: its name, arguments and result
+create table if not exists conversation_turns (
+    id bigint generated by default as identity primary key,
+    session_id uuid not null references conversation_sessions (id) on delete cascade,
+    seq integer not null,
+    role text not null check (role in ('user', 'model', 'tool')),
+    text text,
+    tool_name text,
+    tool_args jsonb,
+    tool_result jsonb,
+    created_at timestamptz not null default now(),
+    unique (session_id, seq)
+);
+
+alter table appointments
+    add column if not exists session_id uuid references conversation_sessions (id) on delete set null;
+
+create index if not exists appointments_session_idx on appointments (session_id);
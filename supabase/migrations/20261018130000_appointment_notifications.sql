@@ -0,0 +1,20 @@
+-- Every confirmation, cancellation, reschedule and reminder message sent to a patient, with its delivery status.
+
+create table if not exists appointment_notifications (
+    id bigint generated by default as identity primary key,
+    appointment_id bigint not null references appointments (id) on delete cascade,
+    kind text not null check (kind in ('confirmation', 'cancellation', 'reschedule', 'reminder_day_before', 'reminder_same_day')),
+    channel text not null,
+    recipient text not null,
+    body text not null,
+    status text not null check (status in ('sent', 'failed')),
+    provider_message_id text,
+    error text,
+    -- The slot the message was about; a rescheduled booking gets its reminders again
+    appointment_date date not null,
+    appointment_time time not null,
+    created_at timestamptz not null default now()
+);
+
+create index if not exists appointment_notifications_lookup_idx
+    on appointment_notifications (appointment_id, kind, appointment_date, appointment_time);
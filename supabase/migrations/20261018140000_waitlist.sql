@@ -0,0 +1,33 @@
+-- Patients waiting for a doctor on a range of dates. A freed slot is offered to the first eligible
+-- entry as a hold in their name; if they decline or let it lapse, it goes to the next in line.
+
+create table if not exists waitlist_entries (
+    id bigint generated by default as identity primary key,
+    doctor_id bigint not null references doctors (id),
+    patient_id bigint not null references patients (id),
+    patient_name text not null,
+    phone text not null,
+    from_date date not null,
+    to_date date not null,
+    time_of_day text check (time_of_day in ('morning', 'afternoon', 'evening')),
+    status text not null default 'waiting'
+        check (status in ('waiting', 'offered', 'booked', 'declined', 'expired')),
+    offer_appointment_id bigint references appointments (id) on delete set null,
+    offer_expires_at timestamptz,
+    session_id uuid references conversation_sessions (id) on delete set null,
+    created_at timestamptz not null default now(),
+    check (to_date >= from_date)
+);
+
+create index if not exists waitlist_entries_queue_idx
+    on waitlist_entries (doctor_id, status, created_at);
+
+create index if not exists waitlist_entries_offers_idx
+    on waitlist_entries (phone) where status = 'offered';
+
+alter table appointment_notifications
+    drop constraint if exists appointment_notifications_kind_check;
+
+alter table appointment_notifications
+    add constraint appointment_notifications_kind_check
+    check (kind in ('confirmation', 'cancellation', 'reschedule', 'reminder_day_before', 'reminder_same_day', 'waitlist_offer'));
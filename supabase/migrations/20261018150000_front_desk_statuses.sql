@@ -0,0 +1,15 @@
+-- Front-desk lifecycle: confirmed -> checked_in -> completed, or confirmed -> no_show.
+-- Checked-in and completed visits keep their slot; a no-show frees it for a walk-in.
+
+alter table appointments
+    drop constraint if exists appointments_status_check;
+
+alter table appointments
+    add constraint appointments_status_check
+    check (status in ('held', 'confirmed', 'checked_in', 'completed', 'no_show', 'cancelled', 'expired'));
+
+drop index if exists appointments_active_slot_key;
+
+create unique index appointments_active_slot_key
+    on appointments (doctor_id, appointment_date, appointment_time)
+    where status in ('held', 'confirmed', 'checked_in', 'completed');
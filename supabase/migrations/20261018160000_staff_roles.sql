@@ -0,0 +1,26 @@
+-- Dashboard staff. Each row grants a Supabase Auth user a role; doctors are tied to their own schedule.
+-- Add staff by creating the user in Supabase Auth, then inserting their row here.
+
+create table if not exists staff (
+    user_id uuid primary key references auth.users (id) on delete cascade,
+    email text not null,
+    name text not null,
+    role text not null check (role in ('admin', 'receptionist', 'doctor')),
+    doctor_id bigint references doctors (id),
+    created_at timestamptz not null default now(),
+    check (role <> 'doctor' or doctor_id is not null)
+);
+
+-- All reads and writes go through the functions, which use the service role. With RLS on and no
+-- policies, the anon and authenticated keys can no longer read patient data directly.
+alter table doctors enable row level security;
+alter table doctor_schedules enable row level security;
+alter table doctor_leave enable row level security;
+alter table hospital_holidays enable row level security;
+alter table patients enable row level security;
+alter table appointments enable row level security;
+alter table conversation_sessions enable row level security;
+alter table conversation_turns enable row level security;
+alter table appointment_notifications enable row level security;
+alter table waitlist_entries enable row level security;
+alter table staff enable row level security;
@@ -0,0 +1,34 @@
+-- Append-only audit trail: one row per change to an appointment, with who made it, through
+-- which channel, and the appointment before and after.
+
+create table if not exists appointment_events (
+    id bigint generated by default as identity primary key,
+    appointment_id bigint not null references appointments (id),
+    action text not null check (action in ('created', 'rescheduled', 'status_changed')),
+    actor_type text not null check (actor_type in ('assistant', 'staff', 'system')),
+    actor_id text,
+    actor_name text,
+    channel text not null,
+    before jsonb,
+    after jsonb not null,
+    created_at timestamptz not null default now()
+);
+
+create index if not exists appointment_events_appointment_idx
+    on appointment_events (appointment_id, created_at);
+
+-- Even the service role may only add to the trail
+create or replace function appointment_events_append_only() returns trigger
+language plpgsql as $$
+begin
+    raise exception 'appointment_events is append-only';
+end;
+$$;
+
+drop trigger if exists appointment_events_append_only on appointment_events;
+
+create trigger appointment_events_append_only
+    before update or delete on appointment_events
+    for each row execute function appointment_events_append_only();
+
+alter table appointment_events enable row level security;
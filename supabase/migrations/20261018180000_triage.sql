@@ -0,0 +1,46 @@
+-- Symptom triage. triage_rules maps what patients say to a department, or flags it as a possible
+-- emergency; staff tune the mapping by editing rows. Every red-flag conversation is logged in
+-- emergency_escalations until a member of staff acknowledges it on the dashboard.
+
+create table if not exists triage_rules (
+    id bigint generated by default as identity primary key,
+    label text not null,
+    -- Lower-case English or Telugu; any one keyword triggers the rule
+    keywords text[] not null check (cardinality(keywords) > 0),
+    specialty text,
+    is_red_flag boolean not null default false,
+    check (is_red_flag or specialty is not null)
+);
+
+create table if not exists emergency_escalations (
+    id bigint generated by default as identity primary key,
+    session_id uuid references conversation_sessions (id) on delete set null,
+    symptoms text not null,
+    red_flags text[] not null,
+    status text not null default 'open' check (status in ('open', 'acknowledged')),
+    acknowledged_by uuid references auth.users (id),
+    acknowledged_at timestamptz,
+    created_at timestamptz not null default now()
+);
+
+create index if not exists emergency_escalations_open_idx
+    on emergency_escalations (created_at desc) where status = 'open';
+
+alter table triage_rules enable row level security;
+alter table emergency_escalations enable row level security;
+
+-- A starting mapping; department names must match doctors.specialty to be bookable
+insert into triage_rules (label, keywords, specialty, is_red_flag) values
+    ('chest pain', array['chest pain', 'chest tightness', 'pain in my chest', 'ఛాతీ నొప్పి', 'ఛాతీలో నొప్పి', 'గుండె నొప్పి'], null, true),
+    ('stroke signs', array['stroke', 'face drooping', 'slurred speech', 'cannot speak', 'one side weak', 'paralysis', 'పక్షవాతం', 'మూతి వంకర', 'మాట తడబడ'], null, true),
+    ('breathing difficulty', array['difficulty breathing', 'shortness of breath', 'cannot breathe', 'can''t breathe', 'breathless', 'ఊపిరి ఆడటం లేదు', 'ఊపిరి ఆడట్లేదు', 'శ్వాస తీసుకోవడం కష్టం'], null, true),
+    ('unconscious or seizure', array['unconscious', 'fainted', 'seizure', 'స్పృహ తప్పి', 'స్పృహ లేదు', 'మూర్ఛ'], null, true),
+    ('severe bleeding', array['heavy bleeding', 'severe bleeding', 'bleeding a lot', 'తీవ్ర రక్తస్రావం', 'రక్తం ఆగడం లేదు'], null, true),
+    ('heart and blood pressure', array['palpitations', 'high bp', 'blood pressure', 'గుండె దడ', 'బీపీ'], 'Cardiology', false),
+    ('bones and joints', array['joint pain', 'back pain', 'knee pain', 'fracture', 'కీళ్ల నొప్పి', 'నడుము నొప్పి', 'మోకాలి నొప్పి', 'ఎముక'], 'Orthopedics', false),
+    ('children', array['child', 'baby', 'my son', 'my daughter', 'పిల్లవాడు', 'పిల్లలు', 'పాప', 'బాబు'], 'Pediatrics', false),
+    ('skin', array['rash', 'itching', 'skin', 'pimples', 'దురద', 'చర్మం', 'దద్దుర్లు', 'మొటిమలు'], 'Dermatology', false),
+    ('fever, cough and cold', array['fever', 'cough', 'cold', 'body pains', 'జ్వరం', 'దగ్గు', 'జలుబు', 'ఒళ్ళు నొప్పులు'], 'General Medicine', false),
+    ('stomach', array['stomach pain', 'vomiting', 'diarrhea', 'acidity', 'కడుపు నొప్పి', 'వాంతులు', 'విరేచనాలు', 'గ్యాస్'], 'Gastroenterology', false),
+    ('headache and dizziness', array['headache', 'migraine', 'dizziness', 'తలనొప్పి', 'తల నొప్పి', 'తల తిరగడం'], 'Neurology', false),
+    ('ear, nose and throat', array['ear pain', 'sore throat', 'sinus', 'చెవి నొప్పి', 'గొంతు నొప్పి', 'ముక్కు'], 'ENT', false);
@@ -0,0 +1,16 @@
+-- Phone calls to the voice line. The provider calls the webhook once per turn with its call id;
+-- this row maps that id to the conversation session and keeps what the next turn needs to know.
+
+create table if not exists voice_calls (
+    call_id text primary key,
+    session_id uuid not null references conversation_sessions (id) on delete cascade,
+    caller text,
+    silent_turns integer not null default 0,
+    awaiting_confirmation boolean not null default false,
+    started_at timestamptz not null default now(),
+    ended_at timestamptz
+);
+
+create index if not exists voice_calls_session_idx on voice_calls (session_id);
+
+alter table voice_calls enable row level security;
@@ -0,0 +1,8 @@
+-- Messaging channels (WhatsApp, chat webhooks) know who is writing: the sender's phone keys
+-- their conversation, so a patient picks up where they left off without a session id.
+
+alter table conversation_sessions
+    add column if not exists contact text;
+
+create index if not exists conversation_sessions_contact_idx
+    on conversation_sessions (channel, contact, updated_at desc) where contact is not null;
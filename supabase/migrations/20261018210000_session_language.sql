@@ -0,0 +1,5 @@
+-- The language each conversation is held in: picked by the patient, or detected from the script
+-- of their first message. Null until then, when Sahay falls back to Telugu.
+
+alter table conversation_sessions
+    add column if not exists language text check (language in ('te', 'hi', 'ur', 'en'));
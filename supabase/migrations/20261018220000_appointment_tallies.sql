@@ -0,0 +1,42 @@
+-- Scheduling analytics. appointment_tallies() counts the bookings for visits in a date range per
+-- date, doctor, status and booker. Who booked, and when, comes from the first audit event that
+-- put the appointment in a booked status (confirmed, or checked in for a walk-in); lead time is
+-- counted in days on the hospital's calendar, in the time_zone the caller passes (HOSPITAL_TIMEZONE).
+
+create or replace function appointment_tallies(from_date date, to_date date, time_zone text)
+returns table (
+    appointment_date date,
+    doctor_id bigint,
+    status text,
+    booked_by text,
+    appointments bigint,
+    lead_days bigint
+)
+language sql stable
+as $$
+    with in_range as (
+        select a.id, a.appointment_date, a.doctor_id, a.status
+        from appointments a
+        where a.appointment_date between from_date and to_date
+          and a.status not in ('held', 'expired')
+    ),
+    booking as (
+        select distinct on (e.appointment_id) e.appointment_id, e.actor_type, e.created_at
+        from appointment_events e
+        join in_range r on r.id = e.appointment_id
+        where e.after ->> 'status' not in ('held', 'expired')
+        order by e.appointment_id, e.created_at
+    )
+    select r.appointment_date,
+           r.doctor_id,
+           r.status,
+           b.actor_type,
+           count(*),
+           coalesce(sum(r.appointment_date - (b.created_at at time zone time_zone)::date), 0)
+    from in_range r
+    left join booking b on b.appointment_id = r.id
+    group by r.appointment_date, r.doctor_id, r.status, b.actor_type;
+$$;
+
+-- Reports are read through the service role only
+revoke execute on function appointment_tallies(date, date, text) from public, anon, authenticated;
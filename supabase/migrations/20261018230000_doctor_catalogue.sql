@@ -0,0 +1,67 @@
+-- Specialties become a table with English and Telugu names and the other words patients use
+-- for them; doctors link to one and gain the profile the assistant reads out.
+-- doctors.specialty stays, always the linked specialty's English name, for existing joins.
+
+create table if not exists specialties (
+    id bigint generated by default as identity primary key,
+    name_en text not null check (btrim(name_en) <> ''),
+    name_te text,
+    synonyms text[] not null default '{}'
+);
+
+create unique index if not exists specialties_name_en_idx on specialties (lower(btrim(name_en)));
+
+alter table doctors
+    add column if not exists specialty_id bigint references specialties (id),
+    add column if not exists qualifications text,
+    add column if not exists languages text[] not null default '{}',
+    add column if not exists consultation_fee integer check (consultation_fee >= 0),
+    add column if not exists active boolean not null default true;
+
+-- Backfill: one specialty per spelling of the free-text column, ignoring case and stray spaces
+insert into specialties (name_en)
+    select min(btrim(specialty))
+    from doctors
+    where specialty is not null and btrim(specialty) <> ''
+    group by lower(btrim(specialty))
+    on conflict do nothing;
+
+update doctors d
+    set specialty_id = s.id
+    from specialties s
+    where d.specialty_id is null and lower(btrim(d.specialty)) = lower(btrim(s.name_en));
+
+alter table doctors alter column specialty_id set not null;
+
+-- Keep doctors.specialty equal to the linked specialty's name, however either row changes
+create or replace function doctors_specialty_name() returns trigger
+language plpgsql as $$
+begin
+    select name_en into new.specialty from specialties where id = new.specialty_id;
+    return new;
+end;
+$$;
+
+drop trigger if exists doctors_specialty_name on doctors;
+
+create trigger doctors_specialty_name
+    before insert or update of specialty_id, specialty on doctors
+    for each row execute function doctors_specialty_name();
+
+create or replace function specialties_rename_doctors() returns trigger
+language plpgsql as $$
+begin
+    update doctors set specialty = new.name_en where specialty_id = new.id;
+    return new;
+end;
+$$;
+
+drop trigger if exists specialties_rename_doctors on specialties;
+
+create trigger specialties_rename_doctors
+    after update of name_en on specialties
+    for each row execute function specialties_rename_doctors();
+
+create index if not exists doctors_specialty_idx on doctors (specialty_id);
+
+alter table specialties enable row level security;
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { createHandler } from '../netlify/functions/adminAcknowledgeEscalation';
+import { createMemoryStore } from '../netlify/functions/lib/data/memoryStore';
+import { asStaff, invoke, staffAuth } from './helpers';
+
+const store = () => createMemoryStore({
+    emergency_escalations: [{
+        id: 1, session_id: 'session-1', symptoms: 'chest pain', red_flags: ['chest pain'], status: 'open',
+        acknowledged_by: null, acknowledged_at: null, created_at: '2030-01-15T04:00:00Z',
+    }],
+});
+
+describe('adminAcknowledgeEscalation', () => {
+    it('records who followed the escalation up', async () => {
+        const db = store();
+        const res = await invoke(createHandler(db, staffAuth), { escalationId: 1 }, 'POST', asStaff);
+
+        expect(res.statusCode).toBe(200);
+        expect(db.tables.emergency_escalations[0]).toMatchObject({ status: 'acknowledged', acknowledged_by: 'staff-1' });
+    });
+
+    it('returns 404 once it has been acknowledged', async () => {
+        const db = store();
+        await invoke(createHandler(db, staffAuth), { escalationId: 1 }, 'POST', asStaff);
+
+        const again = await invoke(createHandler(db, staffAuth), { escalationId: 1 }, 'POST', asStaff);
+        expect(again.statusCode).toBe(404);
+    });
+
+    it('returns 401 without a staff token', async () => {
+        const res = await invoke(createHandler(store(), staffAuth), { escalationId: 1 });
+        expect(res.statusCode).toBe(401);
+    });
+});
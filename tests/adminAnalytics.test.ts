@@ -0,0 +1,84 @@
+import type { HandlerContext, HandlerEvent, HandlerResponse } from '@netlify/functions';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createHandler } from '../netlify/functions/adminAnalytics';
+import { asDoctor, asStaff, confirmed, invoke, seedStore, staffAuth } from './helpers';
+
+const store = () => seedStore([
+    confirmed({ id: 1 }),
+    confirmed({ id: 2, appointment_time: '10:30', status: 'cancelled' }),
+    confirmed({ id: 3, doctor_id: 2, appointment_time: '09:00', status: 'completed' }),
+]);
+
+const range = (query: Record<string, string>) => ({ queryStringParameters: { from: '2030-01-15', to: '2030-01-15', ...query } });
+
+// CSV and XLSX bodies are not JSON, so these skip invoke()'s parsing
+const download = async (query: Record<string, string>): Promise<HandlerResponse> =>
+    await createHandler(store(), staffAuth)({ httpMethod: 'GET', headers: asStaff.headers, ...range(query) } as unknown as HandlerEvent, {} as HandlerContext) as HandlerResponse;
+
+describe('adminAnalytics', () => {
+    afterEach(() => { vi.useRealTimers(); });
+
+    it('reports the range as JSON for the dashboard', async () => {
+        const res = await invoke(createHandler(store(), staffAuth), undefined, 'GET', { ...asStaff, ...range({}) });
+
+        expect(res.statusCode).toBe(200);
+        expect(res.body.report).toMatchObject({ from: '2030-01-15', to: '2030-01-15' });
+        expect(res.body.report.summary).toMatchObject({ offeredSlots: 6, bookings: 3, cancelled: 1, attended: 1, utilisation: 0.333 });
+        expect(res.body.report.daily).toHaveLength(1);
+    });
+
+    it('covers the 30 days up to the hospital\'s today by default', async () => {
+        vi.useFakeTimers({ toFake: ['Date'] });
+        vi.setSystemTime(new Date('2030-01-14T20:00:00Z')); // 01:30 on the 15th in India
+
+        const res = await invoke(createHandler(store(), staffAuth), undefined, 'GET', asStaff);
+        expect(res.body.report).toMatchObject({ from: '2029-12-17', to: '2030-01-15' });
+        expect(res.body.report.daily).toHaveLength(30);
+    });
+
+    it('shows a doctor only their own figures', async () => {
+        const res = await invoke(createHandler(store(), staffAuth), undefined, 'GET', { ...asDoctor, ...range({}) });
+
+        expect(res.body.report.doctors.map((d: { doctorId: number }) => d.doctorId)).toEqual([1]);
+        expect(res.body.report.summary).toMatchObject({ bookings: 2, cancelled: 1 });
+    });
+
+    it('exports one CSV row per doctor per day', async () => {
+        const res = await download({ format: 'csv' });
+
+        expect(res.headers).toMatchObject({
+            'Content-Type': 'text/csv; charset=utf-8',
+            'Content-Disposition': 'attachment; filename="scheduling-2030-01-15-to-2030-01-15.csv"',
+        });
+        expect(String(res.body).startsWith('\ufeffDate,Doctor,Specialty,Offered slots,Bookings,')).toBe(true);
+        const lines = String(res.body).trim().split('\r\n');
+        expect(lines.slice(1).map(line => line.split(',').slice(0, 5))).toEqual([
+            ['2030-01-15', 'Dr. Ravi Kumar', 'Cardiology', '3', '2'],
+            ['2030-01-15', 'Dr. Lakshmi Reddy', 'Pediatrics', '2', '1'],
+            ['2030-01-15', 'Dr. Srinivas Reddy', 'Orthopedics', '1', '0'],
+        ]);
+    });
+
+    it('exports every breakdown as an XLSX workbook', async () => {
+        const res = await download({ format: 'xlsx' });
+
+        expect(res.isBase64Encoded).toBe(true);
+        expect(res.headers?.['Content-Type']).toBe('application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+        expect(Buffer.from(String(res.body), 'base64').subarray(0, 4)).toEqual(Buffer.from('PK\x03\x04', 'latin1'));
+    });
+
+    it('rejects bad ranges and formats', async () => {
+        const handler = createHandler(store(), staffAuth);
+        const ask = (query: Record<string, string>) => invoke(handler, undefined, 'GET', { ...asStaff, ...range(query) });
+
+        expect((await ask({ from: '2030-02-30' })).statusCode).toBe(400);
+        expect((await ask({ from: '2030-01-16' })).body.message).toBe('from must not be after to.');
+        expect((await ask({ from: '2029-01-01', to: '2030-01-15' })).body.message).toBe('A report covers at most 366 days.');
+        expect((await ask({ format: 'pdf' })).statusCode).toBe(400);
+    });
+
+    it('requires a staff sign-in', async () => {
+        const res = await invoke(createHandler(store(), staffAuth), undefined, 'GET', range({}));
+        expect(res.statusCode).toBe(401);
+    });
+});
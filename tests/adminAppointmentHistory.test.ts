@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { createHandler } from '../netlify/functions/adminAppointmentHistory';
+import { createHandler as createStatusHandler } from '../netlify/functions/adminUpdateAppointmentStatus';
+import { createHandler as createRescheduleHandler } from '../netlify/functions/rescheduleAppointment';
+import { asDoctor, asStaff, confirmed, invoke, seedStore, staffAuth } from './helpers';
+
+const history = (appointmentId: number) => ({ queryStringParameters: { appointmentId: String(appointmentId) } });
+
+describe('adminAppointmentHistory', () => {
+    it('lists every change with its actor, oldest first', async () => {
+        const store = seedStore([confirmed()]);
+        await invoke(createRescheduleHandler(store), { appointmentId: 100, phone: '9876543210', newDate: '2030-01-16', newTime: '11:00' });
+        await invoke(createStatusHandler(store, staffAuth), { appointmentId: 100, status: 'checked_in' }, 'POST', asStaff);
+
+        const res = await invoke(createHandler(store, staffAuth), undefined, 'GET', { ...asStaff, ...history(100) });
+
+        expect(res.statusCode).toBe(200);
+        expect(res.body.events).toMatchObject([
+            {
+                action: 'rescheduled',
+                actorType: 'system',
+                channel: 'api',
+                before: { date: '2030-01-15', time: '10:00', status: 'confirmed' },
+                after: { date: '2030-01-16', time: '11:00', status: 'confirmed' },
+            },
+            {
+                action: 'status_changed',
+                actorType: 'staff',
+                actorName: 'Front Desk',
+                channel: 'dashboard',
+                before: { status: 'confirmed' },
+                after: { status: 'checked_in' },
+            },
+        ]);
+    });
+
+    it('hides other doctors\' appointments from a doctor', async () => {
+        const store = seedStore([confirmed({ doctor_id: 2 })]);
+        const res = await invoke(createHandler(store, staffAuth), undefined, 'GET', { ...asDoctor, ...history(100) });
+        expect(res.statusCode).toBe(404);
+    });
+
+    it('returns 401 without a staff token', async () => {
+        const res = await invoke(createHandler(seedStore([confirmed()]), staffAuth), undefined, 'GET', history(100));
+        expect(res.statusCode).toBe(401);
+    });
+});
@@ -0,0 +1,77 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createHandler } from '../netlify/functions/adminBookWalkIn';
+import { asStaff, confirmed, invoke, seedStore, staffAuth } from './helpers';
+
+const walkIn = { doctorId: 1, patientName: 'Sita', phone: '9123456780', date: '2030-01-15', time: '10:30' };
+
+describe('adminBookWalkIn', () => {
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('books the walk-in as already checked in', async () => {
+        const store = seedStore();
+        const res = await invoke(createHandler(store, staffAuth), walkIn, 'POST', asStaff);
+
+        expect(res.statusCode).toBe(200);
+        expect(store.tables.appointments).toMatchObject([{ id: res.body.appointmentId, patient_name: 'Sita', phone: '+919123456780', status: 'checked_in' }]);
+    });
+
+    it('can take the slot of a no-show but not of a checked-in patient', async () => {
+        const store = seedStore([
+            confirmed({ appointment_time: '10:00', status: 'no_show' }),
+            confirmed({ id: 101, appointment_time: '10:30', status: 'checked_in' }),
+        ]);
+        const handler = createHandler(store, staffAuth);
+
+        expect((await invoke(handler, { ...walkIn, time: '10:00' }, 'POST', asStaff)).statusCode).toBe(200);
+        expect((await invoke(handler, walkIn, 'POST', asStaff)).statusCode).toBe(409);
+    });
+
+    it('returns 400 without a valid phone or time', async () => {
+        const handler = createHandler(seedStore(), staffAuth);
+        expect((await invoke(handler, { ...walkIn, phone: '123' }, 'POST', asStaff)).statusCode).toBe(400);
+        expect((await invoke(handler, { ...walkIn, time: 'soon' }, 'POST', asStaff)).statusCode).toBe(400);
+    });
+
+    it('books today\'s slot that has already started', async () => {
+        vi.useFakeTimers({ toFake: ['Date'] });
+        vi.setSystemTime(new Date('2030-01-15T05:00:00Z')); // 10:30 in India
+        const store = seedStore();
+        const { date, ...today } = walkIn;
+        const res = await invoke(createHandler(store, staffAuth), { ...today, time: '10:00' }, 'POST', asStaff);
+
+        expect(res.statusCode).toBe(200);
+        expect(store.tables.appointments).toMatchObject([{ appointment_date: '2030-01-15', appointment_time: '10:00' }]);
+    });
+
+    it('returns 400 for a malformed or past date', async () => {
+        const handler = createHandler(seedStore(), staffAuth);
+        expect((await invoke(handler, { ...walkIn, date: '2030-02-30' }, 'POST', asStaff)).body).toMatchObject({ code: 'INVALID_DATE', field: 'date' });
+        expect((await invoke(handler, { ...walkIn, date: '2020-01-15' }, 'POST', asStaff)).body).toMatchObject({ code: 'DATE_IN_PAST', field: 'date' });
+    });
+
+    it('returns 400 for a time the doctor does not offer', async () => {
+        const store = seedStore();
+        const res = await invoke(createHandler(store, staffAuth), { ...walkIn, time: '10:15' }, 'POST', asStaff);
+
+        expect(res.statusCode).toBe(400);
+        expect(res.body).toMatchObject({ code: 'SLOT_NOT_OFFERED', field: 'time' });
+        expect(store.tables.appointments).toHaveLength(0);
+    });
+
+    it('refuses unknown and inactive doctors', async () => {
+        const store = seedStore();
+        await store.doctors.update(1, { active: false });
+        const handler = createHandler(store, staffAuth);
+
+        expect((await invoke(handler, { ...walkIn, doctorId: 99 }, 'POST', asStaff)).statusCode).toBe(404);
+        expect((await invoke(handler, walkIn, 'POST', asStaff)).body).toMatchObject({ code: 'SLOT_NOT_OFFERED', field: 'date' });
+        expect(store.tables.appointments).toHaveLength(0);
+    });
+
+    it('returns 401 without a staff token', async () => {
+        const res = await invoke(createHandler(seedStore(), staffAuth), walkIn);
+        expect(res.statusCode).toBe(401);
+    });
+});
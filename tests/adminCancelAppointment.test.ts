@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { createHandler } from '../netlify/functions/adminCancelAppointment';
+import { createNotifier } from '../netlify/functions/lib/notifications';
+import { asDoctor, asStaff, confirmed, invoke, recordingProvider, seedStore, staffAuth } from './helpers';
+
+describe('adminCancelAppointment', () => {
+    it('cancels any confirmed booking and tells the patient', async () => {
+        const store = seedStore([confirmed()]);
+        const { provider, sent } = recordingProvider();
+        const res = await invoke(createHandler(store, staffAuth, createNotifier(store, provider, 'en')), { appointmentId: 100 }, 'POST', asStaff);
+
+        expect(res.statusCode).toBe(200);
+        expect(store.tables.appointments[0].status).toBe('cancelled');
+        expect(sent).toHaveLength(1);
+        expect(store.tables.appointment_events).toMatchObject([{
+            action: 'status_changed',
+            actor_type: 'staff',
+            actor_id: 'staff-1',
+            actor_name: 'Front Desk',
+            channel: 'dashboard',
+            before: { status: 'confirmed' },
+            after: { status: 'cancelled' },
+        }]);
+    });
+
+    it('returns 401 without a valid staff token', async () => {
+        const store = seedStore([confirmed()]);
+        const handler = createHandler(store, staffAuth);
+
+        expect((await invoke(handler, { appointmentId: 100 })).statusCode).toBe(401);
+        expect((await invoke(handler, { appointmentId: 100 }, 'POST', { headers: { authorization: 'Bearer forged' } })).statusCode).toBe(401);
+        expect(store.tables.appointments[0].status).toBe('confirmed');
+    });
+
+    it('returns 403 for a doctor', async () => {
+        const store = seedStore([confirmed()]);
+        const res = await invoke(createHandler(store, staffAuth), { appointmentId: 100 }, 'POST', asDoctor);
+
+        expect(res.statusCode).toBe(403);
+        expect(store.tables.appointments[0].status).toBe('confirmed');
+    });
+
+    it('returns 404 for a booking that is not confirmed', async () => {
+        const store = seedStore([confirmed({ status: 'checked_in' })]);
+        const res = await invoke(createHandler(store, staffAuth), { appointmentId: 100 }, 'POST', asStaff);
+        expect(res.statusCode).toBe(404);
+    });
+});
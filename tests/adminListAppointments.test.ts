@@ -0,0 +1,50 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createHandler } from '../netlify/functions/adminListAppointments';
+import { asDoctor, asStaff, confirmed, invoke, seedStore, staffAuth } from './helpers';
+
+const store = () => seedStore([
+    confirmed({ appointment_time: '10:30', status: 'checked_in' }),
+    confirmed({ id: 101, doctor_id: 2, appointment_time: '09:00' }),
+    confirmed({ id: 102, appointment_time: '11:00', status: 'held', hold_expires_at: '2999-01-01T00:00:00Z' }),
+    confirmed({ id: 103, appointment_date: '2030-01-16' }),
+]);
+
+const day = { queryStringParameters: { date: '2030-01-15' } };
+
+describe('adminListAppointments', () => {
+    afterEach(() => { vi.useRealTimers(); });
+
+    it('lists the day\'s bookings for the front desk, holds aside', async () => {
+        const res = await invoke(createHandler(store(), staffAuth), undefined, 'GET', { ...asStaff, ...day });
+
+        expect(res.statusCode).toBe(200);
+        expect(res.body.appointments).toEqual([
+            { id: 101, doctorId: 2, doctorName: 'Dr. Lakshmi Reddy', specialty: 'Pediatrics', patientName: 'Anil', phone: '+919876543210', date: '2030-01-15', time: '09:00', status: 'confirmed', sessionId: null },
+            { id: 100, doctorId: 1, doctorName: 'Dr. Ravi Kumar', specialty: 'Cardiology', patientName: 'Anil', phone: '+919876543210', date: '2030-01-15', time: '10:30', status: 'checked_in', sessionId: null },
+        ]);
+    });
+
+    it('shows a doctor only their own schedule', async () => {
+        const res = await invoke(createHandler(store(), staffAuth), undefined, 'GET', { ...asDoctor, ...day });
+        expect(res.body.appointments.map((a: { id: number }) => a.id)).toEqual([100]);
+    });
+
+    it('defaults to the hospital\'s today rather than UTC\'s', async () => {
+        vi.useFakeTimers({ toFake: ['Date'] });
+        vi.setSystemTime(new Date('2030-01-14T20:00:00Z')); // 01:30 on the 15th in India
+
+        const res = await invoke(createHandler(store(), staffAuth), undefined, 'GET', asStaff);
+        expect(res.body).toMatchObject({ date: '2030-01-15', today: '2030-01-15' });
+        expect(res.body.appointments).toHaveLength(2);
+    });
+
+    it('returns 401 without a staff token', async () => {
+        const res = await invoke(createHandler(store(), staffAuth), undefined, 'GET', day);
+        expect(res.statusCode).toBe(401);
+    });
+
+    it('returns 400 for a malformed date', async () => {
+        const res = await invoke(createHandler(store(), staffAuth), undefined, 'GET', { ...asStaff, queryStringParameters: { date: '15/01/2030' } });
+        expect(res.statusCode).toBe(400);
+    });
+});
@@ -0,0 +1,40 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createHandler } from '../netlify/functions/adminListDoctors';
+import { doctorCalendarUrl } from '../netlify/functions/lib/calendar';
+import { asAdmin, asDoctor, asStaff, invoke, seedStore, staffAuth } from './helpers';
+
+const feeds = (doctors: { id: number; calendarUrl?: string }[]) => doctors.filter(d => d.calendarUrl).map(d => [d.id, d.calendarUrl]);
+
+describe('adminListDoctors', () => {
+    afterEach(() => {
+        vi.unstubAllEnvs();
+    });
+
+    it('lists the whole catalogue, inactive doctors flagged', async () => {
+        const store = seedStore();
+        await store.doctors.update(2, { active: false });
+        const res = await invoke(createHandler(store, staffAuth), undefined, 'GET', asDoctor);
+
+        expect(res.statusCode).toBe(200);
+        expect(res.body.doctors.map((d: { name: string; active: boolean }) => [d.name, d.active])).toEqual([
+            ['Dr. Lakshmi Reddy', false],
+            ['Dr. Ravi Kumar', true],
+            ['Dr. Srinivas Reddy', true],
+        ]);
+        expect(res.body.specialties.map((s: { name_en: string }) => s.name_en)).toEqual(['Cardiology', 'Orthopedics', 'Pediatrics']);
+    });
+
+    it('gives admins every calendar feed, a doctor their own and the front desk none', async () => {
+        vi.stubEnv('CALENDAR_SECRET', 'calendar-secret');
+        const handler = createHandler(seedStore(), staffAuth);
+
+        expect(feeds((await invoke(handler, undefined, 'GET', asAdmin)).body.doctors)).toEqual([2, 1, 3].map(id => [id, doctorCalendarUrl(id)]));
+        expect(feeds((await invoke(handler, undefined, 'GET', asDoctor)).body.doctors)).toEqual([[1, doctorCalendarUrl(1)]]);
+        expect(feeds((await invoke(handler, undefined, 'GET', asStaff)).body.doctors)).toEqual([]);
+    });
+
+    it('returns 401 without a staff token', async () => {
+        const res = await invoke(createHandler(seedStore(), staffAuth), undefined, 'GET');
+        expect(res.statusCode).toBe(401);
+    });
+});
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { createHandler } from '../netlify/functions/adminListEscalations';
+import { createMemoryStore } from '../netlify/functions/lib/data/memoryStore';
+import type { EmergencyEscalation } from '../netlify/functions/lib/data/types';
+import { asDoctor, asStaff, invoke, staffAuth } from './helpers';
+
+const escalation = (overrides: Partial<EmergencyEscalation> = {}): EmergencyEscalation => ({
+    id: 1,
+    session_id: 'session-1',
+    symptoms: 'ఛాతీ నొప్పి',
+    red_flags: ['chest pain'],
+    status: 'open',
+    acknowledged_by: null,
+    acknowledged_at: null,
+    created_at: '2030-01-15T04:00:00Z',
+    ...overrides,
+});
+
+const store = () => createMemoryStore({
+    emergency_escalations: [
+        escalation(),
+        escalation({ id: 2, session_id: null, created_at: '2030-01-15T05:00:00Z' }),
+        escalation({ id: 3, status: 'acknowledged', acknowledged_by: 'staff-1', acknowledged_at: '2030-01-15T04:10:00Z' }),
+    ],
+});
+
+describe('adminListEscalations', () => {
+    it('lists open escalations, newest first', async () => {
+        const res = await invoke(createHandler(store(), staffAuth), undefined, 'GET', asStaff);
+
+        expect(res.statusCode).toBe(200);
+        expect(res.body.escalations).toEqual([
+            { id: 2, sessionId: null, symptoms: 'ఛాతీ నొప్పి', redFlags: ['chest pain'], createdAt: '2030-01-15T05:00:00Z' },
+            { id: 1, sessionId: 'session-1', symptoms: 'ఛాతీ నొప్పి', redFlags: ['chest pain'], createdAt: '2030-01-15T04:00:00Z' },
+        ]);
+    });
+
+    it('shows them to doctors too', async () => {
+        const res = await invoke(createHandler(store(), staffAuth), undefined, 'GET', asDoctor);
+        expect(res.body.escalations).toHaveLength(2);
+    });
+
+    it('returns 401 without a staff token', async () => {
+        const res = await invoke(createHandler(store(), staffAuth), undefined, 'GET');
+        expect(res.statusCode).toBe(401);
+    });
+});
@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { createHandler } from '../netlify/functions/adminListWaitlist';
+import { createHandler as createJoinHandler } from '../netlify/functions/joinWaitlist';
+import { asDoctor, asStaff, invoke, seedStore, staffAuth } from './helpers';
+
+const store = async () => {
+    const store = seedStore();
+    await invoke(createJoinHandler(store), { doctorName: 'Ravi', fromDate: '2030-01-15', patientName: 'Anil', phone: '9876543210' });
+    await invoke(createJoinHandler(store), { doctorName: 'Lakshmi', fromDate: '2030-01-15', patientName: 'Sita', phone: '9123456780' });
+    return store;
+};
+
+describe('adminListWaitlist', () => {
+    it('lists the open queue in order', async () => {
+        const res = await invoke(createHandler(await store(), staffAuth), undefined, 'GET', asStaff);
+
+        expect(res.statusCode).toBe(200);
+        expect(res.body.waitlist.map((w: { patientName: string; doctorName: string }) => [w.patientName, w.doctorName]))
+            .toEqual([['Anil', 'Dr. Ravi Kumar'], ['Sita', 'Dr. Lakshmi Reddy']]);
+    });
+
+    it('shows a doctor only their own queue', async () => {
+        const res = await invoke(createHandler(await store(), staffAuth), undefined, 'GET', asDoctor);
+        expect(res.body.waitlist.map((w: { patientName: string }) => w.patientName)).toEqual(['Anil']);
+    });
+
+    it('returns 401 without a staff token', async () => {
+        const res = await invoke(createHandler(await store(), staffAuth), undefined, 'GET');
+        expect(res.statusCode).toBe(401);
+    });
+});
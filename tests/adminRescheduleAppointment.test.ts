@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { createHandler } from '../netlify/functions/adminRescheduleAppointment';
+import { asStaff, confirmed, invoke, seedStore, staffAuth } from './helpers';
+
+describe('adminRescheduleAppointment', () => {
+    it('moves a confirmed booking', async () => {
+        const store = seedStore([confirmed()]);
+        const res = await invoke(createHandler(store, staffAuth), { appointmentId: 100, newDate: '2030-01-16', newTime: '11:00' }, 'POST', asStaff);
+
+        expect(res.statusCode).toBe(200);
+        expect(store.tables.appointments[0]).toMatchObject({ appointment_date: '2030-01-16', appointment_time: '11:00' });
+    });
+
+    it('returns 409 when a checked-in patient holds the new slot', async () => {
+        const store = seedStore([confirmed(), confirmed({ id: 101, appointment_time: '11:00', status: 'checked_in' })]);
+        const res = await invoke(createHandler(store, staffAuth), { appointmentId: 100, newDate: '2030-01-15', newTime: '11:00' }, 'POST', asStaff);
+
+        expect(res.statusCode).toBe(409);
+        expect(store.tables.appointments[0].appointment_time).toBe('10:00');
+    });
+
+    it('returns 401 without a staff token', async () => {
+        const res = await invoke(createHandler(seedStore([confirmed()]), staffAuth), { appointmentId: 100, newDate: '2030-01-16', newTime: '11:00' });
+        expect(res.statusCode).toBe(401);
+    });
+});
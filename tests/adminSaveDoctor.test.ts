@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { createHandler } from '../netlify/functions/adminSaveDoctor';
+import { asAdmin, asStaff, invoke, seedStore, staffAuth } from './helpers';
+
+const newDoctor = {
+    name: ' Dr. Anitha Rao ',
+    specialtyId: 2,
+    qualifications: 'MBBS, MD (Pediatrics)',
+    languages: ['Telugu', ' English', 'Telugu'],
+    consultationFee: 600,
+    availableSlots: ['11:30', '11:00'],
+};
+
+describe('adminSaveDoctor', () => {
+    it('adds a doctor under their specialty', async () => {
+        const store = seedStore();
+        const res = await invoke(createHandler(store, staffAuth), newDoctor, 'POST', asAdmin);
+
+        expect(res.statusCode).toBe(200);
+        expect(res.body.doctor).toEqual({
+            id: 4,
+            name: 'Dr. Anitha Rao',
+            specialty_id: 2,
+            specialty: 'Pediatrics',
+            qualifications: 'MBBS, MD (Pediatrics)',
+            languages: ['Telugu', 'English'],
+            consultation_fee: 600,
+            available_slots: ['11:00', '11:30'],
+            active: true,
+        });
+        expect(await store.doctors.search({ specialty: 'pediatrics' })).toHaveLength(2);
+    });
+
+    it('changes only the fields it is given', async () => {
+        const store = seedStore();
+        const res = await invoke(createHandler(store, staffAuth), { doctorId: 1, consultationFee: 900, specialtyId: 3 }, 'POST', asAdmin);
+
+        expect(res.statusCode).toBe(200);
+        expect(await store.doctors.findById(1)).toMatchObject({
+            name: 'Dr. Ravi Kumar',
+            specialty: 'Orthopedics',
+            consultation_fee: 900,
+            languages: ['Telugu', 'English'],
+        });
+    });
+
+    it('deactivates a doctor without deleting them', async () => {
+        const store = seedStore();
+        await invoke(createHandler(store, staffAuth), { doctorId: 3, active: false }, 'POST', asAdmin);
+
+        expect(await store.doctors.search({})).toHaveLength(2);
+        expect(await store.doctors.findById(3)).toMatchObject({ active: false });
+    });
+
+    it('returns 400 for bad fields or an unknown specialty', async () => {
+        const handler = createHandler(seedStore(), staffAuth);
+
+        expect((await invoke(handler, { ...newDoctor, availableSlots: ['9am'] }, 'POST', asAdmin)).body.message).toMatch(/availableSlots/);
+        expect((await invoke(handler, { ...newDoctor, consultationFee: -5 }, 'POST', asAdmin)).statusCode).toBe(400);
+        expect((await invoke(handler, { ...newDoctor, specialtyId: 99 }, 'POST', asAdmin)).body.message).toBe('There is no specialty 99.');
+        expect((await invoke(handler, { name: 'Dr. Nobody' }, 'POST', asAdmin)).body.message).toBe('A new doctor needs a name and a specialtyId.');
+    });
+
+    it('returns 404 for an unknown doctor', async () => {
+        const res = await invoke(createHandler(seedStore(), staffAuth), { doctorId: 99, active: false }, 'POST', asAdmin);
+        expect(res.statusCode).toBe(404);
+    });
+
+    it('is for admins only', async () => {
+        const res = await invoke(createHandler(seedStore(), staffAuth), newDoctor, 'POST', asStaff);
+        expect(res.statusCode).toBe(403);
+    });
+});
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { createHandler } from '../netlify/functions/adminSaveSpecialty';
+import { asAdmin, asDoctor, invoke, seedStore, staffAuth } from './helpers';
+
+describe('adminSaveSpecialty', () => {
+    it('adds a specialty with its Telugu name and synonyms', async () => {
+        const store = seedStore();
+        const res = await invoke(createHandler(store, staffAuth), { nameEn: 'Dermatology', nameTe: 'చర్మ వైద్యం', synonyms: ['skin', ' చర్మం ', ''] }, 'POST', asAdmin);
+
+        expect(res.statusCode).toBe(200);
+        expect(res.body.specialty).toEqual({ id: 4, name_en: 'Dermatology', name_te: 'చర్మ వైద్యం', synonyms: ['skin', 'చర్మం'] });
+    });
+
+    it('renames the specialty on its doctors', async () => {
+        const store = seedStore();
+        await invoke(createHandler(store, staffAuth), { specialtyId: 3, nameEn: 'Orthopaedics' }, 'POST', asAdmin);
+
+        expect(await store.doctors.findById(3)).toMatchObject({ specialty: 'Orthopaedics' });
+        expect(await store.specialties.findById(3)).toMatchObject({ name_te: 'ఎముకల వైద్యం', synonyms: ['bones', 'joints', 'ఎముకలు'] });
+    });
+
+    it('returns 409 for a name that differs from another only in case or spacing', async () => {
+        const res = await invoke(createHandler(seedStore(), staffAuth), { nameEn: 'cardiology ' }, 'POST', asAdmin);
+
+        expect(res.statusCode).toBe(409);
+        expect(res.body.message).toBe('A specialty named "cardiology" already exists.');
+    });
+
+    it('returns 400 without an English name and 404 for an unknown specialty', async () => {
+        const handler = createHandler(seedStore(), staffAuth);
+        expect((await invoke(handler, { nameTe: 'చర్మ వైద్యం' }, 'POST', asAdmin)).statusCode).toBe(400);
+        expect((await invoke(handler, { specialtyId: 99, nameEn: 'Dermatology' }, 'POST', asAdmin)).statusCode).toBe(404);
+    });
+
+    it('is for admins only', async () => {
+        const res = await invoke(createHandler(seedStore(), staffAuth), { nameEn: 'Dermatology' }, 'POST', asDoctor);
+        expect(res.statusCode).toBe(403);
+    });
+});
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { createHandler } from '../netlify/functions/adminUpdateAppointmentStatus';
+import { asDoctor, asStaff, confirmed, invoke, seedStore, staffAuth } from './helpers';
+
+describe('adminUpdateAppointmentStatus', () => {
+    it('checks a patient in and then completes the visit', async () => {
+        const store = seedStore([confirmed()]);
+        const handler = createHandler(store, staffAuth);
+
+        expect((await invoke(handler, { appointmentId: 100, status: 'checked_in' }, 'POST', asStaff)).body.status).toBe('checked_in');
+        expect((await invoke(handler, { appointmentId: 100, status: 'completed' }, 'POST', asStaff)).body.status).toBe('completed');
+        expect(store.tables.appointments[0].status).toBe('completed');
+    });
+
+    it('marks a no-show, freeing the slot', async () => {
+        const store = seedStore([confirmed()]);
+        const res = await invoke(createHandler(store, staffAuth), { appointmentId: 100, status: 'no_show' }, 'POST', asStaff);
+
+        expect(res.statusCode).toBe(200);
+        expect(await store.appointments.listTakenTimes(1, '2030-01-15')).toEqual([]);
+    });
+
+    it('lets a doctor update their own patients only', async () => {
+        const store = seedStore([confirmed({ status: 'checked_in' }), confirmed({ id: 101, doctor_id: 2, status: 'checked_in' })]);
+        const handler = createHandler(store, staffAuth);
+
+        expect((await invoke(handler, { appointmentId: 100, status: 'completed' }, 'POST', asDoctor)).statusCode).toBe(200);
+        expect((await invoke(handler, { appointmentId: 101, status: 'completed' }, 'POST', asDoctor)).statusCode).toBe(404);
+        expect(store.tables.appointments.map(a => a.status)).toEqual(['completed', 'checked_in']);
+    });
+
+    it('returns 409 for a transition the lifecycle does not allow', async () => {
+        const store = seedStore([confirmed({ status: 'cancelled' })]);
+        const res = await invoke(createHandler(store, staffAuth), { appointmentId: 100, status: 'checked_in' }, 'POST', asStaff);
+
+        expect(res.statusCode).toBe(409);
+        expect(store.tables.appointments[0].status).toBe('cancelled');
+    });
+
+    it('returns 400 for a status staff cannot set', async () => {
+        const res = await invoke(createHandler(seedStore([confirmed()]), staffAuth), { appointmentId: 100, status: 'cancelled' }, 'POST', asStaff);
+        expect(res.statusCode).toBe(400);
+    });
+
+    it('returns 401 without a staff token', async () => {
+        const res = await invoke(createHandler(seedStore([confirmed()]), staffAuth), { appointmentId: 100, status: 'checked_in' });
+        expect(res.statusCode).toBe(401);
+    });
+});
@@ -0,0 +1,147 @@
+import { describe, expect, it } from 'vitest';
+import { buildReport, datesBetween, reportSheets } from '../netlify/functions/lib/analytics';
+import { createMemoryStore } from '../netlify/functions/lib/data/memoryStore';
+import type { ActorType, AppointmentEvent, AppointmentStatus } from '../netlify/functions/lib/data/types';
+import { confirmed, doctors, patients } from './helpers';
+
+const event = (id: number, appointmentId: number, status: AppointmentStatus, actor: ActorType, at: string): AppointmentEvent => ({
+    id,
+    appointment_id: appointmentId,
+    action: status === 'held' ? 'created' : 'status_changed',
+    actor_type: actor,
+    actor_id: null,
+    actor_name: null,
+    channel: actor === 'staff' ? 'dashboard' : 'web',
+    before: null,
+    after: { doctor_id: 1, patient_name: 'Anil', phone: '+919876543210', appointment_date: '2030-01-15', appointment_time: '10:00', status },
+    created_at: at,
+});
+
+// Two days; Dr. Srinivas Reddy is on leave on the second
+const store = () => createMemoryStore({
+    doctors,
+    patients,
+    doctor_leave: [{ doctor_id: 3, start_date: '2030-01-15', end_date: '2030-01-20', reason: null }],
+    appointments: [
+        confirmed({ id: 1, appointment_time: '10:00' }),
+        confirmed({ id: 2, appointment_time: '10:30', status: 'cancelled' }),
+        confirmed({ id: 3, appointment_time: '11:00', status: 'completed' }),
+        confirmed({ id: 4, doctor_id: 2, appointment_time: '09:00', status: 'no_show' }),
+        confirmed({ id: 5, doctor_id: 2, appointment_time: '09:30', status: 'held', hold_expires_at: '2999-01-01T00:00:00Z' }),
+        confirmed({ id: 6, appointment_date: '2030-01-16' }),
+    ],
+    appointment_events: [
+        // Held by the assistant, then confirmed by it; the confirmation is the booking
+        event(1, 1, 'held', 'assistant', '2030-01-09T05:00:00Z'),
+        event(2, 1, 'confirmed', 'assistant', '2030-01-10T05:00:00Z'),
+        event(3, 2, 'confirmed', 'staff', '2030-01-14T05:00:00Z'),
+        event(4, 2, 'cancelled', 'assistant', '2030-01-14T06:00:00Z'),
+        event(5, 4, 'confirmed', 'assistant', '2030-01-13T05:00:00Z'),
+        // 20:00 UTC is already the 15th in India: a same-day booking
+        event(6, 6, 'confirmed', 'staff', '2030-01-15T20:00:00Z'),
+    ],
+});
+
+describe('buildReport', () => {
+    it('measures utilisation, cancellations, no-shows, lead time and who booked', async () => {
+        const report = await buildReport(store(), { from: '2030-01-14', to: '2030-01-15' });
+
+        expect(report.summary).toEqual({
+            offeredSlots: 11,
+            bookings: 4,
+            cancelled: 1,
+            noShows: 1,
+            attended: 1,
+            bookedBy: { assistant: 2, staff: 1, system: 0, unknown: 1 },
+            leadDaysTotal: 8,
+            utilisation: 0.273,
+            cancellationRate: 0.25,
+            noShowRate: 0.5,
+            averageLeadDays: 2.7,
+            assistantShare: 0.667,
+            staffShare: 0.333,
+        });
+    });
+
+    it('breaks the figures down by doctor, specialty and day', async () => {
+        const report = await buildReport(store(), { from: '2030-01-14', to: '2030-01-15' });
+
+        expect(report.doctors.map(d => [d.doctorName, d.offeredSlots, d.bookings])).toEqual([
+            ['Dr. Ravi Kumar', 6, 3],
+            ['Dr. Lakshmi Reddy', 4, 1],
+            ['Dr. Srinivas Reddy', 1, 0],
+        ]);
+        expect(report.specialties.map(s => [s.specialty, s.utilisation])).toEqual([
+            ['Cardiology', 0.333],
+            ['Orthopedics', 0],
+            ['Pediatrics', 0.25],
+        ]);
+        expect(report.daily.map(d => [d.date, d.offeredSlots, d.bookings])).toEqual([
+            ['2030-01-14', 6, 0],
+            ['2030-01-15', 5, 4],
+        ]);
+        // Dr. Srinivas Reddy's day of leave had neither slots nor bookings
+        expect(report.detail.map(d => [d.date, d.doctorId])).toEqual([
+            ['2030-01-14', 1], ['2030-01-14', 2], ['2030-01-14', 3],
+            ['2030-01-15', 1], ['2030-01-15', 2],
+        ]);
+    });
+
+    it('counts lead time in days on the hospital\'s calendar', async () => {
+        const report = await buildReport(store(), { from: '2030-01-16', to: '2030-01-16' });
+        expect(report.summary).toMatchObject({ bookings: 1, leadDaysTotal: 0, averageLeadDays: 0, staffShare: 1 });
+    });
+
+    it('counts a walk-in as booked by the staff who checked the patient in', async () => {
+        const walkIns = createMemoryStore({
+            doctors,
+            patients,
+            appointments: [confirmed({ id: 7, appointment_date: '2030-01-16', status: 'checked_in' })],
+            appointment_events: [{ ...event(7, 7, 'checked_in', 'staff', '2030-01-16T04:00:00Z'), action: 'created' }],
+        });
+        const report = await buildReport(walkIns, { from: '2030-01-16', to: '2030-01-16' });
+
+        expect(report.summary).toMatchObject({ bookings: 1, attended: 1, bookedBy: { assistant: 0, staff: 1, system: 0, unknown: 0 }, leadDaysTotal: 0, staffShare: 1 });
+    });
+
+    it('offers no slots for a deactivated doctor', async () => {
+        const withInactive = createMemoryStore({ doctors: doctors.map(d => d.id === 3 ? { ...d, active: false } : d), patients });
+        const report = await buildReport(withInactive, { from: '2030-01-14', to: '2030-01-14' });
+
+        expect(report.doctors.map(d => [d.doctorName, d.offeredSlots])).toEqual([
+            ['Dr. Ravi Kumar', 3],
+            ['Dr. Lakshmi Reddy', 2],
+            ['Dr. Srinivas Reddy', 0],
+        ]);
+    });
+
+    it('reports one doctor alone', async () => {
+        const report = await buildReport(store(), { from: '2030-01-14', to: '2030-01-15', doctorId: 2 });
+
+        expect(report.doctors.map(d => d.doctorId)).toEqual([2]);
+        expect(report.summary).toMatchObject({ offeredSlots: 4, bookings: 1, noShows: 1 });
+    });
+
+    it('leaves rates empty rather than zero when there is nothing to divide', async () => {
+        const report = await buildReport(store(), { from: '2030-01-20', to: '2030-01-20' });
+        expect(report.summary).toMatchObject({ bookings: 0, cancellationRate: null, noShowRate: null, averageLeadDays: null, assistantShare: null });
+    });
+});
+
+describe('reportSheets', () => {
+    it('lays the report out as a summary, the breakdowns and the detail', async () => {
+        const sheets = reportSheets(await buildReport(store(), { from: '2030-01-14', to: '2030-01-15' }));
+
+        expect(sheets.map(s => s.name)).toEqual(['Summary', 'Doctors', 'Specialties', 'Daily', 'Detail']);
+        const [header, first] = sheets[4].rows;
+        expect(header.slice(0, 5)).toEqual(['Date', 'Doctor', 'Specialty', 'Offered slots', 'Bookings']);
+        expect(first.slice(0, 5)).toEqual(['2030-01-14', 'Dr. Ravi Kumar', 'Cardiology', 3, 0]);
+        expect(first).toHaveLength(header.length);
+    });
+});
+
+describe('datesBetween', () => {
+    it('lists every date in the range, across month ends', () => {
+        expect(datesBetween('2030-01-30', '2030-02-02')).toEqual(['2030-01-30', '2030-01-31', '2030-02-01', '2030-02-02']);
+    });
+});
@@ -0,0 +1,68 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { HandlerContext, HandlerEvent, HandlerResponse } from '@netlify/functions';
+import { createHandler } from '../netlify/functions/appointmentCalendar';
+import { createHandler as createCancel } from '../netlify/functions/cancelAppointment';
+import { appointmentCalendarUrl } from '../netlify/functions/lib/calendar';
+import type { DataStore } from '../netlify/functions/lib/data';
+import { confirmed, invoke, seedStore } from './helpers';
+
+const fetchCalendar = async (store: DataStore, query: Record<string, string>) =>
+    await createHandler(store)({ httpMethod: 'GET', headers: {}, queryStringParameters: query } as unknown as HandlerEvent, {} as HandlerContext) as HandlerResponse;
+
+const signedQuery = (appointmentId: number) =>
+    Object.fromEntries(new URL(appointmentCalendarUrl(appointmentId) as string, 'http://localhost').searchParams);
+
+describe('appointmentCalendar', () => {
+    beforeEach(() => {
+        vi.stubEnv('CALENDAR_SECRET', 'calendar-secret');
+    });
+
+    afterEach(() => {
+        vi.unstubAllEnvs();
+    });
+
+    it('serves the patient\'s booking as an .ics attachment', async () => {
+        const store = seedStore([confirmed()]);
+        const res = await fetchCalendar(store, signedQuery(100));
+
+        expect(res.statusCode).toBe(200);
+        expect(res.headers?.['Content-Type']).toBe('text/calendar; charset=utf-8');
+        expect(res.headers?.['Content-Disposition']).toBe('attachment; filename="appointment-100.ics"');
+        expect(res.body).toContain('DTSTART;TZID=Asia/Kolkata:20300115T100000\r\n');
+        expect(res.body).toContain('DTEND;TZID=Asia/Kolkata:20300115T101500\r\n');
+        expect(res.body).toContain('SEQUENCE:0\r\nSTATUS:CONFIRMED\r\n');
+        expect(res.body).toContain('SUMMARY:Dr. Ravi Kumar (Cardiology) - Prudence Hospitals\r\n');
+    });
+
+    it('takes the visit length from the doctor\'s weekly session', async () => {
+        const store = seedStore([confirmed()]);
+        store.tables.doctor_schedules.push({ doctor_id: 1, weekday: 2, start_time: '09:00', end_time: '13:00', slot_minutes: 30, breaks: [] });
+        const res = await fetchCalendar(store, signedQuery(100));
+
+        expect(res.body).toContain('DTEND;TZID=Asia/Kolkata:20300115T103000\r\n');
+    });
+
+    it('marks the event cancelled, with a higher sequence, once the booking is cancelled', async () => {
+        const store = seedStore([confirmed()]);
+        const cancelled = await invoke(createCancel(store), { appointmentId: 100, phone: '9876543210' });
+        expect(cancelled.body.calendarUrl).toBe(appointmentCalendarUrl(100));
+
+        const res = await fetchCalendar(store, signedQuery(100));
+
+        expect(res.statusCode).toBe(200);
+        expect(res.body).toContain('SEQUENCE:1\r\nSTATUS:CANCELLED\r\n');
+    });
+
+    it('returns 404 for a hold that was never confirmed', async () => {
+        const store = seedStore([confirmed({ status: 'held', hold_expires_at: '2030-01-10T10:00:00Z' })]);
+        expect((await fetchCalendar(store, signedQuery(100))).statusCode).toBe(404);
+    });
+
+    it('refuses links it did not sign', async () => {
+        const store = seedStore([confirmed(), confirmed({ id: 101, appointment_time: '10:30' })]);
+        const query = signedQuery(100);
+
+        expect((await fetchCalendar(store, { ...query, appointment: '101' })).statusCode).toBe(403);
+        expect((await fetchCalendar(store, { appointment: '100' })).statusCode).toBe(403);
+    });
+});
@@ -0,0 +1,34 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { describe, expect, it } from 'vitest';
+import { createSupabaseAuthenticator } from '../netlify/functions/lib/auth';
+import { createMemoryStore } from '../netlify/functions/lib/data/memoryStore';
+
+// Stands in for Supabase Auth: 'good-token' belongs to user-1 or user-2
+const authClient = {
+    auth: {
+        async getUser(token: string) {
+            const id = { 'good-token': 'user-1', 'other-token': 'user-2' }[token];
+            return id ? { data: { user: { id } }, error: null } : { data: { user: null }, error: new Error('invalid JWT') };
+        },
+    },
+} as unknown as SupabaseClient;
+
+const store = createMemoryStore({
+    staff: [{ user_id: 'user-1', email: 'ravi@prudence.example', name: 'Dr. Ravi Kumar', role: 'doctor', doctor_id: 1 }],
+});
+
+describe('createSupabaseAuthenticator', () => {
+    const authenticate = createSupabaseAuthenticator(authClient, store.staff);
+
+    it('returns the staff member behind a valid token', async () => {
+        expect(await authenticate('good-token')).toEqual({ id: 'user-1', email: 'ravi@prudence.example', name: 'Dr. Ravi Kumar', role: 'doctor', doctorId: 1 });
+    });
+
+    it('rejects signed-in users who are not staff', async () => {
+        expect(await authenticate('other-token')).toBeNull();
+    });
+
+    it('rejects invalid tokens', async () => {
+        expect(await authenticate('forged')).toBeNull();
+    });
+});
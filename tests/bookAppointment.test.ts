@@ -0,0 +1,205 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createHandler } from '../netlify/functions/bookAppointment';
+import { createHandler as createHoldHandler } from '../netlify/functions/holdSlot';
+import { appointmentCalendarUrl } from '../netlify/functions/lib/calendar';
+import { createNotifier } from '../netlify/functions/lib/notifications';
+import { confirmed, invoke, recordingProvider, seedStore } from './helpers';
+
+const booking = { doctorName: 'Ravi', patientName: 'Sita', phone: '9123456780', date: '2030-01-15', time: '10:30' };
+
+describe('bookAppointment', () => {
+    afterEach(() => {
+        vi.unstubAllEnvs();
+    });
+
+    it('books a free slot', async () => {
+        const store = seedStore();
+        const res = await invoke(createHandler(store), booking);
+
+        expect(res.statusCode).toBe(200);
+        expect(res.body.success).toBe(true);
+        expect(store.tables.appointments).toMatchObject([
+            { id: res.body.appointmentId, doctor_id: 1, patient_name: 'Sita', phone: '+919123456780', appointment_date: '2030-01-15', appointment_time: '10:30', status: 'confirmed' },
+        ]);
+    });
+
+    it('texts the patient a confirmation and records the delivery', async () => {
+        const store = seedStore();
+        const { provider, sent } = recordingProvider();
+        const res = await invoke(createHandler(store, createNotifier(store, provider, 'te')), booking);
+
+        expect(sent).toEqual([{
+            to: '+919123456780',
+            body: `Sita గారు, Prudence Hospitals లో Dr. Ravi Kumar గారితో మీ అపాయింట్‌మెంట్ 15-01-2030 న 10:30 కి ఖరారైంది. అపాయింట్‌మెంట్ నంబర్: ${res.body.appointmentId}.`,
+        }]);
+        expect(store.tables.appointment_notifications).toMatchObject([
+            { appointment_id: res.body.appointmentId, kind: 'confirmation', channel: 'test', status: 'sent', provider_message_id: 'msg-1' },
+        ]);
+    });
+
+    it('still books when the confirmation cannot be delivered', async () => {
+        const store = seedStore();
+        const { provider } = recordingProvider('gateway down');
+        const res = await invoke(createHandler(store, createNotifier(store, provider)), booking);
+
+        expect(res.statusCode).toBe(200);
+        expect(store.tables.appointment_notifications).toMatchObject([{ status: 'failed', error: 'gateway down' }]);
+    });
+
+    it('files the booking under an existing family member', async () => {
+        const store = seedStore();
+        await invoke(createHandler(store), { ...booking, patientName: 'kamala', phone: '9876543210' });
+
+        expect(store.tables.patients).toHaveLength(2);
+        expect(store.tables.appointments[0]).toMatchObject({ patient_id: 2, patient_name: 'Kamala' });
+    });
+
+    it('returns 400 for an invalid phone number', async () => {
+        const res = await invoke(createHandler(seedStore()), { ...booking, phone: '12345' });
+        expect(res.statusCode).toBe(400);
+        expect(res.body).toMatchObject({ code: 'INVALID_PHONE', field: 'phone' });
+    });
+
+    it('rejects a time the doctor does not offer', async () => {
+        const store = seedStore();
+        const res = await invoke(createHandler(store), { ...booking, time: '10:15' });
+
+        expect(res.statusCode).toBe(400);
+        expect(res.body).toMatchObject({ code: 'SLOT_NOT_OFFERED', field: 'time' });
+        expect(res.body.message).toContain('10:00, 10:30, 11:00');
+        expect(store.tables.appointments).toEqual([]);
+    });
+
+    it('returns 404 for an unknown doctor', async () => {
+        const res = await invoke(createHandler(seedStore()), { ...booking, doctorName: 'Nobody' });
+        expect(res.statusCode).toBe(404);
+    });
+
+    it('asks which doctor was meant when the name matches several', async () => {
+        const store = seedStore();
+        const res = await invoke(createHandler(store), { ...booking, doctorName: 'Dr. Reddy' });
+
+        expect(res.statusCode).toBe(409);
+        expect(res.body.code).toBe('AMBIGUOUS_DOCTOR');
+        expect(res.body.candidates.map((c: { name: string }) => c.name)).toEqual(['Dr. Lakshmi Reddy', 'Dr. Srinivas Reddy']);
+        expect(store.tables.appointments).toHaveLength(0);
+    });
+
+    it('returns 409 when the slot is already confirmed', async () => {
+        const store = seedStore([confirmed({ appointment_time: '10:30' })]);
+        const res = await invoke(createHandler(store), booking);
+
+        expect(res.statusCode).toBe(409);
+        expect(store.tables.appointments).toHaveLength(1);
+    });
+
+    it('returns 409 when a checked-in patient has the slot', async () => {
+        const store = seedStore([confirmed({ appointment_time: '10:30', status: 'checked_in' })]);
+        const res = await invoke(createHandler(store), booking);
+        expect(res.statusCode).toBe(409);
+    });
+
+    it('lets only one of two concurrent bookings win', async () => {
+        const store = seedStore();
+        const book = createHandler(store);
+        const results = await Promise.all([
+            invoke(book, booking),
+            invoke(book, { ...booking, patientName: 'Gita' }),
+        ]);
+
+        expect(results.map(r => r.statusCode).sort()).toEqual([200, 409]);
+        expect(store.tables.appointments).toHaveLength(1);
+    });
+
+    it('confirms a held slot', async () => {
+        const store = seedStore();
+        const hold = await invoke(createHoldHandler(store), { doctorName: 'Ravi', date: '2030-01-15', time: '10:30' });
+        const res = await invoke(createHandler(store), { holdId: hold.body.holdId, patientName: 'Sita', phone: '9123456780' });
+
+        expect(res.statusCode).toBe(200);
+        expect(store.tables.appointments).toMatchObject([{ patient_id: 3, patient_name: 'Sita', status: 'confirmed', hold_expires_at: null }]);
+    });
+
+    it('links the patient\'s calendar file when calendar links are on', async () => {
+        const store = seedStore();
+        expect((await invoke(createHandler(store), booking)).body.calendarUrl).toBeUndefined();
+
+        vi.stubEnv('CALENDAR_SECRET', 'calendar-secret');
+        const hold = await invoke(createHoldHandler(store), { doctorName: 'Ravi', date: '2030-01-15', time: '11:00' });
+        const res = await invoke(createHandler(store), { holdId: hold.body.holdId, patientName: 'Sita', phone: '9123456780' });
+
+        expect(res.body.calendarUrl).toBe(appointmentCalendarUrl(res.body.appointmentId));
+    });
+
+    it('returns 410 for an expired hold', async () => {
+        const store = seedStore([confirmed({ status: 'held', patient_name: null, hold_expires_at: '2000-01-01T00:00:00Z' })]);
+        const res = await invoke(createHandler(store), { holdId: 100, patientName: 'Sita', phone: '9123456780' });
+
+        expect(res.statusCode).toBe(410);
+        expect(store.tables.patients.map(p => p.phone)).not.toContain('+919123456780');
+    });
+
+    it('accepts the held slot repeated alongside the holdId', async () => {
+        const store = seedStore();
+        const hold = await invoke(createHoldHandler(store), { doctorName: 'Ravi', date: '2030-01-15', time: '10:30' });
+        const res = await invoke(createHandler(store), { ...booking, holdId: hold.body.holdId });
+
+        expect(res.statusCode).toBe(200);
+    });
+
+    it('rejects a holdId for a different slot than the one named, before creating the patient', async () => {
+        const store = seedStore();
+        const hold = await invoke(createHoldHandler(store), { doctorName: 'Ravi', date: '2030-01-15', time: '10:30' });
+
+        for (const [field, value] of [['doctorName', 'Lakshmi'], ['date', '2030-01-16'], ['time', '11:00']]) {
+            const res = await invoke(createHandler(store), { ...booking, holdId: hold.body.holdId, [field]: value });
+
+            expect(res.statusCode).toBe(400);
+            expect(res.body).toMatchObject({ code: 'SLOT_NOT_OFFERED', field });
+        }
+        expect(store.tables.appointments).toMatchObject([{ status: 'held', patient_id: null }]);
+        expect(store.tables.patients.map(p => p.phone)).not.toContain('+919123456780');
+    });
+
+    it('returns 409 when another caller holds the slot', async () => {
+        const store = seedStore();
+        await invoke(createHoldHandler(store), { doctorName: 'Ravi', date: '2030-01-15', time: '10:30' });
+        const res = await invoke(createHandler(store), booking);
+
+        expect(res.statusCode).toBe(409);
+    });
+
+    it('links the booking to the conversation that made it', async () => {
+        const store = seedStore();
+        const sessionId = '6f1c2d3e-4b5a-4c6d-8e7f-901a2b3c4d5e';
+        await invoke(createHandler(store), booking, 'POST', { headers: { 'x-session-id': sessionId } });
+
+        expect(store.tables.appointments[0].session_id).toBe(sessionId);
+    });
+
+    it('audits the booking as the assistant session on its channel', async () => {
+        const store = seedStore();
+        const session = await store.sessions.create('web');
+        await invoke(createHandler(store), booking, 'POST', { headers: { 'x-session-id': session.id } });
+
+        expect(store.tables.appointment_events).toMatchObject([{
+            action: 'created',
+            actor_type: 'assistant',
+            actor_id: session.id,
+            channel: 'web',
+            before: null,
+            after: { patient_name: 'Sita', status: 'confirmed' },
+        }]);
+    });
+
+    it('asks for the slot when there is no hold', async () => {
+        const res = await invoke(createHandler(seedStore()), { ...booking, date: undefined });
+        expect(res.statusCode).toBe(400);
+        expect(res.body).toMatchObject({ code: 'MISSING_FIELD', field: 'date' });
+    });
+
+    it('returns 400 when details are missing', async () => {
+        const res = await invoke(createHandler(seedStore()), { doctorName: 'Ravi' });
+        expect(res.statusCode).toBe(400);
+    });
+});
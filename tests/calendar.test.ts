@@ -0,0 +1,173 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+    appointmentCalendarUrl, calendarUrlsIn, doctorCalendarUrl, doctorEvent, escapeText, foldLine, isSignedCalendar,
+    patientEvent, toICalendar, visitMinutes, type CalendarEvent
+} from '../netlify/functions/lib/calendar';
+import type { AppointmentEvent, AppointmentListing, AppointmentSnapshot, AppointmentSummary } from '../netlify/functions/lib/data/types';
+
+const now = new Date('2030-01-10T06:30:00Z');
+
+const visit: CalendarEvent = {
+    uid: 'appointment-100@sahay.prudence-hospitals',
+    sequence: 0,
+    status: 'CONFIRMED',
+    date: '2030-01-15',
+    time: '10:00',
+    minutes: 15,
+    summary: 'Dr. Ravi Kumar (Cardiology) - Prudence Hospitals',
+    description: 'Appointment no: 100.',
+};
+
+const summary: AppointmentSummary = {
+    id: 100, patient_name: 'Anil', phone: '+919876543210', doctor_name: 'Dr. Ravi Kumar',
+    specialty: 'Cardiology', appointment_date: '2030-01-15', appointment_time: '10:00',
+};
+
+const change = (action: AppointmentEvent['action'], status: AppointmentSnapshot['status']) =>
+    ({ action, after: { status } }) as AppointmentEvent;
+
+const unfold = (ics: string) => ics.replace(/\r\n /g, '');
+
+describe('toICalendar', () => {
+    it('writes a CRLF-terminated VCALENDAR with one VEVENT in the hospital timezone', () => {
+        const ics = toICalendar([visit], { now });
+
+        expect(ics.endsWith('\r\n')).toBe(true);
+        expect(ics.replace(/\r\n/g, '')).not.toMatch(/[\r\n]/);
+        expect(ics.split('\r\n').slice(0, 5)).toEqual(['BEGIN:VCALENDAR', 'VERSION:2.0', 'PRODID:-//Prudence Hospitals//Sahay//EN', 'CALSCALE:GREGORIAN', 'METHOD:PUBLISH']);
+        expect(ics).toContain('BEGIN:VTIMEZONE\r\nTZID:Asia/Kolkata\r\nBEGIN:STANDARD\r\nDTSTART:19700101T000000\r\nTZOFFSETFROM:+0530\r\nTZOFFSETTO:+0530\r\nEND:STANDARD\r\nEND:VTIMEZONE\r\n');
+        expect(ics).toContain('UID:appointment-100@sahay.prudence-hospitals\r\n');
+        expect(ics).toContain('DTSTAMP:20300110T063000Z\r\n');
+        expect(ics).toContain('DTSTART;TZID=Asia/Kolkata:20300115T100000\r\n');
+        expect(ics).toContain('DTEND;TZID=Asia/Kolkata:20300115T101500\r\n');
+        expect(ics).toContain('SEQUENCE:0\r\nSTATUS:CONFIRMED\r\n');
+        expect(ics).toContain('LOCATION:Prudence Hospitals\r\n');
+        expect(ics.match(/BEGIN:VEVENT/g)).toHaveLength(1);
+    });
+
+    it('ends a visit that runs past midnight on the next day', () => {
+        const ics = toICalendar([{ ...visit, time: '23:50', minutes: 20 }], { now });
+        expect(ics).toContain('DTEND;TZID=Asia/Kolkata:20300116T001000\r\n');
+    });
+
+    it('escapes TEXT values and names the feed', () => {
+        const ics = unfold(toICalendar([{ ...visit, summary: 'Rao, K; B\\C', description: 'Line one\nLine two' }], { name: 'Dr. Ravi Kumar - Prudence Hospitals', now }));
+
+        expect(ics).toContain('SUMMARY:Rao\\, K\\; B\\\\C\r\n');
+        expect(ics).toContain('DESCRIPTION:Line one\\nLine two\r\n');
+        expect(ics).toContain('X-WR-CALNAME:Dr. Ravi Kumar - Prudence Hospitals\r\n');
+    });
+
+    it('is an empty calendar when there are no events', () => {
+        expect(toICalendar([], { now })).not.toContain('BEGIN:VEVENT');
+    });
+});
+
+describe('escapeText', () => {
+    it('escapes backslashes before the characters it adds them for', () => {
+        expect(escapeText('a\\b;c,d\r\ne')).toBe('a\\\\b\\;c\\,d\\ne');
+    });
+});
+
+describe('foldLine', () => {
+    it('leaves lines of 75 octets alone', () => {
+        const line = `SUMMARY:${'x'.repeat(67)}`;
+        expect(foldLine(line)).toBe(line);
+    });
+
+    it('folds longer lines at 75 octets without splitting a Telugu character', () => {
+        const line = `SUMMARY:${'అనిల్ కుమార్ '.repeat(10)}`;
+        const folded = foldLine(line);
+        const lines = folded.split('\r\n');
+
+        expect(lines.length).toBeGreaterThan(1);
+        for (const part of lines) expect(Buffer.byteLength(part)).toBeLessThanOrEqual(75);
+        expect(lines.slice(1).every(part => part.startsWith(' '))).toBe(true);
+        expect(folded.replace(/\r\n /g, '')).toBe(line);
+        expect(folded).not.toContain('�');
+    });
+});
+
+describe('visitMinutes', () => {
+    const sessions = [{ doctor_id: 1, weekday: 2, start_time: '09:00', end_time: '13:00', slot_minutes: 20, breaks: [] }];
+
+    it('is the slot length of the session the visit falls in', () => {
+        expect(visitMinutes(sessions, '2030-01-15', '10:00')).toBe(20);
+    });
+
+    it('falls back to 15 minutes outside any session', () => {
+        expect(visitMinutes(sessions, '2030-01-16', '10:00')).toBe(15);
+        expect(visitMinutes(sessions, '2030-01-15', '13:00')).toBe(15);
+        expect(visitMinutes([], '2030-01-15', '10:00')).toBe(15);
+    });
+});
+
+describe('patientEvent', () => {
+    it('raises the sequence for each reschedule or cancellation only', () => {
+        const booked = [change('created', 'held'), change('status_changed', 'confirmed')];
+        expect(patientEvent(summary, booked, false, 15)).toMatchObject({ sequence: 0, status: 'CONFIRMED' });
+
+        const moved = [...booked, change('rescheduled', 'confirmed'), change('status_changed', 'cancelled')];
+        expect(patientEvent(summary, moved, true, 15)).toMatchObject({ sequence: 2, status: 'CANCELLED' });
+    });
+
+    it('names the doctor, specialty and patient', () => {
+        expect(patientEvent(summary, [], false, 15)).toMatchObject({
+            summary: 'Dr. Ravi Kumar (Cardiology) - Prudence Hospitals',
+            description: 'Appointment no: 100 for Anil. Please arrive 15 minutes early.',
+        });
+    });
+});
+
+describe('doctorEvent', () => {
+    const listing = (status: AppointmentListing['status']): AppointmentListing => ({ ...summary, doctor_id: 1, status, session_id: null });
+    const booked = [change('created', 'confirmed')];
+
+    it('shows visits under way or done as confirmed', () => {
+        expect(doctorEvent(listing('checked_in'), [...booked, change('status_changed', 'checked_in')], 15)).toMatchObject({ sequence: 0, status: 'CONFIRMED' });
+        expect(doctorEvent(listing('completed'), booked, 15)).toMatchObject({ status: 'CONFIRMED' });
+    });
+
+    it('cancels a no-show, with a higher sequence', () => {
+        expect(doctorEvent(listing('no_show'), [...booked, change('status_changed', 'no_show')], 15)).toMatchObject({ sequence: 1, status: 'CANCELLED' });
+    });
+});
+
+describe('calendar links', () => {
+    afterEach(() => {
+        vi.unstubAllEnvs();
+    });
+
+    const tokenOf = (url: string) => new URL(url, 'http://localhost').searchParams.get('token') || undefined;
+
+    it('are signed per appointment and per doctor', () => {
+        vi.stubEnv('CALENDAR_SECRET', 'calendar-secret');
+        const url = appointmentCalendarUrl(100) as string;
+
+        expect(url).toMatch(/^\/\.netlify\/functions\/appointmentCalendar\?appointment=100&token=/);
+        expect(isSignedCalendar('appointment:100', tokenOf(url))).toBe(true);
+        expect(isSignedCalendar('appointment:101', tokenOf(url))).toBe(false);
+        expect(isSignedCalendar('doctor:100', tokenOf(url))).toBe(false);
+        expect(isSignedCalendar('doctor:1', tokenOf(doctorCalendarUrl(1) as string))).toBe(true);
+    });
+
+    it('are neither handed out nor accepted without CALENDAR_SECRET', () => {
+        vi.stubEnv('CALENDAR_SECRET', 'calendar-secret');
+        const token = tokenOf(appointmentCalendarUrl(100) as string);
+        vi.stubEnv('CALENDAR_SECRET', '');
+
+        expect(appointmentCalendarUrl(100)).toBeUndefined();
+        expect(doctorCalendarUrl(1)).toBeUndefined();
+        expect(isSignedCalendar('appointment:100', token)).toBe(false);
+    });
+
+    it('are collected once each from an exchange\'s tool results', () => {
+        expect(calendarUrlsIn([
+            { role: 'user', text: 'book it' },
+            { role: 'tool', tool_name: 'bookAppointment', tool_args: {}, tool_result: { success: true, calendarUrl: '/a' } },
+            { role: 'tool', tool_name: 'getPatientAppointments', tool_args: {}, tool_result: { success: true } },
+            { role: 'tool', tool_name: 'rescheduleAppointment', tool_args: {}, tool_result: { success: true, calendarUrl: '/a' } },
+            { role: 'model', text: 'Done' },
+        ])).toEqual(['/a']);
+    });
+});
@@ -0,0 +1,69 @@
+import type { Handler, HandlerContext, HandlerEvent, HandlerResponse } from '@netlify/functions';
+
+/** What the caller experiences after one webhook request. */
+export interface CallStep {
+    statusCode: number;
+    /** Everything spoken, in order; played audio is read back from its signed URL's text. */
+    heard: string[];
+    /** Whether the line waits for an answer, and how many keys end it. */
+    listening: boolean;
+    numDigits: number | null;
+    transferredTo: string | null;
+    hungUp: boolean;
+    twiml: string;
+}
+
+const unescapeXml = (text: string) =>
+    text.replace(/&quot;/g, '"').replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&amp;/g, '&');
+
+const readTwiml = (response: HandlerResponse): CallStep => {
+    const twiml = response.body || '';
+    const heard = [...twiml.matchAll(/<(Say|Play)[^>]*>(.*?)<\/\1>/g)].map(([, verb, content]) =>
+        verb === 'Say'
+            ? unescapeXml(content)
+            : new URL(unescapeXml(content), 'http://localhost').searchParams.get('text') || ''
+    );
+    const gather = /<Gather[^>]*>/.exec(twiml);
+    const digits = gather && /numDigits="(\d+)"/.exec(gather[0]);
+    const dial = /<Dial>(.*?)<\/Dial>/.exec(twiml);
+
+    return {
+        statusCode: response.statusCode,
+        heard,
+        listening: !!gather,
+        numDigits: digits ? Number(digits[1]) : null,
+        transferredTo: dial ? unescapeXml(dial[1]) : null,
+        hungUp: twiml.includes('<Hangup/>'),
+        twiml,
+    };
+};
+
+/**
+ * Plays the telephony provider against the voice webhook, one request per turn,
+ * the way Twilio posts them: form fields keyed by CallSid.
+ */
+export const createCallDriver = (handler: Handler, { callId = 'CA0001', caller = '+919876543210' } = {}) => {
+    const post = async (fields: Record<string, string>) => {
+        const event = {
+            rawUrl: '/.netlify/functions/voiceCall',
+            rawQuery: '',
+            path: '/.netlify/functions/voiceCall',
+            httpMethod: 'POST',
+            headers: { 'content-type': 'application/x-www-form-urlencoded' },
+            multiValueHeaders: {},
+            queryStringParameters: { token: process.env.VOICE_WEBHOOK_TOKEN || '' },
+            multiValueQueryStringParameters: null,
+            body: new URLSearchParams({ CallSid: callId, From: caller, ...fields }).toString(),
+            isBase64Encoded: false,
+        } as HandlerEvent;
+        return readTwiml(await handler(event, {} as HandlerContext) as HandlerResponse);
+    };
+
+    return {
+        dial: () => post({ CallStatus: 'ringing' }),
+        say: (speech: string) => post({ CallStatus: 'in-progress', SpeechResult: speech }),
+        press: (digits: string) => post({ CallStatus: 'in-progress', Digits: digits }),
+        silence: () => post({ CallStatus: 'in-progress' }),
+        hangUp: () => post({ CallStatus: 'completed' }),
+    };
+};
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { createHandler } from '../netlify/functions/cancelAppointment';
+import { createNotifier } from '../netlify/functions/lib/notifications';
+import { confirmed, invoke, recordingProvider, seedStore } from './helpers';
+
+describe('cancelAppointment', () => {
+    it('soft-cancels the chosen booking', async () => {
+        const store = seedStore([confirmed(), confirmed({ id: 101, appointment_time: '10:30' })]);
+        const { provider, sent } = recordingProvider();
+        const res = await invoke(createHandler(store, createNotifier(store, provider, 'en')), { appointmentId: 101, phone: '98765 43210' });
+
+        expect(res.statusCode).toBe(200);
+        expect(store.tables.appointments.map(a => a.status)).toEqual(['confirmed', 'cancelled']);
+        expect(sent).toEqual([{ to: '+919876543210', body: 'Dear Anil, your appointment with Dr. Ravi Kumar on 15-01-2030 at 10:30 has been cancelled. - Prudence Hospitals' }]);
+    });
+
+    it('returns 404 when the booking belongs to another phone', async () => {
+        const store = seedStore([confirmed()]);
+        const res = await invoke(createHandler(store), { appointmentId: 100, phone: '9000000000' });
+
+        expect(res.statusCode).toBe(404);
+        expect(store.tables.appointments[0].status).toBe('confirmed');
+    });
+
+    it('returns 404 when the booking is not confirmed', async () => {
+        const store = seedStore([confirmed({ status: 'cancelled' })]);
+        const res = await invoke(createHandler(store), { appointmentId: 100, phone: '9876543210' });
+        expect(res.statusCode).toBe(404);
+    });
+
+    it('returns 400 without an appointment id or a valid phone', async () => {
+        const handler = createHandler(seedStore([confirmed()]));
+        expect((await invoke(handler, { phone: '9876543210' })).statusCode).toBe(400);
+        expect((await invoke(handler, { appointmentId: 100, phone: '12345' })).statusCode).toBe(400);
+    });
+});
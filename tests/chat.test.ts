@@ -0,0 +1,107 @@
+import type { HandlerEvent } from '@netlify/functions';
+import { createHmac } from 'node:crypto';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { chatProviderFromEnv, createWhatsAppCloudProvider, slotChoices } from '../netlify/functions/lib/chat';
+
+const config = { accessToken: 'EAAG', phoneNumberId: '1055', appSecret: 'app-secret', verifyToken: 'verify-me' };
+
+const webhook = (payload: object, secret = config.appSecret) => {
+    const body = JSON.stringify(payload);
+    return {
+        httpMethod: 'POST',
+        headers: { 'x-hub-signature-256': `sha256=${createHmac('sha256', secret).update(body).digest('hex')}` },
+        queryStringParameters: null,
+        body,
+        isBase64Encoded: false,
+    } as unknown as HandlerEvent;
+};
+
+const messages = (...items: object[]) => ({ entry: [{ changes: [{ value: { messages: items } }] }] });
+
+describe('slotChoices', () => {
+    it('offers the slots from the last slot search', () => {
+        expect(slotChoices([
+            { role: 'user', text: 'రేపు' },
+            { role: 'tool', tool_name: 'getAvailableSlots', tool_args: {}, tool_result: { success: true, availableSlots: ['10:00', '10:30'] } },
+            { role: 'model', text: 'ఏ సమయం?' },
+        ])).toEqual([{ id: '10:00', title: '10:00' }, { id: '10:30', title: '10:30' }]);
+    });
+
+    it('offers nothing once a slot has been held', () => {
+        expect(slotChoices([
+            { role: 'tool', tool_name: 'getAvailableSlots', tool_args: {}, tool_result: { success: true, availableSlots: ['10:00'] } },
+            { role: 'tool', tool_name: 'holdSlot', tool_args: {}, tool_result: { success: true, holdId: 1 } },
+        ])).toEqual([]);
+    });
+});
+
+describe('chat providers', () => {
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it('defaults to the stub provider', () => {
+        expect(chatProviderFromEnv({}).channel).toBe('chat');
+    });
+
+    it('refuses WhatsApp without Cloud API credentials', () => {
+        expect(() => chatProviderFromEnv({ CHAT_PROVIDER: 'whatsapp' })).toThrow(/credentials/);
+    });
+
+    it('accepts only webhooks signed with the app secret', () => {
+        const provider = createWhatsAppCloudProvider(config);
+        expect(provider.isAuthentic(webhook(messages()))).toBe(true);
+        expect(provider.isAuthentic(webhook(messages(), 'someone-else'))).toBe(false);
+    });
+
+    it('reads typed text and tapped replies, skipping other message types', () => {
+        const provider = createWhatsAppCloudProvider(config);
+        const inbound = provider.parseInbound(webhook(messages(
+            { from: '919876543210', type: 'text', text: { body: 'నమస్కారం' } },
+            { from: '919876543210', type: 'interactive', interactive: { type: 'button_reply', button_reply: { id: '10:00', title: '10:00' } } },
+            { from: '919876543210', type: 'interactive', interactive: { type: 'list_reply', list_reply: { id: '11:30', title: '11:30' } } },
+            { from: '919876543210', type: 'image', image: { id: 'media' } },
+        )));
+
+        expect(inbound.map(message => message.text)).toEqual(['నమస్కారం', '10:00', '11:30']);
+    });
+
+    it('answers the subscription handshake only with the verify token', () => {
+        const provider = createWhatsAppCloudProvider(config);
+        const handshake = (token: string) => provider.verifySubscription!({
+            httpMethod: 'GET',
+            queryStringParameters: { 'hub.mode': 'subscribe', 'hub.verify_token': token, 'hub.challenge': '1158201444' },
+        } as unknown as HandlerEvent);
+
+        expect(handshake('verify-me')).toMatchObject({ statusCode: 200, body: '1158201444' });
+        expect(handshake('wrong').statusCode).toBe(403);
+    });
+
+    it('sends up to three quick replies as buttons and more as a list', async () => {
+        const fetchMock = vi.fn(async () => new Response(JSON.stringify({ messages: [{ id: 'wamid.1' }] }), { status: 200 }));
+        vi.stubGlobal('fetch', fetchMock);
+        const provider = createWhatsAppCloudProvider(config);
+        const times = (...titles: string[]) => titles.map(title => ({ id: title, title }));
+
+        const result = await provider.send({ to: '+919876543210', text: 'ఏ సమయం?', quickReplies: times('10:00', '10:30') });
+        await provider.send({ to: '+919876543210', text: 'ఏ సమయం?', quickReplies: times('10:00', '10:30', '11:00', '11:30') });
+
+        const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+        expect(url).toBe('https://graph.facebook.com/v20.0/1055/messages');
+        expect(JSON.parse(init.body as string)).toMatchObject({
+            to: '919876543210',
+            type: 'interactive',
+            interactive: { type: 'button', action: { buttons: [{ reply: { id: '10:00' } }, { reply: { id: '10:30' } }] } },
+        });
+        const [, listInit] = fetchMock.mock.calls[1] as unknown as [string, RequestInit];
+        expect(JSON.parse(listInit.body as string).interactive.action.sections[0].rows).toHaveLength(4);
+        expect(result).toEqual({ providerMessageId: 'wamid.1' });
+    });
+
+    it('rejects when WhatsApp refuses the message', async () => {
+        vi.stubGlobal('fetch', vi.fn(async () => new Response(JSON.stringify({ error: { message: 'Invalid parameter' } }), { status: 400 })));
+
+        const provider = createWhatsAppCloudProvider(config);
+        await expect(provider.send({ to: '+919876543210', text: 'hi', quickReplies: [] })).rejects.toThrow('WhatsApp send failed (400): Invalid parameter');
+    });
+});
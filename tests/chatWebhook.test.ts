@@ -0,0 +1,86 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { createHandler } from '../netlify/functions/chatWebhook';
+import { runAssistant } from '../netlify/functions/lib/assistant';
+import { CHAT_TOKEN_HEADER, createStubChatProvider } from '../netlify/functions/lib/chat';
+import { invoke, seedStore } from './helpers';
+
+vi.mock('../netlify/functions/lib/assistant', () => ({ runAssistant: vi.fn() }));
+
+const withToken = { headers: { [CHAT_TOKEN_HEADER]: 'chat-secret' } };
+
+describe('chatWebhook', () => {
+    beforeEach(() => {
+        vi.mocked(runAssistant).mockReset().mockImplementation(async ({ message }) => ({
+            reply: 'సరే',
+            turns: [{ role: 'user', text: message }, { role: 'model', text: 'సరే' }],
+        }));
+    });
+
+    it('keeps one conversation per sender and passes their phone to the assistant', async () => {
+        const store = seedStore();
+        const provider = createStubChatProvider({ token: 'chat-secret' });
+        const handler = createHandler(store, provider);
+
+        await invoke(handler, { from: '98765 43210', text: 'నమస్కారం' }, 'POST', withToken);
+        await invoke(handler, { from: '+919876543210', text: 'రేపు' }, 'POST', withToken);
+        await invoke(handler, { from: '9123456789', text: 'హలో' }, 'POST', withToken);
+
+        const sessions = store.tables.conversation_sessions;
+        expect(sessions.map(s => [s.channel, s.contact])).toEqual([['chat', '+919876543210'], ['chat', '+919123456789']]);
+        expect(vi.mocked(runAssistant).mock.calls[1][0]).toMatchObject({ message: 'రేపు', sessionId: sessions[0].id, phone: '+919876543210' });
+        expect(store.tables.conversation_turns.filter(t => t.session_id === sessions[0].id)).toHaveLength(4);
+        expect(provider.sent.map(m => m.to)).toEqual(['+919876543210', '+919876543210', '+919123456789']);
+    });
+
+    it('offers the slots found as quick replies', async () => {
+        vi.mocked(runAssistant).mockImplementation(async ({ message }) => ({
+            reply: 'ఏ సమయం కావాలి?',
+            turns: [
+                { role: 'user', text: message },
+                { role: 'tool', tool_name: 'getAvailableSlots', tool_args: {}, tool_result: { success: true, availableSlots: ['10:00', '10:30'] } },
+                { role: 'model', text: 'ఏ సమయం కావాలి?' },
+            ],
+        }));
+        const provider = createStubChatProvider({ token: 'chat-secret' });
+
+        const res = await invoke(createHandler(seedStore(), provider), { from: '9876543210', text: 'రేపు రవి కుమార్' }, 'POST', withToken);
+
+        expect(res.body.replies).toEqual([{ to: '+919876543210', text: 'ఏ సమయం కావాలి?', quickReplies: [{ id: '10:00', title: '10:00' }, { id: '10:30', title: '10:30' }], language: 'te' }]);
+        expect(provider.sent).toEqual(res.body.replies);
+    });
+
+    it('apologises when the assistant fails', async () => {
+        vi.mocked(runAssistant).mockRejectedValueOnce(new Error('quota'));
+        const provider = createStubChatProvider({ token: 'chat-secret' });
+
+        await invoke(createHandler(seedStore(), provider), { from: '9876543210', text: 'హలో' }, 'POST', withToken);
+        expect(provider.sent[0].text).toContain('సాంకేతిక సమస్య');
+    });
+
+    it('answers in the language of the sender\'s first message', async () => {
+        const store = seedStore();
+        const provider = createStubChatProvider({ token: 'chat-secret' });
+        const handler = createHandler(store, provider);
+
+        await invoke(handler, { from: '9876543210', text: 'مجھے ڈاکٹر سے ملنا ہے' }, 'POST', withToken);
+        vi.mocked(runAssistant).mockRejectedValueOnce(new Error('quota'));
+        await invoke(handler, { from: '9876543210', text: '10:30' }, 'POST', withToken);
+
+        expect(vi.mocked(runAssistant).mock.calls[0][0]).toMatchObject({ language: 'ur' });
+        expect(store.tables.conversation_sessions[0].language).toBe('ur');
+        expect(provider.sent[1]).toMatchObject({ text: expect.stringContaining('تکنیکی مسئلہ'), language: 'ur' });
+    });
+
+    it('ignores senders that are not Indian mobile numbers', async () => {
+        const provider = createStubChatProvider({ token: 'chat-secret' });
+
+        const res = await invoke(createHandler(seedStore(), provider), { from: '+14155550100', text: 'hi' }, 'POST', withToken);
+        expect(res.body.replies).toEqual([]);
+        expect(runAssistant).not.toHaveBeenCalled();
+    });
+
+    it('returns 403 without the webhook token', async () => {
+        const res = await invoke(createHandler(seedStore(), createStubChatProvider({ token: 'chat-secret' })), { from: '9876543210', text: 'హలో' });
+        expect(res.statusCode).toBe(403);
+    });
+});
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { addDays, daysBetween, hospitalNow, resolveDate, weekdayName } from '../netlify/functions/lib/dateTime';
+
+// 2030-01-14 is a Monday
+const today = '2030-01-14';
+
+describe('hospitalNow', () => {
+    it('uses the hospital clock rather than UTC', () => {
+        // 20:00 UTC is already the next morning in India
+        expect(hospitalNow(new Date('2030-01-14T20:00:00Z'))).toEqual({ date: '2030-01-15', time: '01:30' });
+    });
+});
+
+describe('addDays', () => {
+    it('crosses month and year ends', () => {
+        expect(addDays('2030-12-31', 1)).toBe('2031-01-01');
+        expect(addDays('2030-03-01', -1)).toBe('2030-02-28');
+    });
+});
+
+describe('daysBetween', () => {
+    it('counts whole days either way', () => {
+        expect(daysBetween('2030-12-30', '2031-01-02')).toBe(3);
+        expect(daysBetween('2030-01-15', '2030-01-14')).toBe(-1);
+    });
+});
+
+describe('resolveDate', () => {
+    it('understands relative days in Telugu and English', () => {
+        expect(resolveDate('ఈరోజు', today)).toBe('2030-01-14');
+        expect(resolveDate('రేపు సాయంత్రం', today)).toBe('2030-01-15');
+        expect(resolveDate('Tomorrow', today)).toBe('2030-01-15');
+        expect(resolveDate('ఎల్లుండి', today)).toBe('2030-01-16');
+        expect(resolveDate('day after tomorrow', today)).toBe('2030-01-16');
+        expect(resolveDate('in 10 days', today)).toBe('2030-01-24');
+        expect(resolveDate('3 రోజుల్లో', today)).toBe('2030-01-17');
+        expect(resolveDate('a week from now', today)).toBe('2030-01-21');
+    });
+
+    it('takes a weekday as its next occurrence after today', () => {
+        expect(resolveDate('Friday', today)).toBe('2030-01-18');
+        expect(resolveDate('next monday', today)).toBe('2030-01-21');
+        expect(resolveDate('వచ్చే సోమవారం', today)).toBe('2030-01-21');
+        expect(resolveDate('గురువారానికి', today)).toBe('2030-01-17');
+    });
+
+    it('reads day-first dates and month names', () => {
+        expect(resolveDate('2030-02-03', today)).toBe('2030-02-03');
+        expect(resolveDate('5/2', today)).toBe('2030-02-05');
+        expect(resolveDate('05-02-2031', today)).toBe('2031-02-05');
+        expect(resolveDate('15th March', today)).toBe('2030-03-15');
+        expect(resolveDate('March 15', today)).toBe('2030-03-15');
+        expect(resolveDate('౨౦ జనవరి', today)).toBe('2030-01-20');
+    });
+
+    it('rolls a day and month that have passed into next year', () => {
+        expect(resolveDate('10 January', today)).toBe('2031-01-10');
+        expect(resolveDate('the 10th', today)).toBe('2030-02-10');
+        expect(resolveDate('20వ తేదీ', today)).toBe('2030-01-20');
+    });
+
+    it('skips a time that looks like a date', () => {
+        expect(resolveDate('tomorrow at 10.30', today)).toBe('2030-01-15');
+    });
+
+    it('returns null when no day can be pinned down', () => {
+        expect(resolveDate('sometime soon', today)).toBeNull();
+        expect(resolveDate('30 February', today)).toBeNull();
+        expect(resolveDate('', today)).toBeNull();
+    });
+});
+
+describe('weekdayName', () => {
+    it('names the day of the week', () => {
+        expect(weekdayName(today)).toBe('Monday');
+    });
+});
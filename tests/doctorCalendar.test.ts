@@ -0,0 +1,74 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { HandlerContext, HandlerEvent, HandlerResponse } from '@netlify/functions';
+import { createHandler as createCancel } from '../netlify/functions/cancelAppointment';
+import { createHandler } from '../netlify/functions/doctorCalendar';
+import { doctorCalendarUrl } from '../netlify/functions/lib/calendar';
+import type { DataStore } from '../netlify/functions/lib/data';
+import { confirmed, invoke, seedStore } from './helpers';
+
+const fetchFeed = async (store: DataStore, query: Record<string, string>) =>
+    await createHandler(store)({ httpMethod: 'GET', headers: {}, queryStringParameters: query } as unknown as HandlerEvent, {} as HandlerContext) as HandlerResponse;
+
+const signedQuery = (doctorId: number) =>
+    Object.fromEntries(new URL(doctorCalendarUrl(doctorId) as string, 'http://localhost').searchParams);
+
+describe('doctorCalendar', () => {
+    beforeEach(() => {
+        vi.stubEnv('CALENDAR_SECRET', 'calendar-secret');
+        vi.useFakeTimers({ toFake: ['Date'] });
+        vi.setSystemTime(new Date('2030-01-10T04:30:00Z')); // 10:00 on the 10th in India
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+        vi.unstubAllEnvs();
+    });
+
+    it('lists the doctor\'s visits in the window, without phone numbers', async () => {
+        const store = seedStore([
+            confirmed(),
+            confirmed({ id: 101, patient_id: 2, patient_name: 'Kamala', appointment_time: '10:30', status: 'checked_in' }),
+            confirmed({ id: 102, appointment_time: '11:00', status: 'cancelled' }),
+            confirmed({ id: 103, doctor_id: 2, appointment_time: '09:00' }),
+            confirmed({ id: 104, appointment_date: '2030-12-01' }),
+        ]);
+        const res = await fetchFeed(store, signedQuery(1));
+
+        expect(res.statusCode).toBe(200);
+        expect(res.headers?.['Content-Type']).toBe('text/calendar; charset=utf-8');
+        expect(res.body).toContain('X-WR-CALNAME:Dr. Ravi Kumar - Prudence Hospitals\r\n');
+        expect(res.body?.match(/^UID:.*$/gm)).toEqual([
+            'UID:appointment-100@sahay.prudence-hospitals',
+            'UID:appointment-101@sahay.prudence-hospitals',
+            'UID:appointment-102@sahay.prudence-hospitals',
+        ]);
+        expect(res.body).toContain('SUMMARY:Kamala\r\n');
+        expect(res.body).not.toContain('9876543210');
+    });
+
+    it('keeps a cancelled visit as cancelled, with a higher sequence', async () => {
+        const store = seedStore([confirmed()]);
+        await invoke(createCancel(store), { appointmentId: 100, phone: '9876543210' });
+        const res = await fetchFeed(store, signedQuery(1));
+
+        expect(res.body).toContain('UID:appointment-100@sahay.prudence-hospitals\r\n');
+        expect(res.body).toContain('SEQUENCE:1\r\nSTATUS:CANCELLED\r\n');
+    });
+
+    it('lists a no-show as cancelled', async () => {
+        const res = await fetchFeed(seedStore([confirmed({ status: 'no_show' })]), signedQuery(1));
+
+        expect(res.body).toContain('UID:appointment-100@sahay.prudence-hospitals\r\n');
+        expect(res.body).toContain('STATUS:CANCELLED\r\n');
+        expect(res.body).not.toContain('STATUS:CONFIRMED');
+    });
+
+    it('returns 404 for an unknown doctor', async () => {
+        expect((await fetchFeed(seedStore(), signedQuery(99))).statusCode).toBe(404);
+    });
+
+    it('refuses another doctor\'s token', async () => {
+        const res = await fetchFeed(seedStore([confirmed()]), { ...signedQuery(2), doctor: '1' });
+        expect(res.statusCode).toBe(403);
+    });
+});
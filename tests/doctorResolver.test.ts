@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { matchDoctor, nameTokens, transliterateTelugu } from '../netlify/functions/lib/doctorResolver';
+import { doctors } from './helpers';
+
+const resolvedName = (query: string) => {
+    const resolution = matchDoctor(doctors, query);
+    return resolution.status === 'found' ? resolution.doctor.name : resolution.status;
+};
+
+describe('transliterateTelugu', () => {
+    it('romanises consonant clusters and vowel signs', () => {
+        expect(transliterateTelugu('రవి కుమార్')).toBe('ravi kumaar');
+        expect(transliterateTelugu('లక్ష్మి')).toBe('lakshmi');
+    });
+});
+
+describe('nameTokens', () => {
+    it('drops English and Telugu titles', () => {
+        expect(nameTokens('Dr.Ravi Kumar')).toEqual(['ravi', 'kumar']);
+        expect(nameTokens('డాక్టర్ రవి')).toEqual(['ravi']);
+        expect(nameTokens('డా. రవి')).toEqual(['ravi']);
+    });
+});
+
+describe('matchDoctor', () => {
+    it('finds a doctor from part of the name, a typo or Telugu script', () => {
+        expect(resolvedName('ravi')).toBe('Dr. Ravi Kumar');
+        expect(resolvedName('Ravi Kumaar')).toBe('Dr. Ravi Kumar');
+        expect(resolvedName('Lakshmi Reddi')).toBe('Dr. Lakshmi Reddy');
+        expect(resolvedName('శ్రీనివాస్ రెడ్డి')).toBe('Dr. Srinivas Reddy');
+        expect(resolvedName('డాక్టర్ రవి కుమార్')).toBe('Dr. Ravi Kumar');
+    });
+
+    it('reports a shared surname as ambiguous with every candidate', () => {
+        const resolution = matchDoctor(doctors, 'రెడ్డి');
+        expect(resolution.status).toBe('ambiguous');
+        expect(resolution.status === 'ambiguous' && resolution.candidates.map(d => d.id)).toEqual([2, 3]);
+    });
+
+    it('does not guess for unrelated names', () => {
+        expect(resolvedName('Venkatesh')).toBe('not_found');
+        expect(resolvedName('Dr.')).toBe('not_found');
+    });
+});
@@ -0,0 +1,138 @@
+import type { HandlerContext, HandlerEvent } from '@netlify/functions';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { runAssistant } from '../netlify/functions/lib/assistant';
+import { synthesizeSpeech } from '../netlify/functions/lib/speech';
+import { createHandler } from '../netlify/functions/getAiResponse';
+import { invoke, seedStore } from './helpers';
+
+// stream() needs the Lambda streaming runtime; the handler itself is what we test
+vi.mock('@netlify/functions', () => ({ stream: (handler: unknown) => handler }));
+vi.mock('../netlify/functions/lib/assistant', () => ({ runAssistant: vi.fn() }));
+vi.mock('../netlify/functions/lib/speech', async importOriginal => ({
+    ...await importOriginal<typeof import('../netlify/functions/lib/speech')>(),
+    synthesizeSpeech: vi.fn(async (text: string) => ({ audioContent: `audio:${text}`, mimeType: 'audio/wav' })),
+}));
+
+// Parses a Server-Sent Events body into [event, data] pairs
+const readEvents = async (handler: ReturnType<typeof createHandler>, body: object) => {
+    const response = await handler({
+        httpMethod: 'POST',
+        headers: { accept: 'text/event-stream' },
+        body: JSON.stringify(body),
+    } as unknown as HandlerEvent, {} as HandlerContext);
+
+    let raw = '';
+    for await (const chunk of response.body as AsyncIterable<Buffer>) raw += chunk.toString();
+
+    return raw.trim().split('\n\n').map(frame => {
+        const [event, data] = frame.split('\n');
+        return [event.replace('event: ', ''), JSON.parse(data.replace('data: ', ''))];
+    });
+};
+
+describe('getAiResponse', () => {
+    beforeEach(() => {
+        vi.stubEnv('GEMINI_API_KEY', 'test-key');
+        vi.mocked(runAssistant).mockReset().mockImplementation(async ({ message }) => ({
+            reply: 'సరే',
+            turns: [
+                { role: 'user', text: message },
+                { role: 'tool', tool_name: 'getAllSpecialties', tool_args: {}, tool_result: { success: true } },
+                { role: 'model', text: 'సరే' },
+            ],
+        }));
+    });
+
+    it('starts a session and stores the exchange', async () => {
+        const store = seedStore();
+        const res = await invoke(createHandler(store), { message: 'నమస్కారం' });
+
+        expect(res.statusCode).toBe(200);
+        expect(res.body.reply).toBe('సరే');
+        expect(store.tables.conversation_sessions.map(s => s.id)).toEqual([res.body.sessionId]);
+        expect(store.tables.conversation_turns.map(t => t.role)).toEqual(['user', 'tool', 'model']);
+    });
+
+    it('continues an existing session with its stored turns', async () => {
+        const store = seedStore();
+        const first = await invoke(createHandler(store), { message: 'నమస్కారం' });
+        const second = await invoke(createHandler(store), { sessionId: first.body.sessionId, message: 'రేపు' });
+
+        expect(second.body.sessionId).toBe(first.body.sessionId);
+        expect(vi.mocked(runAssistant).mock.lastCall?.[0].turns).toHaveLength(3);
+        expect(store.tables.conversation_turns.map(t => t.seq)).toEqual([1, 2, 3, 4, 5, 6]);
+    });
+
+    it('streams text and sentence audio, then saves the exchange', async () => {
+        vi.mocked(runAssistant).mockImplementation(async ({ message, onText }) => {
+            onText?.('మీ అపాయింట్‌మెంట్ బుక్ అయింది. ');
+            onText?.('రేపు ఉదయం 10 గంటలకు రండి.');
+            return { reply: 'done', turns: [{ role: 'user', text: message }, { role: 'model', text: 'done' }] };
+        });
+        const store = seedStore();
+
+        const events = await readEvents(createHandler(store), { message: 'బుక్ చేయండి' });
+        const sessionId = store.tables.conversation_sessions[0].id;
+
+        expect(events).toEqual([
+            ['session', { sessionId, language: 'te' }],
+            ['text', { text: 'మీ అపాయింట్‌మెంట్ బుక్ అయింది. ' }],
+            ['text', { text: 'రేపు ఉదయం 10 గంటలకు రండి.' }],
+            ['audio', { index: 0, text: 'మీ అపాయింట్‌మెంట్ బుక్ అయింది.', audioContent: 'audio:మీ అపాయింట్‌మెంట్ బుక్ అయింది.', mimeType: 'audio/wav' }],
+            ['audio', { index: 1, text: 'రేపు ఉదయం 10 గంటలకు రండి.', audioContent: 'audio:రేపు ఉదయం 10 గంటలకు రండి.', mimeType: 'audio/wav' }],
+            ['done', { reply: 'done', sessionId, calendarUrls: [] }],
+        ]);
+        expect(store.tables.conversation_turns).toHaveLength(2);
+    });
+
+    it('keeps audio in sentence order when synthesis finishes out of order', async () => {
+        vi.mocked(synthesizeSpeech).mockImplementationOnce(async text => {
+            await new Promise(resolve => setTimeout(resolve, 20));
+            return { audioContent: `slow:${text}`, mimeType: 'audio/wav' };
+        });
+        vi.mocked(runAssistant).mockImplementation(async ({ message, onText }) => {
+            onText?.('మొదటి వాక్యం ఇక్కడ ఉంది. రెండవ వాక్యం ఇక్కడ ఉంది.');
+            return { reply: 'done', turns: [{ role: 'user', text: message }] };
+        });
+
+        const events = await readEvents(createHandler(seedStore()), { message: 'హలో' });
+
+        expect(events.filter(([name]) => name === 'audio').map(([, data]) => data.index)).toEqual([0, 1]);
+    });
+
+    it('answers in the language picked, or the one the message is written in', async () => {
+        const store = seedStore();
+        const detected = await invoke(createHandler(store), { message: 'मुझे कल डॉक्टर से मिलना है' });
+        expect(detected.body.language).toBe('hi');
+        expect(vi.mocked(runAssistant).mock.lastCall?.[0].language).toBe('hi');
+
+        const picked = await invoke(createHandler(store), { sessionId: detected.body.sessionId, message: 'నమస్కారం', language: 'en' });
+        expect(picked.body.language).toBe('en');
+        expect(store.tables.conversation_sessions[0].language).toBe('en');
+    });
+
+    it('speaks streamed sentences in the session\'s language', async () => {
+        vi.mocked(runAssistant).mockImplementation(async ({ message, onText }) => {
+            onText?.('آپ کی اپائنٹمنٹ بک ہو گئی ہے۔ ');
+            return { reply: 'done', turns: [{ role: 'user', text: message }] };
+        });
+
+        const events = await readEvents(createHandler(seedStore()), { message: 'السلام علیکم' });
+
+        expect(events[0]).toEqual(['session', { sessionId: expect.any(String), language: 'ur' }]);
+        expect(synthesizeSpeech).toHaveBeenLastCalledWith('آپ کی اپائنٹمنٹ بک ہو گئی ہے۔', { language: 'ur-IN' });
+    });
+
+    it('reports failures as an error event', async () => {
+        vi.mocked(runAssistant).mockRejectedValue(new Error('quota'));
+
+        const events = await readEvents(createHandler(seedStore()), { message: 'హలో' });
+
+        expect(events.at(-1)).toEqual(['error', { error: 'Failed to process request: quota' }]);
+    });
+
+    it('returns 400 without a message', async () => {
+        const res = await invoke(createHandler(seedStore()), { sessionId: 'abc' });
+        expect(res.statusCode).toBe(400);
+    });
+});
@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { createHandler } from '../netlify/functions/getAllSpecialties';
+import { invoke, seedStore } from './helpers';
+
+describe('getAllSpecialties', () => {
+    it('lists each department once with its Telugu name', async () => {
+        const res = await invoke(createHandler(seedStore()), {});
+
+        expect(res.statusCode).toBe(200);
+        expect(res.body.specialties).toEqual([
+            { name: 'Cardiology', name_te: 'హృదయ వైద్యం' },
+            { name: 'Orthopedics', name_te: 'ఎముకల వైద్యం' },
+            { name: 'Pediatrics', name_te: 'పిల్లల వైద్యం' },
+        ]);
+    });
+
+    it('leaves out departments with no active doctor', async () => {
+        const store = seedStore();
+        await store.doctors.update(3, { active: false });
+        await store.specialties.create({ name_en: 'Dermatology', name_te: null, synonyms: [] });
+
+        const res = await invoke(createHandler(store), {});
+        expect(res.body.specialties.map((s: { name: string }) => s.name)).toEqual(['Cardiology', 'Pediatrics']);
+    });
+});
@@ -0,0 +1,92 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createHandler } from '../netlify/functions/getAvailableSlots';
+import { createMemoryStore } from '../netlify/functions/lib/data/memoryStore';
+import { confirmed, doctors, invoke, seedStore } from './helpers';
+
+// Dr. Ravi Kumar works Monday (2030-01-14) mornings and evenings
+const scheduledStore = (extra = {}) => createMemoryStore({
+    doctors,
+    doctor_schedules: [
+        { doctor_id: 1, weekday: 1, start_time: '09:00', end_time: '11:00', slot_minutes: 30, breaks: [{ start: '10:00', end: '10:30' }] },
+        { doctor_id: 1, weekday: 1, start_time: '17:00', end_time: '18:00', slot_minutes: 30, breaks: [] },
+    ],
+    ...extra,
+});
+
+describe('getAvailableSlots', () => {
+    it('omits confirmed slots', async () => {
+        const store = seedStore([confirmed(), confirmed({ id: 101, appointment_time: '10:30', status: 'cancelled' })]);
+        const res = await invoke(createHandler(store), { doctorName: 'Ravi', date: '2030-01-15' });
+
+        expect(res.statusCode).toBe(200);
+        expect(res.body.availableSlots).toEqual(['10:30', '11:00']);
+    });
+
+    it('omits unexpired holds only', async () => {
+        const store = seedStore([
+            confirmed({ status: 'held', hold_expires_at: '2999-01-01T00:00:00Z' }),
+            confirmed({ id: 101, appointment_time: '10:30', status: 'held', hold_expires_at: '2000-01-01T00:00:00Z' }),
+        ]);
+        const res = await invoke(createHandler(store), { doctorName: 'Ravi', date: '2030-01-15' });
+
+        expect(res.body.availableSlots).toEqual(['10:30', '11:00']);
+    });
+
+    it('keeps checked-in and completed visits booked and frees no-shows', async () => {
+        const store = seedStore([
+            confirmed({ status: 'checked_in' }),
+            confirmed({ id: 101, appointment_time: '10:30', status: 'completed' }),
+            confirmed({ id: 102, appointment_time: '11:00', status: 'no_show' }),
+        ]);
+        const res = await invoke(createHandler(store), { doctorName: 'Ravi', date: '2030-01-15' });
+
+        expect(res.body.availableSlots).toEqual(['11:00']);
+    });
+
+    it('returns 404 for an unknown doctor', async () => {
+        const res = await invoke(createHandler(seedStore()), { doctorName: 'Nobody', date: '2030-01-15' });
+        expect(res.statusCode).toBe(404);
+    });
+
+    it('returns 400 without a date', async () => {
+        const res = await invoke(createHandler(seedStore()), { doctorName: 'Ravi' });
+        expect(res.statusCode).toBe(400);
+    });
+
+    describe('with a weekly schedule', () => {
+        afterEach(() => { vi.useRealTimers(); });
+
+        it('generates the day\'s slots minus bookings', async () => {
+            const store = scheduledStore({ appointments: [confirmed({ appointment_date: '2030-01-14', appointment_time: '09:30' })] });
+            const res = await invoke(createHandler(store), { doctorName: 'Ravi', date: '2030-01-14' });
+
+            expect(res.body.availableSlots).toEqual(['09:00', '10:30', '17:00', '17:30']);
+        });
+
+        it('honours timeOfDay', async () => {
+            const res = await invoke(createHandler(scheduledStore()), { doctorName: 'Ravi', date: '2030-01-14', timeOfDay: 'evening' });
+            expect(res.body.availableSlots).toEqual(['17:00', '17:30']);
+        });
+
+        it('explains days without consultation, leave and holidays', async () => {
+            const sunday = await invoke(createHandler(scheduledStore()), { doctorName: 'Ravi', date: '2030-01-13' });
+            expect(sunday.body).toMatchObject({ availableSlots: [], reason: expect.stringContaining('does not consult') });
+
+            const onLeave = scheduledStore({ doctor_leave: [{ doctor_id: 1, start_date: '2030-01-10', end_date: '2030-01-20', reason: null }] });
+            const leave = await invoke(createHandler(onLeave), { doctorName: 'Ravi', date: '2030-01-14' });
+            expect(leave.body).toMatchObject({ availableSlots: [], reason: expect.stringContaining('on leave') });
+
+            const closedDay = scheduledStore({ hospital_holidays: [{ holiday_date: '2030-01-14', name: 'Sankranti' }] });
+            const holiday = await invoke(createHandler(closedDay), { doctorName: 'Ravi', date: '2030-01-14' });
+            expect(holiday.body).toMatchObject({ availableSlots: [], reason: expect.stringContaining('Sankranti') });
+        });
+
+        it('hides slots that have already started today', async () => {
+            vi.useFakeTimers({ toFake: ['Date'] });
+            vi.setSystemTime(new Date('2030-01-14T04:00:00Z')); // 09:30 in India
+
+            const res = await invoke(createHandler(scheduledStore()), { doctorName: 'Ravi', date: '2030-01-14' });
+            expect(res.body.availableSlots).toEqual(['10:30', '17:00', '17:30']);
+        });
+    });
+});
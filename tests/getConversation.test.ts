@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import type { HandlerEvent } from '@netlify/functions';
+import { createHandler } from '../netlify/functions/getConversation';
+import type { MemoryStore } from '../netlify/functions/lib/data/memoryStore';
+import { asDoctor, asStaff, confirmed, invoke, seedStore, staffAuth } from './helpers';
+
+const fetchTranscript = (handler: ReturnType<typeof createHandler>, sessionId: string, overrides: Partial<HandlerEvent> = {}) =>
+    invoke(handler, undefined, 'GET', { ...overrides, queryStringParameters: { sessionId } });
+
+const cancellationChat = async (store: MemoryStore, channel = 'web') => {
+    const session = await store.sessions.create(channel);
+    await store.sessions.appendTurns(session.id, [
+        { role: 'user', text: 'నా అపాయింట్‌మెంట్ రద్దు చేయండి' },
+        { role: 'tool', tool_name: 'cancelAppointment', tool_args: { appointmentId: 100, phone: '9876543210' }, tool_result: { success: true } },
+        { role: 'model', text: 'రద్దు చేశాను.' },
+    ]);
+    return session;
+};
+
+describe('getConversation', () => {
+    it('returns every turn, tool calls included, to staff', async () => {
+        const store = seedStore();
+        const session = await cancellationChat(store);
+
+        const res = await fetchTranscript(createHandler(store, staffAuth), session.id, asStaff);
+
+        expect(res.statusCode).toBe(200);
+        expect(res.body).toMatchObject({ sessionId: session.id, channel: 'web' });
+        expect(res.body.turns).toMatchObject([
+            { seq: 1, role: 'user', text: 'నా అపాయింట్‌మెంట్ రద్దు చేయండి' },
+            { seq: 2, role: 'tool', toolName: 'cancelAppointment', toolArgs: { appointmentId: 100 }, toolResult: { success: true } },
+            { seq: 3, role: 'model', text: 'రద్దు చేశాను.' },
+        ]);
+    });
+
+    it('restores a web chat without sign-in, leaving out the tool calls', async () => {
+        const store = seedStore();
+        const session = await cancellationChat(store);
+
+        const res = await fetchTranscript(createHandler(store, staffAuth), session.id);
+
+        expect(res.statusCode).toBe(200);
+        expect(res.body.turns.map((t: { role: string }) => t.role)).toEqual(['user', 'model']);
+    });
+
+    it('requires staff sign-in for other channels and rejects bad tokens', async () => {
+        const store = seedStore();
+        const whatsapp = await cancellationChat(store, 'whatsapp');
+        const web = await cancellationChat(store);
+
+        expect((await fetchTranscript(createHandler(store, staffAuth), whatsapp.id)).statusCode).toBe(401);
+        expect((await fetchTranscript(createHandler(store, staffAuth), web.id, { headers: { authorization: 'Bearer nope' } })).statusCode).toBe(401);
+    });
+
+    it('shows a doctor only conversations that booked with them', async () => {
+        const store = seedStore();
+        const mine = await cancellationChat(store, 'whatsapp');
+        const theirs = await cancellationChat(store, 'whatsapp');
+        store.tables.appointments.push(
+            confirmed({ id: 100, doctor_id: 1, session_id: mine.id }),
+            confirmed({ id: 101, doctor_id: 2, appointment_time: '09:00', session_id: theirs.id }),
+        );
+
+        expect((await fetchTranscript(createHandler(store, staffAuth), mine.id, asDoctor)).statusCode).toBe(200);
+        expect((await fetchTranscript(createHandler(store, staffAuth), theirs.id, asDoctor)).statusCode).toBe(404);
+    });
+
+    it('returns 404 for an unknown session', async () => {
+        const res = await fetchTranscript(createHandler(seedStore(), staffAuth), '6f1c2d3e-4b5a-4c6d-8e7f-901a2b3c4d5e');
+        expect(res.statusCode).toBe(404);
+    });
+
+    it('returns 404 for a malformed session id', async () => {
+        const res = await fetchTranscript(createHandler(seedStore(), staffAuth), 'abc');
+        expect(res.statusCode).toBe(404);
+    });
+});
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { createHandler } from '../netlify/functions/getDoctorDetails';
+import { invoke, seedStore } from './helpers';
+
+describe('getDoctorDetails', () => {
+    it('filters by specialty', async () => {
+        const res = await invoke(createHandler(seedStore()), { specialty: 'cardio' });
+
+        expect(res.statusCode).toBe(200);
+        expect(res.body.doctors).toEqual([{
+            name: 'Dr. Ravi Kumar',
+            specialty: 'Cardiology',
+            specialty_te: 'హృదయ వైద్యం',
+            qualifications: 'MBBS, MD, DM (Cardiology)',
+            languages: ['Telugu', 'English'],
+            consultation_fee: 800,
+            available_slots: ['10:00', '10:30', '11:00'],
+        }]);
+    });
+
+    it('understands everyday words for a specialty in English and Telugu', async () => {
+        const handler = createHandler(seedStore());
+
+        const heart = await invoke(handler, { specialty: 'heart doctor' });
+        expect(heart.body.doctors.map((d: { name: string }) => d.name)).toEqual(['Dr. Ravi Kumar']);
+
+        const bones = await invoke(handler, { specialty: 'ఎముకలు' });
+        expect(bones.body.doctors.map((d: { name: string }) => d.name)).toEqual(['Dr. Srinivas Reddy']);
+    });
+
+    it('leaves out inactive doctors', async () => {
+        const store = seedStore();
+        await store.doctors.update(2, { active: false });
+
+        const res = await invoke(createHandler(store), { doctorName: 'Reddy' });
+        expect(res.body.doctors.map((d: { name: string }) => d.name)).toEqual(['Dr. Srinivas Reddy']);
+    });
+
+    it('matches names spoken in Telugu', async () => {
+        const res = await invoke(createHandler(seedStore()), { doctorName: 'రెడ్డి' });
+        expect(res.body.doctors.map((d: { name: string }) => d.name)).toEqual(['Dr. Lakshmi Reddy', 'Dr. Srinivas Reddy']);
+    });
+
+    it('returns every doctor without filters', async () => {
+        const res = await invoke(createHandler(seedStore()), {});
+        expect(res.body.doctors).toHaveLength(3);
+    });
+});
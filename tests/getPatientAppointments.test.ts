@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { createHandler } from '../netlify/functions/getPatientAppointments';
+import { confirmed, invoke, seedStore } from './helpers';
+
+describe('getPatientAppointments', () => {
+    it('lists upcoming bookings for everyone sharing the phone, soonest first', async () => {
+        const store = seedStore([
+            confirmed({ id: 100, appointment_date: '2030-01-16' }),
+            confirmed({ id: 101, patient_id: 2, patient_name: 'Kamala', doctor_id: 2, appointment_date: '2030-01-15', appointment_time: '09:00' }),
+            confirmed({ id: 102, status: 'cancelled', appointment_date: '2030-01-17' }),
+            confirmed({ id: 103, appointment_date: '2000-01-01' }),
+        ]);
+        const res = await invoke(createHandler(store), { phone: '09876543210' });
+
+        expect(res.statusCode).toBe(200);
+        expect(res.body.appointments).toEqual([
+            { appointmentId: 101, patientName: 'Kamala', doctorName: 'Dr. Lakshmi Reddy', specialty: 'Pediatrics', date: '2030-01-15', time: '09:00' },
+            { appointmentId: 100, patientName: 'Anil', doctorName: 'Dr. Ravi Kumar', specialty: 'Cardiology', date: '2030-01-16', time: '10:00' },
+        ]);
+    });
+
+    it('returns an empty list for an unknown phone', async () => {
+        const res = await invoke(createHandler(seedStore([confirmed()])), { phone: '9000000000' });
+        expect(res.body.appointments).toEqual([]);
+    });
+
+    it('returns 400 for an invalid phone', async () => {
+        const res = await invoke(createHandler(seedStore()), { phone: '12345' });
+        expect(res.statusCode).toBe(400);
+    });
+});
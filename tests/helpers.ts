@@ -0,0 +1,104 @@
+import type { Handler, HandlerContext, HandlerEvent, StreamingHandler } from '@netlify/functions';
+import { createMemoryStore, type MemoryTables } from '../netlify/functions/lib/data/memoryStore';
+import type { Authenticator, StaffUser } from '../netlify/functions/lib/auth';
+import type { Appointment } from '../netlify/functions/lib/data/types';
+import type { NotificationProvider, OutgoingMessage } from '../netlify/functions/lib/notifications';
+
+export const specialties: MemoryTables['specialties'] = [
+    { id: 1, name_en: 'Cardiology', name_te: 'హృదయ వైద్యం', synonyms: ['heart', 'గుండె'] },
+    { id: 2, name_en: 'Pediatrics', name_te: 'పిల్లల వైద్యం', synonyms: ['children', 'పిల్లలు'] },
+    { id: 3, name_en: 'Orthopedics', name_te: 'ఎముకల వైద్యం', synonyms: ['bones', 'joints', 'ఎముకలు'] },
+];
+
+export const doctors: MemoryTables['doctors'] = [
+    {
+        id: 1, name: 'Dr. Ravi Kumar', specialty_id: 1, specialty: 'Cardiology', available_slots: ['10:00', '10:30', '11:00'],
+        qualifications: 'MBBS, MD, DM (Cardiology)', languages: ['Telugu', 'English'], consultation_fee: 800, active: true,
+    },
+    {
+        id: 2, name: 'Dr. Lakshmi Reddy', specialty_id: 2, specialty: 'Pediatrics', available_slots: ['09:00', '09:30'],
+        qualifications: 'MBBS, DCH', languages: ['Telugu', 'Hindi', 'English'], consultation_fee: 500, active: true,
+    },
+    {
+        id: 3, name: 'Dr. Srinivas Reddy', specialty_id: 3, specialty: 'Orthopedics', available_slots: ['15:00'],
+        qualifications: null, languages: [], consultation_fee: null, active: true,
+    },
+];
+
+// Anil and his mother Kamala share one phone
+export const patients: MemoryTables['patients'] = [
+    { id: 1, phone: '+919876543210', name: 'Anil' },
+    { id: 2, phone: '+919876543210', name: 'Kamala' },
+];
+
+export const triageRules: MemoryTables['triage_rules'] = [
+    { id: 1, label: 'chest pain', keywords: ['chest pain', 'ఛాతీ నొప్పి'], specialty: null, is_red_flag: true },
+    { id: 2, label: 'breathing difficulty', keywords: ["can't breathe", 'ఊపిరి ఆడటం లేదు'], specialty: null, is_red_flag: true },
+    { id: 3, label: 'heart and blood pressure', keywords: ['palpitations', 'బీపీ'], specialty: 'Cardiology', is_red_flag: false },
+    { id: 4, label: 'bones and joints', keywords: ['knee pain', 'మోకాలి నొప్పి'], specialty: 'Orthopedics', is_red_flag: false },
+    { id: 5, label: 'children', keywords: ['child', 'పాప'], specialty: 'Pediatrics', is_red_flag: false },
+    { id: 6, label: 'fever', keywords: ['fever', 'జ్వరం'], specialty: 'General Medicine', is_red_flag: false },
+];
+
+export const seedStore = (appointments: MemoryTables['appointments'] = []) =>
+    createMemoryStore({ specialties, doctors, patients, appointments });
+
+export const confirmed = (overrides: Partial<Appointment> = {}): Appointment => ({
+    id: 100,
+    doctor_id: 1,
+    patient_id: 1,
+    patient_name: 'Anil',
+    phone: '+919876543210',
+    appointment_date: '2030-01-15',
+    appointment_time: '10:00',
+    status: 'confirmed',
+    hold_expires_at: null,
+    session_id: null,
+    ...overrides,
+});
+
+/** Collects messages instead of sending them; fails every send when `failWith` is given. */
+export const recordingProvider = (failWith?: string) => {
+    const sent: OutgoingMessage[] = [];
+    const provider: NotificationProvider = {
+        channel: 'test',
+        async send(message) {
+            if (failWith) throw new Error(failWith);
+            sent.push(message);
+            return { providerMessageId: `msg-${sent.length}` };
+        },
+    };
+    return { provider, sent };
+};
+
+const staffByToken: Record<string, StaffUser> = {
+    'staff-token': { id: 'staff-1', email: 'desk@prudence.example', name: 'Front Desk', role: 'receptionist', doctorId: null },
+    'doctor-token': { id: 'staff-2', email: 'ravi@prudence.example', name: 'Dr. Ravi Kumar', role: 'doctor', doctorId: 1 },
+    'admin-token': { id: 'staff-3', email: 'admin@prudence.example', name: 'Hospital Admin', role: 'admin', doctorId: null },
+};
+
+/** Knows one receptionist ('staff-token'), Dr. Ravi Kumar ('doctor-token') and an admin ('admin-token'). */
+export const staffAuth: Authenticator = async (token) => staffByToken[token] || null;
+
+export const asStaff: Partial<HandlerEvent> = { headers: { authorization: 'Bearer staff-token' } };
+export const asDoctor: Partial<HandlerEvent> = { headers: { authorization: 'Bearer doctor-token' } };
+export const asAdmin: Partial<HandlerEvent> = { headers: { authorization: 'Bearer admin-token' } };
+
+export const invoke = async (handler: Handler | StreamingHandler, body?: object, httpMethod = 'POST', overrides: Partial<HandlerEvent> = {}) => {
+    const event: HandlerEvent = {
+        rawUrl: '/.netlify/functions/test',
+        rawQuery: '',
+        path: '/.netlify/functions/test',
+        httpMethod,
+        headers: {},
+        multiValueHeaders: {},
+        queryStringParameters: null,
+        multiValueQueryStringParameters: null,
+        body: body === undefined ? null : JSON.stringify(body),
+        isBase64Encoded: false,
+        ...overrides,
+    };
+    const response = await handler(event, {} as HandlerContext);
+    if (!response) throw new Error('Handler returned no response');
+    return { statusCode: response.statusCode, body: JSON.parse(String(response.body || '{}')) };
+};
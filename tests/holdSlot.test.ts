@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { createHandler } from '../netlify/functions/holdSlot';
+import { confirmed, invoke, seedStore } from './helpers';
+
+const request = { doctorName: 'Ravi', date: '2030-01-15', time: '10:30' };
+
+describe('holdSlot', () => {
+    it('reserves a free slot until the hold expires', async () => {
+        const store = seedStore();
+        const res = await invoke(createHandler(store), { ...request, minutes: 3 });
+
+        expect(res.statusCode).toBe(200);
+        expect(store.tables.appointments[0]).toMatchObject({ id: res.body.holdId, status: 'held', patient_name: null });
+        expect(new Date(res.body.expiresAt).getTime()).toBeGreaterThan(Date.now() + 2 * 60_000);
+    });
+
+    it('returns 409 when the slot is booked or held', async () => {
+        const store = seedStore([confirmed({ appointment_time: '10:30' })]);
+        expect((await invoke(createHandler(store), request)).statusCode).toBe(409);
+
+        const held = seedStore();
+        await invoke(createHandler(held), request);
+        expect((await invoke(createHandler(held), request)).statusCode).toBe(409);
+    });
+
+    it('lets an expired hold be taken over', async () => {
+        const store = seedStore([confirmed({ appointment_time: '10:30', status: 'held', patient_name: null, hold_expires_at: '2000-01-01T00:00:00Z' })]);
+        const res = await invoke(createHandler(store), request);
+
+        expect(res.statusCode).toBe(200);
+        expect(store.tables.appointments.map(a => a.status)).toEqual(['expired', 'held']);
+    });
+
+    it('returns 404 for an unknown doctor', async () => {
+        const res = await invoke(createHandler(seedStore()), { ...request, doctorName: 'Nobody' });
+        expect(res.statusCode).toBe(404);
+    });
+
+    it('returns 400 without a time', async () => {
+        const res = await invoke(createHandler(seedStore()), { doctorName: 'Ravi', date: '2030-01-15' });
+        expect(res.statusCode).toBe(400);
+        expect(res.body).toMatchObject({ code: 'MISSING_FIELD', field: 'time' });
+    });
+
+    it('only holds slots the doctor offers that day', async () => {
+        const store = seedStore();
+        store.tables.hospital_holidays.push({ holiday_date: '2030-01-16', name: 'Sankranti' });
+
+        const offHours = await invoke(createHandler(store), { ...request, time: '14:00' });
+        expect(offHours.body).toMatchObject({ code: 'SLOT_NOT_OFFERED', field: 'time' });
+
+        const holiday = await invoke(createHandler(store), { ...request, date: '2030-01-16' });
+        expect(holiday.body).toMatchObject({ code: 'SLOT_NOT_OFFERED', field: 'date', message: expect.stringContaining('Sankranti') });
+        expect(store.tables.appointments).toEqual([]);
+    });
+
+    it('accepts a time without the leading zero', async () => {
+        const store = seedStore();
+        const res = await invoke(createHandler(store), { doctorName: 'Lakshmi', date: '2030-01-15', time: '9:30' });
+
+        expect(res.statusCode).toBe(200);
+        expect(store.tables.appointments[0]).toMatchObject({ doctor_id: 2, appointment_time: '09:30' });
+    });
+});
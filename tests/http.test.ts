@@ -0,0 +1,56 @@
+import type { Handler, HandlerContext, HandlerEvent } from '@netlify/functions';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { INTERNAL_KEY_HEADER, internalOnly, withCors } from '../netlify/functions/lib/http';
+import { invoke } from './helpers';
+
+const ok: Handler = async () => ({ statusCode: 200, headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ success: true }) });
+
+describe('withCors', () => {
+    afterEach(() => { vi.unstubAllEnvs(); });
+
+    const call = async (origin: string, httpMethod = 'POST') => {
+        const response = await withCors(ok)({ httpMethod, headers: { origin } } as unknown as HandlerEvent, {} as HandlerContext);
+        return response as { statusCode: number; headers: Record<string, string> };
+    };
+
+    it('echoes an allowed origin', async () => {
+        vi.stubEnv('ALLOWED_ORIGINS', 'https://sahay.example, https://admin.sahay.example/');
+        const res = await call('https://admin.sahay.example');
+
+        expect(res.headers['Access-Control-Allow-Origin']).toBe('https://admin.sahay.example');
+        expect(res.headers['Content-Type']).toBe('application/json');
+    });
+
+    it('treats the site URL as allowed', async () => {
+        vi.stubEnv('URL', 'https://sahay.netlify.app');
+        expect((await call('https://sahay.netlify.app')).headers['Access-Control-Allow-Origin']).toBe('https://sahay.netlify.app');
+    });
+
+    it('refuses preflights from other origins and never sends a wildcard', async () => {
+        vi.stubEnv('ALLOWED_ORIGINS', 'https://sahay.example');
+
+        expect((await call('https://evil.example', 'OPTIONS')).statusCode).toBe(403);
+        const res = await call('https://evil.example');
+        expect(res.statusCode).toBe(200);
+        expect(res.headers['Access-Control-Allow-Origin']).toBeUndefined();
+    });
+});
+
+describe('internalOnly', () => {
+    afterEach(() => { vi.unstubAllEnvs(); });
+
+    it('answers only callers holding the tool key', async () => {
+        vi.stubEnv('TOOL_API_KEY', 'secret-key');
+        const handler = internalOnly(ok);
+
+        expect((await invoke(handler, {}, 'POST', { headers: { [INTERNAL_KEY_HEADER]: 'secret-key' } })).statusCode).toBe(200);
+        expect((await invoke(handler, {}, 'POST', { headers: { [INTERNAL_KEY_HEADER]: 'guess' } })).statusCode).toBe(403);
+        expect((await invoke(handler, {})).statusCode).toBe(403);
+    });
+
+    it('is closed when no key is configured', async () => {
+        vi.stubEnv('TOOL_API_KEY', '');
+        const res = await invoke(internalOnly(ok), {}, 'POST', { headers: { [INTERNAL_KEY_HEADER]: '' } });
+        expect(res.statusCode).toBe(403);
+    });
+});
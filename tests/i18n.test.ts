@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { runAssistant } from '../netlify/functions/lib/assistant';
+import { detectLanguage, LANGUAGES, languageOfLocale, messagesFor, type Language } from '../netlify/functions/lib/i18n';
+import type { ModelProvider } from '../netlify/functions/lib/model';
+import { createScriptedModel } from '../netlify/functions/lib/scriptedModel';
+
+describe('detectLanguage', () => {
+    it('tells the four languages apart by script', () => {
+        expect(detectLanguage('నాకు రేపు డాక్టర్ కావాలి')).toBe('te');
+        expect(detectLanguage('मुझे कल डॉक्टर चाहिए')).toBe('hi');
+        expect(detectLanguage('مجھے کل ڈاکٹر چاہیے')).toBe('ur');
+        expect(detectLanguage('I need a doctor tomorrow')).toBe('en');
+    });
+
+    it('goes by the script with the most letters', () => {
+        expect(detectLanguage('Dr. Ravi తో రేపు అపాయింట్‌మెంట్ కావాలి')).toBe('te');
+    });
+
+    it('has no answer for text without letters', () => {
+        expect(detectLanguage('9876543210')).toBeNull();
+        expect(detectLanguage('👍')).toBeNull();
+    });
+});
+
+describe('languageOfLocale', () => {
+    it('reads the language of a locale Sahay speaks', () => {
+        expect(languageOfLocale('hi-IN')).toBe('hi');
+        expect(languageOfLocale('en_GB')).toBe('en');
+        expect(languageOfLocale('ta-IN')).toBeNull();
+    });
+});
+
+describe('catalogues', () => {
+    it('have every stock reply in every language', () => {
+        const keys = (value: object): string[] =>
+            Object.entries(value).flatMap(([key, entry]) => typeof entry === 'object' ? keys(entry).map(inner => `${key}.${inner}`) : [key]);
+        const expected = keys(messagesFor('te'));
+
+        for (const language of Object.keys(LANGUAGES) as Language[]) {
+            const catalogue = messagesFor(language);
+            expect(keys(catalogue), language).toEqual(expected);
+            expect(catalogue.emergency('108'), language).toContain('108');
+            expect(detectLanguage(catalogue.call.greeting), language).toBe(language);
+        }
+    });
+});
+
+describe('runAssistant', () => {
+    // Records the history the assistant opens the chat with
+    const recording = (reply: string) => {
+        const scripted = createScriptedModel([{ reply }]);
+        const opened: string[] = [];
+        const model: ModelProvider = {
+            startChat(params) {
+                opened.push(...params.history.flatMap(content => content.parts.map(part => part.text || '')));
+                return scripted.startChat(params);
+            },
+        };
+        return { model, opened };
+    };
+
+    it('tells the model to speak the session\'s language', async () => {
+        const { model, opened } = recording('जी, बताइए।');
+        await runAssistant({ turns: [], message: 'नमस्ते', sessionId: 'session', language: 'hi', model });
+
+        expect(opened[0]).toContain('entire conversation in Hindi');
+        expect(opened[0]).toContain('translate the patient\'s words into English');
+        expect(opened[1]).toBe(messagesFor('hi').ready);
+    });
+
+    it('keeps Telugu and tool arguments as spoken by default', async () => {
+        const { model, opened } = recording('సరే');
+        await runAssistant({ turns: [], message: 'నమస్కారం', sessionId: 'session', model });
+
+        expect(opened[0]).toContain('entire conversation in Telugu');
+        expect(opened[0]).not.toContain('translate');
+    });
+});
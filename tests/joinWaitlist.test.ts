@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { createHandler } from '../netlify/functions/joinWaitlist';
+import { invoke, seedStore } from './helpers';
+
+const request = { doctorName: 'Ravi', fromDate: '2030-01-15', toDate: '2030-01-17', timeOfDay: 'సాయంత్రం', patientName: 'Sita', phone: '9123456780' };
+
+describe('joinWaitlist', () => {
+    it('queues the patient for the doctor and dates', async () => {
+        const store = seedStore();
+        const res = await invoke(createHandler(store), request);
+
+        expect(res.statusCode).toBe(200);
+        expect(store.tables.waitlist_entries).toMatchObject([{
+            id: res.body.waitlistId,
+            doctor_id: 1,
+            patient_name: 'Sita',
+            phone: '+919123456780',
+            from_date: '2030-01-15',
+            to_date: '2030-01-17',
+            time_of_day: 'evening',
+            status: 'waiting',
+        }]);
+    });
+
+    it('waits for a single day when no end date is given', async () => {
+        const store = seedStore();
+        await invoke(createHandler(store), { ...request, toDate: undefined, timeOfDay: undefined });
+
+        expect(store.tables.waitlist_entries[0]).toMatchObject({ to_date: '2030-01-15', time_of_day: null });
+    });
+
+    it('returns 400 for a range that ends before it starts', async () => {
+        const res = await invoke(createHandler(seedStore()), { ...request, toDate: '2030-01-14' });
+        expect(res.statusCode).toBe(400);
+    });
+
+    it('returns 400 for an unknown time of day', async () => {
+        const res = await invoke(createHandler(seedStore()), { ...request, timeOfDay: 'midnight' });
+        expect(res.statusCode).toBe(400);
+    });
+});
@@ -0,0 +1,36 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createWhatsAppProvider, providerFromEnv } from '../netlify/functions/lib/notifications';
+
+describe('notification providers', () => {
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it('defaults to the console provider', () => {
+        expect(providerFromEnv({}).channel).toBe('console');
+    });
+
+    it('refuses SMS without Twilio credentials', () => {
+        expect(() => providerFromEnv({ NOTIFICATION_PROVIDER: 'sms' })).toThrow(/Twilio credentials/);
+    });
+
+    it('sends WhatsApp messages through Twilio with prefixed numbers', async () => {
+        const fetchMock = vi.fn(async () => new Response(JSON.stringify({ sid: 'SM123' }), { status: 201 }));
+        vi.stubGlobal('fetch', fetchMock);
+
+        const provider = createWhatsAppProvider({ accountSid: 'AC1', authToken: 'secret', from: '+14155238886' });
+        const result = await provider.send({ to: '+919876543210', body: 'hello' });
+
+        const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+        expect(url).toBe('https://api.twilio.com/2010-04-01/Accounts/AC1/Messages.json');
+        expect(Object.fromEntries(init.body as URLSearchParams)).toEqual({ To: 'whatsapp:+919876543210', From: 'whatsapp:+14155238886', Body: 'hello' });
+        expect(result).toEqual({ providerMessageId: 'SM123' });
+    });
+
+    it('rejects when Twilio refuses the message', async () => {
+        vi.stubGlobal('fetch', vi.fn(async () => new Response(JSON.stringify({ message: 'Invalid To' }), { status: 400 })));
+
+        const provider = createWhatsAppProvider({ accountSid: 'AC1', authToken: 'secret', from: '+14155238886' });
+        await expect(provider.send({ to: '+919876543210', body: 'hello' })).rejects.toThrow('Twilio whatsapp failed (400): Invalid To');
+    });
+});
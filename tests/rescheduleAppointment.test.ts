@@ -0,0 +1,94 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createHandler } from '../netlify/functions/rescheduleAppointment';
+import { appointmentCalendarUrl } from '../netlify/functions/lib/calendar';
+import { createNotifier } from '../netlify/functions/lib/notifications';
+import { confirmed, invoke, recordingProvider, seedStore } from './helpers';
+
+const request = { appointmentId: 100, phone: '+91 98765 43210', newDate: '2030-01-16', newTime: '11:00' };
+
+describe('rescheduleAppointment', () => {
+    afterEach(() => {
+        vi.unstubAllEnvs();
+    });
+
+    it('moves the booking to the new date and time', async () => {
+        const store = seedStore([confirmed()]);
+        const { provider, sent } = recordingProvider();
+        const res = await invoke(createHandler(store, createNotifier(store, provider, 'en')), request);
+
+        expect(res.statusCode).toBe(200);
+        expect(store.tables.appointments[0]).toMatchObject({ appointment_date: '2030-01-16', appointment_time: '11:00' });
+        expect(sent.map(m => m.body)).toEqual(['Dear Anil, your appointment with Dr. Ravi Kumar has been moved to 16-01-2030 at 11:00. Appointment no: 100. - Prudence Hospitals']);
+    });
+
+    it('records the old and new slot in the audit trail', async () => {
+        const store = seedStore([confirmed()]);
+        await invoke(createHandler(store), request);
+
+        expect(store.tables.appointment_events).toMatchObject([{
+            appointment_id: 100,
+            action: 'rescheduled',
+            actor_type: 'system',
+            channel: 'api',
+            before: { appointment_date: '2030-01-15', appointment_time: '10:00', status: 'confirmed' },
+            after: { appointment_date: '2030-01-16', appointment_time: '11:00', status: 'confirmed' },
+        }]);
+    });
+
+    it('links the updated calendar file when calendar links are on', async () => {
+        vi.stubEnv('CALENDAR_SECRET', 'calendar-secret');
+        const res = await invoke(createHandler(seedStore([confirmed()])), request);
+
+        expect(res.body.calendarUrl).toBe(appointmentCalendarUrl(100));
+    });
+
+    it('returns 409 when the new slot is taken', async () => {
+        const store = seedStore([confirmed(), confirmed({ id: 101, patient_id: 2, patient_name: 'Kamala', appointment_date: '2030-01-16', appointment_time: '11:00' })]);
+        const res = await invoke(createHandler(store), request);
+
+        expect(res.statusCode).toBe(409);
+        expect(store.tables.appointments[0]).toMatchObject({ appointment_date: '2030-01-15', appointment_time: '10:00' });
+    });
+
+    it('returns 404 for an unknown appointment', async () => {
+        const res = await invoke(createHandler(seedStore([confirmed()])), { ...request, appointmentId: 999 });
+        expect(res.statusCode).toBe(404);
+    });
+
+    it('returns 404 when the booking belongs to another phone', async () => {
+        const res = await invoke(createHandler(seedStore([confirmed()])), { ...request, phone: '9000000000' });
+        expect(res.statusCode).toBe(404);
+    });
+
+    it('returns 400 when details are missing', async () => {
+        const res = await invoke(createHandler(seedStore()), { appointmentId: 100 });
+        expect(res.statusCode).toBe(400);
+    });
+
+    it('only moves the booking to a slot its doctor offers', async () => {
+        const store = seedStore([confirmed()]);
+        const res = await invoke(createHandler(store), { ...request, newTime: '16:00' });
+
+        expect(res.statusCode).toBe(400);
+        expect(res.body).toMatchObject({ code: 'SLOT_NOT_OFFERED', field: 'newTime' });
+        expect(store.tables.appointments[0]).toMatchObject({ appointment_date: '2030-01-15', appointment_time: '10:00' });
+    });
+
+    it('offers no new slot once the doctor is inactive', async () => {
+        const store = seedStore([confirmed()]);
+        await store.doctors.update(1, { active: false });
+        const res = await invoke(createHandler(store), request);
+
+        expect(res.statusCode).toBe(400);
+        expect(res.body).toMatchObject({ code: 'SLOT_NOT_OFFERED', field: 'newDate', message: 'Dr. Ravi Kumar is no longer taking appointments.' });
+    });
+
+    it('does not move the booking when its doctor is gone', async () => {
+        const store = seedStore([confirmed({ doctor_id: 99 })]);
+        const res = await invoke(createHandler(store), request);
+
+        expect(res.statusCode).toBe(404);
+        expect(res.body.code).toBe('DOCTOR_NOT_FOUND');
+        expect(store.tables.appointments[0]).toMatchObject({ appointment_date: '2030-01-15', appointment_time: '10:00' });
+    });
+});
@@ -0,0 +1,27 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createHandler } from '../netlify/functions/resolveDate';
+import { invoke } from './helpers';
+
+describe('resolveDate', () => {
+    afterEach(() => { vi.useRealTimers(); });
+
+    it('counts from the hospital\'s today', async () => {
+        vi.useFakeTimers({ toFake: ['Date'] });
+        vi.setSystemTime(new Date('2030-01-14T20:00:00Z')); // 01:30 on Tuesday the 15th in India
+
+        const res = await invoke(createHandler(), { phrase: 'రేపు' });
+        expect(res.statusCode).toBe(200);
+        expect(res.body).toEqual({ success: true, date: '2030-01-16', weekday: 'Wednesday', today: '2030-01-15' });
+    });
+
+    it('asks for the date again when the phrase names no day', async () => {
+        const res = await invoke(createHandler(), { phrase: 'whenever the doctor is free' });
+        expect(res.statusCode).toBe(422);
+        expect(res.body).toMatchObject({ success: false, code: 'DATE_NOT_UNDERSTOOD', field: 'phrase' });
+    });
+
+    it('returns 400 without a phrase', async () => {
+        const res = await invoke(createHandler(), {});
+        expect(res.body).toMatchObject({ code: 'MISSING_FIELD', field: 'phrase' });
+    });
+});
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { createHandler } from '../netlify/functions/respondToWaitlistOffer';
+import { createHandler as createJoinHandler } from '../netlify/functions/joinWaitlist';
+import { createNotifier } from '../netlify/functions/lib/notifications';
+import { createWaitlist } from '../netlify/functions/lib/waitlist';
+import { invoke, recordingProvider, seedStore } from './helpers';
+
+const setup = async (...patientNames: string[]) => {
+    const store = seedStore();
+    const waitlist = createWaitlist(store, createNotifier(store, recordingProvider().provider));
+    for (const patientName of patientNames) {
+        await invoke(createJoinHandler(store), { doctorName: 'Ravi', fromDate: '2030-01-15', patientName, phone: '9876543210' });
+    }
+    return { store, waitlist, respond: createHandler(store, waitlist) };
+};
+
+describe('respondToWaitlistOffer', () => {
+    it('books the offered slot when accepted', async () => {
+        const { store, waitlist, respond } = await setup('Anil');
+        await waitlist.offerFreedSlot({ doctorId: 1, date: '2030-01-15', time: '10:00' });
+
+        const res = await invoke(respond, { phone: '9876543210', accept: true });
+
+        expect(res.statusCode).toBe(200);
+        expect(store.tables.appointments).toMatchObject([{ id: res.body.appointmentId, patient_name: 'Anil', status: 'confirmed' }]);
+    });
+
+    it('returns 404 when there is no open offer', async () => {
+        const { respond } = await setup('Anil');
+        const res = await invoke(respond, { phone: '9876543210', accept: true });
+        expect(res.statusCode).toBe(404);
+    });
+
+    it('asks which offer is meant when family members have several', async () => {
+        const { waitlist, respond } = await setup('Anil', 'Kamala');
+        await waitlist.offerFreedSlot({ doctorId: 1, date: '2030-01-15', time: '10:00' });
+        await waitlist.offerFreedSlot({ doctorId: 1, date: '2030-01-15', time: '10:30' });
+
+        const res = await invoke(respond, { phone: '9876543210', accept: true });
+
+        expect(res.statusCode).toBe(409);
+        expect(res.body.code).toBe('AMBIGUOUS_OFFER');
+        expect(res.body.offers.map((o: { patientName: string; time: string }) => [o.patientName, o.time])).toEqual([['Anil', '10:00'], ['Kamala', '10:30']]);
+    });
+
+    it('returns 410 when the hold behind the offer has lapsed', async () => {
+        const { store, waitlist, respond } = await setup('Anil');
+        await waitlist.offerFreedSlot({ doctorId: 1, date: '2030-01-15', time: '10:00' });
+        store.tables.appointments[0].hold_expires_at = '2000-01-01T00:00:00Z';
+
+        const res = await invoke(respond, { phone: '9876543210', accept: true });
+
+        expect(res.statusCode).toBe(410);
+        expect(store.tables.waitlist_entries[0].status).toBe('expired');
+    });
+
+    it('returns 400 without a yes or no', async () => {
+        const { respond } = await setup();
+        const res = await invoke(respond, { phone: '9876543210' });
+        expect(res.statusCode).toBe(400);
+    });
+});
@@ -0,0 +1,80 @@
+import { readdirSync, readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { expect, vi } from 'vitest';
+import { runAssistant } from '../netlify/functions/lib/assistant';
+import { createMemoryStore, type MemoryStore, type MemoryTables } from '../netlify/functions/lib/data/memoryStore';
+import type { NewTurn } from '../netlify/functions/lib/data/types';
+import { createScriptedModel, type ScriptedStep } from '../netlify/functions/lib/scriptedModel';
+import { settleLanguage } from '../netlify/functions/lib/sessions';
+import { createToolRunner } from '../netlify/functions/lib/toolRegistry';
+import { doctors, patients, specialties } from './helpers';
+
+/** One patient message, what the model does with it, and what should come of it. */
+export interface ScenarioTurn {
+    patient: string;
+    /** The model's steps for this message: tool calls, then usually a reply. */
+    model: ScriptedStep[];
+    /** Text the assistant's reply must contain. */
+    reply?: string;
+    /** The tools called while answering, in order, with results matched partially. */
+    tools?: { name: string; result?: object }[];
+}
+
+export interface Scenario {
+    name: string;
+    /** When the conversation happens (ISO timestamp); dates in the script are relative to it. */
+    now: string;
+    /** Rows added to the standard specialties, doctors and patients. */
+    seed?: Partial<MemoryTables>;
+    /** The sender's phone on a messaging channel; the web chat when absent. */
+    phone?: string;
+    /** The language the patient picked; detected from their first message when absent. */
+    language?: string;
+    turns: ScenarioTurn[];
+    /** Tables as they must end up, row for row; rows are matched partially. */
+    expect: Partial<Record<keyof MemoryTables, object[]>>;
+}
+
+/** Every *.json scenario in `dir`, by file name. */
+export const loadScenarios = (dir: string): Scenario[] =>
+    readdirSync(dir)
+        .filter(file => file.endsWith('.json'))
+        .sort()
+        .map(file => JSON.parse(readFileSync(join(dir, file), 'utf8')) as Scenario);
+
+const toolCalls = (turns: NewTurn[]) =>
+    turns.filter(turn => turn.role === 'tool').map(turn => ({ name: turn.tool_name, result: turn.tool_result }));
+
+/**
+ * Plays a scenario through the real assistant loop, tools and validation, with
+ * the scripted model in place of Gemini and an in-memory store in place of
+ * Supabase, then checks the replies, tool results and final tables.
+ */
+export const runScenario = async (scenario: Scenario): Promise<MemoryStore> => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date(scenario.now));
+
+    const store = createMemoryStore({ specialties, doctors, patients, ...scenario.seed });
+    const tools = createToolRunner(store);
+    const session = await store.sessions.create(scenario.phone ? 'chat' : 'web', scenario.phone);
+
+    for (const [index, turn] of scenario.turns.entries()) {
+        const step = `turn ${index + 1} ("${turn.patient}")`;
+        const model = createScriptedModel(turn.model);
+        const current = await store.sessions.findById(session.id) || session;
+        const language = await settleLanguage(store, current, turn.patient, scenario.language);
+        const turns = await store.sessions.listTurns(session.id);
+
+        const { reply, turns: newTurns } = await runAssistant({ turns, message: turn.patient, sessionId: session.id, phone: scenario.phone, language, model, tools });
+        await store.sessions.appendTurns(session.id, newTurns);
+
+        expect(model.remaining(), `${step}: unplayed model steps`).toBe(0);
+        if (turn.reply !== undefined) expect(reply, `${step}: reply`).toContain(turn.reply);
+        if (turn.tools) expect(toolCalls(newTurns), `${step}: tool calls`).toMatchObject(turn.tools);
+    }
+
+    for (const [table, rows] of Object.entries(scenario.expect)) {
+        expect(store.tables[table as keyof MemoryTables], `final ${table}`).toMatchObject(rows);
+    }
+    return store;
+};
@@ -0,0 +1,15 @@
+import { fileURLToPath } from 'node:url';
+import { afterEach, describe, it, vi } from 'vitest';
+import { loadScenarios, runScenario } from './scenarioHarness';
+
+describe('conversation scenarios', () => {
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    for (const scenario of loadScenarios(fileURLToPath(new URL('./scenarios', import.meta.url)))) {
+        it(scenario.name, async () => {
+            await runScenario(scenario);
+        });
+    }
+});
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { dropPastSlots, filterByTimeOfDay, generateSlots, parseTimeOfDay } from '../netlify/functions/lib/scheduling';
+import type { WeeklySchedule } from '../netlify/functions/lib/data/types';
+
+// 2030-01-14 is a Monday
+const monday: WeeklySchedule = {
+    doctor_id: 1, weekday: 1, start_time: '09:00', end_time: '12:00', slot_minutes: 30,
+    breaks: [{ start: '10:30', end: '11:00' }],
+};
+const mondayEvening: WeeklySchedule = { ...monday, start_time: '17:00', end_time: '18:00', breaks: [] };
+
+describe('generateSlots', () => {
+    it('splits each session into slots and skips breaks', () => {
+        expect(generateSlots([monday, mondayEvening], '2030-01-14'))
+            .toEqual(['09:00', '09:30', '10:00', '11:00', '11:30', '17:00', '17:30']);
+    });
+
+    it('offers nothing on days without a session', () => {
+        expect(generateSlots([monday], '2030-01-13')).toEqual([]);
+    });
+
+    it('never runs a slot past the end of the session', () => {
+        expect(generateSlots([{ ...monday, end_time: '09:50', breaks: [] }], '2030-01-14')).toEqual(['09:00']);
+    });
+});
+
+describe('filterByTimeOfDay', () => {
+    const slots = ['09:00', '11:30', '12:00', '16:45', '17:00'];
+
+    it('keeps the requested part of the day', () => {
+        expect(filterByTimeOfDay(slots, 'morning')).toEqual(['09:00', '11:30']);
+        expect(filterByTimeOfDay(slots, 'afternoon')).toEqual(['12:00', '16:45']);
+        expect(filterByTimeOfDay(slots, 'evening')).toEqual(['17:00']);
+        expect(filterByTimeOfDay(slots, null)).toEqual(slots);
+    });
+
+    it('understands Telugu time-of-day words', () => {
+        expect(parseTimeOfDay('సాయంత్రం')).toBe('evening');
+        expect(parseTimeOfDay('Morning')).toBe('morning');
+        expect(parseTimeOfDay('whenever')).toBeNull();
+    });
+});
+
+describe('dropPastSlots', () => {
+    const now = { date: '2030-01-14', time: '10:10' };
+
+    it('removes slots that have started today', () => {
+        expect(dropPastSlots(['10:00', '10:30'], '2030-01-14', now)).toEqual(['10:30']);
+    });
+
+    it('offers nothing for past dates and everything for future ones', () => {
+        expect(dropPastSlots(['10:00'], '2030-01-13', now)).toEqual([]);
+        expect(dropPastSlots(['10:00'], '2030-01-15', now)).toEqual(['10:00']);
+    });
+});
@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { createScriptedModel } from '../netlify/functions/lib/scriptedModel';
+import { functionDeclarations } from '../netlify/functions/lib/toolRegistry';
+
+const chat = (model: ReturnType<typeof createScriptedModel>) => model.startChat({ history: [], functionDeclarations });
+
+describe('createScriptedModel', () => {
+    it('plays one step per request and records what it was sent', async () => {
+        const model = createScriptedModel([
+            { calls: [{ name: 'resolveDate', args: { phrase: 'రేపు' } }] },
+            { reply: 'సరే' },
+        ]);
+        const session = chat(model);
+        const streamed: string[] = [];
+
+        expect(await session.send('రేపు')).toEqual({ text: '', functionCalls: [{ name: 'resolveDate', args: { phrase: 'రేపు' } }] });
+        expect(await session.send([{ text: 'results' }], text => streamed.push(text))).toEqual({ text: 'సరే', functionCalls: [] });
+        expect(streamed).toEqual(['సరే']);
+        expect(model.requests).toEqual(['రేపు', [{ text: 'results' }]]);
+        expect(model.remaining()).toBe(0);
+    });
+
+    it('rejects calls that do not match the tool declarations', async () => {
+        await expect(chat(createScriptedModel([{ calls: [{ name: 'bookSlot' }] }])).send('hi')).rejects.toThrow('undeclared tool bookSlot');
+        await expect(chat(createScriptedModel([{ calls: [{ name: 'resolveDate', args: { text: 'రేపు' } }] }])).send('hi')).rejects.toThrow('undeclared parameters: text');
+        await expect(chat(createScriptedModel([{ calls: [{ name: 'holdSlot', args: { doctorName: 'Ravi' } }] }])).send('hi')).rejects.toThrow('missing required parameters: date, time');
+    });
+
+    it('fails when the assistant asks for more than the script has', async () => {
+        await expect(chat(createScriptedModel([])).send('hi')).rejects.toThrow('no step left');
+    });
+});
@@ -0,0 +1,72 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createNotifier, sendDueReminders } from '../netlify/functions/lib/notifications';
+import { confirmed, recordingProvider, seedStore } from './helpers';
+
+const setup = () => {
+    const store = seedStore([
+        confirmed({ id: 100, appointment_date: '2030-01-15', appointment_time: '10:00' }),
+        confirmed({ id: 101, appointment_date: '2030-01-15', appointment_time: '16:00' }),
+        confirmed({ id: 102, appointment_date: '2030-01-16', appointment_time: '09:00' }),
+        confirmed({ id: 103, appointment_date: '2030-01-16', appointment_time: '11:00', status: 'cancelled' }),
+    ]);
+    const { provider, sent } = recordingProvider();
+    return { store, sent, notifier: createNotifier(store, provider, 'en') };
+};
+
+describe('sendDueReminders', () => {
+    afterEach(() => {
+        vi.unstubAllEnvs();
+    });
+
+    it('sends nothing before the morning reminder time', async () => {
+        const { store, notifier, sent } = setup();
+        expect(await sendDueReminders(store, notifier, { date: '2030-01-15', time: '06:00' })).toEqual({ sent: 0, failed: 0, skipped: 0 });
+        expect(sent).toHaveLength(0);
+    });
+
+    it('reminds the same morning only for appointments still ahead', async () => {
+        const { store, notifier, sent } = setup();
+        await sendDueReminders(store, notifier, { date: '2030-01-15', time: '12:00' });
+
+        expect(sent.map(m => m.body)).toEqual(['Reminder: Anil has an appointment with Dr. Ravi Kumar today at 16:00. - Prudence Hospitals']);
+    });
+
+    it('reminds confirmed appointments the evening before', async () => {
+        const { store, notifier } = setup();
+        await sendDueReminders(store, notifier, { date: '2030-01-15', time: '18:30' });
+
+        expect(store.tables.appointment_notifications.map(n => [n.appointment_id, n.kind])).toEqual([
+            [102, 'reminder_day_before'],
+        ]);
+    });
+
+    it('does not repeat a reminder on later runs', async () => {
+        const { store, notifier, sent } = setup();
+        await sendDueReminders(store, notifier, { date: '2030-01-15', time: '18:30' });
+        const second = await sendDueReminders(store, notifier, { date: '2030-01-15', time: '19:30' });
+
+        expect(second.sent).toBe(0);
+        expect(sent).toHaveLength(1);
+    });
+
+    it('reminds again after a reschedule to a new slot', async () => {
+        const { store, notifier, sent } = setup();
+        await sendDueReminders(store, notifier, { date: '2030-01-15', time: '18:30' });
+        store.tables.appointments[2].appointment_time = '09:30';
+        await sendDueReminders(store, notifier, { date: '2030-01-15', time: '19:30' });
+
+        expect(sent).toHaveLength(2);
+    });
+
+    it('records each reminder as failed when the provider is misconfigured, and finishes the run', async () => {
+        vi.stubEnv('NOTIFICATION_PROVIDER', 'sms');
+        vi.stubEnv('TWILIO_ACCOUNT_SID', '');
+        const { store } = setup();
+        const run = await sendDueReminders(store, createNotifier(store, undefined, 'en'), { date: '2030-01-15', time: '12:00' });
+
+        expect(run).toEqual({ sent: 0, failed: 1, skipped: 0 });
+        expect(store.tables.appointment_notifications).toMatchObject([
+            { appointment_id: 101, kind: 'reminder_same_day', channel: 'sms', status: 'failed' },
+        ]);
+    });
+});
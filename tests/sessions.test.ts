@@ -0,0 +1,150 @@
+import { describe, expect, it } from 'vitest';
+import { toHistory } from '../netlify/functions/lib/assistant';
+import type { ConversationTurn, NewTurn } from '../netlify/functions/lib/data/types';
+import { resumeContactSession, resumeSession, settleLanguage, summariseTurns, trimTurns } from '../netlify/functions/lib/sessions';
+import { seedStore } from './helpers';
+
+const turns = (...specs: NewTurn[]): ConversationTurn[] =>
+    specs.map((spec, index) => ({
+        id: index + 1,
+        session_id: 'session',
+        seq: index + 1,
+        text: null,
+        tool_name: null,
+        tool_args: null,
+        tool_result: null,
+        created_at: '2030-01-15T04:30:00Z',
+        ...spec,
+    }));
+
+const exchange = turns(
+    { role: 'user', text: 'రవి గారి అపాయింట్‌మెంట్ కావాలి' },
+    { role: 'tool', tool_name: 'getAvailableSlots', tool_args: { doctorName: 'Ravi', date: '2030-01-15' }, tool_result: { success: true, availableSlots: ['10:00'] } },
+    { role: 'tool', tool_name: 'getDoctorDetails', tool_args: { doctorName: 'Ravi' }, tool_result: { success: true } },
+    { role: 'model', text: '10 గంటలకు ఖాళీ ఉంది.' },
+    { role: 'user', text: 'సరే' },
+    { role: 'model', text: 'మీ పేరు చెప్పండి.' },
+);
+
+describe('trimTurns', () => {
+    it('keeps short conversations whole', () => {
+        expect(trimTurns(exchange, 10)).toEqual({ kept: exchange, dropped: [] });
+    });
+
+    it('cuts at the next user turn so tool results keep their question', () => {
+        const { kept, dropped } = trimTurns(exchange, 4);
+
+        expect(kept.map(t => t.seq)).toEqual([5, 6]);
+        expect(dropped.map(t => t.seq)).toEqual([1, 2, 3, 4]);
+    });
+});
+
+describe('summariseTurns', () => {
+    it('lists the tool calls of trimmed turns', () => {
+        expect(summariseTurns(exchange).split('\n')).toEqual([
+            '- getAvailableSlots({"doctorName":"Ravi","date":"2030-01-15"}) -> {"success":true,"availableSlots":["10:00"]}',
+            '- getDoctorDetails({"doctorName":"Ravi"}) -> {"success":true}',
+        ]);
+    });
+});
+
+describe('toHistory', () => {
+    it('replays consecutive tool turns as one call step and one result step', () => {
+        expect(toHistory(exchange.slice(0, 4))).toEqual([
+            { role: 'user', parts: [{ text: 'రవి గారి అపాయింట్‌మెంట్ కావాలి' }] },
+            {
+                role: 'model',
+                parts: [
+                    { functionCall: { name: 'getAvailableSlots', args: { doctorName: 'Ravi', date: '2030-01-15' } } },
+                    { functionCall: { name: 'getDoctorDetails', args: { doctorName: 'Ravi' } } },
+                ],
+            },
+            {
+                role: 'function',
+                parts: [
+                    { functionResponse: { name: 'getAvailableSlots', response: { success: true, availableSlots: ['10:00'] } } },
+                    { functionResponse: { name: 'getDoctorDetails', response: { success: true } } },
+                ],
+            },
+            { role: 'model', parts: [{ text: '10 గంటలకు ఖాళీ ఉంది.' }] },
+        ]);
+    });
+});
+
+describe('resumeSession', () => {
+    it('continues a known session', async () => {
+        const store = seedStore();
+        const session = await store.sessions.create('web');
+
+        expect(await resumeSession(store, session.id, 'web')).toEqual(session);
+    });
+
+    it('starts a new session for a missing or unknown id', async () => {
+        const store = seedStore();
+        await resumeSession(store, undefined, 'web');
+        await resumeSession(store, 'not-a-uuid', 'web');
+        await resumeSession(store, '6f1c2d3e-4b5a-4c6d-8e7f-901a2b3c4d5e', 'web');
+
+        expect(store.tables.conversation_sessions).toHaveLength(3);
+    });
+
+    it('numbers appended turns after the existing ones', async () => {
+        const store = seedStore();
+        const session = await store.sessions.create('web');
+        await store.sessions.appendTurns(session.id, [{ role: 'user', text: 'hi' }, { role: 'model', text: 'hello' }]);
+        await store.sessions.appendTurns(session.id, [{ role: 'user', text: 'bye' }]);
+
+        expect((await store.sessions.listTurns(session.id)).map(t => [t.seq, t.text])).toEqual([[1, 'hi'], [2, 'hello'], [3, 'bye']]);
+    });
+});
+
+describe('resumeContactSession', () => {
+    it('continues the contact\'s conversation on the same channel', async () => {
+        const store = seedStore();
+        const first = await resumeContactSession(store, 'whatsapp', '+919876543210');
+
+        expect(await resumeContactSession(store, 'whatsapp', '+919876543210')).toEqual(first);
+        expect((await resumeContactSession(store, 'whatsapp', '+919123456789')).id).not.toBe(first.id);
+        expect((await resumeContactSession(store, 'chat', '+919876543210')).id).not.toBe(first.id);
+    });
+
+    it('starts afresh once the conversation has been idle for a day', async () => {
+        const store = seedStore();
+        const first = await resumeContactSession(store, 'whatsapp', '+919876543210');
+        const nextDay = new Date(Date.parse(first.updated_at) + 25 * 3_600_000);
+
+        const next = await resumeContactSession(store, 'whatsapp', '+919876543210', nextDay);
+        expect(next.id).not.toBe(first.id);
+        expect(next.contact).toBe('+919876543210');
+    });
+});
+
+describe('settleLanguage', () => {
+    it('detects the language of the first message and keeps it', async () => {
+        const store = seedStore();
+        const session = await store.sessions.create('web');
+
+        expect(await settleLanguage(store, session, 'मुझे डॉक्टर से मिलना है')).toBe('hi');
+        const saved = await store.sessions.findById(session.id);
+        expect(saved?.language).toBe('hi');
+        // A later message in another script, such as a typed name, does not switch it
+        expect(await settleLanguage(store, saved!, 'Ravi Kumar')).toBe('hi');
+    });
+
+    it('switches to the language the patient picks', async () => {
+        const store = seedStore();
+        const session = await store.sessions.create('web');
+        await store.sessions.setLanguage(session.id, 'te');
+
+        expect(await settleLanguage(store, { ...session, language: 'te' }, 'నమస్కారం', 'ur')).toBe('ur');
+        expect((await store.sessions.findById(session.id))?.language).toBe('ur');
+    });
+
+    it('falls back to Telugu without saving when nothing tells the language', async () => {
+        const store = seedStore();
+        const session = await store.sessions.create('web');
+
+        expect(await settleLanguage(store, session, '9876543210', 'fr')).toBe('te');
+        expect((await store.sessions.findById(session.id))?.language).toBeNull();
+    });
+});
@@ -0,0 +1,139 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+    createCloudSpeechProvider,
+    createGeminiSpeechProvider,
+    createMemorySpeechCache,
+    createSentenceSplitter,
+    createSpeechService,
+} from '../netlify/functions/lib/speech';
+
+const split = (...pieces: string[]) => {
+    const sentences: string[] = [];
+    const splitter = createSentenceSplitter(sentence => sentences.push(sentence));
+    pieces.forEach(piece => splitter.push(piece));
+    splitter.flush();
+    return sentences;
+};
+
+describe('createSentenceSplitter', () => {
+    it('emits sentences as soon as they are complete across chunks', () => {
+        expect(split('డాక్టర్ రవి కుమార్ గారు రేపు అందుబాటులో', ' ఉన్నారు. ఏ సమయం కావాలి? ', 'చెప్పండి')).toEqual([
+            'డాక్టర్ రవి కుమార్ గారు రేపు అందుబాటులో ఉన్నారు.',
+            'ఏ సమయం కావాలి? చెప్పండి',
+        ]);
+    });
+
+    it('does not split times or short abbreviations', () => {
+        expect(split('Dr. Ravi can see you at 10.30 tomorrow. Please come early.')).toEqual([
+            'Dr. Ravi can see you at 10.30 tomorrow.',
+            'Please come early.',
+        ]);
+    });
+
+    it('splits on the Devanagari danda and line breaks', () => {
+        expect(split('आपकी अपॉइंटमेंट बुक हो गई है। कल सुबह आइए।\nधन्यवाद')).toEqual([
+            'आपकी अपॉइंटमेंट बुक हो गई है।',
+            'कल सुबह आइए।\nधन्यवाद',
+        ]);
+    });
+
+    it('splits on the Urdu full stop and question mark', () => {
+        expect(split('آپ کی اپائنٹمنٹ بک ہو گئی ہے۔ کیا کچھ اور چاہیے؟ شکریہ')).toEqual([
+            'آپ کی اپائنٹمنٹ بک ہو گئی ہے۔',
+            'کیا کچھ اور چاہیے؟ شکریہ',
+        ]);
+    });
+});
+
+const clip = (name: string) => ({ audioContent: name, mimeType: 'audio/mpeg' });
+
+const fakeProvider = (name: string, fail = false) => ({
+    name,
+    synthesize: vi.fn(async () => {
+        if (fail) throw new Error(`${name} is down`);
+        return clip(name);
+    }),
+});
+
+describe('createSpeechService', () => {
+    it('synthesises a phrase once and serves repeats from the cache', async () => {
+        const primary = fakeProvider('primary');
+        const speech = createSpeechService([primary]);
+
+        await speech.synthesize('నమస్కారం');
+        expect(await speech.synthesize('నమస్కారం')).toEqual(clip('primary'));
+        await speech.synthesize('నమస్కారం', { voice: 'Puck' });
+
+        expect(primary.synthesize).toHaveBeenCalledTimes(2);
+        expect(primary.synthesize).toHaveBeenLastCalledWith('నమస్కారం', { language: 'te-IN', voice: 'Puck' });
+    });
+
+    it('falls back when the first provider fails, without caching the fallback voice', async () => {
+        const primary = fakeProvider('primary', true);
+        const fallback = fakeProvider('fallback');
+        const speech = createSpeechService([primary, fallback]);
+
+        expect(await speech.synthesize('సరే')).toEqual(clip('fallback'));
+        await speech.synthesize('సరే');
+        expect(primary.synthesize).toHaveBeenCalledTimes(2);
+    });
+
+    it('rejects only when every provider failed', async () => {
+        const speech = createSpeechService([fakeProvider('primary', true), fakeProvider('fallback', true)]);
+        await expect(speech.synthesize('సరే')).rejects.toThrow('primary: primary is down; fallback: fallback is down');
+    });
+
+    it('forgets the least recently used clips beyond its size', () => {
+        const cache = createMemorySpeechCache(2);
+        cache.set('a', clip('a'));
+        cache.set('b', clip('b'));
+        cache.get('a');
+        cache.set('c', clip('c'));
+
+        expect([cache.get('a'), cache.get('b'), cache.get('c')]).toEqual([clip('a'), undefined, clip('c')]);
+    });
+});
+
+describe('speech providers', () => {
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it('wraps Gemini PCM in a WAV header at the rate it reports', async () => {
+        const pcm = Buffer.from([1, 2, 3, 4]).toString('base64');
+        const fetchMock = vi.fn(async () => new Response(JSON.stringify({
+            candidates: [{ content: { parts: [{ inlineData: { mimeType: 'audio/L16;codec=pcm;rate=16000', data: pcm } }] } }]
+        }), { status: 200 }));
+        vi.stubGlobal('fetch', fetchMock);
+
+        const audio = await createGeminiSpeechProvider('key').synthesize('సరే', { language: 'te-IN', voice: 'Kore' });
+
+        const wav = Buffer.from(audio.audioContent, 'base64');
+        expect(audio.mimeType).toBe('audio/wav');
+        expect(wav.toString('ascii', 0, 4)).toBe('RIFF');
+        expect(wav.readUInt32LE(24)).toBe(16000);
+        expect(wav.subarray(44)).toEqual(Buffer.from([1, 2, 3, 4]));
+        const [, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+        expect(JSON.parse(init.body as string).generationConfig.speechConfig).toEqual({
+            languageCode: 'te-IN',
+            voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Kore' } },
+        });
+    });
+
+    it('rejects when Gemini refuses the request instead of returning no audio', async () => {
+        vi.stubGlobal('fetch', vi.fn(async () => new Response(JSON.stringify({ error: { message: 'quota exceeded' } }), { status: 429 })));
+
+        await expect(createGeminiSpeechProvider('key').synthesize('సరే', { language: 'te-IN' })).rejects.toThrow('Gemini TTS failed (429): quota exceeded');
+    });
+
+    it('gets MP3 from Cloud TTS in its own voice', async () => {
+        const fetchMock = vi.fn(async () => new Response(JSON.stringify({ audioContent: 'bXAz' }), { status: 200 }));
+        vi.stubGlobal('fetch', fetchMock);
+
+        const audio = await createCloudSpeechProvider('key', 'te-IN-Standard-A').synthesize('సరే', { language: 'te-IN', voice: 'Kore' });
+
+        expect(audio).toEqual({ audioContent: 'bXAz', mimeType: 'audio/mpeg' });
+        const [, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+        expect(JSON.parse(init.body as string).voice).toEqual({ languageCode: 'te-IN', name: 'te-IN-Standard-A' });
+    });
+});
@@ -0,0 +1,58 @@
+import { inflateRawSync } from 'node:zlib';
+import { describe, expect, it } from 'vitest';
+import { toCsv, toXlsx } from '../netlify/functions/lib/spreadsheet';
+
+/** The files in a zip archive, read from its central directory. */
+const unzip = (archive: Buffer): Record<string, string> => {
+    const end = archive.lastIndexOf(Buffer.from([0x50, 0x4b, 0x05, 0x06]));
+    const count = archive.readUInt16LE(end + 10);
+    let entry = archive.readUInt32LE(end + 16);
+
+    const files: Record<string, string> = {};
+    for (let i = 0; i < count; i++) {
+        const size = archive.readUInt32LE(entry + 20);
+        const nameLength = archive.readUInt16LE(entry + 28);
+        const local = archive.readUInt32LE(entry + 42);
+        const name = archive.toString('utf8', entry + 46, entry + 46 + nameLength);
+
+        const dataStart = local + 30 + archive.readUInt16LE(local + 26) + archive.readUInt16LE(local + 28);
+        files[name] = inflateRawSync(archive.subarray(dataStart, dataStart + size)).toString('utf8');
+        entry += 46 + nameLength + archive.readUInt16LE(entry + 30) + archive.readUInt16LE(entry + 32);
+    }
+    return files;
+};
+
+describe('toCsv', () => {
+    it('quotes only where needed and leaves empty cells blank', () => {
+        expect(toCsv([['Doctor', 'Rate'], ['Dr. Rao, Jr.', 0.5], ['Say "hi"', null]])).toBe(
+            '\ufeffDoctor,Rate\r\n"Dr. Rao, Jr.",0.5\r\n"Say ""hi""",\r\n'
+        );
+    });
+
+    it('keeps text that looks like a formula from running', () => {
+        expect(toCsv([['=HYPERLINK("x")', '@SUM(A1)', -1]])).toBe('\ufeff"\'=HYPERLINK(""x"")",\'@SUM(A1),-1\r\n');
+    });
+});
+
+describe('toXlsx', () => {
+    it('writes a workbook with one worksheet per sheet', () => {
+        const files = unzip(toXlsx([
+            { name: 'Summary', rows: [['Doctor', 'Bookings'], ['Dr. Ravi <Cardiology>', 3]] },
+            { name: 'Daily', rows: [['Date'], ['2030-01-15']] },
+        ]));
+
+        expect(Object.keys(files)).toEqual([
+            '[Content_Types].xml', '_rels/.rels', 'xl/workbook.xml', 'xl/_rels/workbook.xml.rels',
+            'xl/worksheets/sheet1.xml', 'xl/worksheets/sheet2.xml',
+        ]);
+        expect(files['xl/workbook.xml']).toContain('<sheet name="Summary" sheetId="1" r:id="rId1"/><sheet name="Daily" sheetId="2" r:id="rId2"/>');
+        expect(files['xl/worksheets/sheet1.xml']).toContain(
+            '<row r="2"><c r="A2" t="inlineStr"><is><t xml:space="preserve">Dr. Ravi &lt;Cardiology&gt;</t></is></c><c r="B2"><v>3</v></c></row>'
+        );
+    });
+
+    it('names columns past Z', () => {
+        const files = unzip(toXlsx([{ name: 'Wide', rows: [Array.from({ length: 28 }, (_, i) => i)] }]));
+        expect(files['xl/worksheets/sheet1.xml']).toContain('<c r="AB1"><v>27</v></c>');
+    });
+});
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { createHandler } from '../netlify/functions/staffLogin';
+import type { StaffSessions } from '../netlify/functions/lib/auth';
+import { createMemoryStore } from '../netlify/functions/lib/data/memoryStore';
+import { invoke } from './helpers';
+
+const tokens = (userId: string) => ({ userId, accessToken: `access-${userId}`, refreshToken: `refresh-${userId}`, expiresAt: 1893456000 });
+
+const sessions: StaffSessions = {
+    async signIn(email, password) {
+        if (password !== 'correct horse') return null;
+        return tokens(email === 'desk@prudence.example' ? 'user-1' : 'user-9');
+    },
+    async refresh(refreshToken) {
+        return refreshToken === 'refresh-user-1' ? tokens('user-1') : null;
+    },
+};
+
+const store = createMemoryStore({
+    staff: [{ user_id: 'user-1', email: 'desk@prudence.example', name: 'Front Desk', role: 'receptionist', doctor_id: null }],
+});
+
+describe('staffLogin', () => {
+    it('signs staff in with their role', async () => {
+        const res = await invoke(createHandler(store, sessions), { email: 'desk@prudence.example', password: 'correct horse' });
+
+        expect(res.statusCode).toBe(200);
+        expect(res.body).toMatchObject({
+            accessToken: 'access-user-1',
+            refreshToken: 'refresh-user-1',
+            staff: { name: 'Front Desk', role: 'receptionist', doctorId: null },
+        });
+    });
+
+    it('extends a session with a refresh token', async () => {
+        const res = await invoke(createHandler(store, sessions), { refreshToken: 'refresh-user-1' });
+        expect(res.body.accessToken).toBe('access-user-1');
+    });
+
+    it('returns 401 for a wrong password or a stale refresh token', async () => {
+        const handler = createHandler(store, sessions);
+        expect((await invoke(handler, { email: 'desk@prudence.example', password: 'guess' })).statusCode).toBe(401);
+        expect((await invoke(handler, { refreshToken: 'refresh-old' })).statusCode).toBe(401);
+    });
+
+    it('returns 403 for an account that is not staff', async () => {
+        const res = await invoke(createHandler(store, sessions), { email: 'patient@example.com', password: 'correct horse' });
+        expect(res.statusCode).toBe(403);
+    });
+
+    it('returns 400 without credentials', async () => {
+        const res = await invoke(createHandler(store, sessions), { email: 'desk@prudence.example' });
+        expect(res.statusCode).toBe(400);
+    });
+});
@@ -0,0 +1,37 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { synthesizeSpeech } from '../netlify/functions/lib/speech';
+import { handler } from '../netlify/functions/textToSpeech';
+import { invoke } from './helpers';
+
+vi.mock('../netlify/functions/lib/speech', () => ({ synthesizeSpeech: vi.fn() }));
+
+describe('textToSpeech', () => {
+    beforeEach(() => {
+        vi.mocked(synthesizeSpeech).mockReset().mockResolvedValue({ audioContent: 'UklGRg==', mimeType: 'audio/wav' });
+    });
+
+    it('returns the audio with its MIME type', async () => {
+        const res = await invoke(handler, { text: 'నమస్కారం' });
+
+        expect(res.statusCode).toBe(200);
+        expect(res.body).toEqual({ audioContent: 'UklGRg==', mimeType: 'audio/wav' });
+    });
+
+    it('passes the requested language and voice on', async () => {
+        await invoke(handler, { text: 'Hello', language: 'en-IN', voice: 'Puck' });
+        expect(synthesizeSpeech).toHaveBeenCalledWith('Hello', { language: 'en-IN', voice: 'Puck' });
+    });
+
+    it('reports an error when no provider could speak', async () => {
+        vi.mocked(synthesizeSpeech).mockRejectedValue(new Error('Speech synthesis failed. gemini: quota'));
+
+        const res = await invoke(handler, { text: 'నమస్కారం' });
+        expect(res.statusCode).toBe(500);
+        expect(res.body.error).toContain('gemini: quota');
+    });
+
+    it('returns 400 without text', async () => {
+        const res = await invoke(handler, {});
+        expect(res.statusCode).toBe(400);
+    });
+});
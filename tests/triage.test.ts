@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { escalate, triage } from '../netlify/functions/lib/triage';
+import { seedStore, triageRules } from './helpers';
+
+describe('triage', () => {
+    it('suggests the department for Telugu and English symptoms', () => {
+        expect(triage(triageRules, 'నాకు మోకాలి నొప్పి ఉంది')).toEqual({ status: 'routed', specialties: ['Orthopedics'], matched: ['bones and joints'] });
+        expect(triage(triageRules, 'Palpitations since morning')).toMatchObject({ specialties: ['Cardiology'] });
+    });
+
+    it('ranks departments by how many rules matched', () => {
+        expect(triage(triageRules, 'my child has fever')).toMatchObject({ specialties: ['Pediatrics', 'General Medicine'] });
+    });
+
+    it('lets a red flag override everything else', () => {
+        expect(triage(triageRules, 'జ్వరం, ఛాతీ నొప్పి కూడా ఉంది')).toEqual({ status: 'emergency', redFlags: ['chest pain'] });
+        expect(triage(triageRules, 'He can’t breathe properly')).toEqual({ status: 'emergency', redFlags: ['breathing difficulty'] });
+    });
+
+    it('matches English keywords as whole words only', () => {
+        expect(triage(triageRules, 'the children\'s ward')).toEqual({ status: 'unmatched' });
+    });
+});
+
+describe('escalate', () => {
+    it('logs the escalation for staff', async () => {
+        const store = seedStore();
+        await escalate(store, 'session-1', 'ఛాతీ నొప్పి', ['chest pain']);
+
+        expect(store.tables.emergency_escalations).toMatchObject([
+            { session_id: 'session-1', symptoms: 'ఛాతీ నొప్పి', red_flags: ['chest pain'], status: 'open' },
+        ]);
+    });
+
+    it('never throws when the log cannot be written', async () => {
+        const store = seedStore();
+        store.triage.recordEscalation = async () => { throw new Error('database down'); };
+
+        await expect(escalate(store, null, 'chest pain', ['chest pain'])).resolves.toBeNull();
+    });
+});
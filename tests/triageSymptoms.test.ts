@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { createHandler } from '../netlify/functions/triageSymptoms';
+import { createMemoryStore } from '../netlify/functions/lib/data/memoryStore';
+import { SESSION_HEADER } from '../netlify/functions/lib/sessions';
+import { invoke, triageRules } from './helpers';
+
+const store = () => createMemoryStore({ triage_rules: triageRules });
+
+describe('triageSymptoms', () => {
+    it('suggests departments for the symptoms', async () => {
+        const res = await invoke(createHandler(store()), { symptoms: 'పాప కి జ్వరం' });
+
+        expect(res.statusCode).toBe(200);
+        expect(res.body).toEqual({ success: true, emergency: false, specialties: ['Pediatrics', 'General Medicine'], matched: ['children', 'fever'] });
+    });
+
+    it('stops at a red flag, gives the emergency number and flags it for staff', async () => {
+        const db = store();
+        const res = await invoke(createHandler(db), { symptoms: 'ఛాతీ నొప్పి గా ఉంది' }, 'POST', { headers: { [SESSION_HEADER]: '6f1c2a40-0000-4000-8000-000000000001' } });
+
+        expect(res.body).toMatchObject({ success: true, emergency: true, emergencyNumber: '108', redFlags: ['chest pain'] });
+        expect(res.body.message).toContain('Do not book');
+        expect(db.tables.emergency_escalations).toMatchObject([{ session_id: '6f1c2a40-0000-4000-8000-000000000001', symptoms: 'ఛాతీ నొప్పి గా ఉంది', status: 'open' }]);
+    });
+
+    it('asks for more detail when nothing matches', async () => {
+        const res = await invoke(createHandler(store()), { symptoms: 'not feeling well' });
+        expect(res.body).toMatchObject({ success: true, emergency: false, specialties: [] });
+    });
+
+    it('returns 400 without symptoms', async () => {
+        const res = await invoke(createHandler(store()), {});
+        expect(res.body).toMatchObject({ code: 'MISSING_FIELD', field: 'symptoms' });
+    });
+});
@@ -0,0 +1,95 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { checkSlotOffered, validateArgs } from '../netlify/functions/lib/validation';
+import { doctors, seedStore } from './helpers';
+
+const errorOf = (result: ReturnType<typeof validateArgs>) =>
+    result.status === 'invalid' ? result.error : null;
+
+describe('validateArgs', () => {
+    afterEach(() => { vi.useRealTimers(); });
+
+    it('returns the arguments normalised', () => {
+        expect(validateArgs('bookAppointment', {
+            patientName: '  Sita ', phone: '+91 91234 56780', doctorName: 'Ravi', date: '2030-01-15', time: '9:05', extra: 'ignored'
+        })).toEqual({
+            status: 'valid',
+            args: { patientName: 'Sita', phone: '+919123456780', doctorName: 'Ravi', date: '2030-01-15', time: '09:05' },
+        });
+    });
+
+    it('turns ids passed as text into numbers and Telugu times of day into their names', () => {
+        expect(validateArgs('cancelAppointment', { appointmentId: '42', phone: '9876543210' }))
+            .toEqual({ status: 'valid', args: { appointmentId: 42, phone: '+919876543210' } });
+        expect(validateArgs('getAvailableSlots', { doctorName: 'Ravi', date: '2030-01-15', timeOfDay: 'ఉదయం' }))
+            .toMatchObject({ args: { timeOfDay: 'morning' } });
+    });
+
+    it('names the missing field', () => {
+        expect(errorOf(validateArgs('getPatientAppointments', {}))).toMatchObject({ code: 'MISSING_FIELD', field: 'phone' });
+        expect(errorOf(validateArgs('holdSlot', { doctorName: 'Ravi', date: '2030-01-15', time: '  ' })))
+            .toMatchObject({ code: 'MISSING_FIELD', field: 'time' });
+    });
+
+    it('rejects numbers that are not Indian mobiles', () => {
+        for (const phone of ['12345', '5123456789', '+44 7700 900123']) {
+            expect(errorOf(validateArgs('getPatientAppointments', { phone }))).toMatchObject({ code: 'INVALID_PHONE', field: 'phone' });
+        }
+    });
+
+    it('rejects dates that are not ISO calendar dates', () => {
+        for (const date of ['15-01-2030', '2030-02-30', '2030-13-01', 'tomorrow']) {
+            expect(errorOf(validateArgs('getAvailableSlots', { doctorName: 'Ravi', date }))).toMatchObject({ code: 'INVALID_DATE', field: 'date' });
+        }
+    });
+
+    it('rejects dates before today at the hospital', () => {
+        vi.useFakeTimers({ toFake: ['Date'] });
+        vi.setSystemTime(new Date('2030-01-14T20:00:00Z')); // already the 15th in India
+
+        expect(errorOf(validateArgs('rescheduleAppointment', { appointmentId: 1, phone: '9876543210', newDate: '2030-01-14', newTime: '10:00' })))
+            .toMatchObject({ code: 'DATE_IN_PAST', field: 'newDate' });
+        expect(validateArgs('getAvailableSlots', { doctorName: 'Ravi', date: '2030-01-15' }).status).toBe('valid');
+    });
+
+    it('rejects times that are not 24-hour clock times', () => {
+        for (const time of ['25:00', '10:75', '10.30', '10:30 AM']) {
+            expect(errorOf(validateArgs('holdSlot', { doctorName: 'Ravi', date: '2030-01-15', time }))).toMatchObject({ code: 'INVALID_TIME', field: 'time' });
+        }
+    });
+
+    it('checks rules that span fields', () => {
+        const waitlist = { doctorName: 'Ravi', fromDate: '2030-01-15', toDate: '2030-01-14', patientName: 'Sita', phone: '9123456780' };
+        expect(errorOf(validateArgs('joinWaitlist', waitlist))).toMatchObject({ code: 'INVALID_DATE_RANGE', field: 'toDate' });
+        expect(errorOf(validateArgs('joinWaitlist', { ...waitlist, timeOfDay: 'night' }))).toMatchObject({ code: 'INVALID_TIME_OF_DAY', field: 'timeOfDay' });
+        expect(validateArgs('bookAppointment', { patientName: 'Sita', phone: '9123456780', holdId: 7 }).status).toBe('valid');
+    });
+
+    it('rejects values of the wrong type', () => {
+        expect(errorOf(validateArgs('respondToWaitlistOffer', { phone: '9876543210', accept: 'yes' }))).toMatchObject({ code: 'INVALID_FIELD', field: 'accept' });
+        expect(errorOf(validateArgs('cancelAppointment', { appointmentId: 1.5, phone: '9876543210' }))).toMatchObject({ code: 'INVALID_FIELD', field: 'appointmentId' });
+    });
+});
+
+describe('checkSlotOffered', () => {
+    const ravi = doctors[0];
+
+    it('accepts one of the doctor\'s slots', async () => {
+        expect(await checkSlotOffered(seedStore(), ravi, { date: '2030-01-15', time: '10:30' })).toBeNull();
+    });
+
+    it('lists the offered times when the slot does not exist', async () => {
+        expect(await checkSlotOffered(seedStore(), ravi, { date: '2030-01-15', time: '12:00' }, { date: 'newDate', time: 'newTime' })).toEqual({
+            code: 'SLOT_NOT_OFFERED',
+            field: 'newTime',
+            message: 'Dr. Ravi Kumar has no 12:00 slot on 2030-01-15. Times offered: 10:00, 10:30, 11:00.',
+        });
+    });
+
+    it('blames the date when the doctor is on leave', async () => {
+        const store = seedStore();
+        store.tables.doctor_leave.push({ doctor_id: 1, start_date: '2030-01-10', end_date: '2030-01-20', reason: null });
+
+        expect(await checkSlotOffered(store, ravi, { date: '2030-01-15', time: '10:30' }))
+            .toMatchObject({ code: 'SLOT_NOT_OFFERED', field: 'date', message: 'Dr. Ravi Kumar is on leave on 2030-01-15.' });
+    });
+});
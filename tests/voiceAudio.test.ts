@@ -0,0 +1,49 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { HandlerContext, HandlerEvent, HandlerResponse } from '@netlify/functions';
+import { synthesizeSpeech } from '../netlify/functions/lib/speech';
+import { audioUrl } from '../netlify/functions/lib/telephony';
+import { createHandler } from '../netlify/functions/voiceAudio';
+
+vi.mock('../netlify/functions/lib/speech', async importOriginal => ({
+    ...await importOriginal<typeof import('../netlify/functions/lib/speech')>(),
+    synthesizeSpeech: vi.fn(async () => ({ audioContent: Buffer.from('RIFF....WAVE').toString('base64'), mimeType: 'audio/wav' })),
+}));
+
+const fetchAudio = async (query: Record<string, string>) =>
+    await createHandler()({ httpMethod: 'GET', headers: {}, queryStringParameters: query } as unknown as HandlerEvent, {} as HandlerContext) as HandlerResponse;
+
+describe('voiceAudio', () => {
+    beforeEach(() => {
+        vi.stubEnv('VOICE_WEBHOOK_TOKEN', 'voice-secret');
+    });
+
+    afterEach(() => {
+        vi.unstubAllEnvs();
+    });
+
+    it('voices a signed text in the line\'s language', async () => {
+        const query = Object.fromEntries(new URL(audioUrl('నమస్కారం'), 'http://localhost').searchParams);
+        const res = await fetchAudio(query);
+
+        expect(res.statusCode).toBe(200);
+        expect(res.headers?.['Content-Type']).toBe('audio/wav');
+        expect(res.isBase64Encoded).toBe(true);
+        expect(Buffer.from(res.body || '', 'base64').toString()).toBe('RIFF....WAVE');
+        expect(synthesizeSpeech).toHaveBeenCalledWith('నమస్కారం', { language: 'te-IN' });
+    });
+
+    it('refuses texts it did not sign', async () => {
+        const query = Object.fromEntries(new URL(audioUrl('నమస్కారం'), 'http://localhost').searchParams);
+        const res = await fetchAudio({ ...query, text: 'something else' });
+
+        expect(res.statusCode).toBe(403);
+    });
+
+    it('refuses every text while VOICE_WEBHOOK_TOKEN is unset', async () => {
+        vi.stubEnv('VOICE_WEBHOOK_TOKEN', '');
+        const query = Object.fromEntries(new URL(audioUrl('నమస్కారం'), 'http://localhost').searchParams);
+        const res = await fetchAudio(query);
+
+        expect(res.statusCode).toBe(403);
+    });
+});
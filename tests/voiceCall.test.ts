@@ -0,0 +1,170 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { runAssistant } from '../netlify/functions/lib/assistant';
+import { createHandler } from '../netlify/functions/voiceCall';
+import { createCallDriver } from './callDriver';
+import { seedStore } from './helpers';
+
+vi.mock('../netlify/functions/lib/assistant', () => ({ runAssistant: vi.fn() }));
+
+const holdTurn = { role: 'tool' as const, tool_name: 'holdSlot', tool_args: {}, tool_result: { success: true, holdId: 7 } };
+const bookTurn = { role: 'tool' as const, tool_name: 'bookAppointment', tool_args: { holdId: 7 }, tool_result: { success: true, appointmentId: 7 } };
+
+describe('voiceCall', () => {
+    beforeEach(() => {
+        vi.stubEnv('VOICE_WEBHOOK_TOKEN', 'voice-secret');
+        vi.mocked(runAssistant).mockReset().mockImplementation(async ({ message }) => ({
+            reply: 'ఏ డాక్టర్ కావాలి?',
+            turns: [{ role: 'user', text: message }, { role: 'model', text: 'ఏ డాక్టర్ కావాలి?' }],
+        }));
+    });
+
+    afterEach(() => {
+        vi.unstubAllEnvs();
+    });
+
+    it('greets a new call and keeps its conversation by call id', async () => {
+        const store = seedStore();
+        const call = createCallDriver(createHandler(store));
+
+        const greeting = await call.dial();
+        expect(greeting.heard[0]).toContain('నమస్కారం');
+        expect(greeting.listening).toBe(true);
+
+        const answer = await call.say('డాక్టర్ అపాయింట్‌మెంట్ కావాలి');
+        expect(answer.heard).toEqual(['ఏ డాక్టర్ కావాలి?']);
+        await call.say('రవి కుమార్');
+
+        const [session] = store.tables.conversation_sessions;
+        expect(session.channel).toBe('voice');
+        expect(store.tables.voice_calls).toMatchObject([{ call_id: 'CA0001', session_id: session.id, caller: '+919876543210' }]);
+        expect(vi.mocked(runAssistant).mock.lastCall?.[0]).toMatchObject({ sessionId: session.id, message: 'రవి కుమార్' });
+        expect(vi.mocked(runAssistant).mock.lastCall?.[0].turns).toHaveLength(2);
+    });
+
+    it('plays signed TTS audio by default and the provider voice when asked', async () => {
+        const call = createCallDriver(createHandler(seedStore()));
+        expect((await call.dial()).twiml).toMatch(/<Play>\/\.netlify\/functions\/voiceAudio\?text=.+&amp;sig=.+<\/Play>/);
+
+        vi.stubEnv('VOICE_TTS', 'provider');
+        expect((await call.say('హలో')).twiml).toContain('<Say language="te-IN">ఏ డాక్టర్ కావాలి?</Say>');
+    });
+
+    it('asks for key 1 or 2 once the held slot has a name and phone, and turns the key into an answer', async () => {
+        vi.mocked(runAssistant).mockImplementationOnce(async ({ message }) => ({
+            reply: 'మీ పేరు?',
+            turns: [{ role: 'user', text: message }, holdTurn, { role: 'model', text: 'మీ పేరు?' }],
+        }));
+        const store = seedStore();
+        const call = createCallDriver(createHandler(store));
+        await call.dial();
+
+        const held = await call.say('రేపు పది గంటలకు');
+        expect(held.numDigits).toBeNull();
+        expect(store.tables.voice_calls[0].awaiting_confirmation).toBe(false);
+        await call.say('సీత');
+
+        const confirm = await call.press('9123456780');
+        expect(confirm.heard[1]).toContain('1');
+        expect(confirm.numDigits).toBe(1);
+        expect(store.tables.voice_calls[0].awaiting_confirmation).toBe(true);
+
+        vi.mocked(runAssistant).mockImplementationOnce(async ({ message }) => ({
+            reply: 'బుక్ అయింది.',
+            turns: [{ role: 'user', text: message }, bookTurn, { role: 'model', text: 'బుక్ అయింది.' }],
+        }));
+        await call.press('1');
+        expect(vi.mocked(runAssistant).mock.lastCall?.[0].message).toBe('అవును, బుక్ చేయండి.');
+        expect(store.tables.voice_calls[0].awaiting_confirmation).toBe(false);
+    });
+
+    it('passes other keys through, so a phone number can be typed', async () => {
+        const call = createCallDriver(createHandler(seedStore()));
+        await call.dial();
+
+        await call.press('9876543210');
+        expect(vi.mocked(runAssistant).mock.lastCall?.[0].message).toBe('9876543210');
+    });
+
+    it('takes a phone number keyed in after a hold as typed, not as a confirmation', async () => {
+        vi.mocked(runAssistant).mockImplementationOnce(async ({ message }) => ({
+            reply: 'మీ ఫోన్ నంబర్?',
+            turns: [{ role: 'user', text: message }, holdTurn, { role: 'model', text: 'మీ ఫోన్ నంబర్?' }],
+        }));
+        const store = seedStore();
+        const call = createCallDriver(createHandler(store));
+        await call.dial();
+
+        const held = await call.say('రేపు పది గంటలకు');
+        expect(held.numDigits).toBeNull();
+        expect(held.heard).toEqual(['మీ ఫోన్ నంబర్?']);
+
+        await call.press('1234567890');
+        expect(vi.mocked(runAssistant).mock.lastCall?.[0].message).toBe('1234567890');
+        expect(store.tables.voice_calls[0].awaiting_confirmation).toBe(false);
+    });
+
+    it('reprompts on silence and hands off after repeated silence', async () => {
+        const call = createCallDriver(createHandler(seedStore()));
+        await call.dial();
+
+        const first = await call.silence();
+        expect(first.listening).toBe(true);
+        expect(first.heard[0]).toContain('వినిపించలేదు');
+
+        const second = await call.silence();
+        expect(second.listening).toBe(false);
+        expect(second.hungUp).toBe(true);
+        expect(runAssistant).not.toHaveBeenCalled();
+    });
+
+    it('puts the caller through to the front desk on 0', async () => {
+        vi.stubEnv('FRONT_DESK_NUMBER', '+914012345678');
+        const call = createCallDriver(createHandler(seedStore()));
+        expect((await call.dial()).heard).toContain('రిసెప్షన్ తో మాట్లాడటానికి 0 నొక్కండి.');
+
+        const transfer = await call.press('0');
+        expect(transfer.transferredTo).toBe('+914012345678');
+    });
+
+    it('ends the call after emergency advice', async () => {
+        vi.mocked(runAssistant).mockImplementationOnce(async ({ message }) => ({
+            reply: 'వెంటనే 108 కు కాల్ చేయండి.',
+            turns: [
+                { role: 'user', text: message },
+                { role: 'tool', tool_name: 'triageSymptoms', tool_args: {}, tool_result: { success: true, emergency: true, emergencyNumber: '108' } },
+                { role: 'model', text: 'వెంటనే 108 కు కాల్ చేయండి.' },
+            ],
+        }));
+        const call = createCallDriver(createHandler(seedStore()));
+        await call.dial();
+
+        const advice = await call.say('ఛాతీ నొప్పి');
+        expect(advice.heard).toEqual(['వెంటనే 108 కు కాల్ చేయండి.']);
+        expect(advice.hungUp).toBe(true);
+    });
+
+    it('apologises and hands off when the assistant fails', async () => {
+        vi.mocked(runAssistant).mockRejectedValueOnce(new Error('model unavailable'));
+        const call = createCallDriver(createHandler(seedStore()));
+        await call.dial();
+
+        const failed = await call.say('హలో');
+        expect(failed.heard[0]).toContain('సాంకేతిక సమస్య');
+        expect(failed.hungUp).toBe(true);
+    });
+
+    it('marks the call ended when the provider reports it', async () => {
+        const store = seedStore();
+        const call = createCallDriver(createHandler(store));
+        await call.dial();
+
+        await call.hangUp();
+        expect(store.tables.voice_calls[0].ended_at).not.toBeNull();
+    });
+
+    it('refuses requests without the webhook token', async () => {
+        vi.stubEnv('VOICE_WEBHOOK_TOKEN', '');
+        const res = await createCallDriver(createHandler(seedStore())).dial();
+        expect(res.statusCode).toBe(403);
+    });
+});
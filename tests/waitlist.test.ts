@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import { createHandler as createCancelHandler } from '../netlify/functions/cancelAppointment';
+import type { WaitlistEntry } from '../netlify/functions/lib/data/types';
+import { createNotifier } from '../netlify/functions/lib/notifications';
+import { createWaitlist } from '../netlify/functions/lib/waitlist';
+import { confirmed, invoke, recordingProvider, seedStore } from './helpers';
+
+const waiting = (overrides: Partial<WaitlistEntry> = {}): WaitlistEntry => ({
+    id: 1,
+    doctor_id: 1,
+    patient_id: 2,
+    patient_name: 'Kamala',
+    phone: '+919876543210',
+    from_date: '2030-01-14',
+    to_date: '2030-01-16',
+    time_of_day: null,
+    status: 'waiting',
+    offer_appointment_id: null,
+    offer_expires_at: null,
+    session_id: null,
+    created_at: '2030-01-01T00:00:00Z',
+    ...overrides,
+});
+
+const setup = (entries: WaitlistEntry[], appointments = [confirmed()]) => {
+    const store = seedStore(appointments);
+    store.tables.waitlist_entries.push(...entries);
+    const { provider, sent } = recordingProvider();
+    const notifier = createNotifier(store, provider, 'en');
+    return { store, sent, notifier, waitlist: createWaitlist(store, notifier) };
+};
+
+const slot = { doctorId: 1, date: '2030-01-15', time: '10:00' };
+
+describe('waitlist', () => {
+    it('offers a cancelled slot to the first patient in line as a hold', async () => {
+        const { store, sent, notifier, waitlist } = setup([
+            waiting({ id: 1, patient_name: 'Kamala', created_at: '2030-01-01T00:00:00Z' }),
+            waiting({ id: 2, patient_name: 'Sita', phone: '+919123456780', created_at: '2030-01-02T00:00:00Z' }),
+        ]);
+
+        const res = await invoke(createCancelHandler(store, notifier, waitlist), { appointmentId: 100, phone: '9876543210' });
+
+        expect(res.statusCode).toBe(200);
+        const hold = store.tables.appointments.find(a => a.status === 'held');
+        expect(store.tables.waitlist_entries.map(w => w.status)).toEqual(['offered', 'waiting']);
+        expect(store.tables.waitlist_entries[0].offer_appointment_id).toBe(hold?.id);
+        expect(sent.at(-1)?.body).toMatch(/^Dear Kamala, a slot with Dr. Ravi Kumar opened on 15-01-2030 at 10:00\. It is held for you until \d\d:\d\d/);
+    });
+
+    it('skips patients whose dates or time of day do not fit', async () => {
+        const { waitlist } = setup([
+            waiting({ id: 1, from_date: '2030-01-16' }),
+            waiting({ id: 2, time_of_day: 'evening' }),
+            waiting({ id: 3, time_of_day: 'morning' }),
+        ], []);
+
+        expect((await waitlist.offerFreedSlot(slot))?.id).toBe(3);
+    });
+
+    it('books the slot when the offer is accepted', async () => {
+        const { store, waitlist } = setup([waiting()], []);
+        const offer = await waitlist.offerFreedSlot(slot);
+
+        const result = await waitlist.respond(offer!, true);
+
+        expect(result.status).toBe('booked');
+        expect(store.tables.appointments).toMatchObject([{ patient_id: 2, patient_name: 'Kamala', status: 'confirmed', appointment_time: '10:00' }]);
+        expect(store.tables.waitlist_entries[0].status).toBe('booked');
+        expect(store.tables.appointment_events.map(e => [e.actor_type, e.channel, e.before?.status ?? null, e.after.status]))
+            .toEqual([['system', 'waitlist', null, 'held'], ['system', 'waitlist', 'held', 'confirmed']]);
+    });
+
+    it('passes a declined offer to the next patient', async () => {
+        const { store, waitlist } = setup([waiting({ id: 1 }), waiting({ id: 2, patient_name: 'Sita' })], []);
+        const offer = await waitlist.offerFreedSlot(slot);
+
+        expect((await waitlist.respond(offer!, false)).status).toBe('declined');
+        expect(store.tables.waitlist_entries.map(w => w.status)).toEqual(['declined', 'offered']);
+        expect(store.tables.appointments.map(a => a.status)).toEqual(['expired', 'held']);
+    });
+
+    it('passes a lapsed offer to the next patient', async () => {
+        const { store, waitlist } = setup([waiting({ id: 1 }), waiting({ id: 2, patient_name: 'Sita' })], []);
+        await waitlist.offerFreedSlot(slot);
+        store.tables.appointments[0].hold_expires_at = '2000-01-01T00:00:00Z';
+        store.tables.waitlist_entries[0].offer_expires_at = '2000-01-01T00:00:00Z';
+
+        expect(await waitlist.expireOffers()).toBe(1);
+        expect(store.tables.waitlist_entries.map(w => w.status)).toEqual(['expired', 'offered']);
+        expect(store.tables.appointments.map(a => a.status)).toEqual(['expired', 'held']);
+        expect(store.tables.appointment_events.map(e => [e.appointment_id, e.before?.status ?? null, e.after.status]))
+            .toEqual([[1, null, 'held'], [1, 'held', 'expired'], [2, null, 'held']]);
+    });
+
+    it('does not offer a slot someone already booked', async () => {
+        const { store, waitlist } = setup([waiting()]);
+
+        expect(await waitlist.offerFreedSlot(slot)).toBeNull();
+        expect(store.tables.waitlist_entries[0].status).toBe('waiting');
+    });
+});
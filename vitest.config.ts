@@ -0,0 +1,12 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+    test: {
+        include: ['tests/**/*.test.ts'],
+        // The Supabase client is created at import time; tests inject the in-memory store instead.
+        env: {
+            SUPABASE_URL: 'http://localhost:54321',
+            SUPABASE_SERVICE_ROLE_KEY: 'test-service-role-key',
+        },
+    },
+});